@@ -0,0 +1,433 @@
+import { Propagation, PropagationBatch } from "./Propagation";
+import { Frames, OsvFrame } from "./computation/Frames";
+import { MathUtils } from "./computation/MathUtils";
+import { KeplerianElements, OrbitalElements } from "./computation/OrbitalElements";
+import { TimeConvention, TimeStamp } from "./computation/TimeCorrelation";
+import { Nutation, NutationData } from "./computation/Nutation";
+import { forceModelConstants } from "./computation/ForceModels";
+import { RootFinding } from "./computation/RootFinding";
+
+/**
+ * Configuration of the conjunction screening.
+ */
+export interface ConjunctionConfig
+{
+    // Maximum miss distance of the reported conjunctions (meters).
+    threshold : number;
+    // Sampling interval of the screening (seconds).
+    timeStep : number;
+    // Accuracy of the time of closest approach (seconds).
+    tolerance : number;
+    // Upper bound for the relative velocity of two targets (meters per second). Pairs
+    // closer than the threshold plus the distance traveled in half time step with this
+    // velocity are refined.
+    maxRelativeVelocity : number;
+    // Margin added to the threshold in the apogee/perigee filter, which accounts for the
+    // variation of the osculating elements during the time window (meters).
+    filterPadding : number;
+}
+
+/**
+ * Default conjunction screening configuration.
+ */
+export const defaultConjunctionConfig : ConjunctionConfig = {
+    threshold : 5000.0,
+    timeStep : 60.0,
+    tolerance : 0.01,
+    maxRelativeVelocity : 16000.0,
+    filterPadding : 50000.0
+};
+
+/**
+ * Close approach of two targets.
+ */
+export interface Conjunction
+{
+    // Name of the primary target.
+    primaryName : string;
+    // Name of the secondary target.
+    secondaryName : string;
+    // Time of closest approach (Julian time, UT1).
+    JTtca : number;
+    // Distance of the targets at the time of closest approach (meters).
+    missDistance : number;
+    // Magnitude of the relative velocity at the time of closest approach (meters per second).
+    relativeVelocity : number;
+    // Radial component of the position of the secondary w.r.t. the primary (meters).
+    radial : number;
+    // In-track component of the position of the secondary w.r.t. the primary (meters).
+    inTrack : number;
+    // Cross-track component of the position of the secondary w.r.t. the primary (meters).
+    crossTrack : number;
+}
+
+/**
+ * Class implementing the screening of close approaches between the targets of a
+ * propagation. Pairs, whose ranges of radii do not overlap, are discarded with an
+ * apogee/perigee filter. The remaining pairs are checked at regular time steps and the
+ * times of closest approach of pairs close to each other are refined with golden-section
+ * search.
+ */
+export class ConjunctionScreening
+{
+    // Propagation of the targets.
+    private propagation : Propagation;
+    // Configuration.
+    private config : ConjunctionConfig;
+
+    /**
+     * Public constructor.
+     *
+     * @param {Propagation} propagation
+     *      Initialized propagation of the targets.
+     * @param {ConjunctionConfig} config
+     *      Configuration.
+     */
+    constructor(propagation : Propagation, config : ConjunctionConfig = defaultConjunctionConfig)
+    {
+        this.propagation = propagation;
+        this.config = config;
+    }
+
+    /**
+     * Compute the OSV of a target in TEME frame.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @param {NutationData} nutation
+     *      Nutation data.
+     * @returns {OsvFrame | null} The OSV or null if the propagation fails.
+     */
+    private computeTeme(targetName : string, JT : number, nutation : NutationData) : OsvFrame | null
+    {
+        const osvEfi : OsvFrame | null = this.propagation.propagateOneEfi(targetName, JT, nutation);
+
+        if (osvEfi === null)
+        {
+            return null;
+        }
+
+        return Frames.coordPefTeme(Frames.coordEfiPef(osvEfi));
+    }
+
+    /**
+     * Compute the distance between two targets.
+     *
+     * @param {string} primaryName
+     *      Name of the primary target.
+     * @param {string} secondaryName
+     *      Name of the secondary target.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @param {NutationData} nutation
+     *      Nutation data.
+     * @returns {number} The distance (meters). If the propagation fails, the distance is
+     *      infinite.
+     */
+    private computeDistance(primaryName : string, secondaryName : string, JT : number,
+        nutation : NutationData) : number
+    {
+        const osvPrimary : OsvFrame | null = this.propagation.propagateOneEfi(primaryName, JT, nutation);
+        const osvSecondary : OsvFrame | null = this.propagation.propagateOneEfi(secondaryName, JT, nutation);
+
+        if (osvPrimary === null || osvSecondary === null)
+        {
+            return Infinity;
+        }
+
+        return MathUtils.norm(MathUtils.vecDiff(osvSecondary.position, osvPrimary.position));
+    }
+
+    /**
+     * Create conjunction from the states of the targets at the time of closest approach.
+     * The position of the secondary is decomposed in the radial, in-track and cross-track
+     * directions of the primary.
+     *
+     * @param {string} primaryName
+     *      Name of the primary target.
+     * @param {string} secondaryName
+     *      Name of the secondary target.
+     * @param {OsvFrame} osvPrimary
+     *      OSV of the primary in TEME frame.
+     * @param {OsvFrame} osvSecondary
+     *      OSV of the secondary in TEME frame.
+     * @returns {Conjunction} The conjunction.
+     */
+    static createConjunction(primaryName : string, secondaryName : string,
+        osvPrimary : OsvFrame, osvSecondary : OsvFrame) : Conjunction
+    {
+        const dr : number[] = MathUtils.vecDiff(osvSecondary.position, osvPrimary.position);
+        const dv : number[] = MathUtils.vecDiff(osvSecondary.velocity, osvPrimary.velocity);
+
+        const h : number[] = MathUtils.cross(osvPrimary.position, osvPrimary.velocity);
+        const uRadial : number[] = MathUtils.vecMul(osvPrimary.position, 1.0 / MathUtils.norm(osvPrimary.position));
+        const uCrossTrack : number[] = MathUtils.vecMul(h, 1.0 / MathUtils.norm(h));
+        const uInTrack : number[] = MathUtils.cross(uCrossTrack, uRadial);
+
+        return {
+            primaryName : primaryName,
+            secondaryName : secondaryName,
+            JTtca : osvPrimary.timeStamp.JTut1,
+            missDistance : MathUtils.norm(dr),
+            relativeVelocity : MathUtils.norm(dv),
+            radial : MathUtils.dot(dr, uRadial),
+            inTrack : MathUtils.dot(dr, uInTrack),
+            crossTrack : MathUtils.dot(dr, uCrossTrack)
+        };
+    }
+
+    /**
+     * Compute the perigee and the apogee radii of the targets from the osculating
+     * elements at the given time.
+     *
+     * @param {string[]} targetNames
+     *      Names of the targets.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @param {NutationData} nutation
+     *      Nutation data.
+     * @returns {Float64Array[]} The perigee and the apogee radii (meters). The radii of
+     *      targets, for which the propagation fails, are NaN.
+     */
+    private computeRadii(targetNames : string[], JT : number, nutation : NutationData) : Float64Array[]
+    {
+        const perigee : Float64Array = new Float64Array(targetNames.length);
+        const apogee : Float64Array = new Float64Array(targetNames.length);
+
+        for (let indTarget = 0; indTarget < targetNames.length; indTarget++)
+        {
+            const osvTeme : OsvFrame | null = this.computeTeme(targetNames[indTarget], JT, nutation);
+
+            if (osvTeme === null)
+            {
+                perigee[indTarget] = NaN;
+                apogee[indTarget] = NaN;
+                continue;
+            }
+
+            const elements : KeplerianElements = OrbitalElements.osvKeplerian(osvTeme);
+            const e : number = elements.eccentricity;
+            perigee[indTarget] = elements.semiMajorAxis * (1.0 - e);
+            // Hyperbolic orbits are unbounded.
+            apogee[indTarget] = (e < 1.0) ? elements.semiMajorAxis * (1.0 + e) : Infinity;
+        }
+
+        return [perigee, apogee];
+    }
+
+    /**
+     * Screen the conjunctions of a target with all other targets.
+     *
+     * @param {string} primaryName
+     *      Name of the primary target.
+     * @param {number} JTstart
+     *      Start of the time window (Julian time, UT1).
+     * @param {number} JTend
+     *      End of the time window (Julian time, UT1).
+     * @returns {Conjunction[]} The conjunctions in the order of time.
+     */
+    screenTarget(primaryName : string, JTstart : number, JTend : number) : Conjunction[]
+    {
+        if (!(primaryName in this.propagation.getPropagationData()))
+        {
+            throw Error("Target " + primaryName + " not found");
+        }
+
+        return this.screen(primaryName, JTstart, JTend);
+    }
+
+    /**
+     * Screen the conjunctions between all pairs of targets.
+     *
+     * @param {number} JTstart
+     *      Start of the time window (Julian time, UT1).
+     * @param {number} JTend
+     *      End of the time window (Julian time, UT1).
+     * @returns {Conjunction[]} The conjunctions in the order of time.
+     */
+    screenAll(JTstart : number, JTend : number) : Conjunction[]
+    {
+        return this.screen(null, JTstart, JTend);
+    }
+
+    /**
+     * Screen the conjunctions. Targets, for which the propagation fails at the start
+     * of the time window, are not screened.
+     *
+     * @param {string | null} primaryName
+     *      Name of the primary target or null for all pairs of targets.
+     * @param {number} JTstart
+     *      Start of the time window (Julian time, UT1).
+     * @param {number} JTend
+     *      End of the time window (Julian time, UT1).
+     * @returns {Conjunction[]} The conjunctions in the order of time.
+     */
+    private screen(primaryName : string | null, JTstart : number, JTend : number) : Conjunction[]
+    {
+        const batch : PropagationBatch = this.propagation.createBatch();
+        const targetNames : string[] = batch.targetNames;
+        const numTargets : number = targetNames.length;
+        const indPrimary : number = (primaryName === null) ? -1 : targetNames.indexOf(primaryName);
+
+        const JTstep : number = this.config.timeStep / 86400.0;
+        const numSamples : number = Math.max(Math.ceil((JTend - JTstart) / JTstep), 1) + 1;
+        const gate : number = this.config.threshold
+                            + 0.5 * this.config.maxRelativeVelocity * this.config.timeStep;
+        // Upper bound for the deviation of the relative motion from a line during one time
+        // step relative to the distance. The deviation is caused by the rotation of the EFI
+        // frame and the difference of the gravitational accelerations of the targets.
+        const radiusEarth : number = forceModelConstants.radiusEarth;
+        const linearMargin : number = forceModelConstants.omegaEarth * this.config.timeStep
+            + forceModelConstants.muEarth / (radiusEarth * radiusEarth * radiusEarth)
+            * this.config.timeStep * this.config.timeStep;
+
+        const timeStampStart : TimeStamp = this.propagation.timeCorrelation.computeTimeStamp(
+            JTstart, TimeConvention.TIME_UT1, false);
+        let nutation : NutationData = Nutation.iau1980(timeStampStart);
+        let JTnutation : number = JTstart;
+
+        // Apogee/perigee filter.
+        const [perigee, apogee] = this.computeRadii(targetNames, JTstart, nutation);
+        const filterMargin : number = this.config.threshold + this.config.filterPadding;
+        const passesFilter = (indA : number, indB : number) : boolean =>
+            Math.max(perigee[indA], perigee[indB]) - Math.min(apogee[indA], apogee[indB]) <= filterMargin;
+
+        const conjunctions : Conjunction[] = [];
+        // Latest times of closest approach for each pair used to skip duplicates found
+        // from adjacent samples.
+        const JTtcaPrev : {[key : string] : number} = {};
+        const order : number[] = [];
+
+        for (let indSample = 0; indSample < numSamples; indSample++)
+        {
+            const JT : number = Math.min(JTstart + indSample * JTstep, JTend);
+
+            // The nutation is updated once per day.
+            if (Math.abs(JT - JTnutation) > 1.0)
+            {
+                const timeStamp : TimeStamp = this.propagation.timeCorrelation.computeTimeStamp(
+                    JT, TimeConvention.TIME_UT1, false);
+                nutation = Nutation.iau1980(timeStamp);
+                JTnutation = JT;
+            }
+            this.propagation.propagateBatch(JT, batch, nutation);
+            const position : Float64Array = batch.position;
+
+            const velocity : Float64Array = batch.velocity;
+
+            const candidates : number[][] = [];
+            const isCandidate = (indA : number, indB : number) : boolean => {
+                const dx : number = position[3 * indB] - position[3 * indA];
+                const dy : number = position[3 * indB + 1] - position[3 * indA + 1];
+                const dz : number = position[3 * indB + 2] - position[3 * indA + 2];
+                const distSquared : number = dx * dx + dy * dy + dz * dz;
+
+                if (distSquared >= gate * gate || !passesFilter(indA, indB))
+                {
+                    return false;
+                }
+
+                // Closest approach within the step with linear relative motion.
+                const dvx : number = velocity[3 * indB] - velocity[3 * indA];
+                const dvy : number = velocity[3 * indB + 1] - velocity[3 * indA + 1];
+                const dvz : number = velocity[3 * indB + 2] - velocity[3 * indA + 2];
+                const speedSquared : number = dvx * dvx + dvy * dvy + dvz * dvz;
+                let t : number = (speedSquared > 0.0)
+                               ? -(dx * dvx + dy * dvy + dz * dvz) / speedSquared : 0.0;
+                t = Math.max(-this.config.timeStep, Math.min(this.config.timeStep, t));
+                const mx : number = dx + dvx * t;
+                const my : number = dy + dvy * t;
+                const mz : number = dz + dvz * t;
+                const missLinear : number = Math.sqrt(mx * mx + my * my + mz * mz);
+
+                return missLinear < this.config.threshold + Math.sqrt(distSquared) * linearMargin;
+            };
+
+            if (indPrimary >= 0)
+            {
+                for (let indTarget = 0; indTarget < numTargets; indTarget++)
+                {
+                    if (indTarget != indPrimary && batch.valid[indPrimary] && batch.valid[indTarget]
+                        && isCandidate(indPrimary, indTarget))
+                    {
+                        candidates.push([indPrimary, indTarget]);
+                    }
+                }
+            }
+            else
+            {
+                // Sweep the targets in the order of the x-coordinate so that only the
+                // targets within the gate in x are compared.
+                order.length = 0;
+                for (let indTarget = 0; indTarget < numTargets; indTarget++)
+                {
+                    if (batch.valid[indTarget] && !isNaN(perigee[indTarget]))
+                    {
+                        order.push(indTarget);
+                    }
+                }
+                order.sort((indA, indB) => position[3 * indA] - position[3 * indB]);
+
+                for (let indOrder = 0; indOrder < order.length; indOrder++)
+                {
+                    const indA : number = order[indOrder];
+
+                    for (let indOrderB = indOrder + 1; indOrderB < order.length; indOrderB++)
+                    {
+                        const indB : number = order[indOrderB];
+
+                        if (position[3 * indB] - position[3 * indA] >= gate)
+                        {
+                            break;
+                        }
+                        if (isCandidate(indA, indB))
+                        {
+                            candidates.push((indA < indB) ? [indA, indB] : [indB, indA]);
+                        }
+                    }
+                }
+            }
+
+            for (let indCandidate = 0; indCandidate < candidates.length; indCandidate++)
+            {
+                const [indA, indB] = candidates[indCandidate];
+                const nameA : string = targetNames[indA];
+                const nameB : string = targetNames[indB];
+                const key : string = indA + "," + indB;
+
+                const JTa : number = Math.max(JT - JTstep, JTstart);
+                const JTb : number = Math.min(JT + JTstep, JTend);
+                const JTtca : number = RootFinding.findMinimum((JTin : number) : number =>
+                    this.computeDistance(nameA, nameB, JTin, nutation), JTa, JTb, this.config.tolerance);
+
+                // A minimum at the boundary of the bracket, which is not the boundary of
+                // the time window, is found from the adjacent sample.
+                const atBoundary : boolean = (JTa > JTstart && (JTtca - JTa) * 86400.0 < this.config.tolerance)
+                                          || (JTb < JTend && (JTb - JTtca) * 86400.0 < this.config.tolerance);
+                if (atBoundary || (key in JTtcaPrev && Math.abs(JTtca - JTtcaPrev[key]) < JTstep))
+                {
+                    continue;
+                }
+
+                const osvA : OsvFrame | null = this.computeTeme(nameA, JTtca, nutation);
+                const osvB : OsvFrame | null = this.computeTeme(nameB, JTtca, nutation);
+                if (osvA === null || osvB === null)
+                {
+                    continue;
+                }
+
+                const conjunction : Conjunction = ConjunctionScreening.createConjunction(
+                    nameA, nameB, osvA, osvB);
+                if (conjunction.missDistance < this.config.threshold)
+                {
+                    JTtcaPrev[key] = JTtca;
+                    conjunctions.push(conjunction);
+                }
+            }
+        }
+
+        return conjunctions.sort((a, b) => a.JTtca - b.JTtca);
+    }
+}
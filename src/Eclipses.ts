@@ -0,0 +1,317 @@
+import { Propagation } from "./Propagation";
+import { Frame, Frames, OsvFrame } from "./computation/Frames";
+import { MathUtils } from "./computation/MathUtils";
+import { Vsop87A } from "./computation/Vsop87A";
+import { Nutation, NutationData } from "./computation/Nutation";
+import { TimeConvention, TimeStamp } from "./computation/TimeCorrelation";
+import { RootFinding } from "./computation/RootFinding";
+
+// Radius of the Sun (meters).
+const radiusSun : number = 6.96e8;
+// Equatorial and polar radii of the WGS84 ellipsoid (meters).
+const radiusEarthEquator : number = 6378137.0;
+const radiusEarthPolar : number = 6356752.314245;
+
+/**
+ * Illumination state of a target.
+ */
+export enum IlluminationState
+{
+    // The Sun is not occulted by the Earth.
+    SUNLIT,
+    // The Sun is partially occulted by the Earth.
+    PENUMBRA,
+    // The Sun is fully occulted by the Earth.
+    UMBRA
+}
+
+/**
+ * Configuration of the eclipse computation.
+ */
+export interface EclipseConfig
+{
+    // Whether the oblateness of the Earth is taken into account.
+    oblateEarth : boolean;
+    // Sampling interval used to bracket the events (seconds).
+    timeStep : number;
+    // Accuracy of the event times (seconds).
+    tolerance : number;
+}
+
+/**
+ * Default eclipse configuration.
+ */
+export const defaultEclipseConfig : EclipseConfig = {
+    oblateEarth : true,
+    timeStep : 30.0,
+    tolerance : 0.01
+};
+
+/**
+ * Geometry of the Earth shadow for a target.
+ */
+export interface ShadowGeometry
+{
+    // Fraction of the solar disk occulted by the Earth in [0, 1].
+    fraction : number;
+    // The angular separation of the penumbra boundary from the center of the Earth minus
+    // the separation of the Sun (degrees). Positive inside the penumbra.
+    penumbraMargin : number;
+    // The angular separation of the umbra boundary from the center of the Earth minus
+    // the separation of the Sun (degrees). Positive inside the umbra.
+    umbraMargin : number;
+}
+
+/**
+ * Interval of time, when the target is in umbra or penumbra. The penumbra intervals
+ * contain the umbra intervals.
+ */
+export interface EclipseInterval
+{
+    // UMBRA or PENUMBRA.
+    state : IlluminationState;
+    // Entry time (Julian time, UT1).
+    JTentry : number;
+    // Exit time (Julian time, UT1).
+    JTexit : number;
+    // Whether the interval is clipped by the start or the end of the time window.
+    partial : boolean;
+}
+
+/**
+ * Class implementing the computation of the eclipses of targets by the Earth with a
+ * conical shadow model.
+ */
+export class Eclipses
+{
+    // Propagation of the targets.
+    private propagation : Propagation;
+    // Configuration.
+    private config : EclipseConfig;
+
+    /**
+     * Public constructor.
+     *
+     * @param {Propagation} propagation
+     *      Initialized propagation of the targets.
+     * @param {EclipseConfig} config
+     *      Configuration.
+     */
+    constructor(propagation : Propagation, config : EclipseConfig = defaultEclipseConfig)
+    {
+        this.propagation = propagation;
+        this.config = config;
+    }
+
+    /**
+     * Compute OSV for the Sun in the EFI frame.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp used for the computation.
+     * @param {NutationData} nutData
+     *      Nutation data.
+     * @returns {OsvFrame} Orbit state vector.
+     */
+    static computeSunEfi(timeStamp : TimeStamp, nutData : NutationData) : OsvFrame
+    {
+        const osvHelEarth : OsvFrame = Vsop87A.planetHeliocentric("earth", timeStamp);
+        const osvEclHel : OsvFrame = {frame : Frame.FRAME_ECLHEL, timeStamp : timeStamp,
+            position : [0, 0, 0], velocity : [0, 0, 0]};
+        const osvEclGeo = Frames.coordHelEcl(osvEclHel, osvHelEarth);
+        const osvJ2000 = Frames.coordEclEq(osvEclGeo);
+        const osvMoD = Frames.coordJ2000Mod(osvJ2000);
+        const osvToD = Frames.coordModTod(osvMoD, nutData);
+        const osvPef = Frames.coordTodPef(osvToD, nutData);
+        const osvEfi = Frames.coordPefEfi(osvPef);
+
+        return osvEfi;
+    }
+
+    /**
+     * Compute the geometry of the Earth shadow from the apparent disks of the Sun and
+     * the Earth seen from the target (Montenbruck, Gill - Satellite Orbits, Section 3.4.2).
+     * For the oblate Earth, the coordinates are scaled along the polar axis so that the
+     * ellipsoid becomes a sphere.
+     *
+     * @param {number[]} rTarget
+     *      Position of the target in EFI frame (meters).
+     * @param {number[]} rSun
+     *      Position of the Sun in EFI frame (meters).
+     * @param {boolean} oblateEarth
+     *      Whether the oblateness of the Earth is taken into account.
+     * @returns {ShadowGeometry} The shadow geometry.
+     */
+    static shadowGeometry(rTarget : number[], rSun : number[], oblateEarth : boolean) : ShadowGeometry
+    {
+        if (oblateEarth)
+        {
+            const scale : number = radiusEarthEquator / radiusEarthPolar;
+            rTarget = [rTarget[0], rTarget[1], rTarget[2] * scale];
+            rSun = [rSun[0], rSun[1], rSun[2] * scale];
+        }
+
+        const rTargetSun : number[] = MathUtils.vecDiff(rSun, rTarget);
+        const distSun : number = MathUtils.norm(rTargetSun);
+        const distEarth : number = MathUtils.norm(rTarget);
+
+        // Apparent radii of the Sun and the Earth and their separation (radians).
+        const a : number = Math.asin(Math.min(radiusSun / distSun, 1.0));
+        const b : number = Math.asin(Math.min(radiusEarthEquator / distEarth, 1.0));
+        const c : number = Math.acos(Math.max(-1.0, Math.min(1.0,
+            -MathUtils.dot(rTarget, rTargetSun) / (distEarth * distSun))));
+
+        let fraction : number;
+        if (c >= a + b)
+        {
+            fraction = 0.0;
+        }
+        else if (c <= b - a)
+        {
+            fraction = 1.0;
+        }
+        else if (c <= a - b)
+        {
+            // The Earth is inside the solar disk.
+            fraction = (b * b) / (a * a);
+        }
+        else
+        {
+            // Area of the overlap of the disks.
+            const x : number = (c * c + a * a - b * b) / (2.0 * c);
+            const y : number = Math.sqrt(Math.max(a * a - x * x, 0.0));
+            const area : number = a * a * Math.acos(x / a) + b * b * Math.acos((c - x) / b) - c * y;
+            fraction = area / (Math.PI * a * a);
+        }
+
+        return {
+            fraction : Math.max(0.0, Math.min(1.0, fraction)),
+            penumbraMargin : MathUtils.rad2Deg(a + b - c),
+            umbraMargin : MathUtils.rad2Deg(b - a - c)
+        };
+    }
+
+    /**
+     * Get the illumination state from the shadow geometry.
+     *
+     * @param {ShadowGeometry} geometry
+     *      The shadow geometry.
+     * @returns {IlluminationState} The illumination state.
+     */
+    static illuminationState(geometry : ShadowGeometry) : IlluminationState
+    {
+        if (geometry.umbraMargin >= 0.0)
+        {
+            return IlluminationState.UMBRA;
+        }
+        else if (geometry.penumbraMargin > 0.0)
+        {
+            return IlluminationState.PENUMBRA;
+        }
+        else
+        {
+            return IlluminationState.SUNLIT;
+        }
+    }
+
+    /**
+     * Compute the shadow geometry of a target.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @returns {ShadowGeometry | null} The shadow geometry or null if the propagation
+     *      fails.
+     */
+    computeShadow(targetName : string, JT : number) : ShadowGeometry | null
+    {
+        const timeStamp : TimeStamp = this.propagation.timeCorrelation.computeTimeStamp(
+            JT, TimeConvention.TIME_UT1, false);
+        const nutData : NutationData = Nutation.iau1980(timeStamp);
+        const osvEfi : OsvFrame | null = this.propagation.propagateOneEfi(targetName, JT, nutData);
+
+        if (osvEfi === null)
+        {
+            return null;
+        }
+        const osvEfiSun : OsvFrame = Eclipses.computeSunEfi(timeStamp, nutData);
+
+        return Eclipses.shadowGeometry(osvEfi.position, osvEfiSun.position, this.config.oblateEarth);
+    }
+
+    /**
+     * Compute the umbra and the penumbra intervals of a target. The entry and exit times
+     * are bracketed by sampling and refined with bisection.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {number} JTstart
+     *      Start of the time window (Julian time, UT1).
+     * @param {number} JTend
+     *      End of the time window (Julian time, UT1).
+     * @returns {EclipseInterval[]} The intervals in the order of the entry time.
+     */
+    compute(targetName : string, JTstart : number, JTend : number) : EclipseInterval[]
+    {
+        const JTstep : number = this.config.timeStep / 86400.0;
+        const numSamples : number = Math.max(Math.ceil((JTend - JTstart) / JTstep), 1) + 1;
+
+        // Failing propagation is handled as sunlit.
+        const sunlit : ShadowGeometry = {fraction : 0.0, penumbraMargin : -180.0, umbraMargin : -180.0};
+        const geometryAt = (JT : number) : ShadowGeometry => {
+            const geometry : ShadowGeometry | null = this.computeShadow(targetName, JT);
+            return (geometry === null) ? sunlit : geometry;
+        };
+
+        const JTsamples : number[] = [];
+        const geometries : ShadowGeometry[] = [];
+        for (let indSample = 0; indSample < numSamples; indSample++)
+        {
+            const JT : number = Math.min(JTstart + indSample * JTstep, JTend);
+            JTsamples.push(JT);
+            geometries.push(geometryAt(JT));
+        }
+
+        const intervals : EclipseInterval[] = [];
+        const states : IlluminationState[] = [IlluminationState.PENUMBRA, IlluminationState.UMBRA];
+
+        for (let indState = 0; indState < states.length; indState++)
+        {
+            const state : IlluminationState = states[indState];
+            const func = (JT : number) : number => {
+                const geometry : ShadowGeometry = geometryAt(JT);
+                return (state == IlluminationState.UMBRA) ? geometry.umbraMargin : geometry.penumbraMargin;
+            };
+            const values : number[] = geometries.map((geometry) =>
+                (state == IlluminationState.UMBRA) ? geometry.umbraMargin : geometry.penumbraMargin);
+
+            let JTentry : number | null = (values[0] > 0.0) ? JTstart : null;
+            for (let indSample = 1; indSample < numSamples; indSample++)
+            {
+                const inside : boolean = values[indSample] > 0.0;
+                const insidePrev : boolean = values[indSample - 1] > 0.0;
+
+                if (inside && !insidePrev)
+                {
+                    JTentry = RootFinding.findZero(func, JTsamples[indSample - 1],
+                        JTsamples[indSample], this.config.tolerance);
+                }
+                else if (!inside && insidePrev)
+                {
+                    const JTexit : number = RootFinding.findZero(func, JTsamples[indSample - 1],
+                        JTsamples[indSample], this.config.tolerance);
+
+                    intervals.push({state : state, JTentry : <number> JTentry, JTexit : JTexit,
+                        partial : JTentry == JTstart});
+                    JTentry = null;
+                }
+            }
+            if (JTentry !== null)
+            {
+                intervals.push({state : state, JTentry : JTentry, JTexit : JTend, partial : true});
+            }
+        }
+
+        return intervals.sort((a, b) => a.JTentry - b.JTentry);
+    }
+}
@@ -0,0 +1,130 @@
+import { JulianTime } from "./computation/JulianTime";
+import { Frame } from "./computation/Frames";
+import { TargetInfo } from "./viewTargets/Target";
+
+// Frames, which can be converted to EFI without additional information.
+const ephemerisFrames : Frame[] = [Frame.FRAME_ECLGEO, Frame.FRAME_J2000, Frame.FRAME_MOD,
+    Frame.FRAME_TOD, Frame.FRAME_PEF, Frame.FRAME_EFI, Frame.FRAME_TEME];
+
+/**
+ * Class for the representation of ephemeris tables. The table is stored into the
+ * "EPHEMERIS" field of the JSON with one line per state of the form
+ * "EPOCH X Y Z X_DOT Y_DOT Z_DOT" following the data lines of the CCSDS OEM.
+ */
+export class Ephemeris
+{
+    // Target name (string)
+    title : string;
+    // International Designator of the form "2023-076A" (string)
+    objectId : string;
+    // The frame of the positions and the velocities.
+    frame : Frame;
+    // Julian times of the states (UT1) in increasing order.
+    jtUt1 : number[];
+    // Positions (km)
+    position : number[][];
+    // Velocities (km/s)
+    velocity : number[][];
+
+    constructor()
+    {
+        this.jtUt1 = [];
+        this.position = [];
+        this.velocity = [];
+    }
+
+    /**
+     * Fill from a JSON.
+     *
+     * @param {TargetInfo} json
+     *      The JSON.
+     * @throws {Error} If the JSON does not contain a valid ephemeris.
+     * @returns {Ephemeris} The object constructed from the JSON.
+     */
+    static fromJson(json : TargetInfo) : Ephemeris
+    {
+        /*{
+            "TYPE":"EPHEMERIS",
+            "OBJECT_NAME":"PROBE",
+            "OBJECT_ID":"2023-902A",
+            "FRAME":"J2000",
+            "EPHEMERIS":"2023-05-30T12:00:00.000000 7000.0 0.0 0.0 0.0 6.0 4.0\n..."}
+        */
+        const ephemeris : Ephemeris = new Ephemeris();
+
+        ephemeris.title    = <string> json["OBJECT_NAME"];
+        ephemeris.objectId = <string> json["OBJECT_ID"];
+
+        const frameName : string = <string> json["FRAME"];
+        ephemeris.frame = Frame[<keyof typeof Frame> ("FRAME_" + frameName.trim().toUpperCase())];
+        if (ephemeris.frame === undefined || ephemerisFrames.indexOf(ephemeris.frame) == -1)
+        {
+            throw Error("Unsupported frame \"" + frameName + "\" for ephemerides!");
+        }
+
+        const lines : string[] = (<string> json["EPHEMERIS"]).split("\n");
+        for (let indLine = 0; indLine < lines.length; indLine++)
+        {
+            const fields : string[] = lines[indLine].trim().split(/\s+/);
+
+            if (fields[0].length == 0)
+            {
+                continue;
+            }
+            if (fields.length != 7)
+            {
+                throw Error("Expected 7 fields in \"" + lines[indLine] + "\"!");
+            }
+
+            const JT : number = JulianTime.timeJulianIso(fields[0]);
+            const values : number[] = fields.slice(1).map(Number);
+
+            if (!values.every(isFinite) || isNaN(JT))
+            {
+                throw Error("Invalid state \"" + lines[indLine] + "\"!");
+            }
+            if (ephemeris.jtUt1.length > 0 && JT <= ephemeris.jtUt1[ephemeris.jtUt1.length - 1])
+            {
+                throw Error("Ephemeris of \"" + ephemeris.objectId + "\" is not in increasing order!");
+            }
+
+            ephemeris.jtUt1.push(JT);
+            ephemeris.position.push(values.slice(0, 3));
+            ephemeris.velocity.push(values.slice(3, 6));
+        }
+
+        if (ephemeris.jtUt1.length < 2)
+        {
+            throw Error("Ephemeris of \"" + ephemeris.objectId + "\" must contain at least two states!");
+        }
+
+        return ephemeris;
+    }
+
+    /**
+     * Convert to a JSON.
+     *
+     * @returns {TargetInfo} The JSON.
+     */
+    toJson() : TargetInfo
+    {
+        const lines : string[] = [];
+
+        for (let indState = 0; indState < this.jtUt1.length; indState++)
+        {
+            lines.push([JulianTime.timeIso(this.jtUt1[indState])]
+                .concat(this.position[indState].map(String), this.velocity[indState].map(String))
+                .join(" "));
+        }
+
+        const json : TargetInfo = {
+            "TYPE"        : "EPHEMERIS",
+            "OBJECT_NAME" : this.title,
+            "OBJECT_ID"   : this.objectId,
+            "FRAME"       : Frame[this.frame].substring(6),
+            "EPHEMERIS"   : lines.join("\n")
+        };
+
+        return json;
+    }
+}
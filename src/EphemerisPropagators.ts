@@ -0,0 +1,136 @@
+import { Ephemeris } from "./Ephemeris";
+import { Frame, OsvFrame } from "./computation/Frames";
+import { MathUtils } from "./computation/MathUtils";
+import { TimeConvention, TimeCorrelation, TimeStamp } from "./computation/TimeCorrelation";
+import { forceModelConstants } from "./computation/ForceModels";
+import { Propagator, PropagationError } from "./Propagator";
+
+/**
+ * Interpolation of ephemeris tables with cubic Hermite polynomials constructed from
+ * the positions and the velocities of the adjacent states.
+ */
+export class EphemerisPropagation implements Propagator
+{
+    // The ephemeris.
+    ephemeris : Ephemeris;
+    // Time correlation.
+    timeCorrelation : TimeCorrelation;
+
+    /**
+     * Public constructor.
+     *
+     * @param {Ephemeris} ephemeris
+     *      The ephemeris.
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     */
+    constructor(ephemeris : Ephemeris, timeCorrelation : TimeCorrelation)
+    {
+        this.ephemeris = ephemeris;
+        this.timeCorrelation = timeCorrelation;
+    }
+
+    initialize() : void
+    {
+        // The table is interpolated directly.
+    }
+
+    /**
+     * Find the index of the state, which starts the interval containing the time.
+     *
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @returns {number} The index.
+     */
+    private findInterval(JT : number) : number
+    {
+        const jtUt1 : number[] = this.ephemeris.jtUt1;
+        let indLow : number = 0;
+        let indHigh : number = jtUt1.length - 1;
+
+        while (indHigh - indLow > 1)
+        {
+            const indMid : number = Math.floor((indLow + indHigh) / 2);
+
+            if (jtUt1[indMid] <= JT)
+            {
+                indLow = indMid;
+            }
+            else
+            {
+                indHigh = indMid;
+            }
+        }
+
+        return indLow;
+    }
+
+    /**
+     * Compute the OSV at the given time.
+     *
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @throws {PropagationError} If the time is outside the ephemeris.
+     * @returns {OsvFrame} The OSV (in meters and meters per second) in the frame of
+     *      the ephemeris.
+     */
+    compute(JT : number) : OsvFrame
+    {
+        const ephemeris : Ephemeris = this.ephemeris;
+        const [JTstart, JTend] = this.getValidityInterval();
+
+        if (JT < JTstart || JT > JTend)
+        {
+            throw new PropagationError("Julian time " + JT + " outside the ephemeris of \"" 
+                + ephemeris.objectId + "\"!");
+        }
+
+        const ind : number = this.findInterval(JT);
+        const h : number = (ephemeris.jtUt1[ind + 1] - ephemeris.jtUt1[ind]) * 86400.0;
+        const s : number = (JT - ephemeris.jtUt1[ind]) * 86400.0 / h;
+        const s2 : number = s * s;
+        const s3 : number = s2 * s;
+
+        // Hermite basis functions and their derivatives.
+        const basis : number[] = [2 * s3 - 3 * s2 + 1, (s3 - 2 * s2 + s) * h, -2 * s3 + 3 * s2, (s3 - s2) * h];
+        const basisDer : number[] = [(6 * s2 - 6 * s) / h, 3 * s2 - 4 * s + 1, (-6 * s2 + 6 * s) / h, 3 * s2 - 2 * s];
+        const values : number[][] = [ephemeris.position[ind], ephemeris.velocity[ind],
+                                     ephemeris.position[ind + 1], ephemeris.velocity[ind + 1]];
+
+        const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(JT, TimeConvention.TIME_UT1, false);
+
+        return {
+            frame : ephemeris.frame,
+            timeStamp : timeStamp,
+            position : MathUtils.vecMul(MathUtils.linComb(basis, values), 1000.0),
+            velocity : MathUtils.vecMul(MathUtils.linComb(basisDer, values), 1000.0)
+        };
+    }
+
+    getOutputFrame() : Frame
+    {
+        return this.ephemeris.frame;
+    }
+
+    getValidityInterval() : number[]
+    {
+        const jtUt1 : number[] = this.ephemeris.jtUt1;
+
+        return [jtUt1[0], jtUt1[jtUt1.length - 1]];
+    }
+
+    /**
+     * Compute the osculating orbital period from the first state.
+     *
+     * @returns {number} The orbital period (days).
+     */
+    getOrbitalPeriod() : number
+    {
+        const r : number = MathUtils.norm(this.ephemeris.position[0]) * 1000.0;
+        const v : number = MathUtils.norm(this.ephemeris.velocity[0]) * 1000.0;
+        const mu : number = forceModelConstants.muEarth;
+        const a : number = 1.0 / (2.0 / r - v * v / mu);
+
+        return 2.0 * Math.PI * Math.sqrt(a * a * a / mu) / 86400.0;
+    }
+}
@@ -0,0 +1,244 @@
+import { JulianTime } from "./computation/JulianTime";
+import { Frame, OsvFrame } from "./computation/Frames";
+import { KeplerianElements, OrbitalElements } from "./computation/OrbitalElements";
+import { TargetInfo } from "./viewTargets/Target";
+
+/**
+ * Perturbations included in the propagation of Keplerian elements.
+ */
+export enum KeplerPerturbations
+{
+    // Two-body motion.
+    NONE,
+    // Secular effect of J2 on the node, the argument of perigee and the mean anomaly.
+    J2
+}
+
+// Inertial frames, in which the elements can be given.
+const keplerFrames : Frame[] = [Frame.FRAME_J2000, Frame.FRAME_MOD, Frame.FRAME_TOD, Frame.FRAME_TEME];
+
+/**
+ * Class for the representation of classical Keplerian elements.
+ */
+export class Kepler
+{
+    // Target name (string)
+    title : string;
+    // International Designator of the form "2023-076A" (string)
+    objectId : string;
+    // Julian time for the Epoch (UT1).
+    jtUt1Epoch : number;
+    // The inertial frame the elements are defined in.
+    frame : Frame;
+    // Semi-major axis (km)
+    semiMajorAxis : number;
+    // Eccentricity
+    eccentricity : number;
+    // Inclination (degrees)
+    inclination : number;
+    // Right ascension of the ascending node (degrees)
+    raAscNode : number;
+    // Argument of perigee (degrees)
+    argPerigee : number;
+    // Mean anomaly (degrees)
+    meanAnomaly : number;
+    // Perturbations included in the propagation.
+    perturbations : KeplerPerturbations;
+
+    constructor()
+    {
+
+    }
+
+    /**
+     * Parse frame name.
+     *
+     * @param {string} name
+     *      Frame name without the "FRAME_" prefix (J2000, MOD, TOD or TEME).
+     * @throws {Error} If the frame is not an inertial frame supported for the elements.
+     * @returns {Frame} The frame.
+     */
+    private static parseFrame(name : string) : Frame
+    {
+        const frame : Frame = Frame[<keyof typeof Frame> ("FRAME_" + name.trim().toUpperCase())];
+
+        if (frame === undefined || keplerFrames.indexOf(frame) == -1)
+        {
+            throw Error("Unsupported frame \"" + name + "\" for Keplerian elements!");
+        }
+
+        return frame;
+    }
+
+    /**
+     * Check the validity of the elements.
+     *
+     * @throws {Error} If the elements do not describe an elliptic orbit.
+     */
+    private validate()
+    {
+        if (!(this.semiMajorAxis > 0.0))
+        {
+            throw Error("Semi-major axis of \"" + this.objectId + "\" must be positive!");
+        }
+        if (!(this.eccentricity >= 0.0 && this.eccentricity < 1.0))
+        {
+            throw Error("Eccentricity of \"" + this.objectId + "\" must be in [0, 1)!");
+        }
+    }
+
+    /**
+     * Fill from a JSON.
+     *
+     * @param {TargetInfo} json
+     *      The JSON.
+     * @throws {Error} If the JSON does not contain valid elements.
+     * @returns {Kepler} The object constructed from the JSON.
+     */
+    static fromJson(json : TargetInfo) : Kepler
+    {
+        /*{
+            "TYPE":"KEPLER",
+            "OBJECT_NAME":"MOLNIYA",
+            "OBJECT_ID":"2023-900A",
+            "EPOCH":"2023-05-30T14:16:31.144224",
+            "FRAME":"J2000",
+            "SEMI_MAJOR_AXIS":26600.0,
+            "ECCENTRICITY":0.74,
+            "INCLINATION":63.4,
+            "RA_OF_ASC_NODE":270.0,
+            "ARG_OF_PERICENTER":270.0,
+            "MEAN_ANOMALY":0.0,
+            "PERTURBATIONS":"J2"}
+        */
+        const kepler : Kepler = new Kepler();
+
+        kepler.title         = <string> json["OBJECT_NAME"];
+        kepler.objectId      = <string> json["OBJECT_ID"];
+        kepler.jtUt1Epoch    = JulianTime.timeJulianIso(<string> json["EPOCH"]);
+        kepler.frame         = Kepler.parseFrame(<string> json["FRAME"]);
+        kepler.semiMajorAxis = <number> json["SEMI_MAJOR_AXIS"];
+        kepler.eccentricity  = <number> json["ECCENTRICITY"];
+        kepler.inclination   = <number> json["INCLINATION"];
+        kepler.raAscNode     = <number> json["RA_OF_ASC_NODE"];
+        kepler.argPerigee    = <number> json["ARG_OF_PERICENTER"];
+        kepler.meanAnomaly   = <number> json["MEAN_ANOMALY"];
+
+        if ("PERTURBATIONS" in json)
+        {
+            const perturbations = KeplerPerturbations[<keyof typeof KeplerPerturbations> json["PERTURBATIONS"]];
+
+            if (perturbations === undefined)
+            {
+                throw Error("Unsupported perturbations \"" + json["PERTURBATIONS"] + "\"!");
+            }
+            kepler.perturbations = perturbations;
+        }
+        else
+        {
+            kepler.perturbations = KeplerPerturbations.NONE;
+        }
+        kepler.validate();
+
+        return kepler;
+    }
+
+    /**
+     * Compute osculating elements from an OSV. For circular orbits, the argument of 
+     * perigee is set to zero and for equatorial orbits, the right ascension of the 
+     * ascending node is set to zero.
+     *
+     * @param {OsvFrame} osv
+     *      The OSV (in meters and meters per second) in J2000, MoD, ToD or TEME frame.
+     * @throws {Error} If the frame is not supported or the orbit is not elliptic.
+     * @returns {Kepler} The elements with empty name and identifier.
+     */
+    static fromOsv(osv : OsvFrame) : Kepler
+    {
+        if (keplerFrames.indexOf(osv.frame) == -1)
+        {
+            throw Error("Unsupported frame " + Frame[osv.frame] + " for Keplerian elements!");
+        }
+
+        const elements : KeplerianElements = OrbitalElements.osvKeplerian(osv);
+        const kepler : Kepler = new Kepler();
+        kepler.title = "";
+        kepler.objectId = "";
+        kepler.jtUt1Epoch = osv.timeStamp.JTut1;
+        kepler.frame = osv.frame;
+        kepler.perturbations = KeplerPerturbations.NONE;
+        kepler.semiMajorAxis = elements.semiMajorAxis * 0.001;
+        kepler.eccentricity = elements.eccentricity;
+        kepler.inclination = elements.inclination;
+        kepler.raAscNode = elements.raAscNode;
+        kepler.argPerigee = elements.argPerigee;
+        kepler.meanAnomaly = elements.meanAnomaly;
+
+        return kepler;
+    }
+
+    /**
+     * Create from a comma-separated line of the form
+     * NAME, OBJECT_ID, EPOCH, FRAME, a, e, i, RAAN, omega, M [, PERTURBATIONS]
+     * with the units of the JSON representation.
+     *
+     * @param {string} line
+     *      The line.
+     * @throws {Error} If the line does not contain valid elements.
+     * @returns {Kepler} The object constructed from the line.
+     */
+    static fromLine(line : string) : Kepler
+    {
+        const fields : string[] = line.split(",").map((field) => field.trim());
+
+        if (fields.length < 10 || fields.length > 11)
+        {
+            throw Error("Expected 10 or 11 fields in \"" + line + "\"!");
+        }
+
+        const json : TargetInfo = {
+            "TYPE"              : "KEPLER",
+            "OBJECT_NAME"       : fields[0],
+            "OBJECT_ID"         : fields[1],
+            "EPOCH"             : fields[2],
+            "FRAME"             : fields[3],
+            "SEMI_MAJOR_AXIS"   : Number(fields[4]),
+            "ECCENTRICITY"      : Number(fields[5]),
+            "INCLINATION"       : Number(fields[6]),
+            "RA_OF_ASC_NODE"    : Number(fields[7]),
+            "ARG_OF_PERICENTER" : Number(fields[8]),
+            "MEAN_ANOMALY"      : Number(fields[9])
+        };
+        if (fields.length == 11)
+        {
+            json["PERTURBATIONS"] = fields[10].toUpperCase();
+        }
+
+        return Kepler.fromJson(json);
+    }
+
+    /**
+     * Convert to a JSON.
+     *
+     * @returns {TargetInfo} The JSON.
+     */
+    toJson() : TargetInfo
+    {
+        const json : TargetInfo = {
+            "TYPE"              : "KEPLER",
+            "OBJECT_NAME"       : this.title,
+            "OBJECT_ID"         : this.objectId,
+            "EPOCH"             : JulianTime.timeIso(this.jtUt1Epoch),
+            "FRAME"             : Frame[this.frame].substring(6),
+            "SEMI_MAJOR_AXIS"   : this.semiMajorAxis,
+            "ECCENTRICITY"      : this.eccentricity,
+            "INCLINATION"       : this.inclination,
+            "RA_OF_ASC_NODE"    : this.raAscNode,
+            "ARG_OF_PERICENTER" : this.argPerigee,
+            "MEAN_ANOMALY"      : this.meanAnomaly,
+            "PERTURBATIONS"     : KeplerPerturbations[this.perturbations]
+        };
+
+        return json;
+    }
+}
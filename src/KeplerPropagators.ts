@@ -0,0 +1,116 @@
+import { Kepler, KeplerPerturbations } from "./Kepler";
+import { Frame, OsvFrame } from "./computation/Frames";
+import { KeplerianElements, OrbitalElements } from "./computation/OrbitalElements";
+import { MathUtils } from "./computation/MathUtils";
+import { Angles } from "./computation/Angles";
+import { TimeConvention, TimeCorrelation, TimeStamp } from "./computation/TimeCorrelation";
+import { forceModelConstants } from "./computation/ForceModels";
+import { Propagator } from "./Propagator";
+
+/**
+ * Analytical propagation of Keplerian elements with two-body motion and optional
+ * secular J2 perturbations.
+ */
+export class KeplerPropagation implements Propagator
+{
+    // The elements.
+    kepler : Kepler;
+    // Time correlation.
+    timeCorrelation : TimeCorrelation;
+
+    // Mean motion (radians per second).
+    private meanMotion : number;
+    // Secular rate of the right ascension of the ascending node (degrees per second).
+    private raAscNodeRate : number;
+    // Secular rate of the argument of perigee (degrees per second).
+    private argPerigeeRate : number;
+    // Rate of the mean anomaly (degrees per second).
+    private meanAnomalyRate : number;
+
+    /**
+     * Public constructor.
+     *
+     * @param {Kepler} kepler
+     *      The elements.
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     */
+    constructor(kepler : Kepler, timeCorrelation : TimeCorrelation)
+    {
+        this.kepler = kepler;
+        this.timeCorrelation = timeCorrelation;
+
+        const a : number = kepler.semiMajorAxis * 1000.0;
+        const e : number = kepler.eccentricity;
+        this.meanMotion = Math.sqrt(forceModelConstants.muEarth / (a * a * a));
+
+        this.raAscNodeRate = 0.0;
+        this.argPerigeeRate = 0.0;
+        this.meanAnomalyRate = MathUtils.rad2Deg(this.meanMotion);
+
+        if (kepler.perturbations == KeplerPerturbations.J2)
+        {
+            // Vallado - Fundamentals of Astrodynamics and Applications, Section 9.6.
+            const p : number = a * (1.0 - e * e);
+            const sinIncl : number = MathUtils.sind(kepler.inclination);
+            const cosIncl : number = MathUtils.cosd(kepler.inclination);
+            const factor : number = MathUtils.rad2Deg(this.meanMotion) * forceModelConstants.zonals[2]
+                                  * Math.pow(forceModelConstants.radiusEarth / p, 2);
+
+            this.raAscNodeRate = -1.5 * factor * cosIncl;
+            this.argPerigeeRate = 0.75 * factor * (4.0 - 5.0 * sinIncl * sinIncl);
+            this.meanAnomalyRate += 0.75 * factor * Math.sqrt(1.0 - e * e) * (2.0 - 3.0 * sinIncl * sinIncl);
+        }
+    }
+
+    initialize() : void
+    {
+        // The rates are computed in the constructor.
+    }
+
+    /**
+     * Compute the OSV at the given time.
+     *
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @returns {OsvFrame} The OSV (in meters and meters per second) in the frame of
+     *      the elements.
+     */
+    compute(JT : number) : OsvFrame
+    {
+        const kepler : Kepler = this.kepler;
+        const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(JT, TimeConvention.TIME_UT1, false);
+        const deltaSeconds : number = (JT - kepler.jtUt1Epoch) * 86400.0;
+
+        const elements : KeplerianElements = {
+            semiMajorAxis : kepler.semiMajorAxis * 1000.0,
+            eccentricity : kepler.eccentricity,
+            inclination : kepler.inclination,
+            raAscNode : Angles.limitAngleDeg(kepler.raAscNode + this.raAscNodeRate * deltaSeconds),
+            argPerigee : Angles.limitAngleDeg(kepler.argPerigee + this.argPerigeeRate * deltaSeconds),
+            meanAnomaly : Angles.limitAngleDeg(kepler.meanAnomaly + this.meanAnomalyRate * deltaSeconds)
+        };
+
+        return OrbitalElements.keplerianOsv(elements, kepler.frame, timeStamp);
+    }
+
+    getOutputFrame() : Frame
+    {
+        return this.kepler.frame;
+    }
+
+    getValidityInterval() : number[]
+    {
+        return [-Infinity, Infinity];
+    }
+
+    /**
+     * Compute the orbital period.
+     *
+     * @returns {number} The orbital period (days).
+     */
+    getOrbitalPeriod() : number
+    {
+        return 2.0 * Math.PI / (this.meanMotion * 86400.0);
+    }
+}
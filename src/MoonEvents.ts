@@ -0,0 +1,171 @@
+import { HorizonCrossing, SunEvents } from "./SunEvents";
+import { EnuAngles, Frames, OsvFrame } from "./computation/Frames";
+import { EarthPosition } from "./computation/Wgs84";
+import { MathUtils } from "./computation/MathUtils";
+import { Moon, MoonPhase } from "./computation/Moon";
+import { TimeConvention, TimeCorrelation, TimeStamp } from "./computation/TimeCorrelation";
+import { Nutation, NutationData } from "./computation/Nutation";
+import { RootFinding } from "./computation/RootFinding";
+
+// Mean radius of the Moon (meters).
+const radiusMoon : number = 1.7374e6;
+
+/**
+ * Configuration of the computation of the Moon events.
+ */
+export interface MoonEventConfig
+{
+    // Atmospheric refraction at the horizon (degrees).
+    refraction : number;
+    // Sampling interval used to bracket the events (seconds).
+    timeStep : number;
+    // Accuracy of the event times (seconds).
+    tolerance : number;
+}
+
+/**
+ * Default configuration with the standard refraction of 34 arcminutes.
+ */
+export const defaultMoonEventConfig : MoonEventConfig = {
+    refraction : 34.0 / 60.0,
+    timeStep : 600.0,
+    tolerance : 0.1
+};
+
+/**
+ * Moon events of a day at an observer.
+ */
+export interface MoonEventTimes
+{
+    // Start of the day (Julian time, UT1).
+    JTstart : number;
+    // Upper transit of the Moon through the meridian (Julian time, UT1) or null if the
+    // day does not contain the transit. Since the lunar day is about 24 hours and 50
+    // minutes, this happens roughly once a month.
+    transit : number | null;
+    // Topocentric elevation of the center of the Moon at the transit without refraction
+    // (degrees).
+    transitElevation : number | null;
+    // Moonrise and moonset, when the upper limb of the Moon is at the apparent horizon.
+    moonriseMoonset : HorizonCrossing;
+    // Phase of the Moon at the middle of the day.
+    phase : MoonPhase;
+}
+
+/**
+ * Class implementing the computation of moonrise, moonset and transit times for an
+ * observer. The topocentric elevation of the Moon is computed from the ELP2000-82
+ * series through the frame transformations and thus includes the parallax. Moonrise
+ * and moonset are corrected for the refraction and the semi-diameter of the Moon.
+ */
+export class MoonEvents
+{
+    // Time correlation.
+    private timeCorrelation : TimeCorrelation;
+    // Configuration.
+    private config : MoonEventConfig;
+
+    /**
+     * Public constructor.
+     *
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @param {MoonEventConfig} config
+     *      Configuration.
+     */
+    constructor(timeCorrelation : TimeCorrelation, config : MoonEventConfig = defaultMoonEventConfig)
+    {
+        this.timeCorrelation = timeCorrelation;
+        this.config = config;
+    }
+
+    /**
+     * Compute the position of the Moon seen from an observer.
+     *
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @param {NutationData | undefined} nutation
+     *      Nutation data.
+     * @returns {number[]} The topocentric elevation of the center of the Moon without
+     *      refraction (degrees), the topocentric semi-diameter of the Moon (degrees) and
+     *      the east coordinate of the Moon in the ENU frame (meters).
+     */
+    computeMoon(earthPos : EarthPosition, JT : number, nutation : NutationData | undefined) : number[]
+    {
+        const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(JT, TimeConvention.TIME_UT1, false);
+
+        if (nutation === undefined)
+        {
+            nutation = Nutation.iau1980(timeStamp);
+        }
+
+        const osvEfiMoon : OsvFrame = Moon.moonEfi(timeStamp, nutation);
+        const osvEnuMoon : OsvFrame = Frames.coordEfiEnu(osvEfiMoon, earthPos);
+        const angles : EnuAngles = Frames.coordEnuAzEl(osvEnuMoon);
+
+        return [angles.el, MathUtils.asind(radiusMoon / angles.dist), osvEnuMoon.position[0]];
+    }
+
+    /**
+     * Compute the Moon events during a day. The day can start at any time so that the
+     * events can be computed for the local civil day.
+     *
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number} JTstart
+     *      Start of the day (Julian time, UT1).
+     * @returns {MoonEventTimes} The events.
+     */
+    compute(earthPos : EarthPosition, JTstart : number) : MoonEventTimes
+    {
+        const JTend : number = JTstart + 1.0;
+        const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(
+            JTstart + 0.5, TimeConvention.TIME_UT1, false);
+        const nutation : NutationData = Nutation.iau1980(timeStamp);
+
+        const elevationApparent = (JT : number) : number => {
+            const [el, semiDiameter] = this.computeMoon(earthPos, JT, nutation);
+            return el + this.config.refraction + semiDiameter;
+        };
+
+        const JTstep : number = this.config.timeStep / 86400.0;
+        const numSamples : number = Math.ceil(1.0 / JTstep) + 1;
+        const JTsamples : number[] = [];
+        const values : number[] = [];
+        const easts : number[] = [];
+        for (let indSample = 0; indSample < numSamples; indSample++)
+        {
+            const JT : number = Math.min(JTstart + indSample * JTstep, JTend);
+            const [el, semiDiameter, east] = this.computeMoon(earthPos, JT, nutation);
+            JTsamples.push(JT);
+            values.push(el + this.config.refraction + semiDiameter);
+            easts.push(east);
+        }
+
+        // At the upper transit, the Moon crosses the meridian from east to west.
+        let transit : number | null = null;
+        for (let indSample = 1; indSample < numSamples && transit === null; indSample++)
+        {
+            if (easts[indSample - 1] > 0.0 && easts[indSample] <= 0.0)
+            {
+                transit = RootFinding.findZero((JT : number) : number => this.computeMoon(earthPos, JT, nutation)[2],
+                    JTsamples[indSample - 1], JTsamples[indSample], this.config.tolerance);
+            }
+        }
+
+        // The Moon rises and sets at most once during a day except close to the poles,
+        // where the first rising and the last setting are returned.
+        const moonriseMoonset : HorizonCrossing = SunEvents.computeCrossing(elevationApparent, JTsamples,
+            values, this.config.tolerance);
+
+        return {
+            JTstart : JTstart,
+            transit : transit,
+            transitElevation : (transit === null) ? null : this.computeMoon(earthPos, transit, nutation)[0],
+            moonriseMoonset : moonriseMoonset,
+            phase : Moon.moonPhase(timeStamp)
+        };
+    }
+}
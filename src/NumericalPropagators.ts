@@ -0,0 +1,373 @@
+import { Frame, Frames, OsvFrame } from "./computation/Frames";
+import { MathUtils } from "./computation/MathUtils";
+import { Nutation, NutationData } from "./computation/Nutation";
+import { TimeConvention, TimeCorrelation, TimeStamp } from "./computation/TimeCorrelation";
+import { ForceModelConfig, ForceModels, defaultForceModelConfig, forceModelConstants } from "./computation/ForceModels";
+import { Propagator, PropagationError } from "./Propagator";
+
+/**
+ * Configuration of the adaptive integrator.
+ */
+export interface IntegratorConfig
+{
+    // Relative tolerance of the local error.
+    relTol : number;
+    // Absolute tolerance of the local error (meters and meters per second).
+    absTol : number;
+    // Initial step size (seconds).
+    initialStep : number;
+    // Maximum step size (seconds).
+    maxStep : number;
+}
+
+/**
+ * Default integrator configuration.
+ */
+export const defaultIntegratorConfig : IntegratorConfig = {
+    relTol : 1e-10,
+    absTol : 1e-4,
+    initialStep : 60.0,
+    maxStep : 3600.0
+};
+
+/**
+ * Butcher tableau of the Dormand-Prince RK5(4)7M method.
+ */
+const dormandPrince = {
+    c : [0, 1/5, 3/10, 4/5, 8/9, 1, 1],
+    a : [
+        [],
+        [1/5],
+        [3/40, 9/40],
+        [44/45, -56/15, 32/9],
+        [19372/6561, -25360/2187, 64448/6561, -212/729],
+        [9017/3168, -355/33, 46732/5247, 49/176, -5103/18656],
+        [35/384, 0, 500/1113, 125/192, -2187/6784, 11/84]
+    ],
+    // Weights of the 5th order solution.
+    b : [35/384, 0, 500/1113, 125/192, -2187/6784, 11/84, 0],
+    // Weights of the embedded 4th order solution.
+    bStar : [5179/57600, 0, 7571/16695, 393/640, -92097/339200, 187/2100, 1/40]
+};
+
+/**
+ * Cowell-style numerical propagation of an OSV with the Dormand-Prince method.
+ * The equations of motion are integrated in the J2000 frame.
+ */
+export class NumericalPropagation implements Propagator
+{
+    // OSV at epoch in the J2000 frame.
+    osvEpoch : OsvFrame;
+    // Force model configuration.
+    forceConfig : ForceModelConfig;
+    // Integrator configuration.
+    integratorConfig : IntegratorConfig;
+    // Time correlation.
+    timeCorrelation : TimeCorrelation;
+
+    // Seconds since epoch of the latest integrated state.
+    private cacheTime : number;
+    // The latest integrated state [r, v].
+    private cacheState : number[];
+    // Step size used in the latest integration.
+    private cacheStep : number;
+    // The position of the Sun is updated at most once an hour.
+    private sunOsv : OsvFrame | null;
+
+    /**
+     * Public constructor.
+     *
+     * @param {OsvFrame} osv
+     *      The OSV at epoch in J2000, geocentric ecliptic, TEME, MoD, ToD, PEF or EFI frame.
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @param {ForceModelConfig} forceConfig
+     *      Force model configuration.
+     * @param {IntegratorConfig} integratorConfig
+     *      Integrator configuration.
+     */
+    constructor(osv : OsvFrame, timeCorrelation : TimeCorrelation,
+        forceConfig : ForceModelConfig = defaultForceModelConfig,
+        integratorConfig : IntegratorConfig = defaultIntegratorConfig)
+    {
+        this.timeCorrelation = timeCorrelation;
+        this.forceConfig = forceConfig;
+        this.integratorConfig = integratorConfig;
+        this.osvEpoch = this.coordJ2000(osv);
+        this.sunOsv = null;
+
+        this.cacheTime = 0.0;
+        this.cacheState = this.osvEpoch.position.concat(this.osvEpoch.velocity);
+        this.cacheStep = integratorConfig.initialStep;
+    }
+
+    initialize() : void
+    {
+        // The state is integrated on demand in compute.
+    }
+
+    /**
+     * Convert OSV to the J2000 frame.
+     *
+     * @param {OsvFrame} osv
+     *      The OSV.
+     * @returns {OsvFrame} The OSV in the J2000 frame.
+     */
+    private coordJ2000(osv : OsvFrame) : OsvFrame
+    {
+        const nutData : NutationData = Nutation.iau1980(osv.timeStamp);
+
+        switch (osv.frame)
+        {
+            case Frame.FRAME_J2000:
+                return osv;
+            case Frame.FRAME_ECLGEO:
+                return Frames.coordEclEq(osv);
+            case Frame.FRAME_TEME:
+                return Frames.coordTemeJ2000(osv, nutData);
+            case Frame.FRAME_MOD:
+                return Frames.coordModJ2000(osv);
+            case Frame.FRAME_TOD:
+                return Frames.coordModJ2000(Frames.coordTodMod(osv, nutData));
+            case Frame.FRAME_PEF:
+                return Frames.coordModJ2000(Frames.coordTodMod(
+                    Frames.coordPefTod(osv, nutData), nutData));
+            case Frame.FRAME_EFI:
+                return Frames.coordModJ2000(Frames.coordTodMod(
+                    Frames.coordPefTod(Frames.coordEfiPef(osv), nutData), nutData));
+            default:
+                throw Error("Unsupported frame " + Frame[osv.frame]);
+        }
+    }
+
+    /**
+     * Compute the time derivative of the state.
+     *
+     * @param {number} t
+     *      Seconds since epoch.
+     * @param {number[]} state
+     *      The state [r, v] in the J2000 frame.
+     * @returns {number[]} The derivative [v, a].
+     */
+    private derivative(t : number, state : number[]) : number[]
+    {
+        const config = this.forceConfig;
+        const r = state.slice(0, 3);
+        const v = state.slice(3, 6);
+        const rNorm = MathUtils.norm(r);
+
+        let acc = MathUtils.vecMul(r, -forceModelConstants.muEarth / (rNorm * rNorm * rNorm));
+
+        if (config.zonalDegree >= 2 || config.enableDrag || config.enableSun
+            || config.enableSrp || config.enableMoon)
+        {
+            const timeStamp : TimeStamp = TimeCorrelation.addDelta(this.osvEpoch.timeStamp, t / 86400.0);
+
+            if (config.zonalDegree >= 2 || config.enableDrag)
+            {
+                // The zonal harmonics and the rotation of the atmosphere are evaluated in the
+                // MoD frame, which neglects the small effect of the nutation on the pole.
+                const osvMod : OsvFrame = Frames.coordJ2000Mod({frame : Frame.FRAME_J2000,
+                    timeStamp : timeStamp, position : r, velocity : v});
+                let accMod = [0, 0, 0];
+
+                if (config.zonalDegree >= 2)
+                {
+                    accMod = MathUtils.vecSum(accMod,
+                        ForceModels.accelerationZonal(osvMod.position, config.zonalDegree));
+                }
+                if (config.enableDrag)
+                {
+                    accMod = MathUtils.vecSum(accMod,
+                        ForceModels.accelerationDrag(osvMod.position, osvMod.velocity, config));
+                }
+
+                const osvAcc : OsvFrame = Frames.coordModJ2000({frame : Frame.FRAME_MOD,
+                    timeStamp : timeStamp, position : accMod, velocity : [0, 0, 0]});
+                acc = MathUtils.vecSum(acc, osvAcc.position);
+            }
+
+            if (config.enableSun || config.enableSrp)
+            {
+                const rSun = this.sunPosition(timeStamp);
+
+                if (config.enableSun)
+                {
+                    acc = MathUtils.vecSum(acc,
+                        ForceModels.accelerationThirdBody(r, rSun, forceModelConstants.muSun));
+                }
+                if (config.enableSrp)
+                {
+                    acc = MathUtils.vecSum(acc, ForceModels.accelerationSrp(r, rSun, config));
+                }
+            }
+
+            if (config.enableMoon)
+            {
+                const rMoon = ForceModels.moonJ2000(timeStamp.JTtdb);
+                acc = MathUtils.vecSum(acc,
+                    ForceModels.accelerationThirdBody(r, rMoon, forceModelConstants.muMoon));
+            }
+        }
+
+        return v.concat(acc);
+    }
+
+    /**
+     * Compute the position of the Sun in the J2000 frame. The VSOP87A series is
+     * evaluated at most once an hour and extrapolated linearly in between.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @returns {number[]} The position of the Sun.
+     */
+    private sunPosition(timeStamp : TimeStamp) : number[]
+    {
+        if (this.sunOsv === null || Math.abs(timeStamp.JTtdb - this.sunOsv.timeStamp.JTtdb) > 1.0 / 24.0)
+        {
+            this.sunOsv = ForceModels.sunJ2000(timeStamp);
+        }
+        const deltaSeconds = (timeStamp.JTtdb - this.sunOsv.timeStamp.JTtdb) * 86400.0;
+
+        return MathUtils.vecSum(this.sunOsv.position, MathUtils.vecMul(this.sunOsv.velocity, deltaSeconds));
+    }
+
+    /**
+     * Perform a single Dormand-Prince step.
+     *
+     * @param {number} t
+     *      Seconds since epoch.
+     * @param {number[]} state
+     *      The state.
+     * @param {number} h
+     *      Step size (seconds).
+     * @returns {number[][]} The new state and the error estimate.
+     */
+    private step(t : number, state : number[], h : number) : number[][]
+    {
+        const k : number[][] = [];
+
+        for (let indStage = 0; indStage < 7; indStage++)
+        {
+            // The state has six components, while vecSum is limited to three.
+            const weights = [1.0].concat(dormandPrince.a[indStage].map((a) => a * h));
+            const stageState = MathUtils.linComb(weights, [state].concat(k));
+            k.push(this.derivative(t + dormandPrince.c[indStage] * h, stageState));
+        }
+
+        const stateNew = MathUtils.linComb([1.0].concat(dormandPrince.b.map((b) => b * h)),
+            [state].concat(k));
+        const error = MathUtils.linComb(
+            dormandPrince.b.map((b, ind) => (b - dormandPrince.bStar[ind]) * h), k);
+
+        return [stateNew, error];
+    }
+
+    /**
+     * Integrate the state with adaptive step size.
+     *
+     * @param {number} t0
+     *      Initial time in seconds since epoch.
+     * @param {number[]} state0
+     *      The initial state.
+     * @param {number} t1
+     *      Final time in seconds since epoch.
+     * @returns {number[]} The final state.
+     */
+    private integrate(t0 : number, state0 : number[], t1 : number) : number[]
+    {
+        const {relTol, absTol, maxStep} = this.integratorConfig;
+        const direction = Math.sign(t1 - t0);
+        let t = t0;
+        let state = state0;
+        let h = Math.min(Math.abs(this.cacheStep), maxStep);
+
+        while (direction * (t1 - t) > 0.0)
+        {
+            const hStep = direction * Math.min(h, Math.abs(t1 - t));
+            const [stateNew, error] = this.step(t, state, hStep);
+
+            let errNorm = 0.0;
+            for (let ind = 0; ind < state.length; ind++)
+            {
+                const scale = absTol + relTol * Math.max(Math.abs(state[ind]), Math.abs(stateNew[ind]));
+                errNorm = Math.max(errNorm, Math.abs(error[ind]) / scale);
+            }
+
+            if (errNorm <= 1.0)
+            {
+                t = t + hStep;
+                state = stateNew;
+            }
+
+            const factor = (errNorm == 0.0) ? 5.0 :
+                Math.min(5.0, Math.max(0.2, 0.9 * Math.pow(errNorm, -0.2)));
+            h = Math.min(Math.abs(hStep) * factor, maxStep);
+
+            if (!(h >= 1e-6))
+            {
+                throw new PropagationError("Step size underflow at " + t + " s");
+            }
+        }
+        this.cacheStep = h;
+
+        return state;
+    }
+
+    /**
+     * Compute the OSV at the given time. The integration is started from the latest
+     * computed state to make sequential calls cheap.
+     *
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @throws {PropagationError} If the step size of the integrator underflows.
+     * @returns {OsvFrame} The OSV in the J2000 frame.
+     */
+    compute(JT : number) : OsvFrame
+    {
+        const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(JT, TimeConvention.TIME_UT1, false);
+        const t = (timeStamp.JTtdb - this.osvEpoch.timeStamp.JTtdb) * 86400.0;
+
+        // Restart from epoch if it is closer than the latest state.
+        if (Math.abs(t) < Math.abs(t - this.cacheTime))
+        {
+            this.cacheTime = 0.0;
+            this.cacheState = this.osvEpoch.position.concat(this.osvEpoch.velocity);
+        }
+
+        this.cacheState = this.integrate(this.cacheTime, this.cacheState, t);
+        this.cacheTime = t;
+
+        return {
+            frame : Frame.FRAME_J2000,
+            timeStamp : timeStamp,
+            position : this.cacheState.slice(0, 3),
+            velocity : this.cacheState.slice(3, 6)
+        };
+    }
+
+    getOutputFrame() : Frame
+    {
+        return Frame.FRAME_J2000;
+    }
+
+    getValidityInterval() : number[]
+    {
+        return [-Infinity, Infinity];
+    }
+
+    /**
+     * Compute the osculating orbital period from the OSV at epoch.
+     *
+     * @returns {number} The orbital period (days).
+     */
+    getOrbitalPeriod() : number
+    {
+        const r = MathUtils.norm(this.osvEpoch.position);
+        const v = MathUtils.norm(this.osvEpoch.velocity);
+        const mu = forceModelConstants.muEarth;
+        const a = 1.0 / (2.0 / r - v * v / mu);
+
+        return 2.0 * Math.PI * Math.sqrt(a * a * a / mu) / 86400.0;
+    }
+}
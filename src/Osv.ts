@@ -0,0 +1,313 @@
+import { JulianTime } from "./computation/JulianTime";
+import { Frame, OsvFrame } from "./computation/Frames";
+import { TimeConvention, TimeCorrelation } from "./computation/TimeCorrelation";
+import { ForceModelConfig, defaultForceModelConfig } from "./computation/ForceModels";
+import { TargetInfo } from "./viewTargets/Target";
+
+/**
+ * Propagators available for OSV targets.
+ */
+export enum OsvPropagator
+{
+    // Two-body motion.
+    TWO_BODY,
+    // Numerical integration with the full force model.
+    NUMERICAL
+}
+
+// Frames, which can be converted to J2000 without additional information.
+const osvFrames : Frame[] = [Frame.FRAME_ECLGEO, Frame.FRAME_J2000, Frame.FRAME_MOD, Frame.FRAME_TOD,
+    Frame.FRAME_PEF, Frame.FRAME_EFI, Frame.FRAME_TEME];
+
+/**
+ * Physical parameters of OSV targets, which are shared with ForceModelConfig.
+ */
+interface OsvPhysicalParameters
+{
+    // Mass (kg)
+    mass : number;
+    // Cross-sectional area for drag (m^2)
+    dragArea : number;
+    // Drag coefficient
+    dragCoeff : number;
+    // Cross-sectional area for solar radiation pressure (m^2)
+    srpArea : number;
+    // Reflectivity coefficient
+    reflectivityCoeff : number;
+}
+
+// Optional physical parameters with the JSON fields and the fields of Osv and ForceModelConfig.
+const osvPhysical : [string, keyof OsvPhysicalParameters][] = [
+    ["MASS",            "mass"],
+    ["DRAG_AREA",       "dragArea"],
+    ["DRAG_COEFF",      "dragCoeff"],
+    ["SOLAR_RAD_AREA",  "srpArea"],
+    ["SOLAR_RAD_COEFF", "reflectivityCoeff"]
+];
+
+/**
+ * Class for the representation of Orbit State Vector (OSV) targets.
+ */
+export class Osv
+{
+    // Target name (string)
+    title : string;
+    // International Designator of the form "2023-076A" (string)
+    objectId : string;
+    // Julian time for the Epoch (UT1).
+    jtUt1Epoch : number;
+    // The frame of the position and the velocity.
+    frame : Frame;
+    // Position (km)
+    position : number[];
+    // Velocity (km/s)
+    velocity : number[];
+    // The propagator.
+    propagator : OsvPropagator;
+    // Mass (kg)
+    mass? : number;
+    // Cross-sectional area for drag (m^2)
+    dragArea? : number;
+    // Drag coefficient
+    dragCoeff? : number;
+    // Cross-sectional area for solar radiation pressure (m^2)
+    srpArea? : number;
+    // Reflectivity coefficient
+    reflectivityCoeff? : number;
+
+    constructor()
+    {
+
+    }
+
+    /**
+     * Parse frame name.
+     *
+     * @param {string} name
+     *      Frame name without the "FRAME_" prefix (e.g. J2000 or EFI).
+     * @throws {Error} If the frame cannot be used for the propagation.
+     * @returns {Frame} The frame.
+     */
+    private static parseFrame(name : string) : Frame
+    {
+        const frame : Frame = Frame[<keyof typeof Frame> ("FRAME_" + name.trim().toUpperCase())];
+
+        if (frame === undefined || osvFrames.indexOf(frame) == -1)
+        {
+            throw Error("Unsupported frame \"" + name + "\" for OSVs!");
+        }
+
+        return frame;
+    }
+
+    /**
+     * Fill from a JSON.
+     *
+     * @param {TargetInfo} json
+     *      The JSON.
+     * @throws {Error} If the JSON does not contain a valid OSV.
+     * @returns {Osv} The object constructed from the JSON.
+     */
+    static fromJson(json : TargetInfo) : Osv
+    {
+        /*{
+            "TYPE":"OSV",
+            "OBJECT_NAME":"TRANSFER",
+            "OBJECT_ID":"2023-901A",
+            "EPOCH":"2023-05-30T14:16:31.144224",
+            "FRAME":"J2000",
+            "X":7000.0, "Y":0.0, "Z":0.0,
+            "X_DOT":0.0, "Y_DOT":6.0, "Z_DOT":4.0,
+            "PROPAGATOR":"NUMERICAL",
+            "MASS":500.0,
+            "DRAG_AREA":4.0,
+            "DRAG_COEFF":2.2,
+            "SOLAR_RAD_AREA":4.0,
+            "SOLAR_RAD_COEFF":1.3}
+        */
+        const osv : Osv = new Osv();
+
+        osv.title      = <string> json["OBJECT_NAME"];
+        osv.objectId   = <string> json["OBJECT_ID"];
+        osv.jtUt1Epoch = JulianTime.timeJulianIso(<string> json["EPOCH"]);
+        osv.frame      = Osv.parseFrame(<string> json["FRAME"]);
+        osv.position   = [<number> json["X"], <number> json["Y"], <number> json["Z"]];
+        osv.velocity   = [<number> json["X_DOT"], <number> json["Y_DOT"], <number> json["Z_DOT"]];
+
+        if (!(osv.position.concat(osv.velocity).every(isFinite)))
+        {
+            throw Error("Invalid position or velocity for \"" + osv.objectId + "\"!");
+        }
+
+        if ("PROPAGATOR" in json)
+        {
+            const propagator = OsvPropagator[<keyof typeof OsvPropagator> json["PROPAGATOR"]];
+
+            if (propagator === undefined)
+            {
+                throw Error("Unsupported propagator \"" + json["PROPAGATOR"] + "\"!");
+            }
+            osv.propagator = propagator;
+        }
+        else
+        {
+            osv.propagator = OsvPropagator.NUMERICAL;
+        }
+
+        for (const [jsonField, field] of osvPhysical)
+        {
+            if (jsonField in json)
+            {
+                osv[field] = <number> json[jsonField];
+            }
+        }
+
+        return osv;
+    }
+
+    /**
+     * Create from a comma-separated line of the form
+     * NAME, OBJECT_ID, EPOCH, FRAME, X, Y, Z, X_DOT, Y_DOT, Z_DOT [, PROPAGATOR
+     * [, MASS, DRAG_AREA, DRAG_COEFF, SOLAR_RAD_AREA, SOLAR_RAD_COEFF]]
+     * with the units of the JSON representation.
+     *
+     * @param {string} line
+     *      The line.
+     * @throws {Error} If the line does not contain a valid OSV.
+     * @returns {Osv} The object constructed from the line.
+     */
+    static fromLine(line : string) : Osv
+    {
+        const fields : string[] = line.split(",").map((field) => field.trim());
+
+        if (fields.length != 10 && fields.length != 11 && fields.length != 16)
+        {
+            throw Error("Expected 10, 11 or 16 fields in \"" + line + "\"!");
+        }
+
+        const json : TargetInfo = {
+            "TYPE"        : "OSV",
+            "OBJECT_NAME" : fields[0],
+            "OBJECT_ID"   : fields[1],
+            "EPOCH"       : fields[2],
+            "FRAME"       : fields[3],
+            "X"           : Number(fields[4]),
+            "Y"           : Number(fields[5]),
+            "Z"           : Number(fields[6]),
+            "X_DOT"       : Number(fields[7]),
+            "Y_DOT"       : Number(fields[8]),
+            "Z_DOT"       : Number(fields[9])
+        };
+        if (fields.length > 10)
+        {
+            json["PROPAGATOR"] = fields[10].toUpperCase();
+        }
+        if (fields.length > 11)
+        {
+            for (let indField = 0; indField < osvPhysical.length; indField++)
+            {
+                json[osvPhysical[indField][0]] = Number(fields[11 + indField]);
+            }
+        }
+
+        return Osv.fromJson(json);
+    }
+
+    /**
+     * Convert to a JSON.
+     *
+     * @returns {TargetInfo} The JSON.
+     */
+    toJson() : TargetInfo
+    {
+        const json : TargetInfo = {
+            "TYPE"        : "OSV",
+            "OBJECT_NAME" : this.title,
+            "OBJECT_ID"   : this.objectId,
+            "EPOCH"       : JulianTime.timeIso(this.jtUt1Epoch),
+            "FRAME"       : Frame[this.frame].substring(6),
+            "X"           : this.position[0],
+            "Y"           : this.position[1],
+            "Z"           : this.position[2],
+            "X_DOT"       : this.velocity[0],
+            "Y_DOT"       : this.velocity[1],
+            "Z_DOT"       : this.velocity[2],
+            "PROPAGATOR"  : OsvPropagator[this.propagator]
+        };
+
+        for (const [jsonField, field] of osvPhysical)
+        {
+            const value : number | undefined = this[field];
+            if (value !== undefined)
+            {
+                json[jsonField] = value;
+            }
+        }
+
+        return json;
+    }
+
+    /**
+     * Convert to a comma-separated line accepted by fromLine.
+     *
+     * @returns {string} The line.
+     */
+    toLine() : string
+    {
+        const json : TargetInfo = this.toJson();
+        const fields : string[] = ["OBJECT_NAME", "OBJECT_ID", "EPOCH", "FRAME",
+            "X", "Y", "Z", "X_DOT", "Y_DOT", "Z_DOT", "PROPAGATOR"];
+        const physicalFields : string[] = osvPhysical.map((physical) => physical[0]);
+
+        // The physical parameters can only be given all at once.
+        if (physicalFields.every((field) => field in json))
+        {
+            fields.push(...physicalFields);
+        }
+
+        return fields.map((field) => json[field].toString()).join(", ");
+    }
+
+    /**
+     * Compute the OSV at epoch in meters and meters per second.
+     *
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @returns {OsvFrame} The OSV.
+     */
+    toOsvFrame(timeCorrelation : TimeCorrelation) : OsvFrame
+    {
+        return {
+            frame : this.frame,
+            timeStamp : timeCorrelation.computeTimeStamp(this.jtUt1Epoch, TimeConvention.TIME_UT1, false),
+            position : this.position.map((x) => x * 1000.0),
+            velocity : this.velocity.map((x) => x * 1000.0)
+        };
+    }
+
+    /**
+     * Create force model configuration for the propagator and the physical parameters.
+     *
+     * @returns {ForceModelConfig} The configuration.
+     */
+    forceModelConfig() : ForceModelConfig
+    {
+        if (this.propagator == OsvPropagator.TWO_BODY)
+        {
+            return {...defaultForceModelConfig, zonalDegree : 0, enableDrag : false,
+                enableSrp : false, enableSun : false, enableMoon : false};
+        }
+
+        const config : ForceModelConfig = {...defaultForceModelConfig};
+        for (const [, field] of osvPhysical)
+        {
+            const value : number | undefined = this[field];
+            if (value !== undefined)
+            {
+                config[field] = value;
+            }
+        }
+
+        return config;
+    }
+}
@@ -0,0 +1,246 @@
+import { Propagation } from "./Propagation";
+import { EnuAngles, Frames, OsvFrame } from "./computation/Frames";
+import { EarthPosition } from "./computation/Wgs84";
+import { Angles } from "./computation/Angles";
+import { RootFinding } from "./computation/RootFinding";
+
+/**
+ * Configuration of the pass prediction.
+ */
+export interface PassConfig
+{
+    // Minimum elevation of the target during a pass (degrees).
+    elevationMask : number;
+    // Sampling interval used to bracket the passes (seconds). This must be shorter than
+    // the shortest pass of interest.
+    timeStep : number;
+    // Accuracy of the event times (seconds).
+    tolerance : number;
+}
+
+/**
+ * Default pass prediction configuration.
+ */
+export const defaultPassConfig : PassConfig = {
+    elevationMask : 0.0,
+    timeStep : 30.0,
+    tolerance : 0.01
+};
+
+/**
+ * Event of a pass.
+ */
+export interface PassEvent
+{
+    // Julian time (UT1).
+    JT : number;
+    // Azimuth measured clockwise from North in [0, 360) (degrees).
+    az : number;
+    // Elevation (degrees).
+    el : number;
+    // Distance from the observer (meters).
+    dist : number;
+}
+
+/**
+ * Pass of a target over an observer.
+ */
+export interface Pass
+{
+    // Name of the target.
+    targetName : string;
+    // Acquisition of signal, when the elevation rises above the mask.
+    aos : PassEvent;
+    // Time of closest approach (culmination), when the elevation is at maximum.
+    tca : PassEvent;
+    // Loss of signal, when the elevation sets below the mask.
+    los : PassEvent;
+    // Maximum elevation (degrees).
+    maxElevation : number;
+    // Whether the pass is clipped by the start or the end of the time window. Then the
+    // AOS or the LOS is at the boundary of the window.
+    partial : boolean;
+}
+
+/**
+ * Class implementing the prediction of the passes of targets over an observer. The
+ * elevation is sampled to bracket the culminations, which are then refined with
+ * golden-section search, and AOS and LOS are found with bisection.
+ */
+export class PassPredictor
+{
+    // Propagation of the targets.
+    private propagation : Propagation;
+    // Configuration.
+    private config : PassConfig;
+
+    /**
+     * Public constructor.
+     *
+     * @param {Propagation} propagation
+     *      Initialized propagation of the targets.
+     * @param {PassConfig} config
+     *      Configuration.
+     */
+    constructor(propagation : Propagation, config : PassConfig = defaultPassConfig)
+    {
+        this.propagation = propagation;
+        this.config = config;
+    }
+
+    /**
+     * Compute the azimuth and elevation of a target.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @returns {EnuAngles | null} The angles or null if the propagation fails.
+     */
+    private computeAngles(targetName : string, earthPos : EarthPosition, JT : number) : EnuAngles | null
+    {
+        const osvEfi : OsvFrame | null = this.propagation.propagateOneEfi(targetName, JT, undefined);
+
+        if (osvEfi === null)
+        {
+            return null;
+        }
+
+        return Frames.coordEnuAzEl(Frames.coordEfiEnu(osvEfi, earthPos));
+    }
+
+    /**
+     * Compute the elevation of a target above the mask.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @returns {number} The elevation minus the mask (degrees). If the propagation fails,
+     *      the target is handled as if it was at nadir.
+     */
+    private elevationAboveMask(targetName : string, earthPos : EarthPosition, JT : number) : number
+    {
+        const angles : EnuAngles | null = this.computeAngles(targetName, earthPos, JT);
+        const el : number = (angles === null) ? -90.0 : angles.el;
+
+        return el - this.config.elevationMask;
+    }
+
+    /**
+     * Create pass event.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @returns {PassEvent} The event.
+     */
+    private createEvent(targetName : string, earthPos : EarthPosition, JT : number) : PassEvent
+    {
+        const angles : EnuAngles | null = this.computeAngles(targetName, earthPos, JT);
+
+        if (angles === null)
+        {
+            return {JT : JT, az : NaN, el : NaN, dist : NaN};
+        }
+
+        return {JT : JT, az : Angles.limitAngleDeg(angles.az), el : angles.el, dist : angles.dist};
+    }
+
+    /**
+     * Predict the passes of a target over an observer.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number} JTstart
+     *      Start of the time window (Julian time, UT1).
+     * @param {number} JTend
+     *      End of the time window (Julian time, UT1).
+     * @returns {Pass[]} The passes in the order of time.
+     */
+    predict(targetName : string, earthPos : EarthPosition, JTstart : number, JTend : number) : Pass[]
+    {
+        const func = (JT : number) : number => this.elevationAboveMask(targetName, earthPos, JT);
+        const JTstep : number = this.config.timeStep / 86400.0;
+        const numSamples : number = Math.max(Math.ceil((JTend - JTstart) / JTstep), 1) + 1;
+
+        const JTsamples : number[] = [];
+        const values : number[] = [];
+        for (let indSample = 0; indSample < numSamples; indSample++)
+        {
+            const JT : number = Math.min(JTstart + indSample * JTstep, JTend);
+            JTsamples.push(JT);
+            values.push(func(JT));
+        }
+
+        const passes : Pass[] = [];
+        let JTlosPrev : number = -Infinity;
+
+        for (let indSample = 0; indSample < numSamples; indSample++)
+        {
+            // Culminations are bracketed by the local maxima of the samples.
+            const isMaximum : boolean = (indSample == 0 || values[indSample - 1] < values[indSample])
+                && (indSample == numSamples - 1 || values[indSample] >= values[indSample + 1]);
+
+            if (!isMaximum || JTsamples[indSample] <= JTlosPrev)
+            {
+                continue;
+            }
+
+            const JTmax : number = RootFinding.findMaximum(func, JTsamples[Math.max(indSample - 1, 0)],
+                JTsamples[Math.min(indSample + 1, numSamples - 1)], this.config.tolerance);
+            if (func(JTmax) <= 0.0 || JTmax <= JTlosPrev)
+            {
+                continue;
+            }
+
+            // The latest sample below the mask before the culmination.
+            let indBefore : number = indSample;
+            while (indBefore >= 0 && (JTsamples[indBefore] > JTmax || values[indBefore] >= 0.0))
+            {
+                indBefore--;
+            }
+            // The earliest sample below the mask after the culmination.
+            let indAfter : number = Math.max(indSample - 1, 0);
+            while (indAfter < numSamples && (JTsamples[indAfter] < JTmax || values[indAfter] >= 0.0))
+            {
+                indAfter++;
+            }
+
+            let JTaos : number = JTstart;
+            let JTlos : number = JTend;
+            if (indBefore >= 0)
+            {
+                JTaos = RootFinding.findZero(func, JTsamples[indBefore],
+                    Math.min(JTsamples[indBefore + 1], JTmax), this.config.tolerance);
+            }
+            if (indAfter < numSamples)
+            {
+                JTlos = RootFinding.findZero(func, Math.max(JTsamples[indAfter - 1], JTmax),
+                    JTsamples[indAfter], this.config.tolerance);
+            }
+            JTlosPrev = JTlos;
+
+            const tca : PassEvent = this.createEvent(targetName, earthPos, JTmax);
+            passes.push({
+                targetName : targetName,
+                aos : this.createEvent(targetName, earthPos, JTaos),
+                tca : tca,
+                los : this.createEvent(targetName, earthPos, JTlos),
+                maxElevation : tca.el,
+                partial : indBefore < 0 || indAfter >= numSamples
+            });
+        }
+
+        return passes;
+    }
+}
@@ -1,20 +1,43 @@
 import { Dataset } from "./viewTargets/Dataset";
 import { TargetCollection, TargetInfoField, TargetInfo } from "./viewTargets/Target";
-import { Sgp4Propagation } from "./TlePropagators";
-import { Tle } from "./Tle";
+import { Propagator, PropagationError } from "./Propagator";
+import { PropagatorRegistry } from "./PropagatorRegistry";
 import { TimeConvention, TimeCorrelation, TimeStamp } from "./computation/TimeCorrelation";
-import { Frames, OsvFrame } from "./computation/Frames";
+import { Frame, FrameModel, Frames, OsvFrame } from "./computation/Frames";
+import { Cio, CipData } from "./computation/Cio";
 import { Nutation, NutationData } from "./computation/Nutation";
 import { Wgs84, EarthPosition } from "./computation/Wgs84";
 
 export type PropagationData = {
-    [key : string] : Sgp4Propagation
+    [key : string] : Propagator
 };
 
 export type PropagatedOsvData = {
     [key : string] : OsvFrame
 };
 
+export type PropagationErrorData = {
+    [key : string] : PropagationError
+};
+
+/**
+ * Propagated states of all targets in preallocated buffers. The three values of the
+ * target with index ind are stored into the elements 3 * ind, 3 * ind + 1 and 3 * ind + 2.
+ */
+export interface PropagationBatch
+{
+    // Names of the targets in the order of the buffers.
+    targetNames : string[];
+    // Whether the target was propagated (1) or skipped (0) in the latest propagation.
+    valid : Uint8Array;
+    // Positions in EFI frame (meters).
+    position : Float64Array;
+    // Velocities in EFI frame (meters per second).
+    velocity : Float64Array;
+    // WGS84 latitude (degrees), longitude (degrees) and altitude (meters).
+    geodetic : Float64Array;
+}
+
 /**
  * Class
  */
@@ -22,25 +45,69 @@ export class Propagation
 {
     // Dataset.
     private dataset : Dataset;
+    // Registry used to select the propagator for each target.
+    private registry : PropagatorRegistry;
     // Propagation data.
     propData : PropagationData;
+    // Errors from the latest call to propagateAll.
+    errors : PropagationErrorData;
     // Time correlation.
     timeCorrelation : TimeCorrelation;
+    // Model for the transformation of the J2000 and ecliptic OSVs to the EFI frame.
+    frameModel : FrameModel;
+    // CIP coordinates of the latest conversion with the CIO-based model.
+    private cipData : CipData | null;
 
     /**
      * Public constructor.
      * 
      * @param {Dataset} dataset 
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @param {PropagatorRegistry} registry
+     *      Registry used to select the propagator for each target.
+     * @param {FrameModel} frameModel
+     *      Model for the transformation of the J2000 and ecliptic OSVs to the EFI frame.
      */
-    constructor(dataset : Dataset, timeCorrelation : TimeCorrelation)
+    constructor(dataset : Dataset, timeCorrelation : TimeCorrelation, 
+        registry : PropagatorRegistry = PropagatorRegistry.createDefault(),
+        frameModel : FrameModel = FrameModel.FRAME_MODEL_EQUINOX)
     {
         this.dataset = dataset;
         this.timeCorrelation = timeCorrelation;
+        this.registry = registry;
+        this.frameModel = frameModel;
+        this.cipData = null;
+        this.errors = {};
+    }
+
+    /**
+     * Set the model for the transformation of the J2000 and ecliptic OSVs to the EFI
+     * frame.
+     * 
+     * @param {FrameModel} frameModel
+     *      The model.
+     */
+    setFrameModel(frameModel : FrameModel) : void
+    {
+        this.frameModel = frameModel;
+    }
+
+    /**
+     * Get the model for the transformation of the J2000 and ecliptic OSVs to the EFI
+     * frame.
+     * 
+     * @returns {FrameModel} The model.
+     */
+    getFrameModel() : FrameModel
+    {
+        return this.frameModel;
     }
 
     /**
      * Initialize propagation data structures with the current dataset. This has to be called
-     * whenever new targets are added to the dataset.
+     * whenever new targets are added to the dataset. The propagator of each target is 
+     * selected with the registry.
      */
     init()
     {
@@ -60,23 +127,29 @@ export class Propagation
 
                 const targetInfo : TargetInfo = targetCollection.getTarget(key);
 
-                const tle = Tle.fromJson(targetInfo);
-                const sgp4Propagation : Sgp4Propagation = new Sgp4Propagation(tle, this.timeCorrelation);
-                sgp4Propagation.initialize();
+                const propagator : Propagator = this.registry.create(targetInfo, this.timeCorrelation);
+                propagator.initialize();
 
-                this.propData[key] = sgp4Propagation;
+                this.propData[key] = propagator;
             }
         }
     }
 
     /**
-     * Propagate all TLEs in the dataset.
+     * Propagate a target over a time range. The range is limited to the validity 
+     * interval of the propagator.
      * 
-     * @param {number} JT 
-     *      Julian time.
-     * @param {NutationData | null} nutation
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {number} JTmin 
+     *      Start of the range (Julian time, UT1).
+     * @param {number} JTmax 
+     *      End of the range (Julian time, UT1).
+     * @param {number} JTstep 
+     *      Time step (days).
+     * @param {NutationData | undefined} nutation
      *      Nutation data.
-     * @returns {PropagatedOsvData} Propagated OSV data.
+     * @returns {EarthPosition[]} The positions of the target.
      */
     propagateOneRange(targetName : string, JTmin : number, JTmax : number, JTstep : number, 
         nutation : NutationData | undefined) 
@@ -89,17 +162,27 @@ export class Propagation
         }
 
         const data : EarthPosition[] = [];
-        const propagation = this.propData[targetName];
+        const [JTstart, JTend] = this.propData[targetName].getValidityInterval();
 
-        for (let JT = JTmin; JT <= JTmax; JT += JTstep)
+        for (let JT = Math.max(JTmin, JTstart); JT <= Math.min(JTmax, JTend); JT += JTstep)
         {
-            const tSince : number = (JT - propagation.tle.jtUt1Epoch) * 1440.0;
-            const osv : OsvFrame = propagation.compute(tSince);
+            let osv : OsvFrame;
+
+            try 
+            {
+                osv = this.propData[targetName].compute(JT);
+            }
+            catch (err)
+            {
+                // Skip the points, where the propagation fails.
+                if (err instanceof PropagationError)
+                {
+                    continue;
+                }
+                throw err;
+            }
 
-            const osvMod = Frames.coordJ2000Mod(osv);
-            const osvTod = Frames.coordModTod(osvMod, <NutationData> nutation);
-            const osvPef = Frames.coordTodPef(osvTod, <NutationData> nutation);
-            const osvEfi = Frames.coordPefEfi(osvPef);
+            const osvEfi = this.coordEfi(osv, <NutationData> nutation);
             const pos : EarthPosition = Wgs84.coordEfiWgs84(osvEfi.position, 10, 1e-10, false);
 
             data.push(pos); 
@@ -109,7 +192,129 @@ export class Propagation
     }
 
     /**
-     * Propagate all TLEs in the dataset.
+     * Compute the CIP coordinates with the IAU 2000A nutation and the celestial pole 
+     * offsets from the time correlation. The coordinates are reused for the targets 
+     * propagated to the same time.
+     * 
+     * @param {TimeStamp} timeStamp 
+     *      Time stamp.
+     * @returns {CipData} The CIP coordinates and the CIO locator.
+     */
+    private computeCip(timeStamp : TimeStamp) : CipData
+    {
+        if (this.cipData === null || this.cipData.timeStamp.JTtdb != timeStamp.JTtdb)
+        {
+            const [dX, dY] = this.timeCorrelation.celestialPoleOffsets(timeStamp.JTut1);
+            this.cipData = Cio.cipCoordinates(timeStamp, Nutation.iau2000a(timeStamp), dX, dY);
+        }
+
+        return this.cipData;
+    }
+
+    /**
+     * Convert propagated OSV to the EFI frame. The J2000 and ecliptic OSVs are converted 
+     * with the selected frame model, while the MoD, ToD, TEME and PEF frames always use
+     * the equinox-based chain.
+     * 
+     * @param {OsvFrame} osv 
+     *      The OSV in geocentric ecliptic, J2000, MoD, ToD, TEME, PEF or EFI frame.
+     * @param {NutationData} nutation 
+     *      Nutation data for the equinox-based model.
+     * @returns {OsvFrame} The OSV in EFI frame.
+     */
+    private coordEfi(osv : OsvFrame, nutation : NutationData) : OsvFrame
+    {
+        switch (osv.frame)
+        {
+            case Frame.FRAME_EFI:
+                return osv;
+            case Frame.FRAME_PEF:
+                return Frames.coordPefEfi(osv);
+            case Frame.FRAME_TEME:
+                return Frames.coordPefEfi(Frames.coordTemePef(osv));
+            case Frame.FRAME_TOD:
+                return Frames.coordPefEfi(Frames.coordTodPef(osv, nutation));
+            case Frame.FRAME_MOD:
+                return this.coordEfi(Frames.coordModTod(osv, nutation), nutation);
+            case Frame.FRAME_J2000:
+                if (this.frameModel == FrameModel.FRAME_MODEL_CIO)
+                {
+                    return Frames.coordJ2000EfiCio(osv, this.computeCip(osv.timeStamp));
+                }
+                return this.coordEfi(Frames.coordJ2000Mod(osv), nutation);
+            case Frame.FRAME_ECLGEO:
+                return this.coordEfi(Frames.coordEclEq(osv), nutation);
+            default:
+                throw Error("Unsupported frame " + Frame[osv.frame]);
+        }
+    }
+
+    /**
+     * Compute the OSV of a target. Propagation errors are stored into the errors 
+     * field. Targets are skipped outside the validity interval of the propagator.
+     * 
+     * @param {string} targetName 
+     *      Name of the target.
+     * @param {number} JT 
+     *      Julian time (UT1).
+     * @returns {OsvFrame | null} The OSV or null if the propagation fails.
+     */
+    private computeTarget(targetName : string, JT : number) : OsvFrame | null
+    {
+        const propagator : Propagator = this.propData[targetName];
+        const [JTstart, JTend] = propagator.getValidityInterval();
+
+        if (JT < JTstart || JT > JTend)
+        {
+            return null;
+        }
+
+        try 
+        {
+            return propagator.compute(JT);
+        }
+        catch (err)
+        {
+            if (err instanceof PropagationError)
+            {
+                this.errors[targetName] = err;
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Compute the OSV of a target in EFI frame. Propagation errors are stored into the 
+     * errors field.
+     * 
+     * @param {string} targetName 
+     *      Name of the target.
+     * @param {number} JT 
+     *      Julian time (UT1).
+     * @param {NutationData | undefined} nutation
+     *      Nutation data.
+     * @returns {OsvFrame | null} The OSV in EFI frame or null if the propagation fails
+     *      or the time is outside the validity interval of the propagator.
+     */
+    propagateOneEfi(targetName : string, JT : number, nutation : NutationData | undefined) : OsvFrame | null
+    {
+        const osv : OsvFrame | null = this.computeTarget(targetName, JT);
+
+        if (osv === null)
+        {
+            return null;
+        }
+        if (nutation === undefined) {
+            nutation = Nutation.iau1980(osv.timeStamp);
+        }
+
+        return this.coordEfi(osv, nutation);
+    }
+
+    /**
+     * Propagate all targets in the dataset. Targets, for which the propagation fails, are 
+     * not included in the output. The errors can be obtained with getErrors.
      * 
      * @param {number} JT 
      *      Julian time.
@@ -121,6 +326,7 @@ export class Propagation
     {
         const targetNames : string[] = Object.keys(this.propData);
         const propagated : PropagatedOsvData = {};
+        this.errors = {};
 
         const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(JT, TimeConvention.TIME_UT1, false);
         
@@ -132,14 +338,15 @@ export class Propagation
         {
             const targetName : string = targetNames[indTarget];
 
-            const propagation = this.propData[targetName];
-            const tSince : number = (JT - propagation.tle.jtUt1Epoch) * 1440.0;
-            const osv : OsvFrame = propagation.compute(tSince);
+            const osv : OsvFrame | null = this.computeTarget(targetName, JT);
 
-            const osvMod = Frames.coordJ2000Mod(osv);
-            const osvTod = Frames.coordModTod(osvMod, <NutationData> nutation);
-            const osvPef = Frames.coordTodPef(osvTod, <NutationData> nutation);
-            const osvEfi = Frames.coordPefEfi(osvPef);
+            // Failing targets are left out of the output and reported in the errors.
+            if (osv === null)
+            {
+                continue;
+            }
+
+            const osvEfi = this.coordEfi(osv, <NutationData> nutation);
 
             propagated[targetName] = osvEfi; 
         }
@@ -147,11 +354,165 @@ export class Propagation
         return propagated;
     }
 
+    /**
+     * Allocate buffers for the batch propagation of the current targets. A new batch
+     * has to be created whenever init is called.
+     * 
+     * @returns {PropagationBatch} The batch.
+     */
+    createBatch() : PropagationBatch
+    {
+        const targetNames : string[] = Object.keys(this.propData);
+        const numTargets : number = targetNames.length;
+
+        return {
+            targetNames : targetNames,
+            valid : new Uint8Array(numTargets),
+            position : new Float64Array(3 * numTargets),
+            velocity : new Float64Array(3 * numTargets),
+            geodetic : new Float64Array(3 * numTargets)
+        };
+    }
+
+    /**
+     * Compute the linear transformation of an OSV from a frame to the EFI frame at 
+     * the given time. The transformation is obtained by converting the unit vectors of
+     * the six-dimensional state space with coordEfi so that it agrees with the 
+     * conversion of individual OSVs.
+     * 
+     * @param {Frame} frame 
+     *      The frame.
+     * @param {TimeStamp} timeStamp 
+     *      Time stamp.
+     * @param {NutationData} nutation 
+     *      Nutation data.
+     * @returns {Float64Array} The 6x6 matrix in row-major order.
+     */
+    private computeEfiTransform(frame : Frame, timeStamp : TimeStamp, nutation : NutationData) : Float64Array
+    {
+        const transform : Float64Array = new Float64Array(36);
+
+        for (let indCol = 0; indCol < 6; indCol++)
+        {
+            const state : number[] = [0, 0, 0, 0, 0, 0];
+            state[indCol] = 1.0;
+
+            const osvEfi : OsvFrame = this.coordEfi({
+                frame : frame,
+                timeStamp : timeStamp,
+                position : state.slice(0, 3),
+                velocity : state.slice(3, 6)
+            }, nutation);
+
+            for (let indRow = 0; indRow < 3; indRow++)
+            {
+                transform[indRow * 6 + indCol] = osvEfi.position[indRow];
+                transform[(indRow + 3) * 6 + indCol] = osvEfi.velocity[indRow];
+            }
+        }
+
+        return transform;
+    }
+
+    /**
+     * Propagate all targets of a batch into its buffers. In contrast to propagateAll, 
+     * the transformations to the EFI frame are computed once per frame and shared 
+     * between the targets. Failing targets are marked invalid, their buffer values are
+     * set to NaN and the errors can be obtained with getErrors.
+     * 
+     * @param {number} JT 
+     *      Julian time (UT1).
+     * @param {PropagationBatch} batch 
+     *      The batch created with createBatch.
+     * @param {NutationData | undefined} nutation
+     *      Nutation data.
+     */
+    propagateBatch(JT : number, batch : PropagationBatch, nutation : NutationData | undefined) : void
+    {
+        const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(JT, TimeConvention.TIME_UT1, false);
+        const transforms : Float64Array[] = [];
+        const {targetNames, valid, position, velocity, geodetic} = batch;
+        this.errors = {};
+
+        if (nutation === undefined) {
+            nutation = Nutation.iau1980(timeStamp);
+        }
+
+        for (let indTarget = 0; indTarget < targetNames.length; indTarget++)
+        {
+            const osv : OsvFrame | null = this.computeTarget(targetNames[indTarget], JT);
+            const offset : number = 3 * indTarget;
+
+            if (osv === null)
+            {
+                valid[indTarget] = 0;
+                position.fill(NaN, offset, offset + 3);
+                velocity.fill(NaN, offset, offset + 3);
+                geodetic.fill(NaN, offset, offset + 3);
+                continue;
+            }
+
+            let transform : Float64Array = transforms[osv.frame];
+            if (transform === undefined)
+            {
+                transform = this.computeEfiTransform(osv.frame, timeStamp, <NutationData> nutation);
+                transforms[osv.frame] = transform;
+            }
+
+            const [x, y, z] = osv.position;
+            const [vx, vy, vz] = osv.velocity;
+            for (let indRow = 0; indRow < 3; indRow++)
+            {
+                const rowPos : number = indRow * 6;
+                const rowVel : number = rowPos + 18;
+
+                position[offset + indRow] = transform[rowPos] * x + transform[rowPos + 1] * y 
+                                          + transform[rowPos + 2] * z + transform[rowPos + 3] * vx 
+                                          + transform[rowPos + 4] * vy + transform[rowPos + 5] * vz;
+                velocity[offset + indRow] = transform[rowVel] * x + transform[rowVel + 1] * y 
+                                          + transform[rowVel + 2] * z + transform[rowVel + 3] * vx 
+                                          + transform[rowVel + 4] * vy + transform[rowVel + 5] * vz;
+            }
+
+            valid[indTarget] = 1;
+            Wgs84.coordEfiWgs84Buffer(position, geodetic, offset, 10);
+        }
+    }
+
     getOrbitalPeriod(targetName : string) : number {
-        return 1.0 / this.propData[targetName].tle.meanMotion;
+        return this.propData[targetName].getOrbitalPeriod();
+    }
+
+    /**
+     * Set the propagator of a target. This can be used to propagate a target with
+     * numerical integration instead of SGP4.
+     * 
+     * @param {string} targetName 
+     *      Name of the target.
+     * @param {Propagator} propagation 
+     *      The initialized propagator.
+     */
+    setPropagation(targetName : string, propagation : Propagator) : void {
+        this.propData[targetName] = propagation;
     }
 
     getPropagationData() : PropagationData {
         return this.propData;
     }
+
+    /**
+     * Get the target information from the dataset.
+     * 
+     * @param {string} targetName 
+     *      Name of the target.
+     * @returns {TargetInfo | null} The target information or null if the target is not
+     *      in the dataset.
+     */
+    getTargetInfo(targetName : string) : TargetInfo | null {
+        return this.dataset.getTarget(targetName);
+    }
+
+    getErrors() : PropagationErrorData {
+        return this.errors;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { Frame, OsvFrame } from "./computation/Frames";
+
+/**
+ * Error thrown by the propagators, when the propagation fails at a given time. 
+ * Propagation records the error for the target and skips the target.
+ */
+export class PropagationError extends Error 
+{
+    /**
+     * Public constructor.
+     * 
+     * @param {string} message 
+     *      Error message.
+     */
+    constructor(message : string)
+    {
+        super(message);
+        this.name = "PropagationError";
+    }
+}
+
+/**
+ * Interface implemented by all propagators used in Propagation. All propagators
+ * operate with Julian times (UT1) and output OSVs in meters and meters per second.
+ */
+export interface Propagator
+{
+    /**
+     * Initialize the propagator. This is called once before the first call to compute.
+     */
+    initialize() : void;
+
+    /**
+     * Compute the OSV at the given time.
+     *
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @throws {PropagationError} If the propagation fails.
+     * @returns {OsvFrame} The OSV in the output frame.
+     */
+    compute(JT : number) : OsvFrame;
+
+    /**
+     * Get the frame of the OSVs from compute.
+     *
+     * @returns {Frame} The frame.
+     */
+    getOutputFrame() : Frame;
+
+    /**
+     * Get the interval of Julian times (UT1) the propagator can be evaluated in.
+     *
+     * @returns {number[]} The start and the end of the interval. Unbounded intervals
+     *      are indicated with infinite values.
+     */
+    getValidityInterval() : number[];
+
+    /**
+     * Get the orbital period.
+     *
+     * @returns {number} The orbital period (days).
+     */
+    getOrbitalPeriod() : number;
+}
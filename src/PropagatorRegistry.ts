@@ -0,0 +1,126 @@
+import { Propagator } from "./Propagator";
+import { TlePropagator } from "./TlePropagators";
+import { KeplerPropagation } from "./KeplerPropagators";
+import { NumericalPropagation } from "./NumericalPropagators";
+import { EphemerisPropagation } from "./EphemerisPropagators";
+import { Tle } from "./Tle";
+import { Kepler } from "./Kepler";
+import { Osv } from "./Osv";
+import { Ephemeris } from "./Ephemeris";
+import { TimeCorrelation } from "./computation/TimeCorrelation";
+import { TargetInfo } from "./viewTargets/Target";
+
+/**
+ * Registry entry describing a propagator implementation.
+ */
+export interface PropagatorEntry
+{
+    // Name of the implementation.
+    name : string;
+    // Check whether the implementation can propagate the target.
+    accepts : (targetInfo : TargetInfo) => boolean;
+    // Create the (uninitialized) propagator for the target.
+    create : (targetInfo : TargetInfo, timeCorrelation : TimeCorrelation) => Propagator;
+}
+
+/**
+ * Class for the selection of the propagator implementation for each target based on
+ * the content of its TargetInfo.
+ */
+export class PropagatorRegistry
+{
+    // The entries in the order of registration.
+    private entries : PropagatorEntry[];
+
+    constructor()
+    {
+        this.entries = [];
+    }
+
+    /**
+     * Register propagator implementation. Entries are checked in the reverse order of
+     * registration so that later entries override the earlier ones.
+     *
+     * @param {PropagatorEntry} entry
+     *      The entry.
+     */
+    register(entry : PropagatorEntry)
+    {
+        this.entries.push(entry);
+    }
+
+    /**
+     * Get the names of the registered implementations.
+     *
+     * @returns {string[]} The names in the order of registration.
+     */
+    getNames() : string[]
+    {
+        return this.entries.map((entry) => entry.name);
+    }
+
+    /**
+     * Create propagator for a target.
+     *
+     * @param {TargetInfo} targetInfo
+     *      Target info.
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @throws {Error} If no registered implementation accepts the target.
+     * @returns {Propagator} The (uninitialized) propagator.
+     */
+    create(targetInfo : TargetInfo, timeCorrelation : TimeCorrelation) : Propagator
+    {
+        for (let indEntry = this.entries.length - 1; indEntry >= 0; indEntry--)
+        {
+            const entry : PropagatorEntry = this.entries[indEntry];
+
+            if (entry.accepts(targetInfo))
+            {
+                return entry.create(targetInfo, timeCorrelation);
+            }
+        }
+
+        throw Error("No propagator for target \"" + targetInfo["OBJECT_NAME"] + "\"!");
+    }
+
+    /**
+     * Create registry with the propagators for TLE, Keplerian, OSV and ephemeris targets.
+     * Targets without the "TYPE" field are handled as TLEs.
+     *
+     * @returns {PropagatorRegistry} The registry.
+     */
+    static createDefault() : PropagatorRegistry
+    {
+        const registry : PropagatorRegistry = new PropagatorRegistry();
+
+        registry.register({
+            name : "TLE",
+            accepts : (targetInfo) => !("TYPE" in targetInfo) || targetInfo["TYPE"] == "TLE",
+            create : (targetInfo, timeCorrelation) => new TlePropagator(Tle.fromJson(targetInfo), timeCorrelation)
+        });
+        registry.register({
+            name : "KEPLER",
+            accepts : (targetInfo) => targetInfo["TYPE"] == "KEPLER",
+            create : (targetInfo, timeCorrelation) =>
+                new KeplerPropagation(Kepler.fromJson(targetInfo), timeCorrelation)
+        });
+        registry.register({
+            name : "OSV",
+            accepts : (targetInfo) => targetInfo["TYPE"] == "OSV",
+            create : (targetInfo, timeCorrelation) => {
+                const osv : Osv = Osv.fromJson(targetInfo);
+                return new NumericalPropagation(osv.toOsvFrame(timeCorrelation), timeCorrelation,
+                    osv.forceModelConfig());
+            }
+        });
+        registry.register({
+            name : "EPHEMERIS",
+            accepts : (targetInfo) => targetInfo["TYPE"] == "EPHEMERIS",
+            create : (targetInfo, timeCorrelation) =>
+                new EphemerisPropagation(Ephemeris.fromJson(targetInfo), timeCorrelation)
+        });
+
+        return registry;
+    }
+}
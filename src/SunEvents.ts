@@ -0,0 +1,258 @@
+import { Eclipses } from "./Eclipses";
+import { Twilight, VisiblePassPredictor } from "./VisiblePasses";
+import { EnuAngles, Frames, OsvFrame } from "./computation/Frames";
+import { EarthPosition } from "./computation/Wgs84";
+import { MathUtils } from "./computation/MathUtils";
+import { TimeConvention, TimeCorrelation, TimeStamp } from "./computation/TimeCorrelation";
+import { Nutation, NutationData } from "./computation/Nutation";
+import { RootFinding } from "./computation/RootFinding";
+
+// Radius of the Sun (meters).
+const radiusSun : number = 6.96e8;
+
+/**
+ * Configuration of the computation of the Sun events.
+ */
+export interface SunEventConfig
+{
+    // Atmospheric refraction at the horizon (degrees).
+    refraction : number;
+    // Sampling interval used to bracket the events (seconds).
+    timeStep : number;
+    // Accuracy of the event times (seconds).
+    tolerance : number;
+}
+
+/**
+ * Default configuration with the standard refraction of 34 arcminutes.
+ */
+export const defaultSunEventConfig : SunEventConfig = {
+    refraction : 34.0 / 60.0,
+    timeStep : 600.0,
+    tolerance : 0.1
+};
+
+/**
+ * State of the Sun w.r.t. an elevation limit during a day.
+ */
+export enum HorizonState
+{
+    // The Sun crosses the limit at least once.
+    CROSSING,
+    // The Sun stays above the limit for the whole day.
+    ALWAYS_ABOVE,
+    // The Sun stays below the limit for the whole day.
+    ALWAYS_BELOW
+}
+
+/**
+ * Crossings of an elevation limit by the Sun during a day.
+ */
+export interface HorizonCrossing
+{
+    // Whether the Sun crosses the limit or stays on one side of it.
+    state : HorizonState;
+    // Julian time (UT1), when the Sun rises above the limit or null if it does not rise
+    // during the day.
+    rising : number | null;
+    // Julian time (UT1), when the Sun sets below the limit or null if it does not set
+    // during the day.
+    setting : number | null;
+}
+
+/**
+ * Sun events of a day at an observer.
+ */
+export interface SunEventTimes
+{
+    // Start of the day (Julian time, UT1).
+    JTstart : number;
+    // Upper transit of the Sun through the meridian (Julian time, UT1) or null if the
+    // day does not contain the transit. Since the solar day is not exactly 24 hours,
+    // this happens occasionally.
+    transit : number | null;
+    // Elevation of the center of the Sun at the transit without refraction (degrees).
+    transitElevation : number | null;
+    // Sunrise and sunset, when the upper limb of the Sun is at the apparent horizon.
+    sunriseSunset : HorizonCrossing;
+    // Civil dawn and dusk.
+    civil : HorizonCrossing;
+    // Nautical dawn and dusk.
+    nautical : HorizonCrossing;
+    // Astronomical dawn and dusk.
+    astronomical : HorizonCrossing;
+}
+
+/**
+ * Class implementing the computation of sunrise, sunset, transit and twilight times
+ * for an observer. The topocentric elevation of the Sun is computed from VSOP87A
+ * through the frame transformations. Sunrise and sunset are corrected for the
+ * refraction and the semi-diameter of the Sun, while the twilights are defined with
+ * the geometric elevation of the center of the Sun.
+ */
+export class SunEvents
+{
+    // Time correlation.
+    private timeCorrelation : TimeCorrelation;
+    // Configuration.
+    private config : SunEventConfig;
+
+    /**
+     * Public constructor.
+     *
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @param {SunEventConfig} config
+     *      Configuration.
+     */
+    constructor(timeCorrelation : TimeCorrelation, config : SunEventConfig = defaultSunEventConfig)
+    {
+        this.timeCorrelation = timeCorrelation;
+        this.config = config;
+    }
+
+    /**
+     * Compute the position of the Sun seen from an observer.
+     *
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @param {NutationData | undefined} nutation
+     *      Nutation data.
+     * @returns {number[]} The elevation of the center of the Sun without refraction
+     *      (degrees), the semi-diameter of the Sun (degrees) and the east coordinate of
+     *      the Sun in the ENU frame (meters).
+     */
+    computeSun(earthPos : EarthPosition, JT : number, nutation : NutationData | undefined) : number[]
+    {
+        const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(JT, TimeConvention.TIME_UT1, false);
+
+        if (nutation === undefined)
+        {
+            nutation = Nutation.iau1980(timeStamp);
+        }
+
+        const osvEfiSun : OsvFrame = Eclipses.computeSunEfi(timeStamp, nutation);
+        const osvEnuSun : OsvFrame = Frames.coordEfiEnu(osvEfiSun, earthPos);
+        const angles : EnuAngles = Frames.coordEnuAzEl(osvEnuSun);
+
+        return [angles.el, MathUtils.asind(radiusSun / angles.dist), osvEnuSun.position[0]];
+    }
+
+    /**
+     * Compute the crossings of an elevation limit by the Sun or the Moon. If the body
+     * rises or sets several times during the day, the first rising and the last setting
+     * are returned.
+     *
+     * @param {Function} func
+     *      The elevation above the limit as a function of Julian time.
+     * @param {number[]} JTsamples
+     *      Sampled Julian times.
+     * @param {number[]} values
+     *      The elevation above the limit at the sampled times.
+     * @param {number} tolerance
+     *      Accuracy of the crossing times (seconds).
+     * @returns {HorizonCrossing} The crossings.
+     */
+    static computeCrossing(func : (JT : number) => number, JTsamples : number[], values : number[],
+        tolerance : number) : HorizonCrossing
+    {
+        let rising : number | null = null;
+        let setting : number | null = null;
+
+        for (let indSample = 1; indSample < JTsamples.length; indSample++)
+        {
+            const above : boolean = values[indSample] > 0.0;
+            const abovePrev : boolean = values[indSample - 1] > 0.0;
+
+            if (above && !abovePrev && rising === null)
+            {
+                rising = RootFinding.findZero(func, JTsamples[indSample - 1],
+                    JTsamples[indSample], tolerance);
+            }
+            else if (!above && abovePrev)
+            {
+                setting = RootFinding.findZero(func, JTsamples[indSample - 1],
+                    JTsamples[indSample], tolerance);
+            }
+        }
+
+        let state : HorizonState = HorizonState.CROSSING;
+        if (rising === null && setting === null)
+        {
+            state = (values[0] > 0.0) ? HorizonState.ALWAYS_ABOVE : HorizonState.ALWAYS_BELOW;
+        }
+
+        return {state : state, rising : rising, setting : setting};
+    }
+
+    /**
+     * Compute the Sun events during a day. The day can start at any time so that the
+     * events can be computed for the local civil day.
+     *
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number} JTstart
+     *      Start of the day (Julian time, UT1).
+     * @returns {SunEventTimes} The events.
+     */
+    compute(earthPos : EarthPosition, JTstart : number) : SunEventTimes
+    {
+        const JTend : number = JTstart + 1.0;
+        const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(
+            JTstart + 0.5, TimeConvention.TIME_UT1, false);
+        const nutation : NutationData = Nutation.iau1980(timeStamp);
+
+        const elevation = (JT : number) : number => this.computeSun(earthPos, JT, nutation)[0];
+        const elevationApparent = (JT : number) : number => {
+            const [el, semiDiameter] = this.computeSun(earthPos, JT, nutation);
+            return el + this.config.refraction + semiDiameter;
+        };
+
+        const JTstep : number = this.config.timeStep / 86400.0;
+        const numSamples : number = Math.ceil(1.0 / JTstep) + 1;
+        const JTsamples : number[] = [];
+        const elevations : number[] = [];
+        const semiDiameters : number[] = [];
+        const easts : number[] = [];
+        for (let indSample = 0; indSample < numSamples; indSample++)
+        {
+            const JT : number = Math.min(JTstart + indSample * JTstep, JTend);
+            const [el, semiDiameter, east] = this.computeSun(earthPos, JT, nutation);
+            JTsamples.push(JT);
+            elevations.push(el);
+            semiDiameters.push(semiDiameter);
+            easts.push(east);
+        }
+
+        // At the upper transit, the Sun crosses the meridian from east to west.
+        let transit : number | null = null;
+        for (let indSample = 1; indSample < numSamples && transit === null; indSample++)
+        {
+            if (easts[indSample - 1] > 0.0 && easts[indSample] <= 0.0)
+            {
+                transit = RootFinding.findZero((JT : number) : number => this.computeSun(earthPos, JT, nutation)[2],
+                    JTsamples[indSample - 1], JTsamples[indSample], this.config.tolerance);
+            }
+        }
+
+        const twilightCrossing = (twilight : Twilight) : HorizonCrossing => {
+            const limit : number = VisiblePassPredictor.sunElevationLimit(twilight);
+            return SunEvents.computeCrossing((JT : number) : number => elevation(JT) - limit,
+                JTsamples, elevations.map((el) => el - limit), this.config.tolerance);
+        };
+
+        return {
+            JTstart : JTstart,
+            transit : transit,
+            transitElevation : (transit === null) ? null : elevation(transit),
+            sunriseSunset : SunEvents.computeCrossing(elevationApparent, JTsamples,
+                elevations.map((el, indSample) => el + this.config.refraction + semiDiameters[indSample]),
+                this.config.tolerance),
+            civil : twilightCrossing(Twilight.CIVIL),
+            nautical : twilightCrossing(Twilight.NAUTICAL),
+            astronomical : twilightCrossing(Twilight.ASTRONOMICAL)
+        };
+    }
+}
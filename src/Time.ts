@@ -1,23 +1,46 @@
 import { JulianTime } from "./computation/JulianTime";
+import { LeapSeconds } from "./computation/LeapSeconds";
 
+/**
+ * Class implementing the simulation time. The time runs in TAI so that the leap 
+ * seconds are not skipped.
+ */
 export class Time
 {
-    // Computed Julian time at last action.
+    // Computed TAI Julian time at last action.
     private JTstart : number;
     // Clock Julian time at last action.
     private JTclockStart : number;
-    // Computed Julian time at last call.
+    // Computed TAI Julian time at last call.
     private JTprev : number;
-    // Delta in Julian time added by the user.
+    // Delta in TAI Julian time added by the user.
     private JTdelta : number;
     // Warp factor at last call.
     private warpFactorPrev : number;
     // Pause
     private pause : boolean;
+    // Table of leap seconds.
+    private leapSeconds : LeapSeconds;
 
-    constructor()
+    /**
+     * Public constructor.
+     * 
+     * @param {LeapSeconds} leapSeconds 
+     *      Table of leap seconds.
+     */
+    constructor(leapSeconds : LeapSeconds = new LeapSeconds())
     {
+        this.leapSeconds = leapSeconds;
+    }
 
+    /**
+     * Get the table of leap seconds.
+     * 
+     * @returns {LeapSeconds} The table of leap seconds.
+     */
+    getLeapSeconds() : LeapSeconds
+    {
+        return this.leapSeconds;
     }
 
     /**
@@ -25,7 +48,7 @@ export class Time
      */
     reset() : void
     {
-        this.JTstart = JulianTime.dateJulianTs(new Date);
+        this.JTstart = this.leapSeconds.correlationUtcTai(JulianTime.dateJulianTs(new Date));
         this.JTclockStart = this.JTstart;
         this.JTprev = this.JTstart;
         this.warpFactorPrev = 1.0;
@@ -33,13 +56,26 @@ export class Time
     }
 
     /**
-     * Compute new state and Julian time.
+     * Compute new state and Julian time. Inside a leap second, the UTC Julian time
+     * is at the beginning of the next day.
      * 
      * @param {number} warpFactorNew 
      *      New warp factor.
-     * @returns {number} The Julian time.
+     * @returns {number} The Julian time (UTC).
      */
     compute(warpFactorNew : number) : number
+    {
+        return this.leapSeconds.correlationTaiUtc(this.computeTai(warpFactorNew));
+    }
+
+    /**
+     * Compute new state and TAI Julian time.
+     * 
+     * @param {number} warpFactorNew 
+     *      New warp factor.
+     * @returns {number} The TAI Julian time.
+     */
+    computeTai(warpFactorNew : number) : number
     {
         let dateNow = new Date();
         const JTclock = JulianTime.timeJulianTs(new Date(dateNow.getTime()));
@@ -73,14 +109,25 @@ export class Time
      * Set time.
      * 
      * @param {number} JTin 
-     *      Julian time.
+     *      Julian time (UTC).
      */
     setTime(JTin : number) 
+    {
+        this.setTimeTai(this.leapSeconds.correlationUtcTai(JTin));
+    }
+
+    /**
+     * Set TAI time.
+     * 
+     * @param {number} JTtai 
+     *      TAI Julian time.
+     */
+    setTimeTai(JTtai : number) 
     {
         let dateNow = new Date();
         this.JTclockStart = JulianTime.timeJulianTs(new Date(dateNow.getTime()));
-        this.JTstart = JTin;
-        this.JTprev = JTin;
+        this.JTstart = JTtai;
+        this.JTprev = JTtai;
         this.JTdelta = 0.0;
     }
 
@@ -106,13 +153,16 @@ export class Time
     }
 
     /**
-     * Add to delta-time.
+     * Add to delta-time. The delta is added to the UTC time so that the clock time 
+     * is kept over leap seconds.
      * 
      * @param {number} JTdelta 
      *      The delta-time in Julian days.
      */
     addToDelta(JTdelta : number)
     {
-        this.JTdelta += JTdelta;
+        const JTtai : number = this.JTprev + this.JTdelta;
+        const JTutc : number = this.leapSeconds.correlationTaiUtc(JTtai);
+        this.JTdelta += this.leapSeconds.correlationUtcTai(JTutc + JTdelta) - JTtai;
     }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { GregorianTime, JulianTime } from "./computation/JulianTime";
+import { LeapSeconds } from "./computation/LeapSeconds";
 import { Time } from "./Time";
 
 /**
@@ -128,10 +129,42 @@ export class TimeView
         });
     }
 
+    /**
+     * Create timestamp of the form "2023-07-10T00:00:00".
+     * 
+     * @param {number} JT 
+     *      Julian time (UTC).
+     * @returns {string} The timestamp.
+     */
     static createTimeStamp(JT : number) : string
     {
-        const timeGreg : GregorianTime = JulianTime.timeGregorian(JT);
+        return TimeView.createTimeStampGregorian(JulianTime.timeGregorian(JT));
+    }
+
+    /**
+     * Create timestamp of the form "2023-07-10T00:00:00" from TAI time. Inside a leap
+     * second, the second is displayed as 23:59:60.
+     * 
+     * @param {number} JTtai 
+     *      TAI Julian time.
+     * @param {LeapSeconds} leapSeconds 
+     *      Table of leap seconds.
+     * @returns {string} The timestamp.
+     */
+    static createTimeStampTai(JTtai : number, leapSeconds : LeapSeconds) : string
+    {
+        return TimeView.createTimeStampGregorian(leapSeconds.gregorianTai(JTtai));
+    }
 
+    /**
+     * Create timestamp of the form "2023-07-10T00:00:00" from Gregorian time.
+     * 
+     * @param {GregorianTime} timeGreg 
+     *      Gregorian time object.
+     * @returns {string} The timestamp.
+     */
+    private static createTimeStampGregorian(timeGreg : GregorianTime) : string
+    {
         function toFixed(num : number)
         {
             if (num < 10)
@@ -159,12 +192,13 @@ export class TimeView
      */
     update() : number
     {
-        const JT = this.time.compute(1.0);
+        const leapSeconds : LeapSeconds = this.time.getLeapSeconds();
+        const JTtai = this.time.computeTai(1.0);
 
-        const timeStr : string = TimeView.createTimeStamp(JT).replace('T', ' ') + " (UTC)";
+        const timeStr : string = TimeView.createTimeStampTai(JTtai, leapSeconds).replace('T', ' ') + " (UTC)";
         this.elementTimeLabel.innerText = timeStr;
 
-        return JT;
+        return leapSeconds.correlationTaiUtc(JTtai);
     }
 
     /**
@@ -172,16 +206,25 @@ export class TimeView
      */
     setTime()
     {
-        const JT = this.time.compute(1.0);
-        const timeIn : string | null = prompt("Select date and time:", TimeView.createTimeStamp(JT) + "Z");
+        const leapSeconds : LeapSeconds = this.time.getLeapSeconds();
+        const JTtai = this.time.computeTai(1.0);
+        const timeIn : string | null = prompt("Select date and time:", 
+            TimeView.createTimeStampTai(JTtai, leapSeconds) + "Z");
         if (timeIn === null)
         {
 
         }
         else
         {
-            const JTin = JulianTime.timeJulianTs(new Date(timeIn));
-            this.time.setTime(JTin);
+            // Date cannot parse the leap second 23:59:60.
+            if (/^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d(\.\d*)?Z?$/.test(timeIn))
+            {
+                this.time.setTimeTai(leapSeconds.timeJulianTaiIso(timeIn));
+            }
+            else 
+            {
+                this.time.setTime(JulianTime.timeJulianTs(new Date(timeIn)));
+            }
         }
     }
 }
\ No newline at end of file
@@ -146,18 +146,6 @@ export class Tle
     {
         const tle : Tle = new Tle();
 
-        function parseEpoch(str : string) : number
-        {
-            const year       = parseInt(str.substring(0, 4));
-            const month      = parseInt(str.substring(5, 7));
-            const dayOfMonth = parseInt(str.substring(8, 10));
-            const hour       = parseInt(str.substring(11, 13));
-            const minute     = parseInt(str.substring(14, 16));
-            const second     = parseFloat(str.substring(17));
-
-            return JulianTime.timeJulianYmdhms(year, month, dayOfMonth, hour, minute, second);            
-        }
-
         /*{
             "OBJECT_NAME":"IRNSS-1J",
             "OBJECT_ID":"2023-076A",
@@ -178,10 +166,7 @@ export class Tle
             "MEAN_MOTION_DDOT":0}
         */
 
-        tle.epochYear = parseInt((<string> json["EPOCH"]).substring(0, 4));
-        const jtEpochYear = JulianTime.timeJulianYmdhms(tle.epochYear, 1, 1, 0, 0, 0);
-        tle.jtUt1Epoch = parseEpoch(<string> json["EPOCH"]);
-        tle.epochFracDay = tle.jtUt1Epoch - jtEpochYear;
+        tle.setEpoch(JulianTime.timeJulianIso(<string> json["EPOCH"]));
     
         tle.title          = <string> json["OBJECT_NAME"];
         tle.catalogNumber  = <number> json["NORAD_CAT_ID"];
@@ -211,6 +196,22 @@ export class Tle
         return tle;
     }
 
+    /**
+     * Set the epoch.
+     * 
+     * @param {number} jtUt1 
+     *      Julian time of the epoch (UT1).
+     */
+    setEpoch(jtUt1 : number)
+    {
+        this.epochYear = JulianTime.timeGregorian(jtUt1).year;
+        const jtEpochYear = JulianTime.timeJulianYmdhms(this.epochYear, 1, 1, 0, 0, 0);
+
+        this.jtUt1Epoch = jtUt1;
+        // The day of the year starts from 1.
+        this.epochFracDay = jtUt1 - jtEpochYear + 1.0;
+    }
+
     /**
      * Create from lines.
      * 
@@ -330,26 +331,8 @@ export class Tle
             launchYear = "20" + this.intLaunchYear;
         }
 
-        function toFixed(num : number)
-        {
-            if (num < 10)
-            {
-                return "0" + num.toString();
-            }
-            else 
-            {
-                return num.toString();
-            }
-        }
         //"EPOCH":"2023-05-30T14:16:31.144224",
-        const epochGregorian : GregorianTime = JulianTime.timeGregorian(this.jtUt1Epoch);
-        const epochTimestamp : string = epochGregorian.year 
-                             + "-" + toFixed(epochGregorian.month)
-                             + "-" + toFixed(epochGregorian.mday)
-                             + "T" + toFixed(epochGregorian.hour)
-                             + ":" + toFixed(epochGregorian.minute)
-                             + ":" + toFixed(Math.floor(epochGregorian.second))
-                             + "." + (epochGregorian.second % 1.0).toFixed(6).substring(2);
+        const epochTimestamp : string = JulianTime.timeIso(this.jtUt1Epoch);
 
         const json : TargetInfo = {
             "TYPE"                : "TLE",
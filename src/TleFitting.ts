@@ -0,0 +1,480 @@
+import { Tle } from "./Tle";
+import { Sgp4Propagation, Sgp4Error } from "./TlePropagators";
+import { Frame, Frames, OsvFrame } from "./computation/Frames";
+import { MathUtils } from "./computation/MathUtils";
+import { Angles } from "./computation/Angles";
+import { KeplerianElements, OrbitalElements } from "./computation/OrbitalElements";
+import { Nutation, NutationData } from "./computation/Nutation";
+import { TimeCorrelation } from "./computation/TimeCorrelation";
+import { forceModelConstants } from "./computation/ForceModels";
+
+/**
+ * Configuration of the TLE fitting.
+ */
+export interface TleFitConfig
+{
+    // Whether the B* drag term is fitted. Otherwise, the value from the initial TLE is used.
+    fitBstar : boolean;
+    // Maximum number of iterations.
+    maxIterations : number;
+    // The iteration is stopped when the relative change of the RMS residual is smaller.
+    tolerance : number;
+    // Weight of the velocity residuals (seconds). With zero weight, only the positions are fitted.
+    velocityWeight : number;
+}
+
+/**
+ * Default TLE fitting configuration.
+ */
+export const defaultTleFitConfig : TleFitConfig = {
+    fitBstar : false,
+    maxIterations : 25,
+    tolerance : 1e-6,
+    velocityWeight : 0.0
+};
+
+/**
+ * Result of the TLE fitting.
+ */
+export interface TleFitResult
+{
+    // The fitted TLE.
+    tle : Tle;
+    // Whether the iteration converged before the maximum number of iterations.
+    converged : boolean;
+    // Whether the iteration stopped without convergence, since the halved steps did 
+    // not decrease the residuals or SGP4 failed on both sides of a parameter.
+    stalled : boolean;
+    // Number of iterations.
+    iterations : number;
+    // RMS of the position residuals (meters).
+    rmsPosition : number;
+    // Maximum of the position residuals (meters).
+    maxPosition : number;
+    // RMS of the velocity residuals (meters per second).
+    rmsVelocity : number;
+    // Position residuals for each observation (meters).
+    residuals : number[];
+}
+
+/**
+ * Evaluation of the TLE at the observations.
+ */
+interface TleFitEvaluation
+{
+    // Weighted residual vector with six elements per observation.
+    residualVector : number[];
+    // The RMS of the weighted residual vector.
+    rms : number;
+}
+
+// Finite-difference steps of the parameters n, e cos(omega), e sin(omega), i, Omega, M + omega, B*.
+const fitSteps : number[] = [1e-8, 1e-7, 1e-7, 1e-5, 1e-5, 1e-5, 1e-6];
+
+/**
+ * Class implementing least-squares differential correction of TLEs to OSV observations.
+ * The mean elements are fitted with the parameters n, e cos(omega), e sin(omega), i,
+ * Omega, M + omega and optionally B*, which avoids the singularity of the argument
+ * of perigee for circular orbits.
+ */
+export class TleFitting
+{
+    /**
+     * Convert an observation to the TEME frame used by SGP4.
+     *
+     * @param {OsvFrame} osv
+     *      The observation in geocentric ecliptic, J2000, MoD, ToD, TEME, PEF or EFI frame.
+     * @returns {OsvFrame} The observation in TEME frame.
+     */
+    static coordTeme(osv : OsvFrame) : OsvFrame
+    {
+        const nutData : NutationData = Nutation.iau1980(osv.timeStamp);
+
+        switch (osv.frame)
+        {
+            case Frame.FRAME_TEME:
+                return osv;
+            case Frame.FRAME_ECLGEO:
+                return Frames.coordJ2000Teme(Frames.coordEclEq(osv), nutData);
+            case Frame.FRAME_J2000:
+                return Frames.coordJ2000Teme(osv, nutData);
+            case Frame.FRAME_MOD:
+                return Frames.coordTodTeme(Frames.coordModTod(osv, nutData), nutData);
+            case Frame.FRAME_TOD:
+                return Frames.coordTodTeme(osv, nutData);
+            case Frame.FRAME_PEF:
+                return Frames.coordPefTeme(osv);
+            case Frame.FRAME_EFI:
+                return Frames.coordPefTeme(Frames.coordEfiPef(osv));
+            default:
+                throw Error("Unsupported frame " + Frame[osv.frame]);
+        }
+    }
+
+    /**
+     * Create a TLE with default identification fields for the given epoch.
+     *
+     * @param {number} jtUt1
+     *      Julian time of the epoch (UT1).
+     * @returns {Tle} The TLE with zero elements.
+     */
+    private static createTle(jtUt1 : number) : Tle
+    {
+        const tle : Tle = new Tle();
+
+        tle.title = "UNKNOWN";
+        tle.catalogNumber = 0;
+        tle.catalogNumber2 = 0;
+        tle.classification = "U";
+        tle.intLaunchYear = "00";
+        tle.intLaunchNum = "000";
+        tle.intLaunchPiece = "A  ";
+        tle.meanMotionDer = 0.0;
+        tle.meanMotionDer2 = 0.0;
+        tle.dragTerm = 0.0;
+        tle.ephemerisType = 0;
+        tle.elementSetNo = 999;
+        tle.revNoAtEpoch = 0;
+        tle.checkSumValid = true;
+        tle.setEpoch(jtUt1);
+
+        return tle;
+    }
+
+    /**
+     * Extract the fitted parameters from a TLE.
+     *
+     * @param {Tle} tle
+     *      The TLE.
+     * @returns {number[]} The parameters n, e cos(omega), e sin(omega), i, Omega, M + omega, B*.
+     */
+    private static tleParameters(tle : Tle) : number[]
+    {
+        return [
+            tle.meanMotion,
+            tle.eccentricity * MathUtils.cosd(tle.argPerigee),
+            tle.eccentricity * MathUtils.sind(tle.argPerigee),
+            tle.inclination,
+            tle.raAscNode,
+            tle.meanAnomaly + tle.argPerigee,
+            tle.dragTerm
+        ];
+    }
+
+    /**
+     * Create TLE from the fitted parameters.
+     *
+     * @param {Tle} tleTemplate
+     *      TLE with the identification fields and the epoch.
+     * @param {number[]} params
+     *      The parameters n, e cos(omega), e sin(omega), i, Omega, M + omega, B*.
+     * @returns {Tle} The TLE.
+     */
+    private static parametersTle(tleTemplate : Tle, params : number[]) : Tle
+    {
+        const tle : Tle = Object.assign(new Tle(), tleTemplate);
+        const argPerigee : number = MathUtils.atan2d(params[2], params[1]);
+
+        tle.meanMotion = params[0];
+        tle.eccentricity = Math.sqrt(params[1] * params[1] + params[2] * params[2]);
+        tle.argPerigee = Angles.limitAngleDeg(argPerigee);
+        tle.inclination = params[3];
+        tle.raAscNode = Angles.limitAngleDeg(params[4]);
+        tle.meanAnomaly = Angles.limitAngleDeg(params[5] - argPerigee);
+        tle.dragTerm = params[6];
+
+        return tle;
+    }
+
+    /**
+     * Evaluate the weighted residuals of a TLE.
+     *
+     * @param {Tle} tle
+     *      The TLE.
+     * @param {OsvFrame[]} observations
+     *      The observations in TEME frame.
+     * @param {TleFitConfig} config
+     *      Fitting configuration.
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @returns {TleFitEvaluation} The residuals.
+     */
+    private static evaluate(tle : Tle, observations : OsvFrame[], config : TleFitConfig,
+        timeCorrelation : TimeCorrelation) : TleFitEvaluation
+    {
+        const sgp4 : Sgp4Propagation = new Sgp4Propagation(tle, timeCorrelation);
+        sgp4.initialize();
+
+        const residualVector : number[] = [];
+        let sumSquares : number = 0.0;
+
+        for (let indObs = 0; indObs < observations.length; indObs++)
+        {
+            const observation : OsvFrame = observations[indObs];
+            const osv : OsvFrame = sgp4.compute((observation.timeStamp.JTut1 - tle.jtUt1Epoch) * 1440.0);
+            const dr : number[] = MathUtils.vecDiff(observation.position, osv.position);
+            const dv : number[] = MathUtils.vecMul(MathUtils.vecDiff(observation.velocity, osv.velocity),
+                config.velocityWeight);
+
+            residualVector.push(...dr, ...dv);
+            sumSquares += MathUtils.dot(dr, dr) + MathUtils.dot(dv, dv);
+        }
+
+        return {residualVector : residualVector, rms : Math.sqrt(sumSquares / observations.length)};
+    }
+
+    /**
+     * Evaluate the weighted residuals of the TLE created from parameters. Failures of
+     * SGP4 are returned as null.
+     *
+     * @param {Tle} tleTemplate
+     *      TLE with the identification fields and the epoch.
+     * @param {number[]} params
+     *      The parameters n, e cos(omega), e sin(omega), i, Omega, M + omega, B*.
+     * @param {OsvFrame[]} observations
+     *      The observations in TEME frame.
+     * @param {TleFitConfig} config
+     *      Fitting configuration.
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @returns {TleFitEvaluation | null} The residuals or null if SGP4 fails.
+     */
+    private static evaluateParameters(tleTemplate : Tle, params : number[], observations : OsvFrame[],
+        config : TleFitConfig, timeCorrelation : TimeCorrelation) : TleFitEvaluation | null
+    {
+        try
+        {
+            return TleFitting.evaluate(TleFitting.parametersTle(tleTemplate, params),
+                observations, config, timeCorrelation);
+        }
+        catch (err)
+        {
+            if (err instanceof Sgp4Error)
+            {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Compute the Jacobian of the computed states with respect to the parameters with 
+     * central differences. One-sided differences are used for the parameters, for which
+     * SGP4 fails on the other side.
+     *
+     * @param {Tle} tleTemplate
+     *      TLE with the identification fields and the epoch.
+     * @param {number[]} params
+     *      The parameters n, e cos(omega), e sin(omega), i, Omega, M + omega, B*.
+     * @param {TleFitEvaluation} evaluation
+     *      The residuals at the parameters.
+     * @param {number} numParams
+     *      Number of fitted parameters.
+     * @param {OsvFrame[]} observations
+     *      The observations in TEME frame.
+     * @param {TleFitConfig} config
+     *      Fitting configuration.
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @returns {number[][] | null} The columns of the Jacobian or null if SGP4 fails 
+     *      on both sides of a parameter.
+     */
+    private static computeJacobian(tleTemplate : Tle, params : number[], evaluation : TleFitEvaluation,
+        numParams : number, observations : OsvFrame[], config : TleFitConfig,
+        timeCorrelation : TimeCorrelation) : number[][] | null
+    {
+        const jacobian : number[][] = [];
+
+        for (let indParam = 0; indParam < numParams; indParam++)
+        {
+            const paramsPlus : number[] = params.slice();
+            const paramsMinus : number[] = params.slice();
+            paramsPlus[indParam] += fitSteps[indParam];
+            paramsMinus[indParam] -= fitSteps[indParam];
+
+            const evaluationPlus : TleFitEvaluation | null = TleFitting.evaluateParameters(tleTemplate,
+                paramsPlus, observations, config, timeCorrelation);
+            const evaluationMinus : TleFitEvaluation | null = TleFitting.evaluateParameters(tleTemplate,
+                paramsMinus, observations, config, timeCorrelation);
+
+            // The residuals are observed minus computed.
+            let residualsPlus : number[] = evaluation.residualVector;
+            let residualsMinus : number[] = evaluation.residualVector;
+            let step : number = fitSteps[indParam];
+            if (evaluationPlus !== null && evaluationMinus !== null)
+            {
+                residualsPlus = evaluationPlus.residualVector;
+                residualsMinus = evaluationMinus.residualVector;
+                step = 2.0 * fitSteps[indParam];
+            }
+            else if (evaluationPlus !== null)
+            {
+                residualsPlus = evaluationPlus.residualVector;
+            }
+            else if (evaluationMinus !== null)
+            {
+                residualsMinus = evaluationMinus.residualVector;
+            }
+            else
+            {
+                return null;
+            }
+
+            jacobian.push(residualsPlus.map((value, ind) => (residualsMinus[ind] - value) / step));
+        }
+
+        return jacobian;
+    }
+
+    /**
+     * Fit TLE to OSV observations with least-squares differential correction. The
+     * Jacobian is computed with central differences, which are replaced by one-sided
+     * differences where SGP4 fails, and the Gauss-Newton steps are halved until the 
+     * residuals decrease.
+     *
+     * @param {OsvFrame[]} observationsIn
+     *      The observations (in meters and meters per second).
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     * @param {TleFitConfig} config
+     *      Fitting configuration.
+     * @param {Tle | undefined} tleInitial
+     *      Initial TLE, which provides the identification fields, the epoch and the
+     *      initial elements. If not given, the epoch of the first observation is used
+     *      and the initial elements are computed from the observation.
+     * @throws {Error} If there are too few observations or the normal equations are singular.
+     * @throws {Sgp4Error} If the propagation of the initial TLE fails.
+     * @returns {TleFitResult} The fitted TLE with residual statistics.
+     */
+    static fit(observationsIn : OsvFrame[], timeCorrelation : TimeCorrelation,
+        config : TleFitConfig = defaultTleFitConfig, tleInitial? : Tle) : TleFitResult
+    {
+        const observations : OsvFrame[] = observationsIn.map(TleFitting.coordTeme);
+        const numParams : number = config.fitBstar ? 7 : 6;
+
+        if (observations.length * (config.velocityWeight > 0.0 ? 6 : 3) < numParams)
+        {
+            throw Error("Too few observations for the fitting!");
+        }
+
+        let tleTemplate : Tle;
+        let params : number[];
+
+        if (tleInitial === undefined)
+        {
+            const kepler : KeplerianElements = OrbitalElements.osvKeplerian(observations[0]);
+            const a : number = kepler.semiMajorAxis;
+            const meanMotion : number = Math.sqrt(forceModelConstants.muEarth / (a * a * a)) * 86400.0 / (2.0 * Math.PI);
+
+            tleTemplate = TleFitting.createTle(observations[0].timeStamp.JTut1);
+            tleTemplate.meanMotion = meanMotion;
+            tleTemplate.eccentricity = kepler.eccentricity;
+            tleTemplate.inclination = kepler.inclination;
+            tleTemplate.raAscNode = kepler.raAscNode;
+            tleTemplate.argPerigee = kepler.argPerigee;
+            tleTemplate.meanAnomaly = kepler.meanAnomaly;
+        }
+        else
+        {
+            tleTemplate = tleInitial;
+        }
+        params = TleFitting.tleParameters(tleTemplate);
+
+        let evaluation : TleFitEvaluation = TleFitting.evaluate(tleTemplate, observations, config, timeCorrelation);
+        let converged : boolean = false;
+        let stalled : boolean = false;
+        let iteration : number = 0;
+
+        for (iteration = 1; iteration <= config.maxIterations; iteration++)
+        {
+            // Jacobian of the residuals with respect to the parameters.
+            const jacobian : number[][] | null = TleFitting.computeJacobian(tleTemplate, params,
+                evaluation, numParams, observations, config, timeCorrelation);
+            if (jacobian === null)
+            {
+                // SGP4 fails on both sides of a parameter.
+                stalled = true;
+                break;
+            }
+
+            // Normal equations.
+            const normalMatrix : number[][] = [];
+            const normalVector : number[] = [];
+            for (let indRow = 0; indRow < numParams; indRow++)
+            {
+                normalMatrix.push(jacobian.map((column) =>
+                    column.reduce((sum, value, ind) => sum + value * jacobian[indRow][ind], 0.0)));
+                normalVector.push(evaluation.residualVector.reduce((sum, value, ind) =>
+                    sum + value * jacobian[indRow][ind], 0.0));
+            }
+            const correction : number[] = MathUtils.solveLinear(normalMatrix, normalVector);
+
+            // Halve the step until the residuals decrease.
+            let scale : number = 1.0;
+            let paramsNew : number[] = params;
+            let evaluationNew : TleFitEvaluation | null = null;
+            for (let indHalving = 0; indHalving < 10; indHalving++)
+            {
+                paramsNew = params.map((value, ind) => (ind < numParams) ? value + scale * correction[ind] : value);
+
+                // Steps, where SGP4 fails, are handled as steps without improvement.
+                evaluationNew = TleFitting.evaluateParameters(tleTemplate, paramsNew, observations,
+                    config, timeCorrelation);
+
+                if (evaluationNew !== null && evaluationNew.rms <= evaluation.rms)
+                {
+                    break;
+                }
+                scale *= 0.5;
+            }
+
+            if (evaluationNew === null || evaluationNew.rms > evaluation.rms)
+            {
+                // No improvement along the correction.
+                stalled = true;
+                break;
+            }
+
+            const change : number = (evaluation.rms - evaluationNew.rms) / Math.max(evaluation.rms, 1e-12);
+            params = paramsNew;
+            evaluation = evaluationNew;
+
+            if (change < config.tolerance)
+            {
+                converged = true;
+                break;
+            }
+        }
+
+        const tle : Tle = TleFitting.parametersTle(tleTemplate, params);
+
+        // Residual statistics.
+        const residuals : number[] = [];
+        let sumPosition : number = 0.0;
+        let sumVelocity : number = 0.0;
+        const sgp4 : Sgp4Propagation = new Sgp4Propagation(tle, timeCorrelation);
+        sgp4.initialize();
+        for (let indObs = 0; indObs < observations.length; indObs++)
+        {
+            const observation : OsvFrame = observations[indObs];
+            const osv : OsvFrame = sgp4.compute((observation.timeStamp.JTut1 - tle.jtUt1Epoch) * 1440.0);
+            const dr : number = MathUtils.norm(MathUtils.vecDiff(observation.position, osv.position));
+            const dv : number = MathUtils.norm(MathUtils.vecDiff(observation.velocity, osv.velocity));
+
+            residuals.push(dr);
+            sumPosition += dr * dr;
+            sumVelocity += dv * dv;
+        }
+
+        return {
+            tle : tle,
+            converged : converged,
+            stalled : stalled,
+            iterations : Math.min(iteration, config.maxIterations),
+            rmsPosition : Math.sqrt(sumPosition / observations.length),
+            maxPosition : Math.max(...residuals),
+            rmsVelocity : Math.sqrt(sumVelocity / observations.length),
+            residuals : residuals
+        };
+    }
+}
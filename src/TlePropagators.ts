@@ -1,7 +1,10 @@
 import {Tle} from "./Tle";
 import { OsvFrame, Frame } from "./computation/Frames";
 import {MathUtils} from "./computation/MathUtils";
+import { Angles } from "./computation/Angles";
+import { KeplerianElements } from "./computation/OrbitalElements";
 import { TimeCorrelation, TimeStamp, TimeConvention } from "./computation/TimeCorrelation";
+import { Propagator, PropagationError } from "./Propagator";
 
 /*const sgp4Constants = {
     mu : 398600.5,               // km^3/s^2
@@ -62,6 +65,155 @@ export interface BrouwerElements
     semiMajorAxisBrouwer : number
 }
 
+/**
+ * Enumeration of SGP4 propagation errors. The values follow the error codes of the classic 
+ * SGP4 implementation.
+ */
+export enum Sgp4ErrorCode 
+{
+    NONE = 0,
+    // Mean eccentricity outside the range [0, 1).
+    ECCENTRICITY_RANGE = 1,
+    // Mean motion less than or equal to zero.
+    MEAN_MOTION_NEGATIVE = 2,
+    // Eccentricity with the lunar-solar periodics outside the range [0, 1].
+    PERTURBED_ECCENTRICITY = 3,
+    // Negative semi-latus rectum.
+    SEMI_LATUS_RECTUM_NEGATIVE = 4,
+    // Orbit has decayed below the surface of the Earth.
+    DECAYED = 6
+}
+
+/**
+ * Error thrown by the SGP4 propagation.
+ */
+export class Sgp4Error extends PropagationError 
+{
+    // Error code.
+    code : Sgp4ErrorCode;
+    // Minutes since epoch.
+    tSince : number;
+
+    /**
+     * Public constructor.
+     * 
+     * @param {Sgp4ErrorCode} code 
+     *      Error code.
+     * @param {number} tSince 
+     *      Minutes since epoch.
+     * @param {string} message 
+     *      Error message.
+     */
+    constructor(code : Sgp4ErrorCode, tSince : number, message : string)
+    {
+        super(message);
+        this.name = "Sgp4Error";
+        this.code = code;
+        this.tSince = tSince;
+    }
+}
+
+/**
+ * Mean elements with secular and long-period perturbations applied. Angles are in
+ * radians, mean motion in radians / minute and the semi-major axis in Earth radii.
+ */
+export interface Sgp4MeanElements
+{
+    am : number,
+    em : number,
+    im : number,
+    nodem : number,
+    argpm : number,
+    mm : number,
+    nm : number
+}
+
+/**
+ * Coefficients of the lunar-solar long-period periodic terms of the SDP4 model
+ * computed at initialization [dscom].
+ */
+export interface Sdp4LunarSolarTerms
+{
+    e3 : number,
+    ee2 : number,
+    se2 : number,
+    se3 : number,
+    sgh2 : number,
+    sgh3 : number,
+    sgh4 : number,
+    sh2 : number,
+    sh3 : number,
+    si2 : number,
+    si3 : number,
+    sl2 : number,
+    sl3 : number,
+    sl4 : number,
+    xgh2 : number,
+    xgh3 : number,
+    xgh4 : number,
+    xh2 : number,
+    xh3 : number,
+    xi2 : number,
+    xi3 : number,
+    xl2 : number,
+    xl3 : number,
+    xl4 : number,
+    // Mean anomalies of the Moon and the Sun at epoch (radians).
+    zmol : number,
+    zmos : number
+}
+
+/**
+ * Coefficients for the lunar-solar secular rates and the geopotential resonance
+ * terms of the SDP4 model [dsinit].
+ */
+export interface Sdp4ResonanceTerms
+{
+    // 0 : no resonance, 1 : synchronous (24h) resonance, 2 : half-day (12h) resonance.
+    irez : number,
+    // Secular rates of the elements due to the Moon and the Sun (radians / minute).
+    dedt : number,
+    didt : number,
+    dmdt : number,
+    dnodt : number,
+    domdt : number,
+    // Coefficients for the synchronous resonance.
+    del1 : number,
+    del2 : number,
+    del3 : number,
+    // Coefficients for the half-day resonance.
+    d2201 : number,
+    d2211 : number,
+    d3210 : number,
+    d3222 : number,
+    d4410 : number,
+    d4422 : number,
+    d5220 : number,
+    d5232 : number,
+    d5421 : number,
+    d5433 : number,
+    // Resonance longitude at epoch and its rate (radians, radians / minute).
+    xlamo : number,
+    xfact : number
+}
+
+/**
+ * The quantities shared between the solar and the lunar terms of the SDP4 model [dscom].
+ */
+interface Sdp4CommonTerms
+{
+    lunarSolarTerms : Sdp4LunarSolarTerms,
+    sinim : number,
+    cosim : number,
+    emsq : number,
+    s1 : number, s2 : number, s3 : number, s4 : number, s5 : number,
+    ss1 : number, ss2 : number, ss3 : number, ss4 : number, ss5 : number,
+    z1 : number, z3 : number, z11 : number, z13 : number, 
+    z21 : number, z23 : number, z31 : number, z33 : number,
+    sz1 : number, sz3 : number, sz11 : number, sz13 : number, 
+    sz21 : number, sz23 : number, sz31 : number, sz33 : number
+}
+
 export class Sgp4Propagation
 {
     tle : Tle;
@@ -82,6 +234,21 @@ export class Sgp4Propagation
 
     gmstEpoch : number;
 
+    // Whether the deep-space (SDP4) model is used. This is selected for orbits with
+    // period of at least 225 minutes.
+    isDeepSpace : boolean;
+    // Whether the higher-order drag terms are dropped (perigee below 220 km or deep space) [isimp].
+    isSimplified : boolean;
+
+    // Deep-space coefficients. Only available if isDeepSpace is set.
+    lunarSolarTerms : Sdp4LunarSolarTerms;
+    resonanceTerms : Sdp4ResonanceTerms;
+
+    // State of the numerical integrator for the resonance terms [atime, xli, xni].
+    resonanceTime : number;
+    resonanceLongitude : number;
+    resonanceMeanMotion : number;
+
     constructor(tle : Tle, timeCorrelation : TimeCorrelation)
     {
         this.tle = tle;
@@ -313,6 +480,619 @@ export class Sgp4Propagation
         };   
     }
 
+    /**
+     * Compute the lunar and solar terms common to the deep-space secular and periodic
+     * perturbations. This is a port of the dscom routine in the SGP4 implementation by 
+     * David Vallado.
+     * 
+     * @param {number} tc
+     *      Minutes since epoch.
+     * @returns {Sdp4CommonTerms} The common terms and the coefficients for the lunar-solar 
+     *      periodics.
+     */
+    private computeDeepSpaceCommon(tc : number) : Sdp4CommonTerms
+    {
+        const twopi = 2.0 * Math.PI;
+        // Eccentricities of the orbits of the Sun and the Moon.
+        const zes = 0.01675;
+        const zel = 0.05490;
+        const c1ss = 2.9864797e-6;
+        const c1l = 4.7968065e-7;
+        // Sine and cosine of the obliquity of the ecliptic and the argument of perigee of the Sun.
+        const zsinis = 0.39785416;
+        const zcosis = 0.91744867;
+        const zcosgs = 0.1945905;
+        const zsings = -0.98088458;
+
+        const nm = this.brouwerElements.meanMotionBrouwer;
+        const em = this.tle.eccentricity;
+        const snodm = Math.sin(this.raAscNodeRadsEpoch);
+        const cnodm = Math.cos(this.raAscNodeRadsEpoch);
+        const sinomm = Math.sin(this.argPerigeeRadsEpoch);
+        const cosomm = Math.cos(this.argPerigeeRadsEpoch);
+        const sinim = Math.sin(this.inclinationRadsEpoch);
+        const cosim = Math.cos(this.inclinationRadsEpoch);
+        const emsq = em * em;
+        const betasq = 1.0 - emsq;
+        const rtemsq = Math.sqrt(betasq);
+
+        // Days since 1950 Jan 0.0 shifted to the J2000.0 epoch.
+        const day = this.tle.jtUt1Epoch - 2433281.5 + 18261.5 + tc / 1440.0;
+        // Longitude of the ascending node of the Moon.
+        const xnodce = (4.5236020 - 9.2422029e-4 * day) % twopi;
+        const stem = Math.sin(xnodce);
+        const ctem = Math.cos(xnodce);
+        const zcosil = 0.91375164 - 0.03568096 * ctem;
+        const zsinil = Math.sqrt(1.0 - zcosil * zcosil);
+        const zsinhl = 0.089683511 * stem / zsinil;
+        const zcoshl = Math.sqrt(1.0 - zsinhl * zsinhl);
+        const gam = 5.8351514 + 0.0019443680 * day;
+        let zx = 0.39785416 * stem / zsinil;
+        const zy = zcoshl * ctem + 0.91744867 * zsinhl * stem;
+        zx = Math.atan2(zx, zy);
+        zx = gam + zx - xnodce;
+        const zcosgl = Math.cos(zx);
+        const zsingl = Math.sin(zx);
+
+        // The solar terms are computed on the first pass and the lunar terms on the second.
+        let zcosg = zcosgs;
+        let zsing = zsings;
+        let zcosi = zcosis;
+        let zsini = zsinis;
+        let zcosh = cnodm;
+        let zsinh = snodm;
+        let cc = c1ss;
+        const xnoi = 1.0 / nm;
+
+        let s1 = 0, s2 = 0, s3 = 0, s4 = 0, s5 = 0, s6 = 0, s7 = 0;
+        let z1 = 0, z2 = 0, z3 = 0, z11 = 0, z12 = 0, z13 = 0, z21 = 0, z22 = 0, z23 = 0;
+        let z31 = 0, z32 = 0, z33 = 0;
+        let ss1 = 0, ss2 = 0, ss3 = 0, ss4 = 0, ss5 = 0, ss6 = 0, ss7 = 0;
+        let sz1 = 0, sz2 = 0, sz3 = 0, sz11 = 0, sz12 = 0, sz13 = 0, sz21 = 0, sz22 = 0, sz23 = 0;
+        let sz31 = 0, sz32 = 0, sz33 = 0;
+
+        for (let lsflg = 1; lsflg <= 2; lsflg++)
+        {
+            const a1 = zcosg * zcosh + zsing * zcosi * zsinh;
+            const a3 = -zsing * zcosh + zcosg * zcosi * zsinh;
+            const a7 = -zcosg * zsinh + zsing * zcosi * zcosh;
+            const a8 = zsing * zsini;
+            const a9 = zsing * zsinh + zcosg * zcosi * zcosh;
+            const a10 = zcosg * zsini;
+            const a2 = cosim * a7 + sinim * a8;
+            const a4 = cosim * a9 + sinim * a10;
+            const a5 = -sinim * a7 + cosim * a8;
+            const a6 = -sinim * a9 + cosim * a10;
+
+            const x1 = a1 * cosomm + a2 * sinomm;
+            const x2 = a3 * cosomm + a4 * sinomm;
+            const x3 = -a1 * sinomm + a2 * cosomm;
+            const x4 = -a3 * sinomm + a4 * cosomm;
+            const x5 = a5 * sinomm;
+            const x6 = a6 * sinomm;
+            const x7 = a5 * cosomm;
+            const x8 = a6 * cosomm;
+
+            z31 = 12.0 * x1 * x1 - 3.0 * x3 * x3;
+            z32 = 24.0 * x1 * x2 - 6.0 * x3 * x4;
+            z33 = 12.0 * x2 * x2 - 3.0 * x4 * x4;
+            z1 = 3.0 * (a1 * a1 + a2 * a2) + z31 * emsq;
+            z2 = 6.0 * (a1 * a3 + a2 * a4) + z32 * emsq;
+            z3 = 3.0 * (a3 * a3 + a4 * a4) + z33 * emsq;
+            z11 = -6.0 * a1 * a5 + emsq * (-24.0 * x1 * x7 - 6.0 * x3 * x5);
+            z12 = -6.0 * (a1 * a6 + a3 * a5) + emsq *
+                  (-24.0 * (x2 * x7 + x1 * x8) - 6.0 * (x3 * x6 + x4 * x5));
+            z13 = -6.0 * a3 * a6 + emsq * (-24.0 * x2 * x8 - 6.0 * x4 * x6);
+            z21 = 6.0 * a2 * a5 + emsq * (24.0 * x1 * x5 - 6.0 * x3 * x7);
+            z22 = 6.0 * (a4 * a5 + a2 * a6) + emsq *
+                  (24.0 * (x2 * x5 + x1 * x6) - 6.0 * (x4 * x7 + x3 * x8));
+            z23 = 6.0 * a4 * a6 + emsq * (24.0 * x2 * x6 - 6.0 * x4 * x8);
+            z1 = z1 + z1 + betasq * z31;
+            z2 = z2 + z2 + betasq * z32;
+            z3 = z3 + z3 + betasq * z33;
+            s3 = cc * xnoi;
+            s2 = -0.5 * s3 / rtemsq;
+            s4 = s3 * rtemsq;
+            s1 = -15.0 * em * s4;
+            s5 = x1 * x3 + x2 * x4;
+            s6 = x2 * x3 + x1 * x4;
+            s7 = x2 * x4 - x1 * x3;
+
+            if (lsflg == 1)
+            {
+                // Store the solar terms and switch to the lunar terms.
+                ss1 = s1; ss2 = s2; ss3 = s3; ss4 = s4; ss5 = s5; ss6 = s6; ss7 = s7;
+                sz1 = z1; sz2 = z2; sz3 = z3;
+                sz11 = z11; sz12 = z12; sz13 = z13;
+                sz21 = z21; sz22 = z22; sz23 = z23;
+                sz31 = z31; sz32 = z32; sz33 = z33;
+                zcosg = zcosgl;
+                zsing = zsingl;
+                zcosi = zcosil;
+                zsini = zsinil;
+                zcosh = zcoshl * cnodm + zsinhl * snodm;
+                zsinh = snodm * zcoshl - cnodm * zsinhl;
+                cc = c1l;
+            }
+        }
+
+        const lunarSolarTerms : Sdp4LunarSolarTerms = {
+            // Solar terms.
+            se2  : 2.0 * ss1 * ss6,
+            se3  : 2.0 * ss1 * ss7,
+            si2  : 2.0 * ss2 * sz12,
+            si3  : 2.0 * ss2 * (sz13 - sz11),
+            sl2  : -2.0 * ss3 * sz2,
+            sl3  : -2.0 * ss3 * (sz3 - sz1),
+            sl4  : -2.0 * ss3 * (-21.0 - 9.0 * emsq) * zes,
+            sgh2 : 2.0 * ss4 * sz32,
+            sgh3 : 2.0 * ss4 * (sz33 - sz31),
+            sgh4 : -18.0 * ss4 * zes,
+            sh2  : -2.0 * ss2 * sz22,
+            sh3  : -2.0 * ss2 * (sz23 - sz21),
+            // Lunar terms.
+            ee2  : 2.0 * s1 * s6,
+            e3   : 2.0 * s1 * s7,
+            xi2  : 2.0 * s2 * z12,
+            xi3  : 2.0 * s2 * (z13 - z11),
+            xl2  : -2.0 * s3 * z2,
+            xl3  : -2.0 * s3 * (z3 - z1),
+            xl4  : -2.0 * s3 * (-21.0 - 9.0 * emsq) * zel,
+            xgh2 : 2.0 * s4 * z32,
+            xgh3 : 2.0 * s4 * (z33 - z31),
+            xgh4 : -18.0 * s4 * zel,
+            xh2  : -2.0 * s2 * z22,
+            xh3  : -2.0 * s2 * (z23 - z21),
+            zmol : (4.7199672 + 0.22997150 * day - gam) % twopi,
+            zmos : (6.2565837 + 0.017201977 * day) % twopi
+        };
+
+        return {
+            lunarSolarTerms : lunarSolarTerms,
+            sinim : sinim, cosim : cosim, emsq : emsq,
+            s1 : s1, s2 : s2, s3 : s3, s4 : s4, s5 : s5,
+            ss1 : ss1, ss2 : ss2, ss3 : ss3, ss4 : ss4, ss5 : ss5,
+            z1 : z1, z3 : z3, z11 : z11, z13 : z13, z21 : z21, z23 : z23, z31 : z31, z33 : z33,
+            sz1 : sz1, sz3 : sz3, sz11 : sz11, sz13 : sz13, sz21 : sz21, sz23 : sz23, sz31 : sz31, sz33 : sz33
+        };
+    }
+
+    /**
+     * Compute the lunar-solar secular rates and the coefficients for the 12h and 24h 
+     * geopotential resonance terms. This is a port of the dsinit routine in the SGP4 
+     * implementation by David Vallado.
+     * 
+     * @param {Sdp4CommonTerms} commonTerms 
+     *      The common terms.
+     * @returns {Sdp4ResonanceTerms} The secular rates and resonance coefficients.
+     */
+    private computeDeepSpaceResonance(commonTerms : Sdp4CommonTerms) : Sdp4ResonanceTerms
+    {
+        const twopi = 2.0 * Math.PI;
+        const q22 = 1.7891679e-6;
+        const q31 = 2.1460748e-6;
+        const q33 = 2.2123015e-7;
+        const root22 = 1.7891679e-6;
+        const root44 = 7.3636953e-9;
+        const root54 = 2.1765803e-9;
+        // Rotation rate of the Earth (radians / minute).
+        const rptim = 4.37526908801129966e-3;
+        const root32 = 3.7393792e-7;
+        const root52 = 1.1428639e-7;
+        const znl = 1.5835218e-4;
+        const zns = 1.19459e-5;
+
+        const {sinim, cosim, emsq, s1, s2, s3, s4, s5, ss1, ss2, ss3, ss4, ss5, 
+            z1, z3, z11, z13, z21, z23, z31, z33, 
+            sz1, sz3, sz11, sz13, sz21, sz23, sz31, sz33} = commonTerms;
+
+        const nm = this.brouwerElements.meanMotionBrouwer;
+        const em = this.tle.eccentricity;
+        const inclm = this.inclinationRadsEpoch;
+
+        let irez = 0;
+        if ((nm < 0.0052359877) && (nm > 0.0034906585))
+        {
+            irez = 1;
+        }
+        if ((nm >= 8.26e-3) && (nm <= 9.24e-3) && (em >= 0.5))
+        {
+            irez = 2;
+        }
+
+        // Solar terms.
+        const ses = ss1 * zns * ss5;
+        const sis = ss2 * zns * (sz11 + sz13);
+        const sls = -zns * ss3 * (sz1 + sz3 - 14.0 - 6.0 * emsq);
+        const sghs = ss4 * zns * (sz31 + sz33 - 6.0);
+        let shs = -zns * ss2 * (sz21 + sz23);
+        // sgp4fix for 180 deg incl
+        if ((inclm < 5.2359877e-2) || (inclm > Math.PI - 5.2359877e-2))
+        {
+            shs = 0.0;
+        }
+        if (sinim != 0.0)
+        {
+            shs = shs / sinim;
+        }
+        const sgs = sghs - cosim * shs;
+
+        // Lunar terms.
+        const dedt = ses + s1 * znl * s5;
+        const didt = sis + s2 * znl * (z11 + z13);
+        const dmdt = sls - znl * s3 * (z1 + z3 - 14.0 - 6.0 * emsq);
+        const sghl = s4 * znl * (z31 + z33 - 6.0);
+        let shll = -znl * s2 * (z21 + z23);
+        // sgp4fix for 180 deg incl
+        if ((inclm < 5.2359877e-2) || (inclm > Math.PI - 5.2359877e-2))
+        {
+            shll = 0.0;
+        }
+        let domdt = sgs + sghl;
+        let dnodt = shs;
+        if (sinim != 0.0)
+        {
+            domdt = domdt - cosim / sinim * shll;
+            dnodt = dnodt + shll / sinim;
+        }
+
+        const terms : Sdp4ResonanceTerms = {
+            irez : irez, dedt : dedt, didt : didt, dmdt : dmdt, dnodt : dnodt, domdt : domdt,
+            del1 : 0, del2 : 0, del3 : 0,
+            d2201 : 0, d2211 : 0, d3210 : 0, d3222 : 0, d4410 : 0, 
+            d4422 : 0, d5220 : 0, d5232 : 0, d5421 : 0, d5433 : 0,
+            xlamo : 0, xfact : 0
+        };
+
+        if (irez == 0)
+        {
+            return terms;
+        }
+
+        const theta = this.gmstEpoch % twopi;
+        const aonv = Math.pow(nm / sgp4Constants.xke, 2.0 / 3.0);
+        const mdot = this.gravityTerms.meanAnomalyDot;
+        const nodedot = this.gravityTerms.lonAscNodeDot;
+        const xpidot = this.gravityTerms.argPerigeeDot + nodedot;
+
+        if (irez == 2)
+        {
+            // Geopotential resonance for 12 hour orbits.
+            const cosisq = cosim * cosim;
+            const eccsq = em * em;
+            const eoc = em * eccsq;
+            const g201 = -0.306 - (em - 0.64) * 0.440;
+            let g211, g310, g322, g410, g422, g520, g521, g532, g533;
+
+            if (em <= 0.65)
+            {
+                g211 = 3.616 - 13.2470 * em + 16.2900 * eccsq;
+                g310 = -19.302 + 117.3900 * em - 228.4190 * eccsq + 156.5910 * eoc;
+                g322 = -18.9068 + 109.7927 * em - 214.6334 * eccsq + 146.5816 * eoc;
+                g410 = -41.122 + 242.6940 * em - 471.0940 * eccsq + 313.9530 * eoc;
+                g422 = -146.407 + 841.8800 * em - 1629.014 * eccsq + 1083.4350 * eoc;
+                g520 = -532.114 + 3017.977 * em - 5740.032 * eccsq + 3708.2760 * eoc;
+            }
+            else
+            {
+                g211 = -72.099 + 331.819 * em - 508.738 * eccsq + 266.724 * eoc;
+                g310 = -346.844 + 1582.851 * em - 2415.925 * eccsq + 1246.113 * eoc;
+                g322 = -342.585 + 1554.908 * em - 2366.899 * eccsq + 1215.972 * eoc;
+                g410 = -1052.797 + 4758.686 * em - 7193.992 * eccsq + 3651.957 * eoc;
+                g422 = -3581.690 + 16178.110 * em - 24462.770 * eccsq + 12422.520 * eoc;
+                if (em > 0.715)
+                {
+                    g520 = -5149.66 + 29936.92 * em - 54087.36 * eccsq + 31324.56 * eoc;
+                }
+                else
+                {
+                    g520 = 1464.74 - 4664.75 * em + 3763.64 * eccsq;
+                }
+            }
+            if (em < 0.7)
+            {
+                g533 = -919.22770 + 4988.6100 * em - 9064.7700 * eccsq + 5542.21 * eoc;
+                g521 = -822.71072 + 4568.6173 * em - 8491.4146 * eccsq + 5337.524 * eoc;
+                g532 = -853.66600 + 4690.2500 * em - 8624.7700 * eccsq + 5341.4 * eoc;
+            }
+            else
+            {
+                g533 = -37995.780 + 161616.52 * em - 229838.20 * eccsq + 109377.94 * eoc;
+                g521 = -51752.104 + 218913.95 * em - 309468.16 * eccsq + 146349.42 * eoc;
+                g532 = -40023.880 + 170470.89 * em - 242699.48 * eccsq + 115605.82 * eoc;
+            }
+
+            const sini2 = sinim * sinim;
+            const f220 = 0.75 * (1.0 + 2.0 * cosim + cosisq);
+            const f221 = 1.5 * sini2;
+            const f321 = 1.875 * sinim * (1.0 - 2.0 * cosim - 3.0 * cosisq);
+            const f322 = -1.875 * sinim * (1.0 + 2.0 * cosim - 3.0 * cosisq);
+            const f441 = 35.0 * sini2 * f220;
+            const f442 = 39.3750 * sini2 * sini2;
+            const f522 = 9.84375 * sinim * (sini2 * (1.0 - 2.0 * cosim - 5.0 * cosisq) +
+                         0.33333333 * (-2.0 + 4.0 * cosim + 6.0 * cosisq));
+            const f523 = sinim * (4.92187512 * sini2 * (-2.0 - 4.0 * cosim + 10.0 * cosisq) +
+                         6.56250012 * (1.0 + 2.0 * cosim - 3.0 * cosisq));
+            const f542 = 29.53125 * sinim * (2.0 - 8.0 * cosim + cosisq * 
+                         (-12.0 + 8.0 * cosim + 10.0 * cosisq));
+            const f543 = 29.53125 * sinim * (-2.0 - 8.0 * cosim + cosisq * 
+                         (12.0 + 8.0 * cosim - 10.0 * cosisq));
+            const xno2 = nm * nm;
+            const ainv2 = aonv * aonv;
+
+            let temp1 = 3.0 * xno2 * ainv2;
+            let temp = temp1 * root22;
+            terms.d2201 = temp * f220 * g201;
+            terms.d2211 = temp * f221 * g211;
+            temp1 = temp1 * aonv;
+            temp = temp1 * root32;
+            terms.d3210 = temp * f321 * g310;
+            terms.d3222 = temp * f322 * g322;
+            temp1 = temp1 * aonv;
+            temp = 2.0 * temp1 * root44;
+            terms.d4410 = temp * f441 * g410;
+            terms.d4422 = temp * f442 * g422;
+            temp1 = temp1 * aonv;
+            temp = temp1 * root52;
+            terms.d5220 = temp * f522 * g520;
+            terms.d5232 = temp * f523 * g532;
+            temp = 2.0 * temp1 * root54;
+            terms.d5421 = temp * f542 * g521;
+            terms.d5433 = temp * f543 * g533;
+            terms.xlamo = (this.meanAnomalyRadsEpoch + this.raAscNodeRadsEpoch + this.raAscNodeRadsEpoch 
+                        - theta - theta) % twopi;
+            terms.xfact = mdot + dmdt + 2.0 * (nodedot + dnodt - rptim) - nm;
+        }
+
+        if (irez == 1)
+        {
+            // Synchronous resonance terms.
+            const g200 = 1.0 + emsq * (-2.5 + 0.8125 * emsq);
+            const g310 = 1.0 + 2.0 * emsq;
+            const g300 = 1.0 + emsq * (-6.0 + 6.60937 * emsq);
+            const f220 = 0.75 * (1.0 + cosim) * (1.0 + cosim);
+            const f311 = 0.9375 * sinim * sinim * (1.0 + 3.0 * cosim) - 0.75 * (1.0 + cosim);
+            let f330 = 1.0 + cosim;
+            f330 = 1.875 * f330 * f330 * f330;
+            const del1 = 3.0 * nm * nm * aonv * aonv;
+            terms.del2 = 2.0 * del1 * f220 * g200 * q22;
+            terms.del3 = 3.0 * del1 * f330 * g300 * q33 * aonv;
+            terms.del1 = del1 * f311 * g310 * q31 * aonv;
+            terms.xlamo = (this.meanAnomalyRadsEpoch + this.raAscNodeRadsEpoch + this.argPerigeeRadsEpoch 
+                        - theta) % twopi;
+            terms.xfact = mdot + xpidot - rptim + dmdt + domdt + dnodt - nm;
+        }
+
+        return terms;
+    }
+
+    /**
+     * Apply the lunar-solar secular perturbations and integrate the resonance terms.
+     * This is a port of the dspace routine in the SGP4 implementation by David Vallado.
+     * 
+     * @param {number} tSince 
+     *      Minutes since epoch.
+     * @param {Sgp4MeanElements} elements 
+     *      Mean elements with the secular perturbations due to the gravity field. The
+     *      fields em, im, nodem, argpm, mm and nm are updated.
+     */
+    private applyDeepSpaceSecular(tSince : number, elements : Sgp4MeanElements)
+    {
+        const twopi = 2.0 * Math.PI;
+        const fasx2 = 0.13130908;
+        const fasx4 = 2.8843198;
+        const fasx6 = 0.37448087;
+        const g22 = 5.7686396;
+        const g32 = 0.95240898;
+        const g44 = 1.8014998;
+        const g52 = 1.0508330;
+        const g54 = 4.4108898;
+        const rptim = 4.37526908801129966e-3;
+        const stepp = 720.0;
+        const stepn = -720.0;
+        const step2 = 259200.0;
+
+        const terms : Sdp4ResonanceTerms = this.resonanceTerms;
+        const no = this.brouwerElements.meanMotionBrouwer;
+
+        const theta = (this.gmstEpoch + tSince * rptim) % twopi;
+        elements.em = elements.em + terms.dedt * tSince;
+        elements.im = elements.im + terms.didt * tSince;
+        elements.argpm = elements.argpm + terms.domdt * tSince;
+        elements.nodem = elements.nodem + terms.dnodt * tSince;
+        elements.mm = elements.mm + terms.dmdt * tSince;
+
+        if (terms.irez == 0)
+        {
+            return;
+        }
+
+        // Restart the integration from epoch if the integrator state cannot be reused.
+        if (this.resonanceTime == 0.0 || tSince * this.resonanceTime <= 0.0 
+            || Math.abs(tSince) < Math.abs(this.resonanceTime))
+        {
+            this.resonanceTime = 0.0;
+            this.resonanceMeanMotion = no;
+            this.resonanceLongitude = terms.xlamo;
+        }
+
+        const delt = (tSince > 0.0) ? stepp : stepn;
+        let xli = this.resonanceLongitude;
+        let xni = this.resonanceMeanMotion;
+        let atime = this.resonanceTime;
+        let xndt = 0;
+        let xnddt = 0;
+        let xldot = 0;
+        let ft = 0;
+        let done = false;
+
+        while (!done)
+        {
+            if (terms.irez != 2)
+            {
+                // Near-synchronous resonance terms.
+                xndt = terms.del1 * Math.sin(xli - fasx2) 
+                     + terms.del2 * Math.sin(2.0 * (xli - fasx4)) 
+                     + terms.del3 * Math.sin(3.0 * (xli - fasx6));
+                xldot = xni + terms.xfact;
+                xnddt = terms.del1 * Math.cos(xli - fasx2) 
+                      + 2.0 * terms.del2 * Math.cos(2.0 * (xli - fasx4)) 
+                      + 3.0 * terms.del3 * Math.cos(3.0 * (xli - fasx6));
+                xnddt = xnddt * xldot;
+            }
+            else
+            {
+                // Near half-day resonance terms.
+                const xomi = this.argPerigeeRadsEpoch + this.gravityTerms.argPerigeeDot * atime;
+                const x2omi = xomi + xomi;
+                const x2li = xli + xli;
+                xndt = terms.d2201 * Math.sin(x2omi + xli - g22) + terms.d2211 * Math.sin(xli - g22) 
+                     + terms.d3210 * Math.sin(xomi + xli - g32) + terms.d3222 * Math.sin(-xomi + xli - g32) 
+                     + terms.d4410 * Math.sin(x2omi + x2li - g44) + terms.d4422 * Math.sin(x2li - g44) 
+                     + terms.d5220 * Math.sin(xomi + xli - g52) + terms.d5232 * Math.sin(-xomi + xli - g52) 
+                     + terms.d5421 * Math.sin(xomi + x2li - g54) + terms.d5433 * Math.sin(-xomi + x2li - g54);
+                xldot = xni + terms.xfact;
+                xnddt = terms.d2201 * Math.cos(x2omi + xli - g22) + terms.d2211 * Math.cos(xli - g22) 
+                      + terms.d3210 * Math.cos(xomi + xli - g32) + terms.d3222 * Math.cos(-xomi + xli - g32) 
+                      + terms.d5220 * Math.cos(xomi + xli - g52) + terms.d5232 * Math.cos(-xomi + xli - g52) 
+                      + 2.0 * (terms.d4410 * Math.cos(x2omi + x2li - g44) + terms.d4422 * Math.cos(x2li - g44) 
+                      + terms.d5421 * Math.cos(xomi + x2li - g54) + terms.d5433 * Math.cos(-xomi + x2li - g54));
+                xnddt = xnddt * xldot;
+            }
+
+            if (Math.abs(tSince - atime) >= stepp)
+            {
+                xli = xli + xldot * delt + xndt * step2;
+                xni = xni + xndt * delt + xnddt * step2;
+                atime = atime + delt;
+            }
+            else 
+            {
+                ft = tSince - atime;
+                done = true;
+            }
+        }
+
+        this.resonanceLongitude = xli;
+        this.resonanceMeanMotion = xni;
+        this.resonanceTime = atime;
+
+        elements.nm = xni + xndt * ft + xnddt * ft * ft * 0.5;
+        const xl = xli + xldot * ft + xndt * ft * ft * 0.5;
+
+        if (terms.irez != 1)
+        {
+            elements.mm = xl - 2.0 * elements.nodem + 2.0 * theta;
+        }
+        else
+        {
+            elements.mm = xl - elements.nodem - elements.argpm + theta;
+        }
+    }
+
+    /**
+     * Apply the lunar-solar long-period periodic perturbations. This is a port of the dpper
+     * routine in the SGP4 implementation by David Vallado.
+     * 
+     * @param {number} tSince
+     *      Minutes since epoch.
+     * @param {Sgp4MeanElements} elements
+     *      Mean elements. The fields em, im, nodem, argpm and mm are updated.
+     */
+    private applyDeepSpacePeriodics(tSince : number, elements : Sgp4MeanElements)
+    {
+        const twopi = 2.0 * Math.PI;
+        const zns = 1.19459e-5;
+        const zes = 0.01675;
+        const znl = 1.5835218e-4;
+        const zel = 0.05490;
+        const terms : Sdp4LunarSolarTerms = this.lunarSolarTerms;
+
+        // Solar terms.
+        let zm = terms.zmos + zns * tSince;
+        let zf = zm + 2.0 * zes * Math.sin(zm);
+        let sinzf = Math.sin(zf);
+        let f2 = 0.5 * sinzf * sinzf - 0.25;
+        let f3 = -0.5 * sinzf * Math.cos(zf);
+        const ses = terms.se2 * f2 + terms.se3 * f3;
+        const sis = terms.si2 * f2 + terms.si3 * f3;
+        const sls = terms.sl2 * f2 + terms.sl3 * f3 + terms.sl4 * sinzf;
+        const sghs = terms.sgh2 * f2 + terms.sgh3 * f3 + terms.sgh4 * sinzf;
+        const shs = terms.sh2 * f2 + terms.sh3 * f3;
+
+        // Lunar terms.
+        zm = terms.zmol + znl * tSince;
+        zf = zm + 2.0 * zel * Math.sin(zm);
+        sinzf = Math.sin(zf);
+        f2 = 0.5 * sinzf * sinzf - 0.25;
+        f3 = -0.5 * sinzf * Math.cos(zf);
+        const sel = terms.ee2 * f2 + terms.e3 * f3;
+        const sil = terms.xi2 * f2 + terms.xi3 * f3;
+        const sll = terms.xl2 * f2 + terms.xl3 * f3 + terms.xl4 * sinzf;
+        const sghl = terms.xgh2 * f2 + terms.xgh3 * f3 + terms.xgh4 * sinzf;
+        const shll = terms.xh2 * f2 + terms.xh3 * f3;
+
+        const pe = ses + sel;
+        const pinc = sis + sil;
+        const pl = sls + sll;
+        let pgh = sghs + sghl;
+        let ph = shs + shll;
+
+        elements.im = elements.im + pinc;
+        elements.em = elements.em + pe;
+        const sinip = Math.sin(elements.im);
+        const cosip = Math.cos(elements.im);
+
+        if (elements.im >= 0.2)
+        {
+            // Apply periodics directly.
+            ph = ph / sinip;
+            pgh = pgh - cosip * ph;
+            elements.argpm = elements.argpm + pgh;
+            elements.nodem = elements.nodem + ph;
+            elements.mm = elements.mm + pl;
+        }
+        else
+        {
+            // Apply periodics with Lyddane modification.
+            const sinop = Math.sin(elements.nodem);
+            const cosop = Math.cos(elements.nodem);
+            let alfdp = sinip * sinop;
+            let betdp = sinip * cosop;
+            const dalf = ph * cosop + pinc * cosip * sinop;
+            const dbet = -ph * sinop + pinc * cosip * cosop;
+            alfdp = alfdp + dalf;
+            betdp = betdp + dbet;
+            elements.nodem = elements.nodem % twopi;
+            if (elements.nodem < 0.0)
+            {
+                elements.nodem = elements.nodem + twopi;
+            }
+            let xls = elements.mm + elements.argpm + cosip * elements.nodem;
+            const dls = pl + pgh - pinc * elements.nodem * sinip;
+            xls = xls + dls;
+            const xnoh = elements.nodem;
+            elements.nodem = Math.atan2(alfdp, betdp);
+            if (elements.nodem < 0.0)
+            {
+                elements.nodem = elements.nodem + twopi;
+            }
+            if (Math.abs(xnoh - elements.nodem) > Math.PI)
+            {
+                if (elements.nodem < xnoh)
+                {
+                    elements.nodem = elements.nodem + twopi;
+                }
+                else
+                {
+                    elements.nodem = elements.nodem - twopi;
+                }
+            }
+            elements.mm = elements.mm + pl;
+            elements.argpm = xls - elements.mm - cosip * elements.nodem;
+        }
+    }
+
     /**
      * Perform initialization of SGP4 with the TLE data.
      */
@@ -337,6 +1117,24 @@ export class Sgp4Propagation
 
         // Compute coefficients for perturbation terms due to drag.
         this.dragTerms = this.computeDragPertubationsSgp4();
+
+        // Perigee distance (in Earth radii) [rp].
+        const rPerigee = this.brouwerElements.semiMajorAxisBrouwer * (1.0 - this.tle.eccentricity);
+
+        // Orbits with periods of at least 225 minutes require the deep-space model.
+        this.isDeepSpace = (2.0 * Math.PI / this.brouwerElements.meanMotionBrouwer) >= 225.0;
+        this.isSimplified = this.isDeepSpace || (rPerigee < 220.0 / sgp4Constants.radiusEarthKm + 1.0);
+
+        if (this.isDeepSpace)
+        {
+            const commonTerms : Sdp4CommonTerms = this.computeDeepSpaceCommon(0.0);
+            this.lunarSolarTerms = commonTerms.lunarSolarTerms;
+            this.resonanceTerms = this.computeDeepSpaceResonance(commonTerms);
+
+            this.resonanceTime = 0.0;
+            this.resonanceLongitude = this.resonanceTerms.xlamo;
+            this.resonanceMeanMotion = this.brouwerElements.meanMotionBrouwer;
+        }
     }
 
     /**
@@ -390,13 +1188,14 @@ export class Sgp4Propagation
     }
 
     /**
-     * Apply secular perturbations to the mean elements.
+     * Apply secular perturbations to the mean elements. For deep-space orbits, this includes
+     * the lunar-solar secular terms and the resonance terms.
      * 
      * @param {number} tSince 
      *      Minutes since epoch.
-     * @returns 
+     * @returns {Sgp4MeanElements} The mean elements at the given time.
      */
-    applySecularPerturbations(tSince : number)
+    applySecularPerturbations(tSince : number) : Sgp4MeanElements
     {
         const t2 = tSince * tSince;
         const t3 = t2 * tSince;
@@ -413,69 +1212,155 @@ export class Sgp4Propagation
         const argpdf = this.argPerigeeRadsEpoch  + this.gravityTerms.argPerigeeDot * tSince;
         const nodedf = this.raAscNodeRadsEpoch   + this.gravityTerms.lonAscNodeDot * tSince;
 
-        const xi = 1.0 / (this.brouwerElements.semiMajorAxisBrouwer - this.dragTerms.s);
-        const eta = this.brouwerElements.semiMajorAxisBrouwer * this.tle.eccentricity * xi;
-        const delmotemp = 1.0 + eta * Math.cos(this.meanAnomalyRadsEpoch);
-        const delmo = delmotemp * delmotemp * delmotemp;
-
         const pinvsq = 1 / (semiLatusRectum * semiLatusRectum);
         const temp1 = 1.5 * sgp4Constants.j2 * pinvsq * this.brouwerElements.meanMotionBrouwer;
         const xhdot1 = -temp1 * Math.cos(this.inclinationRadsEpoch);
 
         const nodeCf = 3.5 * oneMinusEccSqu * xhdot1 * this.dragTerms.c1;
-        const nodem = (nodedf + nodeCf * t2) % twopi;
+        let nodem = nodedf + nodeCf * t2;
+        let argpm = argpdf;
+        let mm = xmdf;
 
-        // Compute drag term for argument of perihelion.
-        const delomg = this.tle.dragTerm * this.dragTerms.c3 * Math.cos(this.argPerigeeRadsEpoch) * tSince;
-        // Compute drag term for mean anomaly.
-        const delm = this.dragTerms.xmcof * (Math.pow(1.0 + eta * Math.cos(xmdf), 3.0) - delmo);
+        // Compute the time-dependent parts of the drag terms as polynomial expansions of (t - t_0).
+        let tempa = 1 - this.dragTerms.c1 * tSince;
+        let tempe = this.tle.dragTerm * this.dragTerms.c4 * tSince;
+        let templ = this.dragTerms.t2cof * t2;
 
-        // Kozai mean element for mean anomaly with
-        const mmtemp = xmdf + delomg + delm;
-        const argpm = (argpdf - delomg - delm) % twopi;
+        // The higher-order drag terms are omitted for low-perigee and deep-space orbits.
+        if (!this.isSimplified)
+        {
+            const xi = 1.0 / (this.brouwerElements.semiMajorAxisBrouwer - this.dragTerms.s);
+            const eta = this.brouwerElements.semiMajorAxisBrouwer * this.tle.eccentricity * xi;
+            const delmotemp = 1.0 + eta * Math.cos(this.meanAnomalyRadsEpoch);
+            const delmo = delmotemp * delmotemp * delmotemp;
+
+            // Compute drag term for argument of perihelion.
+            const delomg = this.tle.dragTerm * this.dragTerms.c3 * Math.cos(this.argPerigeeRadsEpoch) * tSince;
+            // Compute drag term for mean anomaly.
+            const delm = this.dragTerms.xmcof * (Math.pow(1.0 + eta * Math.cos(xmdf), 3.0) - delmo);
+
+            mm = xmdf + delomg + delm;
+            argpm = argpdf - delomg - delm;
+
+            tempa = tempa
+                  - this.dragTerms.d2 * t2 
+                  - this.dragTerms.d3 * t3 
+                  - this.dragTerms.d4 * t4;
+            tempe = tempe 
+                  + this.tle.dragTerm * this.dragTerms.c5 * (Math.sin(mm) - Math.sin(this.meanAnomalyRadsEpoch));
+            templ = templ 
+                  + this.dragTerms.t3cof * t3 
+                  + this.dragTerms.t4cof * t4 
+                  + this.dragTerms.t5cof * t5;
+        }
 
-        // Compute the time-dependent parts of the drag terms as polynomial expansions of (t - t_0).
-        const tempa = 1 
-                    - this.dragTerms.c1 * tSince 
-                    - this.dragTerms.d2 * t2 
-                    - this.dragTerms.d3 * t3 
-                    - this.dragTerms.d4 * t4;
-        const tempe = this.tle.dragTerm * this.dragTerms.c4 * tSince 
-                    + this.tle.dragTerm * this.dragTerms.c5 * (Math.sin(mmtemp) -Math.sin(this.meanAnomalyRadsEpoch));
-        const templ = this.dragTerms.t2cof * t2 
-                    + this.dragTerms.t3cof * t3 
-                    + this.dragTerms.t4cof * t4 
-                    + this.dragTerms.t5cof * t5;
-
-        let inclm = this.inclinationRadsEpoch;
-
-        // This could be done already in the initialization.
-        if (this.brouwerElements.meanMotionBrouwer <= 0.0)
+        const elements : Sgp4MeanElements = {
+            am : this.brouwerElements.semiMajorAxisBrouwer, 
+            em : this.tle.eccentricity, 
+            im : this.inclinationRadsEpoch, 
+            nodem : nodem, 
+            argpm : argpm, 
+            mm : mm, 
+            nm : this.brouwerElements.meanMotionBrouwer
+        };
+
+        if (this.isDeepSpace)
+        {
+            this.applyDeepSpaceSecular(tSince, elements);
+        }
+
+        if (elements.nm <= 0.0)
         {
-            // Error
+            throw new Sgp4Error(Sgp4ErrorCode.MEAN_MOTION_NEGATIVE, tSince, 
+                "Mean motion " + elements.nm + " <= 0");
         }
-        // Apply correction terms to Brouwer semi-major axis.
-        let am = this.brouwerElements.semiMajorAxisBrouwer * tempa * tempa;
+        // Apply correction terms to the semi-major axis.
+        elements.am = Math.pow(sgp4Constants.xke / elements.nm, 2.0 / 3.0) * tempa * tempa;
         // Compute mean motion from the corrected semi-major axis.
-        let nm = sgp4Constants.xke / Math.pow(am, 1.5);
-        // Apply drag correction terms to the mean eccentricity at epoch.
-        let em = this.tle.eccentricity - tempe;
-        //
-        const im = this.inclinationRadsEpoch;
+        elements.nm = sgp4Constants.xke / Math.pow(elements.am, 1.5);
+        // Apply drag correction terms to the mean eccentricity.
+        elements.em = elements.em - tempe;
 
         // fix tolerance for error recognition
         // sgp4fix am is fixed from the previous nm check
-        if ((em >= 1.0) || (em < -0.001)/* || (am < 0.95)*/)
+        if ((elements.em >= 1.0) || (elements.em < -0.001))
         {
-            // error
+            throw new Sgp4Error(Sgp4ErrorCode.ECCENTRICITY_RANGE, tSince, 
+                "Mean eccentricity " + elements.em + " outside [0, 1)");
         }
         // sgp4fix fix tolerance to avoid a divide by zero
-        if (em < 1.0e-6)
-            em = 1.0e-6;
+        if (elements.em < 1.0e-6)
+            elements.em = 1.0e-6;
+
+        elements.mm = elements.mm + this.brouwerElements.meanMotionBrouwer * templ;
+        const xlm = (elements.mm + elements.argpm + elements.nodem) % twopi;
+        elements.nodem = elements.nodem % twopi;
+        elements.argpm = elements.argpm % twopi;
+        elements.mm = (xlm - elements.argpm - elements.nodem) % twopi;
+
+        return elements;
+    }
+
+    /**
+     * Get the Kozai mean elements of the TLE.
+     * 
+     * @returns {KeplerianElements} The Kozai mean elements with the semi-major axis in meters.
+     */
+    getKozaiElements() : KeplerianElements
+    {
+        const meanMotionKozai : number = this.tle.meanMotion * 2.0 * Math.PI / 1440.0;
+
+        return {
+            semiMajorAxis : Math.pow(sgp4Constants.xke / meanMotionKozai, 2.0 / 3.0) 
+                          * sgp4Constants.radiusEarthKm * 1000.0,
+            eccentricity : this.tle.eccentricity,
+            inclination : this.tle.inclination,
+            raAscNode : this.tle.raAscNode,
+            argPerigee : this.tle.argPerigee,
+            meanAnomaly : this.tle.meanAnomaly
+        };
+    }
+
+    /**
+     * Get the Brouwer mean elements at epoch. The propagation must be initialized.
+     * 
+     * @returns {KeplerianElements} The Brouwer mean elements with the semi-major axis in meters.
+     */
+    getBrouwerElements() : KeplerianElements
+    {
+        return {
+            semiMajorAxis : this.brouwerElements.semiMajorAxisBrouwer * sgp4Constants.radiusEarthKm * 1000.0,
+            eccentricity : this.tle.eccentricity,
+            inclination : this.tle.inclination,
+            raAscNode : this.tle.raAscNode,
+            argPerigee : this.tle.argPerigee,
+            meanAnomaly : this.tle.meanAnomaly
+        };
+    }
 
-        const mm = (mmtemp + this.brouwerElements.meanMotionBrouwer * templ) % twopi;    
+    /**
+     * Get the mean elements with the secular gravitational and drag perturbations (and 
+     * for deep-space orbits, the lunar-solar secular and resonance terms) applied. The
+     * periodic perturbations, which distinguish the mean and the osculating elements,
+     * are not included. The propagation must be initialized.
+     * 
+     * @param {number} tSince 
+     *      Minutes since epoch.
+     * @throws {Sgp4Error} If the mean elements are invalid.
+     * @returns {KeplerianElements} The mean elements with the semi-major axis in meters.
+     */
+    getMeanElements(tSince : number) : KeplerianElements
+    {
+        const elements : Sgp4MeanElements = this.applySecularPerturbations(tSince);
 
-        return {am : am, em : em, im : im, nodem : nodem, argpm : argpm, mm : mm, nm : nm};
+        return {
+            semiMajorAxis : elements.am * sgp4Constants.radiusEarthKm * 1000.0,
+            eccentricity : elements.em,
+            inclination : Angles.limitAngleDeg(MathUtils.rad2Deg(elements.im)),
+            raAscNode : Angles.limitAngleDeg(MathUtils.rad2Deg(elements.nodem)),
+            argPerigee : Angles.limitAngleDeg(MathUtils.rad2Deg(elements.argpm)),
+            meanAnomaly : Angles.limitAngleDeg(MathUtils.rad2Deg(elements.mm))
+        };
     }
 
     keplerSolve(axnl : number, aynl : number, u : number)
@@ -503,20 +1388,49 @@ export class Sgp4Propagation
         return eo1;
     }
 
+    /**
+     * Compute the OSV at the given time. Throws Sgp4Error if the propagation fails.
+     * The OSV is given in the True Equator Mean Equinox (TEME) frame.
+     *
+     * @param {number} tSince
+     *      Minutes since epoch.
+     * @returns {OsvFrame} The OSV.
+     */
     compute(tSince : number) : OsvFrame
     {
         const twopi = 2.0 * Math.PI;
 
         // Mean Brouwer elements with secular perturbations.
-        const {am, em, im, nodem, argpm, mm, nm} = this.applySecularPerturbations(tSince);
+        const elements : Sgp4MeanElements = this.applySecularPerturbations(tSince);
+
+        if (this.isDeepSpace)
+        {
+            this.applyDeepSpacePeriodics(tSince, elements);
+
+            if (elements.im < 0.0)
+            {
+                elements.im = -elements.im;
+                elements.nodem = elements.nodem + Math.PI;
+                elements.argpm = elements.argpm - Math.PI;
+            }
+            if ((elements.em < 0.0) || (elements.em > 1.0))
+            {
+                throw new Sgp4Error(Sgp4ErrorCode.PERTURBED_ECCENTRICITY, tSince, 
+                    "Perturbed eccentricity " + elements.em + " outside [0, 1]");
+            }
+        }
+        const {am, em, im, nodem, argpm, mm, nm} = elements;
 
-        const xlcof = -0.25 * sgp4Constants.j3oj2 * Math.sin(this.inclinationRadsEpoch) 
-                    * (3.0 + 5.0 * Math.cos(this.inclinationRadsEpoch)) 
-                    / Math.max(1.0 + Math.cos(this.inclinationRadsEpoch), 1e-12);
+        // Inclination with the lunar-solar periodics applied [xincp].
+        const sinip = Math.sin(im);
+        const cosip = Math.cos(im);
+
+        const xlcof = -0.25 * sgp4Constants.j3oj2 * sinip * (3.0 + 5.0 * cosip) 
+                    / Math.max(1.0 + cosip, 1e-12);
 
         const axnl = em * Math.cos(argpm);
         const temp = 1.0 / (am * (1.0 - em * em));
-        const aycof = -0.5 * sgp4Constants.j3oj2 * Math.sin(this.inclinationRadsEpoch);
+        const aycof = -0.5 * sgp4Constants.j3oj2 * sinip;
         const aynl = em * Math.sin(argpm) + temp * aycof;
 
         const xl = mm + argpm + nodem + temp * xlcof * axnl; 
@@ -537,10 +1451,8 @@ export class Sgp4Propagation
 
         if (pl < 0.0)
         {
-            //satrec->error = 4;
-            // sgp4fix add return
-            //return FALSE;
-            throw Error("pl < 0");
+            throw new Sgp4Error(Sgp4ErrorCode.SEMI_LATUS_RECTUM_NEGATIVE, tSince, 
+                "Semi-latus rectum " + pl + " < 0");
         }
         else
         {
@@ -557,24 +1469,29 @@ export class Sgp4Propagation
             temp = 1.0 / pl;
             const temp1 = 0.5 * sgp4Constants.j2 * temp;
             const temp2 = temp1 * temp;
-            const cosio2 = Math.cos(this.inclinationRadsEpoch) * Math.cos(this.inclinationRadsEpoch);
+            const cosio2 = cosip * cosip;
             const con42 = 1.0 - 5.0 * cosio2;
             const con41 = -con42 - cosio2 - cosio2;
             const x1mth2 = 1.0 - cosio2;
             const x7thm1 = 7.0 * cosio2 - 1.0;
-            const cosim = Math.cos(this.inclinationRadsEpoch);
-            const sinim = Math.sin(this.inclinationRadsEpoch);
 
             const mrt = rl * (1.0 - 1.5 * temp2 * betal * con41) +
                 0.5 * temp1 * x1mth2 * cos2u;
             su = su - 0.25 * temp2 * x7thm1 * sin2u;
             // 
-            const xnode = nodem + 1.5 * temp2 * cosim * sin2u;
-            const xinc = this.inclinationRadsEpoch + 1.5 * temp2 * cosim * sinim * cos2u;
+            const xnode = nodem + 1.5 * temp2 * cosip * sin2u;
+            const xinc = im + 1.5 * temp2 * cosip * sinip * cos2u;
             const mvt = rdotl - nm * temp1 * x1mth2 * sin2u / sgp4Constants.xke;
             const rvdot = rvdotl + nm * temp1 * (x1mth2 * cos2u +
                 1.5 * con41) / sgp4Constants.xke;
 
+            // The distance from the geocenter is below the Earth radius.
+            if (mrt < 1.0)
+            {
+                throw new Sgp4Error(Sgp4ErrorCode.DECAYED, tSince, 
+                    "Decayed with distance " + mrt + " Earth radii");
+            }
+
             const {r, v} = this.computeOsv(su, xnode, xinc, mrt, mvt, rvdot);
             //console.log("r " + r);
             //console.log("v " + v);
@@ -583,7 +1500,7 @@ export class Sgp4Propagation
             const JTut1 = this.tle.jtUt1Epoch + tSince / 1440.0;
             const timeStamp : TimeStamp = this.timeCorrelation.computeTimeStamp(JTut1, TimeConvention.TIME_UT1, false);
             const osv : OsvFrame = {
-                frame : Frame.FRAME_J2000,
+                frame : Frame.FRAME_TEME,
                 timeStamp : timeStamp,
                 position : MathUtils.vecMul(r, 1000.0),
                 velocity : MathUtils.vecMul(v, 1000.0)
@@ -593,4 +1510,59 @@ export class Sgp4Propagation
         }  // if pl > 0        
     }
 
-}
\ No newline at end of file
+}
+
+/**
+ * Propagator for TLE targets with SGP4. The Sgp4Propagation is wrapped to evaluate 
+ * it at Julian times.
+ */
+export class TlePropagator implements Propagator
+{
+    // The SGP4 propagation.
+    sgp4 : Sgp4Propagation;
+
+    /**
+     * Public constructor.
+     *
+     * @param {Tle} tle
+     *      The TLE.
+     * @param {TimeCorrelation} timeCorrelation
+     *      Time correlation.
+     */
+    constructor(tle : Tle, timeCorrelation : TimeCorrelation)
+    {
+        this.sgp4 = new Sgp4Propagation(tle, timeCorrelation);
+    }
+
+    initialize() : void
+    {
+        this.sgp4.initialize();
+    }
+
+    /**
+     * Compute the OSV at the given time. Throws Sgp4Error if the propagation fails.
+     *
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @returns {OsvFrame} The OSV in the TEME frame.
+     */
+    compute(JT : number) : OsvFrame
+    {
+        return this.sgp4.compute((JT - this.sgp4.tle.jtUt1Epoch) * 1440.0);
+    }
+
+    getOutputFrame() : Frame
+    {
+        return Frame.FRAME_TEME;
+    }
+
+    getValidityInterval() : number[]
+    {
+        return [-Infinity, Infinity];
+    }
+
+    getOrbitalPeriod() : number
+    {
+        return 1.0 / this.sgp4.tle.meanMotion;
+    }
+}
@@ -0,0 +1,216 @@
+import { Propagation } from "./Propagation";
+import { EnuAngles, Frames, OsvFrame } from "./computation/Frames";
+import { EarthPosition } from "./computation/Wgs84";
+import { JulianTime } from "./computation/JulianTime";
+import { Angles } from "./computation/Angles";
+import { TimeConvention, TimeCorrelation, TimeStamp } from "./computation/TimeCorrelation";
+import { Nutation, NutationData } from "./computation/Nutation";
+
+// Speed of light (m/s).
+const speedOfLight : number = 299792458.0;
+
+/**
+ * Configuration of the tracking table.
+ */
+export interface TrackingConfig
+{
+    // Carrier frequency of the downlink transmitted by the target (Hz).
+    downlinkFrequency : number;
+    // Carrier frequency of the uplink to be received by the target (Hz).
+    uplinkFrequency : number;
+    // Time step of the table (seconds).
+    timeStep : number;
+    // Rows with lower elevation are left out of the table (degrees).
+    elevationMask : number;
+}
+
+/**
+ * Default tracking configuration for amateur UHF/VHF links.
+ */
+export const defaultTrackingConfig : TrackingConfig = {
+    downlinkFrequency : 437.8e6,
+    uplinkFrequency : 145.99e6,
+    timeStep : 1.0,
+    elevationMask : -90.0
+};
+
+/**
+ * Row of a tracking table.
+ */
+export interface TrackingPoint
+{
+    // Julian time (UT1).
+    JT : number;
+    // Julian time (UTC).
+    JTutc : number;
+    // Azimuth measured clockwise from North in [0, 360) (degrees).
+    az : number;
+    // Elevation (degrees).
+    el : number;
+    // Time derivative of the azimuth (degrees per second).
+    dazdt : number;
+    // Time derivative of the elevation (degrees per second).
+    deldt : number;
+    // Range (meters).
+    range : number;
+    // Range-rate, positive when the target recedes (meters per second).
+    rangeRate : number;
+    // Frequency of the downlink received at the station (Hz).
+    downlinkFrequency : number;
+    // Frequency to be transmitted from the station so that the target receives the
+    // uplink carrier frequency (Hz).
+    uplinkFrequency : number;
+}
+
+/**
+ * Class for the generation of antenna tracking tables with Doppler-shifted frequencies.
+ * The Doppler shifts are non-relativistic and the light time is neglected.
+ */
+export class Tracking
+{
+    // Propagation of the targets.
+    private propagation : Propagation;
+    // Configuration.
+    private config : TrackingConfig;
+
+    /**
+     * Public constructor.
+     *
+     * @param {Propagation} propagation
+     *      Initialized propagation of the targets.
+     * @param {TrackingConfig} config
+     *      Configuration.
+     */
+    constructor(propagation : Propagation, config : TrackingConfig = defaultTrackingConfig)
+    {
+        this.propagation = propagation;
+        this.config = config;
+    }
+
+    /**
+     * Compute the downlink frequency received by a static observer from a moving
+     * transmitter.
+     *
+     * @param {number} frequency
+     *      Transmitted frequency (Hz).
+     * @param {number} rangeRate
+     *      Range-rate (meters per second).
+     * @returns {number} Received frequency (Hz).
+     */
+    static dopplerDownlink(frequency : number, rangeRate : number) : number
+    {
+        return frequency * speedOfLight / (speedOfLight + rangeRate);
+    }
+
+    /**
+     * Compute the frequency a static transmitter has to use so that a moving receiver
+     * receives the given frequency.
+     *
+     * @param {number} frequency
+     *      Frequency at the receiver (Hz).
+     * @param {number} rangeRate
+     *      Range-rate (meters per second).
+     * @returns {number} Transmitted frequency (Hz).
+     */
+    static dopplerUplink(frequency : number, rangeRate : number) : number
+    {
+        return frequency * speedOfLight / (speedOfLight - rangeRate);
+    }
+
+    /**
+     * Compute the tracking table of a target.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {EarthPosition} earthPos
+     *      Position of the ground station.
+     * @param {number} JTstart
+     *      Start of the time window (Julian time, UT1).
+     * @param {number} JTend
+     *      End of the time window (Julian time, UT1).
+     * @returns {TrackingPoint[]} The rows of the table. Times, for which the propagation
+     *      fails or the elevation is below the mask, are left out.
+     */
+    compute(targetName : string, earthPos : EarthPosition, JTstart : number, JTend : number) : TrackingPoint[]
+    {
+        const timeCorrelation : TimeCorrelation = this.propagation.timeCorrelation;
+        const numSteps : number = Math.floor((JTend - JTstart) * 86400.0 / this.config.timeStep + 1e-9);
+        const points : TrackingPoint[] = [];
+
+        // The nutation is updated once per day.
+        let nutation : NutationData | undefined = undefined;
+        let JTnutation : number = -Infinity;
+
+        for (let indStep = 0; indStep <= numSteps; indStep++)
+        {
+            const JT : number = JTstart + indStep * this.config.timeStep / 86400.0;
+            const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(JT, TimeConvention.TIME_UT1, false);
+
+            if (Math.abs(JT - JTnutation) > 1.0)
+            {
+                nutation = Nutation.iau1980(timeStamp);
+                JTnutation = JT;
+            }
+
+            const osvEfi : OsvFrame | null = this.propagation.propagateOneEfi(targetName, JT, nutation);
+            if (osvEfi === null)
+            {
+                continue;
+            }
+
+            const angles : EnuAngles = Frames.coordEnuAzEl(Frames.coordEfiEnu(osvEfi, earthPos));
+            if (angles.el < this.config.elevationMask)
+            {
+                continue;
+            }
+
+            points.push({
+                JT : JT,
+                JTutc : timeStamp.JTutc,
+                az : Angles.limitAngleDeg(angles.az),
+                el : angles.el,
+                dazdt : angles.dazdt,
+                deldt : angles.deldt,
+                range : angles.dist,
+                rangeRate : angles.ddistdt,
+                downlinkFrequency : Tracking.dopplerDownlink(this.config.downlinkFrequency, angles.ddistdt),
+                uplinkFrequency : Tracking.dopplerUplink(this.config.uplinkFrequency, angles.ddistdt)
+            });
+        }
+
+        return points;
+    }
+
+    /**
+     * Export tracking table as CSV with a header row. The times are in UTC, the angles
+     * in degrees, the range in kilometers, the range-rate in kilometers per second and
+     * the frequencies in Hz.
+     *
+     * @param {TrackingPoint[]} points
+     *      The rows of the table.
+     * @returns {string} The CSV.
+     */
+    static toCsv(points : TrackingPoint[]) : string
+    {
+        const lines : string[] = ["TIME_UTC,AZ,EL,AZ_RATE,EL_RATE,RANGE,RANGE_RATE,DOWNLINK,UPLINK"];
+
+        for (let indPoint = 0; indPoint < points.length; indPoint++)
+        {
+            const point : TrackingPoint = points[indPoint];
+
+            lines.push([
+                JulianTime.timeIso(point.JTutc),
+                point.az.toFixed(4),
+                point.el.toFixed(4),
+                point.dazdt.toFixed(6),
+                point.deldt.toFixed(6),
+                (point.range / 1000.0).toFixed(3),
+                (point.rangeRate / 1000.0).toFixed(6),
+                point.downlinkFrequency.toFixed(1),
+                point.uplinkFrequency.toFixed(1)
+            ].join(","));
+        }
+
+        return lines.join("\n") + "\n";
+    }
+}
@@ -0,0 +1,419 @@
+import { Propagation } from "./Propagation";
+import { Pass, PassPredictor, defaultPassConfig } from "./Passes";
+import { Eclipses, ShadowGeometry } from "./Eclipses";
+import { EnuAngles, Frames, OsvFrame } from "./computation/Frames";
+import { EarthPosition } from "./computation/Wgs84";
+import { MathUtils } from "./computation/MathUtils";
+import { Angles } from "./computation/Angles";
+import { TimeConvention, TimeStamp } from "./computation/TimeCorrelation";
+import { Nutation, NutationData } from "./computation/Nutation";
+import { RootFinding } from "./computation/RootFinding";
+import { TargetInfo } from "./viewTargets/Target";
+
+/**
+ * Darkness of the sky required from the observer.
+ */
+export enum Twilight
+{
+    // The center of the Sun is 6 degrees below the horizon.
+    CIVIL,
+    // The center of the Sun is 12 degrees below the horizon.
+    NAUTICAL,
+    // The center of the Sun is 18 degrees below the horizon.
+    ASTRONOMICAL
+}
+
+/**
+ * Configuration of the visible pass prediction.
+ */
+export interface VisiblePassConfig
+{
+    // Minimum elevation of the target (degrees).
+    elevationMask : number;
+    // The sky has to be at least this dark at the observer.
+    twilight : Twilight;
+    // Passes, which are never brighter than this visual magnitude, are left out. Passes
+    // of targets without a standard magnitude are always included.
+    magnitudeLimit : number;
+    // Sampling interval used to bracket the start and the end of the visibility (seconds).
+    timeStep : number;
+    // Accuracy of the event times (seconds).
+    tolerance : number;
+}
+
+/**
+ * Default visible pass prediction configuration.
+ */
+export const defaultVisiblePassConfig : VisiblePassConfig = {
+    elevationMask : 10.0,
+    twilight : Twilight.CIVIL,
+    magnitudeLimit : Infinity,
+    timeStep : 10.0,
+    tolerance : 0.01
+};
+
+/**
+ * Event of a visible pass.
+ */
+export interface VisiblePassEvent
+{
+    // Julian time (UT1).
+    JT : number;
+    // Azimuth measured clockwise from North in [0, 360) (degrees).
+    az : number;
+    // Elevation (degrees).
+    el : number;
+    // Distance from the observer (meters).
+    dist : number;
+    // Angle between the directions to the Sun and to the observer seen from the
+    // target (degrees).
+    phaseAngle : number;
+    // Estimated visual magnitude or NaN if the target has no standard magnitude.
+    magnitude : number;
+}
+
+/**
+ * Visible part of a pass of a target over an observer.
+ */
+export interface VisiblePass
+{
+    // Name of the target.
+    targetName : string;
+    // The target becomes visible.
+    start : VisiblePassEvent;
+    // The highest elevation while the target is visible.
+    max : VisiblePassEvent;
+    // The target stops being visible.
+    end : VisiblePassEvent;
+    // Brightest sampled visual magnitude or NaN if the target has no standard magnitude.
+    brightestMagnitude : number;
+    // The underlying pass above the elevation mask.
+    pass : Pass;
+}
+
+/**
+ * State of a target required for the visibility.
+ */
+interface VisibilityState
+{
+    // Event of the target.
+    event : VisiblePassEvent;
+    // Elevation of the Sun at the observer (degrees).
+    sunElevation : number;
+    // Geometry of the Earth shadow at the target.
+    shadow : ShadowGeometry;
+}
+
+/**
+ * Class implementing the prediction of the passes of targets, when they can be seen
+ * with naked eye or a telescope. A target is visible, when it is above the elevation
+ * mask, it is not in the umbra of the Earth and the observer is in darkness. The passes
+ * above the elevation mask are computed with PassPredictor and the visible parts of
+ * the passes are found by sampling and bisection.
+ *
+ * The visual magnitude is estimated from the fields STD_MAG and STD_MAG_PHASE of the
+ * target information. The standard magnitude is the magnitude at the distance of 1000 km
+ * and at the reference phase angle, which defaults to 90 degrees. The target is modeled
+ * as a diffusely reflecting sphere.
+ */
+export class VisiblePassPredictor
+{
+    // Propagation of the targets.
+    private propagation : Propagation;
+    // Configuration.
+    private config : VisiblePassConfig;
+
+    /**
+     * Public constructor.
+     *
+     * @param {Propagation} propagation
+     *      Initialized propagation of the targets.
+     * @param {VisiblePassConfig} config
+     *      Configuration.
+     */
+    constructor(propagation : Propagation, config : VisiblePassConfig = defaultVisiblePassConfig)
+    {
+        this.propagation = propagation;
+        this.config = config;
+    }
+
+    /**
+     * Get the elevation of the Sun at the end of twilight.
+     *
+     * @param {Twilight} twilight
+     *      The twilight.
+     * @returns {number} The elevation of the center of the Sun (degrees).
+     */
+    static sunElevationLimit(twilight : Twilight) : number
+    {
+        switch (twilight)
+        {
+            case Twilight.CIVIL:
+                return -6.0;
+            case Twilight.NAUTICAL:
+                return -12.0;
+            case Twilight.ASTRONOMICAL:
+                return -18.0;
+            default:
+                throw Error("Unsupported twilight " + twilight);
+        }
+    }
+
+    /**
+     * Compute the phase function of a diffusely reflecting sphere normalized to one at
+     * zero phase angle.
+     *
+     * @param {number} phaseAngle
+     *      The phase angle (degrees).
+     * @returns {number} The phase function.
+     */
+    static phaseFunction(phaseAngle : number) : number
+    {
+        const phi : number = MathUtils.deg2Rad(phaseAngle);
+
+        return (Math.sin(phi) + (Math.PI - phi) * Math.cos(phi)) / Math.PI;
+    }
+
+    /**
+     * Estimate the visual magnitude of a target.
+     *
+     * @param {number} standardMagnitude
+     *      The magnitude at the distance of 1000 km and the reference phase angle.
+     * @param {number} standardPhaseAngle
+     *      The reference phase angle (degrees).
+     * @param {number} dist
+     *      Distance from the observer (meters).
+     * @param {number} phaseAngle
+     *      The phase angle (degrees).
+     * @returns {number} The visual magnitude.
+     */
+    static visualMagnitude(standardMagnitude : number, standardPhaseAngle : number,
+        dist : number, phaseAngle : number) : number
+    {
+        const ratio : number = VisiblePassPredictor.phaseFunction(phaseAngle)
+                             / VisiblePassPredictor.phaseFunction(standardPhaseAngle);
+
+        return standardMagnitude + 5.0 * Math.log10(dist / 1.0e6) - 2.5 * Math.log10(ratio);
+    }
+
+    /**
+     * Get the standard magnitude and the reference phase angle of a target.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @returns {number[]} The standard magnitude or NaN if not available and the reference
+     *      phase angle (degrees).
+     */
+    private getStandardMagnitude(targetName : string) : number[]
+    {
+        const targetInfo : TargetInfo | null = this.propagation.getTargetInfo(targetName);
+
+        if (targetInfo === null || !("STD_MAG" in targetInfo))
+        {
+            return [NaN, 90.0];
+        }
+        const phaseAngle : number = ("STD_MAG_PHASE" in targetInfo) ? Number(targetInfo["STD_MAG_PHASE"]) : 90.0;
+
+        return [Number(targetInfo["STD_MAG"]), phaseAngle];
+    }
+
+    /**
+     * Compute the state of a target.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number[]} standardMagnitude
+     *      The standard magnitude and the reference phase angle.
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @param {NutationData} nutation
+     *      Nutation data.
+     * @returns {VisibilityState | null} The state or null if the propagation fails.
+     */
+    private computeState(targetName : string, earthPos : EarthPosition, standardMagnitude : number[],
+        JT : number, nutation : NutationData) : VisibilityState | null
+    {
+        const osvEfi : OsvFrame | null = this.propagation.propagateOneEfi(targetName, JT, nutation);
+
+        if (osvEfi === null)
+        {
+            return null;
+        }
+
+        const timeStamp : TimeStamp = this.propagation.timeCorrelation.computeTimeStamp(
+            JT, TimeConvention.TIME_UT1, false);
+        const osvEfiSun : OsvFrame = Eclipses.computeSunEfi(timeStamp, nutation);
+        const osvEnu : OsvFrame = Frames.coordEfiEnu(osvEfi, earthPos);
+        const osvEnuSun : OsvFrame = Frames.coordEfiEnu(osvEfiSun, earthPos);
+        const angles : EnuAngles = Frames.coordEnuAzEl(osvEnu);
+        const anglesSun : EnuAngles = Frames.coordEnuAzEl(osvEnuSun);
+
+        const toSun : number[] = MathUtils.vecDiff(osvEnuSun.position, osvEnu.position);
+        const toObserver : number[] = MathUtils.vecMul(osvEnu.position, -1.0);
+        const phaseAngle : number = MathUtils.acosd(Math.max(-1.0, Math.min(1.0,
+            MathUtils.dot(toSun, toObserver) / (MathUtils.norm(toSun) * MathUtils.norm(toObserver)))));
+
+        const shadow : ShadowGeometry = Eclipses.shadowGeometry(osvEfi.position, osvEfiSun.position, true);
+        let magnitude : number = NaN;
+        if (!isNaN(standardMagnitude[0]))
+        {
+            magnitude = VisiblePassPredictor.visualMagnitude(standardMagnitude[0], standardMagnitude[1],
+                angles.dist, phaseAngle);
+            // The penumbra dims the target.
+            magnitude -= 2.5 * Math.log10(Math.max(1.0 - shadow.fraction, 1e-10));
+        }
+
+        return {
+            event : {
+                JT : JT,
+                az : Angles.limitAngleDeg(angles.az),
+                el : angles.el,
+                dist : angles.dist,
+                phaseAngle : phaseAngle,
+                magnitude : magnitude
+            },
+            sunElevation : anglesSun.el,
+            shadow : shadow
+        };
+    }
+
+    /**
+     * Compute the visibility margin of a state during a pass above the elevation mask.
+     * The margin is the minimum of the depression of the Sun below the twilight limit and
+     * the angular distance outside the umbra.
+     *
+     * @param {VisibilityState | null} state
+     *      The state.
+     * @returns {number} The margin, which is positive, when the target is visible (degrees).
+     */
+    private visibilityMargin(state : VisibilityState | null) : number
+    {
+        if (state === null)
+        {
+            return -180.0;
+        }
+
+        return Math.min(VisiblePassPredictor.sunElevationLimit(this.config.twilight) - state.sunElevation,
+            -state.shadow.umbraMargin);
+    }
+
+    /**
+     * Predict the visible passes of a target over an observer. A pass may have several
+     * visible parts, when the target enters or exits the umbra during the pass.
+     *
+     * @param {string} targetName
+     *      Name of the target.
+     * @param {EarthPosition} earthPos
+     *      Observer position.
+     * @param {number} JTstart
+     *      Start of the time window (Julian time, UT1).
+     * @param {number} JTend
+     *      End of the time window (Julian time, UT1).
+     * @returns {VisiblePass[]} The visible passes in the order of time.
+     */
+    predict(targetName : string, earthPos : EarthPosition, JTstart : number, JTend : number) : VisiblePass[]
+    {
+        // The elevation is above the mask during the passes so that only the illumination
+        // of the target and the darkness at the observer have to be checked.
+        const passPredictor : PassPredictor = new PassPredictor(this.propagation, {...defaultPassConfig,
+            elevationMask : this.config.elevationMask, tolerance : this.config.tolerance});
+        const passes : Pass[] = passPredictor.predict(targetName, earthPos, JTstart, JTend);
+        const standardMagnitude : number[] = this.getStandardMagnitude(targetName);
+        const JTstep : number = this.config.timeStep / 86400.0;
+        const visiblePasses : VisiblePass[] = [];
+
+        for (let indPass = 0; indPass < passes.length; indPass++)
+        {
+            const pass : Pass = passes[indPass];
+            const JTaos : number = pass.aos.JT;
+            const JTlos : number = pass.los.JT;
+
+            const timeStamp : TimeStamp = this.propagation.timeCorrelation.computeTimeStamp(
+                JTaos, TimeConvention.TIME_UT1, false);
+            const nutation : NutationData = Nutation.iau1980(timeStamp);
+            const stateAt = (JT : number) : VisibilityState | null =>
+                this.computeState(targetName, earthPos, standardMagnitude, JT, nutation);
+            const func = (JT : number) : number => this.visibilityMargin(stateAt(JT));
+
+            const numSamples : number = Math.max(Math.ceil((JTlos - JTaos) / JTstep), 2) + 1;
+            const JTsamples : number[] = [];
+            const states : (VisibilityState | null)[] = [];
+            for (let indSample = 0; indSample < numSamples; indSample++)
+            {
+                const JT : number = JTaos + (JTlos - JTaos) * indSample / (numSamples - 1);
+                JTsamples.push(JT);
+                states.push(stateAt(JT));
+            }
+            const values : number[] = states.map((state) => this.visibilityMargin(state));
+
+            let JTvisible : number | null = (values[0] > 0.0) ? JTaos : null;
+            for (let indSample = 1; indSample < numSamples; indSample++)
+            {
+                const visible : boolean = values[indSample] > 0.0;
+                const visiblePrev : boolean = values[indSample - 1] > 0.0;
+                let JTinvisible : number | null = null;
+
+                if (visible && !visiblePrev)
+                {
+                    JTvisible = RootFinding.findZero(func, JTsamples[indSample - 1],
+                        JTsamples[indSample], this.config.tolerance);
+                }
+                else if (!visible && visiblePrev)
+                {
+                    JTinvisible = RootFinding.findZero(func, JTsamples[indSample - 1],
+                        JTsamples[indSample], this.config.tolerance);
+                }
+
+                // The visibility can also start between the last two samples.
+                if (visible && indSample == numSamples - 1)
+                {
+                    JTinvisible = JTlos;
+                }
+
+                if (JTvisible === null || JTinvisible === null)
+                {
+                    continue;
+                }
+
+                // The elevation is unimodal during the pass.
+                const JTmax : number = Math.max(JTvisible, Math.min(JTinvisible, pass.tca.JT));
+                const start : VisibilityState | null = stateAt(JTvisible);
+                const max : VisibilityState | null = stateAt(JTmax);
+                const end : VisibilityState | null = stateAt(JTinvisible);
+                if (start === null || max === null || end === null)
+                {
+                    JTvisible = null;
+                    continue;
+                }
+
+                let brightestMagnitude : number = Math.min(start.event.magnitude, max.event.magnitude,
+                    end.event.magnitude);
+                for (let indVisible = 0; indVisible < numSamples; indVisible++)
+                {
+                    const state : VisibilityState | null = states[indVisible];
+                    if (state !== null && JTsamples[indVisible] > JTvisible && JTsamples[indVisible] < JTinvisible)
+                    {
+                        brightestMagnitude = Math.min(brightestMagnitude, state.event.magnitude);
+                    }
+                }
+
+                if (isNaN(brightestMagnitude) || brightestMagnitude <= this.config.magnitudeLimit)
+                {
+                    visiblePasses.push({
+                        targetName : targetName,
+                        start : start.event,
+                        max : max.event,
+                        end : end.event,
+                        brightestMagnitude : brightestMagnitude,
+                        pass : pass
+                    });
+                }
+                JTvisible = null;
+            }
+        }
+
+        return visiblePasses;
+    }
+}
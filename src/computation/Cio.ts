@@ -0,0 +1,216 @@
+import { MathUtils } from "./MathUtils";
+import { NutationData } from "./Nutation";
+import { Rotations } from "./Rotations";
+import { TimeStamp } from "./TimeCorrelation";
+
+// Series for the CIO locator s + XY/2 from the IERS Conventions 2010, Table 5.2d. The
+// terms smaller than 0.5 microarcseconds have been omitted. The columns contain the
+// multipliers of the Delaunay arguments l, l', F, D and Omega and the coefficients of
+// the sine and the cosine (microarcseconds).
+const cioLocatorData0 = [
+[  0,   0,   0,   0,   1,   -2640.73,    0.39],
+[  0,   0,   0,   0,   2,     -63.53,    0.02],
+[  0,   0,   2,  -2,   3,     -11.75,   -0.01],
+[  0,   0,   2,  -2,   1,     -11.21,   -0.01],
+[  0,   0,   2,  -2,   2,       4.57,    0.00],
+[  0,   0,   2,   0,   3,      -2.02,    0.00],
+[  0,   0,   2,   0,   1,      -1.98,    0.00],
+[  0,   0,   0,   0,   3,       1.72,    0.00],
+[  0,   1,   0,   0,   1,       1.41,    0.01],
+[  0,   1,   0,   0,  -1,       1.26,    0.01],
+[  1,   0,   0,   0,  -1,       0.63,    0.00],
+[  1,   0,   0,   0,   1,       0.63,    0.00]];
+const cioLocatorData1 = [
+[  0,   0,   0,   0,   2,      -0.07,    3.57],
+[  0,   0,   0,   0,   1,       1.73,   -0.03]];
+const cioLocatorData2 = [
+[  0,   0,   0,   0,   1,     743.52,   -0.17],
+[  0,   0,   2,  -2,   2,      56.91,    0.06],
+[  0,   0,   2,   0,   2,       9.84,   -0.01],
+[  0,   0,   0,   0,   2,      -8.85,    0.01],
+[  0,   1,   0,   0,   0,      -6.38,   -0.05],
+[  1,   0,   0,   0,   0,      -3.07,    0.00],
+[  0,   1,   2,  -2,   2,       2.23,    0.00],
+[  0,   0,   2,   0,   1,       1.67,    0.00],
+[  1,   0,   2,   0,   2,       1.30,    0.00],
+[  0,   1,  -2,   2,  -2,       0.93,    0.00],
+[  1,   0,   0,  -2,   0,       0.68,    0.00],
+[  0,   0,   2,  -2,   1,      -0.55,    0.00],
+[  1,   0,  -2,   0,  -2,       0.53,    0.00]];
+const cioLocatorData3 = [
+[  0,   0,   0,   0,   1,       0.30,  -23.42],
+[  0,   0,   2,  -2,   2,      -0.03,   -1.46]];
+const cioLocatorData4 = [
+[  0,   0,   0,   0,   1,      -0.26,   -0.01]];
+
+/**
+ * Coordinates of the Celestial Intermediate Pole (CIP) in the GCRS and the CIO locator.
+ */
+export interface CipData
+{
+    // The timestamp for which the CIP data has been computed.
+    timeStamp : TimeStamp;
+    // X coordinate of the CIP in the GCRS (degrees).
+    X : number;
+    // Y coordinate of the CIP in the GCRS (degrees).
+    Y : number;
+    // CIO locator s (degrees).
+    s : number;
+}
+
+/**
+ * Class implementing static methods for the CIO-based transformation between the
+ * celestial and the terrestrial frames according to the IAU 2006/2000 resolutions and
+ * the IERS Conventions 2010, Chapter 5.
+ */
+export class Cio
+{
+    /**
+     * Compute the Fukushima-Williams precession angles of the IAU 2006 precession model
+     * including the frame bias.
+     *
+     * @param {number} JTtdb
+     *      Julian time (TDB).
+     * @returns {number[]} The angles gamma, phi, psi and the mean obliquity of the
+     *      ecliptic eps (degrees).
+     */
+    static precessionAngles(JTtdb : number) : number[]
+    {
+        // Julian centuries after J2000.0 epoch.
+        const T = (JTtdb - 2451545.0) / 36525.0;
+
+        const gamma = -0.052928 + (10.556378 + (0.4932044 + (-0.00031238 + (-0.000002788
+                    + 0.0000000260 * T) * T) * T) * T) * T;
+        const phi = 84381.412819 + (-46.811016 + (0.0511268 + (0.00053289 + (-0.000000440
+                  - 0.0000000176 * T) * T) * T) * T) * T;
+        const psi = -0.041775 + (5038.481484 + (1.5584175 + (-0.00018522 + (-0.000026452
+                  - 0.0000000148 * T) * T) * T) * T) * T;
+        const eps = 84381.406 + (-46.836769 + (-0.0001831 + (0.00200340 + (-0.000000576
+                  - 0.0000000434 * T) * T) * T) * T) * T;
+
+        return [gamma / 3600.0, phi / 3600.0, psi / 3600.0, eps / 3600.0];
+    }
+
+    /**
+     * Compute the coordinates of the CIP in the GCRS from the Fukushima-Williams angles
+     * and the nutation.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @param {NutationData} nutData
+     *      Nutation data from the IAU 2000A or the IAU 2000B model.
+     * @param {number} dX
+     *      Celestial pole offset in X w.r.t. the IAU 2006/2000A model (degrees).
+     * @param {number} dY
+     *      Celestial pole offset in Y w.r.t. the IAU 2006/2000A model (degrees).
+     * @returns {CipData} The CIP coordinates and the CIO locator.
+     */
+    static cipCoordinates(timeStamp : TimeStamp, nutData : NutationData,
+        dX : number = 0.0, dY : number = 0.0) : CipData
+    {
+        const [gamma, phi, psi, eps] = Cio.precessionAngles(timeStamp.JTtdb);
+
+        // The CIP is the z-axis of the true equator of date.
+        const pole : number[] = Rotations.rotateCart3d(
+                                Rotations.rotateCart1d(
+                                Rotations.rotateCart3d(
+                                Rotations.rotateCart1d([0, 0, 1],
+                                eps + nutData.deps), psi + nutData.dpsi), -phi), -gamma);
+
+        const X : number = MathUtils.rad2Deg(pole[0]) + dX;
+        const Y : number = MathUtils.rad2Deg(pole[1]) + dY;
+
+        return {
+            timeStamp : timeStamp,
+            X : X,
+            Y : Y,
+            s : Cio.cioLocator(timeStamp.JTtdb, X, Y)
+        };
+    }
+
+    /**
+     * Compute the CIO locator s from the IAU 2006/2000A series.
+     *
+     * @param {number} JTtdb
+     *      Julian time (TDB).
+     * @param {number} X
+     *      X coordinate of the CIP in the GCRS (degrees).
+     * @param {number} Y
+     *      Y coordinate of the CIP in the GCRS (degrees).
+     * @returns {number} The CIO locator (degrees).
+     */
+    static cioLocator(JTtdb : number, X : number, Y : number) : number
+    {
+        // Julian centuries after J2000.0 epoch.
+        const T = (JTtdb - 2451545.0) / 36525.0;
+
+        // Fundamental arguments from the IERS Conventions 2003 (arcseconds).
+        const fundArgs : number[] = [
+            485868.249036 + (1717915923.2178 + (31.8792 + (0.051635 - 0.00024470 * T) * T) * T) * T,
+            1287104.793048 + (129596581.0481 + (-0.5532 + (0.000136 - 0.00001149 * T) * T) * T) * T,
+            335779.526232 + (1739527262.8478 + (-12.7512 + (-0.001037 + 0.00000417 * T) * T) * T) * T,
+            1072260.703692 + (1602961601.2090 + (-6.3706 + (0.006593 - 0.00003169 * T) * T) * T) * T,
+            450160.398036 + (-6962890.5431 + (7.4722 + (0.007702 - 0.00005939 * T) * T) * T) * T
+        ].map((arg) => (arg % 1296000.0) / 3600.0);
+
+        const seriesList : number[][][] = [cioLocatorData0, cioLocatorData1, cioLocatorData2,
+            cioLocatorData3, cioLocatorData4];
+        // Polynomial part (microarcseconds).
+        const polynomial : number[] = [94.00, 3808.65, -122.68, -72574.11, 27.98, 15.62];
+
+        let sXY2 : number = 0.0;
+        for (let power = polynomial.length - 1; power >= 0; power--)
+        {
+            let coeff : number = polynomial[power];
+
+            if (power < seriesList.length)
+            {
+                const series : number[][] = seriesList[power];
+
+                for (let indTerm = 0; indTerm < series.length; indTerm++)
+                {
+                    const term : number[] = series[indTerm];
+                    let angle : number = 0.0;
+                    for (let indArg = 0; indArg < 5; indArg++)
+                    {
+                        angle += term[indArg] * fundArgs[indArg];
+                    }
+                    coeff += term[5] * MathUtils.sind(angle) + term[6] * MathUtils.cosd(angle);
+                }
+            }
+            sXY2 = sXY2 * T + coeff;
+        }
+
+        return sXY2 / 3600.0e6 - 0.5 * MathUtils.deg2Rad(X) * Y;
+    }
+
+    /**
+     * Compute the Earth Rotation Angle (ERA).
+     *
+     * @param {number} JTut1
+     *      Julian time (UT1).
+     * @returns {number} The ERA in [0, 360) (degrees).
+     */
+    static earthRotationAngle(JTut1 : number) : number
+    {
+        const DU = JTut1 - 2451545.0;
+        const ERA = 360.0 * ((0.7790572732640 + 0.00273781191135448 * DU + DU % 1.0) % 1.0);
+
+        return (ERA < 0.0) ? ERA + 360.0 : ERA;
+    }
+
+    /**
+     * Compute the TIO locator s'.
+     *
+     * @param {number} JTtdb
+     *      Julian time (TDB).
+     * @returns {number} The TIO locator (degrees).
+     */
+    static tioLocator(JTtdb : number) : number
+    {
+        // Julian centuries after J2000.0 epoch.
+        const T = (JTtdb - 2451545.0) / 36525.0;
+
+        return -47e-6 * T / 3600.0;
+    }
+}
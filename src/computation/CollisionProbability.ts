@@ -0,0 +1,303 @@
+import { OsvFrame, Frame } from "./Frames";
+import { MathUtils } from "./MathUtils";
+
+/**
+ * Relative geometry of a conjunction in the encounter plane, which is perpendicular
+ * to the relative velocity. The x-axis of the plane points to the secondary target
+ * from the primary target so that the miss vector is [missDistance, 0].
+ */
+export interface EncounterPlane
+{
+    // Unit vector of the x-axis in the frame of the OSVs.
+    xAxis : number[];
+    // Unit vector of the y-axis in the frame of the OSVs.
+    yAxis : number[];
+    // Distance of the targets in the encounter plane (meters).
+    missDistance : number;
+    // Magnitude of the relative velocity (meters per second).
+    relativeVelocity : number;
+    // Combined 2x2 position covariance of the targets in the encounter plane (m^2).
+    covariance : number[][];
+}
+
+/**
+ * Class implementing static methods for the computation of the probability of collision
+ * of two targets at the time of closest approach. The relative motion is assumed to be
+ * linear during the encounter and the position errors of the targets to be Gaussian and
+ * uncorrelated so that the probability reduces to an integral of the combined density
+ * in the encounter plane over the disk of the hard-body radius (Foster, Estes - A Parametric
+ * Analysis of Orbital Debris Collision Probability and Maneuver Rate for Space Vehicles, 1992).
+ */
+export class CollisionProbability
+{
+    /**
+     * Compute the complementary error function with the Chebyshev approximation of
+     * Press et al. - Numerical Recipes, Section 6.2. The fractional error is less than
+     * 1.2e-7 everywhere.
+     *
+     * @param {number} x
+     *      The argument.
+     * @returns {number} The value of the function.
+     */
+    static erfc(x : number) : number
+    {
+        const z : number = Math.abs(x);
+        const t : number = 1.0 / (1.0 + 0.5 * z);
+        const value : number = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196
+                             + t * (0.09678418 + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398
+                             + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+
+        return (x >= 0.0) ? value : 2.0 - value;
+    }
+
+    /**
+     * Compute the probability that a standard normal variable is in an interval. The
+     * difference is evaluated on the side of the tail to avoid cancellation.
+     *
+     * @param {number} a
+     *      Start of the interval.
+     * @param {number} b
+     *      End of the interval.
+     * @returns {number} The probability.
+     */
+    private static normalInterval(a : number, b : number) : number
+    {
+        if (a >= 0.0)
+        {
+            return 0.5 * (this.erfc(a / Math.SQRT2) - this.erfc(b / Math.SQRT2));
+        }
+        else if (b <= 0.0)
+        {
+            return 0.5 * (this.erfc(-b / Math.SQRT2) - this.erfc(-a / Math.SQRT2));
+        }
+        else
+        {
+            return 1.0 - 0.5 * (this.erfc(-a / Math.SQRT2) + this.erfc(b / Math.SQRT2));
+        }
+    }
+
+    /**
+     * Convert a position covariance from the radial, transverse and normal (RTN) axes
+     * of a target to the frame of its OSV.
+     *
+     * @param {OsvFrame} osv
+     *      OSV of the target.
+     * @param {number[][]} covarianceRtn
+     *      The 3x3 covariance in RTN axes (m^2).
+     * @returns {number[][]} The 3x3 covariance in the frame of the OSV (m^2).
+     */
+    static covarianceRtn(osv : OsvFrame, covarianceRtn : number[][]) : number[][]
+    {
+        const h : number[] = MathUtils.cross(osv.position, osv.velocity);
+        const uRadial : number[] = MathUtils.vecMul(osv.position, 1.0 / MathUtils.norm(osv.position));
+        const uNormal : number[] = MathUtils.vecMul(h, 1.0 / MathUtils.norm(h));
+        const uTransverse : number[] = MathUtils.cross(uNormal, uRadial);
+
+        // Rows of the matrix from the frame to RTN.
+        return CollisionProbability.congruence([uRadial, uTransverse, uNormal], covarianceRtn, true);
+    }
+
+    /**
+     * Compute the congruence transformation M C M^T or its transpose M^T C M.
+     *
+     * @param {number[][]} M
+     *      The matrix as an array of rows.
+     * @param {number[][]} C
+     *      The symmetric square matrix.
+     * @param {boolean} transpose
+     *      Whether to compute M^T C M.
+     * @returns {number[][]} The transformed matrix.
+     */
+    private static congruence(M : number[][], C : number[][], transpose : boolean) : number[][]
+    {
+        const numRows : number = transpose ? M[0].length : M.length;
+        const dim : number = C.length;
+        const elem = (indRow : number, indCol : number) : number =>
+            transpose ? M[indCol][indRow] : M[indRow][indCol];
+
+        const output : number[][] = [];
+        for (let indRow = 0; indRow < numRows; indRow++)
+        {
+            output.push([]);
+            for (let indCol = 0; indCol < numRows; indCol++)
+            {
+                let sum : number = 0.0;
+                for (let indA = 0; indA < dim; indA++)
+                {
+                    for (let indB = 0; indB < dim; indB++)
+                    {
+                        sum += elem(indRow, indA) * C[indA][indB] * elem(indCol, indB);
+                    }
+                }
+                output[indRow].push(sum);
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * Compute the encounter plane of a conjunction.
+     *
+     * @param {OsvFrame} osvPrimary
+     *      OSV of the primary target at the time of closest approach.
+     * @param {number[][]} covPrimary
+     *      The 3x3 position covariance of the primary target in the frame of the OSV (m^2).
+     * @param {OsvFrame} osvSecondary
+     *      OSV of the secondary target at the time of closest approach.
+     * @param {number[][]} covSecondary
+     *      The 3x3 position covariance of the secondary target in the frame of the OSV (m^2).
+     * @throws {Error} If the frames of the OSVs differ or the relative velocity is zero.
+     * @returns {EncounterPlane} The encounter plane.
+     */
+    static encounterPlane(osvPrimary : OsvFrame, covPrimary : number[][],
+        osvSecondary : OsvFrame, covSecondary : number[][]) : EncounterPlane
+    {
+        if (osvPrimary.frame != osvSecondary.frame)
+        {
+            throw Error("OSVs in different frames " + Frame[osvPrimary.frame] + " and "
+                + Frame[osvSecondary.frame]);
+        }
+
+        const dr : number[] = MathUtils.vecDiff(osvSecondary.position, osvPrimary.position);
+        const dv : number[] = MathUtils.vecDiff(osvSecondary.velocity, osvPrimary.velocity);
+        const relativeVelocity : number = MathUtils.norm(dv);
+
+        if (relativeVelocity == 0.0)
+        {
+            throw Error("Zero relative velocity");
+        }
+        const zAxis : number[] = MathUtils.vecMul(dv, 1.0 / relativeVelocity);
+
+        // Component of the relative position perpendicular to the relative velocity.
+        let xAxis : number[] = MathUtils.vecDiff(dr, MathUtils.vecMul(zAxis, MathUtils.dot(dr, zAxis)));
+        const missDistance : number = MathUtils.norm(xAxis);
+        if (missDistance == 0.0)
+        {
+            // Any direction perpendicular to the relative velocity is valid.
+            const indMin : number = [0, 1, 2].reduce((indA, indB) =>
+                Math.abs(zAxis[indB]) < Math.abs(zAxis[indA]) ? indB : indA);
+            const unit : number[] = [0, 0, 0];
+            unit[indMin] = 1.0;
+            xAxis = MathUtils.cross(zAxis, unit);
+        }
+        xAxis = MathUtils.vecMul(xAxis, 1.0 / MathUtils.norm(xAxis));
+        const yAxis : number[] = MathUtils.cross(zAxis, xAxis);
+
+        const covCombined : number[][] = covPrimary.map((row, indRow) =>
+            row.map((value, indCol) => value + covSecondary[indRow][indCol]));
+
+        return {
+            xAxis : xAxis,
+            yAxis : yAxis,
+            missDistance : missDistance,
+            relativeVelocity : relativeVelocity,
+            covariance : CollisionProbability.congruence([xAxis, yAxis], covCombined, false)
+        };
+    }
+
+    /**
+     * Compute the probability of collision by integrating the combined density over the
+     * hard-body disk in the encounter plane. The covariance is diagonalized so that
+     * the integral along one axis can be evaluated with the error function and the
+     * remaining integral over the angle along the boundary of the disk with Simpson's
+     * rule.
+     *
+     * @param {EncounterPlane} encounter
+     *      The encounter plane.
+     * @param {number} hardBodyRadius
+     *      Radius of the sphere enclosing both targets (meters).
+     * @param {number} numSteps
+     *      Number of steps in the numerical integration.
+     * @throws {Error} If the covariance is not positive definite.
+     * @returns {number} The probability of collision.
+     */
+    static computeFoster(encounter : EncounterPlane, hardBodyRadius : number,
+        numSteps : number = 200) : number
+    {
+        const [[a, b], [, c]] = encounter.covariance;
+
+        // Eigenvalues and the principal axis of the 2x2 covariance.
+        const mean : number = 0.5 * (a + c);
+        const radius : number = Math.sqrt(0.25 * (a - c) * (a - c) + b * b);
+        const lambda1 : number = mean + radius;
+        const lambda2 : number = mean - radius;
+        if (lambda2 <= 0.0)
+        {
+            throw Error("Covariance is not positive definite");
+        }
+        const theta : number = 0.5 * Math.atan2(2.0 * b, a - c);
+        const sigmaU : number = Math.sqrt(lambda1);
+        const sigmaW : number = Math.sqrt(lambda2);
+
+        // Center of the disk in the principal axes.
+        const u : number = encounter.missDistance * Math.cos(theta);
+        const w : number = -encounter.missDistance * Math.sin(theta);
+
+        // The disk is parametrized with x = u + R sin(phi), |y - w| <= R cos(phi).
+        const integrand = (phi : number) : number => {
+            const x : number = u + hardBodyRadius * Math.sin(phi);
+            const h : number = hardBodyRadius * Math.cos(phi);
+            const density : number = Math.exp(-0.5 * x * x / lambda1) / (Math.sqrt(2.0 * Math.PI) * sigmaU);
+
+            return density * CollisionProbability.normalInterval((w - h) / sigmaW, (w + h) / sigmaW) * h;
+        };
+
+        const numIntervals : number = 2 * Math.ceil(numSteps / 2);
+        const step : number = Math.PI / numIntervals;
+        let sum : number = integrand(-0.5 * Math.PI) + integrand(0.5 * Math.PI);
+        for (let indStep = 1; indStep < numIntervals; indStep++)
+        {
+            sum += ((indStep % 2 == 1) ? 4.0 : 2.0) * integrand(-0.5 * Math.PI + indStep * step);
+        }
+
+        return Math.min(1.0, Math.max(0.0, sum * step / 3.0));
+    }
+
+    /**
+     * Compute the maximum probability of collision for an unknown isotropic covariance in
+     * the encounter plane. The maximum of R^2 / (2 sigma^2) exp(-d^2 / (2 sigma^2)) is
+     * reached at sigma = d / sqrt(2) (Alfano - Relating Position Uncertainty to Maximum
+     * Conjunction Probability, 2005). The approximation requires that the hard-body radius
+     * is small compared to the miss distance.
+     *
+     * @param {number} missDistance
+     *      Miss distance in the encounter plane (meters).
+     * @param {number} hardBodyRadius
+     *      Radius of the sphere enclosing both targets (meters).
+     * @returns {number} The maximum probability of collision.
+     */
+    static computeMaximum(missDistance : number, hardBodyRadius : number) : number
+    {
+        if (missDistance <= hardBodyRadius)
+        {
+            return 1.0;
+        }
+
+        return Math.min(1.0, hardBodyRadius * hardBodyRadius / (Math.E * missDistance * missDistance));
+    }
+
+    /**
+     * Compute the probability of collision of two targets at the time of closest approach.
+     *
+     * @param {OsvFrame} osvPrimary
+     *      OSV of the primary target at the time of closest approach.
+     * @param {number[][]} covPrimary
+     *      The 3x3 position covariance of the primary target in the frame of the OSV (m^2).
+     * @param {OsvFrame} osvSecondary
+     *      OSV of the secondary target at the time of closest approach.
+     * @param {number[][]} covSecondary
+     *      The 3x3 position covariance of the secondary target in the frame of the OSV (m^2).
+     * @param {number} hardBodyRadius
+     *      Radius of the sphere enclosing both targets (meters).
+     * @returns {number} The probability of collision.
+     */
+    static compute(osvPrimary : OsvFrame, covPrimary : number[][], osvSecondary : OsvFrame,
+        covSecondary : number[][], hardBodyRadius : number) : number
+    {
+        const encounter : EncounterPlane = CollisionProbability.encounterPlane(
+            osvPrimary, covPrimary, osvSecondary, covSecondary);
+
+        return CollisionProbability.computeFoster(encounter, hardBodyRadius);
+    }
+}
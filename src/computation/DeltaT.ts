@@ -0,0 +1,81 @@
+// Polynomial expressions for Delta-T by Espenak and Meeus (Five Millennium Canon of
+// Solar Eclipses, 2006) based on Morrison and Stephenson (2004). Each row contains the
+// last year of validity, the reference year and the scale of the argument
+// u = (year - reference) / scale and the coefficients of the powers of u (seconds).
+const deltaTData = [
+[ -500, 1820, 100, -20.0, 0.0, 32.0],
+[  500,    0, 100, 10583.6, -1014.41, 33.78311, -5.952053, -0.1798452, 0.022174192, 0.0090316521],
+[ 1600, 1000, 100, 1574.2, -556.01, 71.23472, 0.319781, -0.8503463, -0.005050998, 0.0083572073],
+[ 1700, 1600,   1, 120.0, -0.9808, -0.01532, 1.0 / 7129.0],
+[ 1800, 1700,   1, 8.83, 0.1603, -0.0059285, 0.00013336, -1.0 / 1174000.0],
+[ 1860, 1800,   1, 13.72, -0.332447, 0.0068612, 0.0041116, -0.00037436, 0.0000121272,
+                   -0.0000001699, 0.000000000875],
+[ 1900, 1860,   1, 7.62, 0.5737, -0.251754, 0.01680668, -0.0004473624, 1.0 / 233174.0],
+[ 1920, 1900,   1, -2.79, 1.494119, -0.0598939, 0.0061966, -0.000197],
+[ 1941, 1920,   1, 21.20, 0.84493, -0.076100, 0.0020936],
+[ 1961, 1950,   1, 29.07, 0.407, -1.0 / 233.0, 1.0 / 2547.0],
+[ 1986, 1975,   1, 45.45, 1.067, -1.0 / 260.0, -1.0 / 718.0],
+[ 2005, 2000,   1, 63.86, 0.3345, -0.060374, 0.0017275, 0.000651814, 0.00002373599],
+[ 2050, 2000,   1, 62.92, 0.32217, 0.005589],
+[ 2150, 1820, 100, -205.724, 56.28, 32.0],
+[Infinity, 1820, 100, -20.0, 0.0, 32.0]];
+
+/**
+ * Class implementing static methods for the difference Delta-T = TT - UT1 for dates
+ * outside the tabulated Earth orientation data.
+ */
+export class DeltaT
+{
+    /**
+     * Compute the decimal year.
+     *
+     * @param {number} JT
+     *      Julian time.
+     * @returns {number} The year with the fraction of the year.
+     */
+    static decimalYear(JT : number) : number
+    {
+        return 2000.0 + (JT - 2451545.0) / 365.25;
+    }
+
+    /**
+     * Compute Delta-T with the polynomial expressions of Espenak and Meeus. The
+     * expressions are valid from -1999 to 3000, and the parabola of Morrison and
+     * Stephenson is used outside that range.
+     *
+     * @param {number} year
+     *      Decimal year.
+     * @returns {number} Delta-T (seconds).
+     */
+    static espenakMeeus(year : number) : number
+    {
+        let indRow = 0;
+        while (year > deltaTData[indRow][0])
+        {
+            indRow++;
+        }
+
+        const [, yearRef, scale, ...coeffs] = deltaTData[indRow];
+        const u : number = (year - yearRef) / scale;
+
+        let deltaT : number = 0.0;
+        for (let power = coeffs.length - 1; power >= 0; power--)
+        {
+            deltaT = deltaT * u + coeffs[power];
+        }
+
+        return deltaT;
+    }
+
+    /**
+     * Compute Delta-T.
+     *
+     * @param {number} JT
+     *      Julian time (UT1 or TT).
+     * @returns {number} Delta-T (seconds).
+     */
+    static deltaT(JT : number) : number
+    {
+        return DeltaT.espenakMeeus(DeltaT.decimalYear(JT));
+    }
+}
@@ -0,0 +1,255 @@
+/**
+ * Supported formats of Earth Orientation Parameter (EOP) files.
+ */
+export enum EopFormat
+{
+    // IERS Rapid Service/Prediction Center (Bulletin A) files finals2000A.all,
+    // finals2000A.data and finals2000A.daily with the celestial pole offsets dX, dY.
+    FINALS_2000A,
+    // IERS Rapid Service/Prediction Center (Bulletin A) files finals.all, finals.data and
+    // finals.daily with the IAU 1980 nutation corrections, which are not loaded.
+    FINALS_1980,
+    // IERS C04 series in the 14 C04 or 20 C04 layouts.
+    C04
+}
+
+/**
+ * Earth Orientation Parameters for a single day.
+ */
+export interface EopRecord
+{
+    // Julian time (UTC) at 0h of the day.
+    JT : number;
+    // Polar motion x (arcseconds).
+    polarX : number;
+    // Polar motion y (arcseconds).
+    polarY : number;
+    // UT1 - UTC (seconds).
+    ut1Utc : number;
+    // Excess of the length of day (milliseconds) or null if not available.
+    lod : number | null;
+    // Celestial pole offset dX w.r.t. the IAU 2006/2000A model (milliarcseconds) or null
+    // if not available.
+    dX : number | null;
+    // Celestial pole offset dY w.r.t. the IAU 2006/2000A model (milliarcseconds) or null
+    // if not available.
+    dY : number | null;
+    // Whether the polar motion or UT1 - UTC is a prediction.
+    predicted : boolean;
+}
+
+/**
+ * Coverage of loaded EOP data.
+ */
+export interface EopCoverage
+{
+    // Julian time (UTC) of the first record.
+    minJD : number;
+    // Julian time (UTC) of the last record.
+    maxJD : number;
+    // Julian time (UTC) of the last record, which is not a prediction, or null if all
+    // records are predictions.
+    maxObservedJD : number | null;
+    // Number of records.
+    numRecords : number;
+    // Number of predicted records.
+    numPredicted : number;
+}
+
+/**
+ * Parse a floating point field.
+ *
+ * @param {string} field
+ *      The field.
+ * @returns {number | null} The value or null if the field is empty.
+ */
+function parseField(field : string) : number | null
+{
+    if (field.trim().length == 0)
+    {
+        return null;
+    }
+
+    const value : number = parseFloat(field);
+    if (isNaN(value))
+    {
+        throw Error("Invalid numeric field \"" + field + "\"");
+    }
+
+    return value;
+}
+
+/**
+ * Class implementing static methods for the parsing of IERS Earth Orientation
+ * Parameter files. The files are given as strings so that they can be read from local
+ * files, downloaded or bundled by the caller.
+ */
+export class EarthOrientation
+{
+    /**
+     * Parse EOP file.
+     *
+     * @param {string} text
+     *      Contents of the file.
+     * @param {EopFormat} format
+     *      Format of the file.
+     * @returns {EopRecord[]} The records sorted by time.
+     */
+    static parse(text : string, format : EopFormat) : EopRecord[]
+    {
+        let records : EopRecord[];
+
+        if (format == EopFormat.C04)
+        {
+            records = EarthOrientation.parseC04(text);
+        }
+        else
+        {
+            records = EarthOrientation.parseFinals(text, format == EopFormat.FINALS_2000A);
+        }
+
+        return records.sort((a, b) => a.JT - b.JT);
+    }
+
+    /**
+     * Parse the fixed-width finals files from the IERS Rapid Service/Prediction Center.
+     * Lines without polar motion and UT1 - UTC are skipped.
+     *
+     * @param {string} text
+     *      Contents of the file.
+     * @param {boolean} poleOffsets
+     *      Whether the nutation columns contain the celestial pole offsets dX, dY.
+     * @returns {EopRecord[]} The records.
+     */
+    static parseFinals(text : string, poleOffsets : boolean) : EopRecord[]
+    {
+        const records : EopRecord[] = [];
+        const lines : string[] = text.split(/\r?\n/);
+
+        for (let indLine = 0; indLine < lines.length; indLine++)
+        {
+            const line : string = lines[indLine];
+
+            if (line.trim().length == 0)
+            {
+                continue;
+            }
+
+            const MJD : number | null = parseField(line.substring(7, 15));
+            const polarX : number | null = parseField(line.substring(18, 27));
+            const polarY : number | null = parseField(line.substring(37, 46));
+            const ut1Utc : number | null = parseField(line.substring(58, 68));
+
+            if (MJD === null)
+            {
+                throw Error("Missing MJD on line " + (indLine + 1));
+            }
+            if (polarX === null || polarY === null || ut1Utc === null)
+            {
+                continue;
+            }
+
+            const dX : number | null = poleOffsets ? parseField(line.substring(97, 106)) : null;
+            const dY : number | null = poleOffsets ? parseField(line.substring(116, 125)) : null;
+
+            records.push({
+                JT : MJD + 2400000.5,
+                polarX : polarX,
+                polarY : polarY,
+                ut1Utc : ut1Utc,
+                lod : parseField(line.substring(79, 86)),
+                dX : dX,
+                dY : dY,
+                predicted : line.charAt(16) == 'P' || line.charAt(57) == 'P'
+            });
+        }
+
+        return records;
+    }
+
+    /**
+     * Parse the IERS C04 series. The 14 C04 layout contains the columns year, month,
+     * day, MJD, x, y, UT1 - UTC, LOD, dX and dY, while the 20 C04 layout contains the
+     * columns year, month, day, hour, MJD, x, y, UT1 - UTC, dX, dY, x rate, y rate and
+     * LOD. The LOD and the pole offsets are given in seconds and arcseconds. Header
+     * lines are skipped.
+     *
+     * @param {string} text
+     *      Contents of the file.
+     * @returns {EopRecord[]} The records.
+     */
+    static parseC04(text : string) : EopRecord[]
+    {
+        const records : EopRecord[] = [];
+        const lines : string[] = text.split(/\r?\n/);
+
+        for (let indLine = 0; indLine < lines.length; indLine++)
+        {
+            const fields : string[] = lines[indLine].trim().split(/\s+/);
+
+            // Data lines start with the year followed only by numeric fields.
+            if (fields.length < 10 || !/^\d{4}$/.test(fields[0])
+                || fields.some((field) => isNaN(Number(field))))
+            {
+                continue;
+            }
+
+            const values : number[] = fields.map(Number);
+
+            if (values[4] > 10000.0)
+            {
+                // 20 C04 with the hour column.
+                records.push({
+                    JT : values[4] + 2400000.5,
+                    polarX : values[5],
+                    polarY : values[6],
+                    ut1Utc : values[7],
+                    lod : (values.length > 12) ? 1000.0 * values[12] : null,
+                    dX : 1000.0 * values[8],
+                    dY : 1000.0 * values[9],
+                    predicted : false
+                });
+            }
+            else
+            {
+                records.push({
+                    JT : values[3] + 2400000.5,
+                    polarX : values[4],
+                    polarY : values[5],
+                    ut1Utc : values[6],
+                    lod : 1000.0 * values[7],
+                    dX : 1000.0 * values[8],
+                    dY : 1000.0 * values[9],
+                    predicted : false
+                });
+            }
+        }
+
+        return records;
+    }
+
+    /**
+     * Compute the coverage of EOP records.
+     *
+     * @param {EopRecord[]} records
+     *      The records sorted by time.
+     * @returns {EopCoverage} The coverage.
+     */
+    static coverage(records : EopRecord[]) : EopCoverage
+    {
+        if (records.length == 0)
+        {
+            throw Error("No EOP records");
+        }
+
+        const observed : EopRecord[] = records.filter((record) => !record.predicted);
+
+        return {
+            minJD : records[0].JT,
+            maxJD : records[records.length - 1].JT,
+            maxObservedJD : (observed.length == 0) ? null : observed[observed.length - 1].JT,
+            numRecords : records.length,
+            numPredicted : records.length - observed.length
+        };
+    }
+}
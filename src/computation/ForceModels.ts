@@ -0,0 +1,323 @@
+import { MathUtils } from "./MathUtils";
+import { Rotations } from "./Rotations";
+import { TimeStamp } from "./TimeCorrelation";
+import { Vsop87A } from "./Vsop87A";
+import { Frame, Frames, OsvFrame } from "./Frames";
+
+/**
+ * Selection of force models and the physical parameters of the target.
+ */
+export interface ForceModelConfig
+{
+    // Maximum degree of the zonal harmonics (0 or 2-6, 0 for a point mass).
+    zonalDegree : number;
+    // Atmospheric drag.
+    enableDrag : boolean;
+    // Solar radiation pressure.
+    enableSrp : boolean;
+    // Third-body perturbation from the Sun.
+    enableSun : boolean;
+    // Third-body perturbation from the Moon.
+    enableMoon : boolean;
+    // Mass of the target (kg).
+    mass : number;
+    // Cross-sectional area for drag (m^2).
+    dragArea : number;
+    // Drag coefficient.
+    dragCoeff : number;
+    // Cross-sectional area for solar radiation pressure (m^2).
+    srpArea : number;
+    // Reflectivity coefficient.
+    reflectivityCoeff : number;
+}
+
+/**
+ * Default force model configuration.
+ */
+export const defaultForceModelConfig : ForceModelConfig = {
+    zonalDegree : 6,
+    enableDrag : true,
+    enableSrp : true,
+    enableSun : true,
+    enableMoon : true,
+    mass : 1000.0,
+    dragArea : 10.0,
+    dragCoeff : 2.2,
+    srpArea : 10.0,
+    reflectivityCoeff : 1.3
+};
+
+/**
+ * Physical constants used by the force models.
+ */
+export const forceModelConstants = {
+    // Gravitational parameter of the Earth (m^3/s^2, EGM96).
+    muEarth : 3.986004418e14,
+    // Gravitational parameter of the Sun (m^3/s^2).
+    muSun : 1.32712440018e20,
+    // Gravitational parameter of the Moon (m^3/s^2).
+    muMoon : 4.9028e12,
+    // Equatorial radius of the Earth (m).
+    radiusEarth : 6378137.0,
+    // Flattening of the Earth (WGS84).
+    flattening : 1.0 / 298.257223563,
+    // Rotation rate of the Earth (rad/s).
+    omegaEarth : 7.292115e-5,
+    // Unnormalized zonal coefficients J2-J6 (EGM96).
+    zonals : [0, 0, 1.08262668355e-3, -2.53265648533e-6, -1.61962159137e-6,
+              -2.27296082869e-7, 5.40681239107e-7],
+    // Solar radiation pressure at 1 au (N/m^2).
+    solarPressure : 4.56e-6,
+    // Astronomical unit (m).
+    au : 149597870700
+};
+
+/**
+ * Exponential atmosphere model from Vallado - Fundamentals of Astrodynamics and
+ * Applications, 4th edition, Table 8-4. The rows contain base altitude (km),
+ * nominal density (kg/m^3) and scale height (km).
+ */
+const exponentialAtmosphere : number[][] = [
+    [0,    1.225,     7.249],
+    [25,   3.899e-2,  6.349],
+    [30,   1.774e-2,  6.682],
+    [40,   3.972e-3,  7.554],
+    [50,   1.057e-3,  8.382],
+    [60,   3.206e-4,  7.714],
+    [70,   8.770e-5,  6.549],
+    [80,   1.905e-5,  5.799],
+    [90,   3.396e-6,  5.382],
+    [100,  5.297e-7,  5.877],
+    [110,  9.661e-8,  7.263],
+    [120,  2.438e-8,  9.473],
+    [130,  8.484e-9,  12.636],
+    [140,  3.845e-9,  16.149],
+    [150,  2.070e-9,  22.523],
+    [180,  5.464e-10, 29.740],
+    [200,  2.789e-10, 37.105],
+    [250,  7.248e-11, 45.546],
+    [300,  2.418e-11, 53.628],
+    [350,  9.518e-12, 53.298],
+    [400,  3.725e-12, 58.515],
+    [450,  1.585e-12, 60.828],
+    [500,  6.967e-13, 63.822],
+    [600,  1.454e-13, 71.835],
+    [700,  3.614e-14, 88.667],
+    [800,  1.170e-14, 124.64],
+    [900,  5.245e-15, 181.05],
+    [1000, 3.019e-15, 268.00]
+];
+
+/**
+ * Static methods for the computation of perturbing accelerations. All positions are
+ * in meters and accelerations in m/s^2.
+ */
+export class ForceModels
+{
+    /**
+     * Compute the acceleration due to the zonal harmonics of the geopotential excluding
+     * the central term.
+     *
+     * @param {number[]} r
+     *      Position in a frame with the z-axis along the rotation axis of the Earth.
+     * @param {number} degree
+     *      The maximum degree of the zonal harmonics (at most 6).
+     * @returns {number[]} The acceleration.
+     */
+    static accelerationZonal(r : number[], degree : number) : number[]
+    {
+        const rNorm = MathUtils.norm(r);
+        const u = r[2] / rNorm;
+        const rUnit = MathUtils.vecMul(r, 1.0 / rNorm);
+
+        // Legendre polynomials P_n(u) and their derivatives with the recursions
+        // n P_n = (2n - 1) u P_{n-1} - (n - 1) P_{n-2} and P'_n = P'_{n-2} + (2n - 1) P_{n-1}.
+        const P = [1.0, u];
+        const dP = [0.0, 1.0];
+        for (let n = 2; n <= degree; n++)
+        {
+            P.push(((2 * n - 1) * u * P[n - 1] - (n - 1) * P[n - 2]) / n);
+            dP.push(dP[n - 2] + (2 * n - 1) * P[n - 1]);
+        }
+
+        let radial = 0.0;
+        let axial = 0.0;
+        let ratioPower = forceModelConstants.radiusEarth / rNorm;
+        for (let n = 2; n <= degree; n++)
+        {
+            ratioPower *= forceModelConstants.radiusEarth / rNorm;
+            const coeff = forceModelConstants.zonals[n] * ratioPower;
+            radial += coeff * ((n + 1) * P[n] + u * dP[n]);
+            axial -= coeff * dP[n];
+        }
+
+        const mur2 = forceModelConstants.muEarth / (rNorm * rNorm);
+
+        return MathUtils.linComb([mur2 * radial, mur2 * axial], [rUnit, [0, 0, 1]]);
+    }
+
+    /**
+     * Compute atmospheric density with the exponential model.
+     *
+     * @param {number} h
+     *      Height above the ellipsoid (m).
+     * @returns {number} The density (kg/m^3).
+     */
+    static atmosphereDensity(h : number) : number
+    {
+        const hKm = h / 1000.0;
+
+        let indRow = 0;
+        while (indRow < exponentialAtmosphere.length - 1 && hKm >= exponentialAtmosphere[indRow + 1][0])
+        {
+            indRow++;
+        }
+        const [h0, rho0, H] = exponentialAtmosphere[indRow];
+
+        return rho0 * Math.exp(-(hKm - h0) / H);
+    }
+
+    /**
+     * Compute the acceleration due to atmospheric drag. The atmosphere is assumed to
+     * co-rotate with the Earth.
+     *
+     * @param {number[]} r
+     *      Position in an inertial frame with the z-axis along the rotation axis.
+     * @param {number[]} v
+     *      Velocity in the same frame (m/s).
+     * @param {ForceModelConfig} config
+     *      Configuration with the physical parameters of the target.
+     * @returns {number[]} The acceleration.
+     */
+    static accelerationDrag(r : number[], v : number[], config : ForceModelConfig) : number[]
+    {
+        const rNorm = MathUtils.norm(r);
+        // Approximate height above the ellipsoid from the geocentric latitude.
+        const sinLat = r[2] / rNorm;
+        const h = rNorm - forceModelConstants.radiusEarth
+                * (1.0 - forceModelConstants.flattening * sinLat * sinLat);
+        const rho = this.atmosphereDensity(h);
+
+        const omega = forceModelConstants.omegaEarth;
+        const vRel = [v[0] + omega * r[1], v[1] - omega * r[0], v[2]];
+        const vRelNorm = MathUtils.norm(vRel);
+
+        return MathUtils.vecMul(vRel,
+            -0.5 * config.dragCoeff * config.dragArea / config.mass * rho * vRelNorm);
+    }
+
+    /**
+     * Compute the acceleration due to solar radiation pressure with a cylindrical
+     * Earth shadow.
+     *
+     * @param {number[]} r
+     *      Geocentric position of the target.
+     * @param {number[]} rSun
+     *      Geocentric position of the Sun in the same frame.
+     * @param {ForceModelConfig} config
+     *      Configuration with the physical parameters of the target.
+     * @returns {number[]} The acceleration.
+     */
+    static accelerationSrp(r : number[], rSun : number[], config : ForceModelConfig) : number[]
+    {
+        const sunUnit = MathUtils.vecMul(rSun, 1.0 / MathUtils.norm(rSun));
+        const proj = MathUtils.dot(r, sunUnit);
+
+        // The target is behind the Earth inside the cylinder of the shadow.
+        if (proj < 0.0 &&
+            MathUtils.norm(MathUtils.vecDiff(r, MathUtils.vecMul(sunUnit, proj))) < forceModelConstants.radiusEarth)
+        {
+            return [0, 0, 0];
+        }
+
+        const rTargetSun = MathUtils.vecDiff(rSun, r);
+        const dist = MathUtils.norm(rTargetSun);
+        const pressure = forceModelConstants.solarPressure
+                       * Math.pow(forceModelConstants.au / dist, 2.0);
+
+        return MathUtils.vecMul(rTargetSun,
+            -pressure * config.reflectivityCoeff * config.srpArea / (config.mass * dist));
+    }
+
+    /**
+     * Compute the acceleration due to a third body.
+     *
+     * @param {number[]} r
+     *      Geocentric position of the target.
+     * @param {number[]} rBody
+     *      Geocentric position of the third body in the same frame.
+     * @param {number} mu
+     *      Gravitational parameter of the third body (m^3/s^2).
+     * @returns {number[]} The acceleration.
+     */
+    static accelerationThirdBody(r : number[], rBody : number[], mu : number) : number[]
+    {
+        const rTargetBody = MathUtils.vecDiff(rBody, r);
+        const distTarget = MathUtils.norm(rTargetBody);
+        const distBody = MathUtils.norm(rBody);
+
+        return MathUtils.linComb([mu / (distTarget * distTarget * distTarget),
+                                 -mu / (distBody * distBody * distBody)],
+                                 [rTargetBody, rBody]);
+    }
+
+    /**
+     * Compute the geocentric position of the Sun in the J2000 frame with VSOP87A.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @returns {OsvFrame} OSV of the Sun in the J2000 frame.
+     */
+    static sunJ2000(timeStamp : TimeStamp) : OsvFrame
+    {
+        const osvHelEarth : OsvFrame = Vsop87A.planetHeliocentric("earth", timeStamp);
+        const osvEclHel : OsvFrame = {frame : Frame.FRAME_ECLHEL, timeStamp : timeStamp,
+            position : [0, 0, 0], velocity : [0, 0, 0]};
+        const osvEclGeo = Frames.coordHelEcl(osvEclHel, osvHelEarth);
+
+        return Frames.coordEclEq(osvEclGeo);
+    }
+
+    /**
+     * Compute the geocentric position of the Moon in the J2000 frame with the
+     * low-precision series from Montenbruck, Gill - Satellite Orbits, 2000,
+     * Section 3.3.2. The accuracy is a few arcminutes, which is sufficient for the
+     * third-body perturbation.
+     *
+     * @param {number} JTtdb
+     *      Julian time (TDB).
+     * @returns {number[]} Position of the Moon (m).
+     */
+    static moonJ2000(JTtdb : number) : number[]
+    {
+        const T = (JTtdb - 2451545.0) / 36525.0;
+
+        // Mean longitude of the Moon referred to the J2000 equinox.
+        const L0 = 218.31617 + 481267.88088 * T - 1.3972 * T;
+        // Mean anomalies of the Moon and the Sun, argument of latitude and the mean elongation.
+        const l = 134.96292 + 477198.86753 * T;
+        const lp = 357.52543 + 35999.04944 * T;
+        const F = 93.27283 + 483202.01873 * T;
+        const D = 297.85027 + 445267.11135 * T;
+        const sind = MathUtils.sind;
+        const cosd = MathUtils.cosd;
+
+        const lon = L0 + (22640 * sind(l) + 769 * sind(2 * l) - 4586 * sind(l - 2 * D)
+                  + 2370 * sind(2 * D) - 668 * sind(lp) - 412 * sind(2 * F)
+                  - 212 * sind(2 * l - 2 * D) - 206 * sind(l + lp - 2 * D)
+                  + 192 * sind(l + 2 * D) - 165 * sind(lp - 2 * D) + 148 * sind(l - lp)
+                  - 125 * sind(D) - 110 * sind(l + lp) - 55 * sind(2 * F - 2 * D)) / 3600.0;
+        const lat = (18520 * sind(F + lon - L0 + (412 * sind(2 * F) + 541 * sind(lp)) / 3600.0)
+                  - 526 * sind(F - 2 * D) + 44 * sind(l + F - 2 * D) - 31 * sind(-l + F - 2 * D)
+                  - 25 * sind(-2 * l + F) - 23 * sind(lp + F - 2 * D) + 21 * sind(-l + F)
+                  + 11 * sind(-lp + F - 2 * D)) / 3600.0;
+        const dist = 1000.0 * (385000 - 20905 * cosd(l) - 3699 * cosd(2 * D - l)
+                   - 2956 * cosd(2 * D) - 570 * cosd(2 * l) + 246 * cosd(2 * l - 2 * D)
+                   - 205 * cosd(lp - 2 * D) - 171 * cosd(l + 2 * D) - 152 * cosd(l + lp - 2 * D));
+
+        const rEcl = [dist * cosd(lon) * cosd(lat), dist * sind(lon) * cosd(lat), dist * sind(lat)];
+
+        // Obliquity of the ecliptic at J2000.
+        return Rotations.rotateCart1d(rEcl, -23.439279444444445);
+    }
+}
@@ -4,6 +4,7 @@ import { NutationData } from "./Nutation";
 import { SiderealTime } from "./SiderealTime";
 import { MathUtils } from "./MathUtils";
 import { EarthPosition, Wgs84 } from "./Wgs84";
+import { Cio, CipData } from "./Cio";
 
 /**
  * Enumeration of supported frames.
@@ -19,7 +20,22 @@ export enum Frame
     FRAME_EFI,
     FRAME_ENU,
     FRAME_PERI,
-    FRAME_FUND
+    FRAME_FUND,
+    FRAME_TEME,
+    FRAME_CIRS,
+    FRAME_TIRS
+}
+
+/**
+ * Enumeration of the models for the transformation between the celestial and the 
+ * terrestrial frames.
+ */
+export enum FrameModel
+{
+    // Equinox-based IAU 1976/1980 chain through the MoD, ToD and PEF frames.
+    FRAME_MODEL_EQUINOX,
+    // CIO-based IAU 2006/2000A chain through the CIRS and TIRS frames.
+    FRAME_MODEL_CIO
 }
 
 /**
@@ -39,11 +55,18 @@ export interface OsvFrame
  */
 export interface EnuAngles
 {
+    // Azimuth measured clockwise from North (degrees).
     az : number;
+    // Elevation (degrees).
     el : number;
+    // Time derivative of the azimuth (degrees per second).
     dazdt : number; 
+    // Time derivative of the elevation (degrees per second).
     deldt : number; 
+    // Distance (meters).
     dist : number;
+    // Time derivative of the distance, i.e., the range-rate (meters per second).
+    ddistdt : number;
 }
 
 /**
@@ -54,6 +77,7 @@ export interface OsvOutput
     eclHel : OsvFrame;
     eclGeo : OsvFrame;
     j2000  : OsvFrame;
+    teme   : OsvFrame;
     mod    : OsvFrame;
     tod    : OsvFrame;
     pef    : OsvFrame;
@@ -82,6 +106,7 @@ export class Frames
         let osvEclHel;
         let osvEclGeo;
         let osvJ2000;
+        let osvTeme;
         let osvMoD;
         let osvToD;
         let osvPef;
@@ -121,6 +146,18 @@ export class Frames
             osvEfi = this.coordPefEfi(osvPef);
             osvEnu = this.coordEfiEnu(osvEfi, obsPos);
         }
+        if (osvIn.frame == Frame.FRAME_TEME)
+        {
+            osvTeme = osvIn;
+            osvToD = this.coordTemeTod(osvTeme, nutData);
+            osvMoD = this.coordTodMod(osvToD, nutData);
+            osvJ2000 = this.coordModJ2000(osvMoD);
+            osvEclGeo = this.coordEqEcl(osvJ2000);
+            osvEclHel = this.coordEclHel(osvEclGeo, osvHelEarth);
+            osvPef = this.coordTemePef(osvTeme);
+            osvEfi = this.coordPefEfi(osvPef);
+            osvEnu = this.coordEfiEnu(osvEfi, obsPos);
+        }
         if (osvIn.frame == Frame.FRAME_MOD)
         {
             osvMoD = osvIn;
@@ -177,11 +214,16 @@ export class Frames
             osvEclHel = this.coordEclHel(osvEclGeo, osvHelEarth);
             osvEnu = this.coordEfiEnu(osvEfi, obsPos);
         }
+        if (osvTeme === undefined)
+        {
+            osvTeme = this.coordTodTeme(<OsvFrame> osvToD, nutData);
+        }
 
         return {
             eclHel : osvEclHel,
             eclGeo : osvEclGeo,
             j2000  : osvJ2000,
+            teme   : osvTeme,
             mod    : osvMoD,
             tod    : osvToD,
             pef    : osvPef,
@@ -415,7 +457,7 @@ export class Frames
         const GAST = SiderealTime.timeGast(osv.timeStamp.JTut1, 
             osv.timeStamp.JTtdb, nutData);
         const rPef = Rotations.rotateCart3d(osv.position, GAST);
-        const vPef = Rotations.rotateCart3d(osv.position, GAST);
+        const vPef = Rotations.rotateCart3d(osv.velocity, GAST);
 
         // Alternative expression for the GMST is \sum_{i=0}^3 k_i MJD^i.
         const k1 = 360.985647366;
@@ -472,6 +514,141 @@ export class Frames
             position : rTod, velocity : vTod, timeStamp : osv.timeStamp};
     }
 
+    /**
+     * Convert coordinates from True Equator Mean Equinox (TEME) to the True-of-Date (ToD)
+     * frame. The frames differ by a rotation by the equation of the equinoxes.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in TEME frame.
+     * @param {NutationData} nutData 
+     *      Nutation data.
+     * @returns {OsvFrame} OSV in ToD frame.
+     */
+    static coordTemeTod(osv : OsvFrame, nutData : NutationData) : OsvFrame
+    {
+        const eqEq = nutData.dpsi * MathUtils.cosd(nutData.eps);
+        const rTod = Rotations.rotateCart3d(osv.position, -eqEq);
+        const vTod = Rotations.rotateCart3d(osv.velocity, -eqEq);
+
+        return {frame : Frame.FRAME_TOD,
+            position : rTod, velocity : vTod, timeStamp : osv.timeStamp};
+    }
+
+    /**
+     * Convert coordinates from True-of-Date (ToD) to the True Equator Mean Equinox (TEME)
+     * frame.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in ToD frame.
+     * @param {NutationData} nutData 
+     *      Nutation data.
+     * @returns {OsvFrame} OSV in TEME frame.
+     */
+    static coordTodTeme(osv : OsvFrame, nutData : NutationData) : OsvFrame
+    {
+        const eqEq = nutData.dpsi * MathUtils.cosd(nutData.eps);
+        const rTeme = Rotations.rotateCart3d(osv.position, eqEq);
+        const vTeme = Rotations.rotateCart3d(osv.velocity, eqEq);
+
+        return {frame : Frame.FRAME_TEME,
+            position : rTeme, velocity : vTeme, timeStamp : osv.timeStamp};
+    }
+
+    /**
+     * Convert coordinates from True Equator Mean Equinox (TEME) to the J2000 frame.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in TEME frame.
+     * @param {NutationData} nutData 
+     *      Nutation data.
+     * @returns {OsvFrame} OSV in J2000 frame.
+     */
+    static coordTemeJ2000(osv : OsvFrame, nutData : NutationData) : OsvFrame
+    {
+        return this.coordModJ2000(this.coordTodMod(this.coordTemeTod(osv, nutData), nutData));
+    }
+
+    /**
+     * Convert coordinates from J2000 to the True Equator Mean Equinox (TEME) frame.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in J2000 frame.
+     * @param {NutationData} nutData 
+     *      Nutation data.
+     * @returns {OsvFrame} OSV in TEME frame.
+     */
+    static coordJ2000Teme(osv : OsvFrame, nutData : NutationData) : OsvFrame
+    {
+        return this.coordTodTeme(this.coordModTod(this.coordJ2000Mod(osv), nutData), nutData);
+    }
+
+    /**
+     * Convert coordinates from True Equator Mean Equinox (TEME) to the Pseudo-Earth-Fixed
+     * (PEF) frame. The TEME frame is rotated to the PEF frame with the GMST.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in TEME frame.
+     * @returns {OsvFrame} OSV in PEF frame.
+     */
+    static coordTemePef(osv : OsvFrame) : OsvFrame
+    {
+        const GMST = SiderealTime.timeGmst(osv.timeStamp.JTut1, osv.timeStamp.JTtdb);
+        const rPef = Rotations.rotateCart3d(osv.position, GMST);
+        const vPef = Rotations.rotateCart3d(osv.velocity, GMST);
+
+        // Alternative expression for the GMST is \sum_{i=0}^3 k_i MJD^i.
+        const k1 = 360.985647366;
+        const k2 = 2.90788e-13;
+        const k3 = -5.3016e-22;
+        const MJD = osv.timeStamp.JTut1 - 2451544.5;
+
+        // Compute time-derivative of the GMST to convert velocities:
+        const dGMSTdt = (1/86400.0) * (k1 + 2*k2*MJD + 3*k3*MJD*MJD);
+        vPef[0] += dGMSTdt * (Math.PI/180.0) 
+                 * (-MathUtils.sind(GMST) * osv.position[0] + MathUtils.cosd(GMST) * osv.position[1]);
+        vPef[1] += dGMSTdt * (Math.PI/180.0) 
+                 * (-MathUtils.cosd(GMST) * osv.position[0] - MathUtils.sind(GMST) * osv.position[1]);
+
+        return {frame : Frame.FRAME_PEF,
+            position : rPef, velocity : vPef, timeStamp : osv.timeStamp};
+    }
+
+    /**
+     * Convert coordinates from Pseudo-Earth-Fixed (PEF) to the True Equator Mean Equinox 
+     * (TEME) frame.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in PEF frame.
+     * @returns {OsvFrame} OSV in TEME frame.
+     */
+    static coordPefTeme(osv : OsvFrame) : OsvFrame
+    {
+        const GMST = SiderealTime.timeGmst(osv.timeStamp.JTut1, osv.timeStamp.JTtdb);
+        const rTeme = Rotations.rotateCart3d(osv.position, -GMST);
+
+        // Alternative expression for the GMST is \sum_{i=0}^3 k_i MJD^i.
+        const k1 = 360.985647366;
+        const k2 = 2.90788e-13;
+        const k3 = -5.3016e-22;
+        const MJD = osv.timeStamp.JTut1 - 2451544.5;
+
+        // Compute time-derivative of the GMST to convert velocities:
+        const dGMSTdt = (1/86400.0) * (k1 + 2*k2*MJD + 3*k3*MJD*MJD);
+
+        let dRdt_rTeme = [0, 0, 0];
+        dRdt_rTeme[0] = dGMSTdt * (Math.PI/180.0) 
+                      * (-MathUtils.sind(GMST) * rTeme[0] + MathUtils.cosd(GMST) * rTeme[1]); 
+        dRdt_rTeme[1] = dGMSTdt * (Math.PI/180.0) 
+                      * (-MathUtils.cosd(GMST) * rTeme[0] - MathUtils.sind(GMST) * rTeme[1]); 
+
+        const vTeme = Rotations.rotateCart3d([osv.velocity[0] - dRdt_rTeme[0], 
+                                osv.velocity[1] - dRdt_rTeme[1], 
+                                osv.velocity[2]], -GMST);
+
+        return {frame : Frame.FRAME_TEME,
+            position : rTeme, velocity : vTeme, timeStamp : osv.timeStamp};
+    }
+
     /**
      * Convert coordinates from PEF to the Earth-Fixed (EFI) frame.
      * 
@@ -508,6 +685,186 @@ export class Frames
             position : rPef, velocity : vPef, timeStamp : osv.timeStamp};
     }
 
+    /**
+     * Convert coordinates from J2000 to the Celestial Intermediate Reference System
+     * (CIRS). The J2000 frame is identified with the GCRS, which differs from the J2000
+     * frame by the frame bias of about 23 milliarcseconds.
+     * 
+     * The implementation follows the IERS Conventions 2010, Section 5.4.4.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in J2000 frame.
+     * @param {CipData} cipData
+     *      CIP coordinates and the CIO locator.
+     * @returns {OsvFrame} OSV in CIRS frame.
+     */
+    static coordJ2000Cirs(osv : OsvFrame, cipData : CipData) : OsvFrame
+    {
+        const E = MathUtils.atan2d(cipData.Y, cipData.X);
+        const r2 = MathUtils.deg2Rad(cipData.X) * MathUtils.deg2Rad(cipData.X) 
+                 + MathUtils.deg2Rad(cipData.Y) * MathUtils.deg2Rad(cipData.Y);
+        const d = MathUtils.atand(Math.sqrt(r2 / (1.0 - r2)));
+
+        const rCirs = Rotations.rotateCart3d(
+                      Rotations.rotateCart2d(
+                      Rotations.rotateCart3d(osv.position, E), d), -E - cipData.s);
+        const vCirs = Rotations.rotateCart3d(
+                      Rotations.rotateCart2d(
+                      Rotations.rotateCart3d(osv.velocity, E), d), -E - cipData.s);
+
+        return {frame : Frame.FRAME_CIRS,
+            position : rCirs, velocity : vCirs, timeStamp : osv.timeStamp};
+    }
+
+    /**
+     * Convert coordinates from the Celestial Intermediate Reference System (CIRS) to
+     * the J2000 frame.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in CIRS frame.
+     * @param {CipData} cipData
+     *      CIP coordinates and the CIO locator.
+     * @returns {OsvFrame} OSV in J2000 frame.
+     */
+    static coordCirsJ2000(osv : OsvFrame, cipData : CipData) : OsvFrame
+    {
+        const E = MathUtils.atan2d(cipData.Y, cipData.X);
+        const r2 = MathUtils.deg2Rad(cipData.X) * MathUtils.deg2Rad(cipData.X) 
+                 + MathUtils.deg2Rad(cipData.Y) * MathUtils.deg2Rad(cipData.Y);
+        const d = MathUtils.atand(Math.sqrt(r2 / (1.0 - r2)));
+
+        const rJ2000 = Rotations.rotateCart3d(
+                       Rotations.rotateCart2d(
+                       Rotations.rotateCart3d(osv.position, E + cipData.s), -d), -E);
+        const vJ2000 = Rotations.rotateCart3d(
+                       Rotations.rotateCart2d(
+                       Rotations.rotateCart3d(osv.velocity, E + cipData.s), -d), -E);
+
+        return {frame : Frame.FRAME_J2000,
+            position : rJ2000, velocity : vJ2000, timeStamp : osv.timeStamp};
+    }
+
+    /**
+     * Convert coordinates from the Celestial Intermediate Reference System (CIRS) to
+     * the Terrestrial Intermediate Reference System (TIRS) with the Earth Rotation
+     * Angle.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in CIRS frame.
+     * @returns {OsvFrame} OSV in TIRS frame.
+     */
+    static coordCirsTirs(osv : OsvFrame) : OsvFrame
+    {
+        const ERA = Cio.earthRotationAngle(osv.timeStamp.JTut1);
+        const rTirs = Rotations.rotateCart3d(osv.position, ERA);
+        const vTirs = Rotations.rotateCart3d(osv.velocity, ERA);
+
+        // Angular velocity of the Earth rotation (radians per second).
+        const omega = 2.0 * Math.PI * 1.00273781191135448 / 86400.0;
+        vTirs[0] += omega * rTirs[1];
+        vTirs[1] -= omega * rTirs[0];
+
+        return {frame : Frame.FRAME_TIRS,
+            position : rTirs, velocity : vTirs, timeStamp : osv.timeStamp};
+    }
+
+    /**
+     * Convert coordinates from the Terrestrial Intermediate Reference System (TIRS) to
+     * the Celestial Intermediate Reference System (CIRS).
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in TIRS frame.
+     * @returns {OsvFrame} OSV in CIRS frame.
+     */
+    static coordTirsCirs(osv : OsvFrame) : OsvFrame
+    {
+        const ERA = Cio.earthRotationAngle(osv.timeStamp.JTut1);
+
+        // Angular velocity of the Earth rotation (radians per second).
+        const omega = 2.0 * Math.PI * 1.00273781191135448 / 86400.0;
+        const rCirs = Rotations.rotateCart3d(osv.position, -ERA);
+        const vCirs = Rotations.rotateCart3d([osv.velocity[0] - omega * osv.position[1], 
+                                              osv.velocity[1] + omega * osv.position[0],
+                                              osv.velocity[2]], -ERA);
+
+        return {frame : Frame.FRAME_CIRS,
+            position : rCirs, velocity : vCirs, timeStamp : osv.timeStamp};
+    }
+
+    /**
+     * Convert coordinates from the Terrestrial Intermediate Reference System (TIRS) to
+     * the Earth-Fixed (EFI) frame, i.e., the ITRS. The polar motion is taken from the
+     * timestamp.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in TIRS frame.
+     * @returns {OsvFrame} OSV in EFI frame.
+     */
+    static coordTirsEfi(osv : OsvFrame) : OsvFrame
+    {
+        const sp = Cio.tioLocator(osv.timeStamp.JTtdb);
+
+        const rEfi = Rotations.rotateCart1d(Rotations.rotateCart2d(Rotations.rotateCart3d(
+            osv.position, sp), -osv.timeStamp.polarDx), -osv.timeStamp.polarDy);
+        const vEfi = Rotations.rotateCart1d(Rotations.rotateCart2d(Rotations.rotateCart3d(
+            osv.velocity, sp), -osv.timeStamp.polarDx), -osv.timeStamp.polarDy);
+
+        return {frame : Frame.FRAME_EFI,
+            position : rEfi, velocity : vEfi, timeStamp : osv.timeStamp};
+    }
+
+    /**
+     * Convert coordinates from the Earth-Fixed (EFI) frame, i.e., the ITRS to the
+     * Terrestrial Intermediate Reference System (TIRS).
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in EFI frame.
+     * @returns {OsvFrame} OSV in TIRS frame.
+     */
+    static coordEfiTirs(osv : OsvFrame) : OsvFrame
+    {
+        const sp = Cio.tioLocator(osv.timeStamp.JTtdb);
+
+        const rTirs = Rotations.rotateCart3d(Rotations.rotateCart2d(Rotations.rotateCart1d(
+            osv.position, osv.timeStamp.polarDy), osv.timeStamp.polarDx), -sp);
+        const vTirs = Rotations.rotateCart3d(Rotations.rotateCart2d(Rotations.rotateCart1d(
+            osv.velocity, osv.timeStamp.polarDy), osv.timeStamp.polarDx), -sp);
+
+        return {frame : Frame.FRAME_TIRS,
+            position : rTirs, velocity : vTirs, timeStamp : osv.timeStamp};
+    }
+
+    /**
+     * Convert coordinates from J2000 to the Earth-Fixed (EFI) frame with the CIO-based
+     * transformation. This is an alternative to the equinox-based chain through the
+     * MoD, ToD and PEF frames.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in J2000 frame.
+     * @param {CipData} cipData
+     *      CIP coordinates and the CIO locator.
+     * @returns {OsvFrame} OSV in EFI frame.
+     */
+    static coordJ2000EfiCio(osv : OsvFrame, cipData : CipData) : OsvFrame
+    {
+        return this.coordTirsEfi(this.coordCirsTirs(this.coordJ2000Cirs(osv, cipData)));
+    }
+
+    /**
+     * Convert coordinates from the Earth-Fixed (EFI) frame to J2000 with the CIO-based
+     * transformation.
+     * 
+     * @param {OsvFrame} osv
+     *      OSV in EFI frame.
+     * @param {CipData} cipData
+     *      CIP coordinates and the CIO locator.
+     * @returns {OsvFrame} OSV in J2000 frame.
+     */
+    static coordEfiJ2000Cio(osv : OsvFrame, cipData : CipData) : OsvFrame
+    {
+        return this.coordCirsJ2000(this.coordTirsCirs(this.coordEfiTirs(osv)), cipData);
+    }
+
     /**
      * Convert coordinates from EFI to the East-North-Up (ENU) frame.
      * 
@@ -520,7 +877,6 @@ export class Frames
     static coordEfiEnu(osv : OsvFrame, earthPos : EarthPosition) : OsvFrame
     {
         const rObs = Wgs84.coordWgs84Efi(earthPos);
-        console.log(earthPos.h);
         const rEnu = Rotations.rotateCart1d(
                      Rotations.rotateCart3d(
                      MathUtils.vecDiff(osv.position, rObs), 90 + earthPos.lon), 
@@ -559,7 +915,8 @@ export class Frames
 
     /**
      * Compute azimuth and elevation from ENU coordinates. The azimuth is
-     * measured clockwise from North.
+     * measured clockwise from North. The rates are obtained from the ENU 
+     * velocity. At the zenith, the azimuth rate is undefined and set to zero.
      * 
      * @param {OsvFrame} osv
      *      OSV in ENU frame.
@@ -567,17 +924,25 @@ export class Frames
      */
     static coordEnuAzEl(osv : OsvFrame) : EnuAngles
     {
+        const [e, n, u] = osv.position;
+        const [ve, vn, vu] = osv.velocity;
         const rNorm = MathUtils.norm(osv.position);
-        const ru = [osv.position[0]/rNorm, osv.position[1]/rNorm, osv.position[2]/rNorm];
+        const rHoriz2 = e * e + n * n;
+        const rHoriz = Math.sqrt(rHoriz2);
 
-        const az = MathUtils.atan2d(ru[0], ru[1]);
-        const el = MathUtils.asind(ru[2]);
+        const az = MathUtils.atan2d(e, n);
+        const el = MathUtils.asind(u / rNorm);
 
-        // TODO:
-        const dazdt = 0;
-        const deldt = 0;
+        const ddistdt = MathUtils.dot(osv.position, osv.velocity) / rNorm;
+        let dazdt = 0;
+        let deldt = 0;
+        if (rHoriz > 0)
+        {
+            dazdt = MathUtils.rad2Deg((n * ve - e * vn) / rHoriz2);
+            deldt = MathUtils.rad2Deg((vu * rNorm - u * ddistdt) / (rNorm * rHoriz));
+        }
 
-        return {az : az, el : el, dazdt : 0, deldt : 0, dist : rNorm};
+        return {az : az, el : el, dazdt : dazdt, deldt : deldt, dist : rNorm, ddistdt : ddistdt};
     }
 
     /**
@@ -591,12 +956,20 @@ export class Frames
      */
     static coordAzElEnu(enuAngles : EnuAngles, timeStamp : TimeStamp) : OsvFrame
     {
-        const r = [enuAngles.dist * MathUtils.sind(enuAngles.az) * MathUtils.cosd(enuAngles.el), 
-                   enuAngles.dist * MathUtils.cosd(enuAngles.az) * MathUtils.cosd(enuAngles.el), 
-                   enuAngles.dist * MathUtils.sind(enuAngles.el)];
+        const {az, el, dist, ddistdt} = enuAngles;
+        const dazdt = MathUtils.deg2Rad(enuAngles.dazdt);
+        const deldt = MathUtils.deg2Rad(enuAngles.deldt);
+        const sinAz = MathUtils.sind(az);
+        const cosAz = MathUtils.cosd(az);
+        const sinEl = MathUtils.sind(el);
+        const cosEl = MathUtils.cosd(el);
 
-        // TODO: 
-        const v = [0, 0, 0];
+        const r = [dist * sinAz * cosEl, 
+                   dist * cosAz * cosEl, 
+                   dist * sinEl];
+        const v = [ddistdt * sinAz * cosEl + dist * (cosAz * cosEl * dazdt - sinAz * sinEl * deldt),
+                   ddistdt * cosAz * cosEl - dist * (sinAz * cosEl * dazdt + cosAz * sinEl * deldt),
+                   ddistdt * sinEl + dist * cosEl * deldt];
 
         return {frame : Frame.FRAME_ENU, 
             position : r, velocity : v, timeStamp : timeStamp};
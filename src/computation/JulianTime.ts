@@ -13,12 +13,15 @@ export interface GregorianTime
 
 /**
  * Class with static methods for conversions between Julian time, Gregorian
- * time and Javascript timestamps.
+ * time and Javascript timestamps. The calendar dates before the Gregorian reform 
+ * on 1582-10-15 are in the proleptic Julian calendar and the years are numbered 
+ * astronomically so that the year 0 is 1 BC.
  */
 export class JulianTime
 {
     /**
-     * Compute Julian date for given calendar date.
+     * Compute Julian date for given calendar date. The dates before 1582-10-15 are
+     * in the Julian calendar.
      * 
      * @param {number} year 
      *      Year as an integer.
@@ -30,6 +33,8 @@ export class JulianTime
      */
     static dateJulianYmd(year : number, month : number, mday : number) : number
     {
+        const julianCalendar = year < 1582 || (year == 1582 && (month < 10 || (month == 10 && mday < 15)));
+
         if (month < 3)
         {
             year--;
@@ -38,7 +43,7 @@ export class JulianTime
 
         const A = Math.floor(year / 100.0);
         const B = Math.floor(A / 4.0);
-        const C = Math.floor(2.0 - A + B);
+        const C = julianCalendar ? 0 : Math.floor(2.0 - A + B);
         const E = Math.floor(365.25 * (year + 4716.0));
         const F = Math.floor(30.6001 * (month + 1.0));
 
@@ -71,6 +76,97 @@ export class JulianTime
         return JT;
     }
 
+    /**
+     * Compute Julian time from an ISO 8601 timestamp of the form 
+     * "2023-05-30T14:16:31.144224". Since the Julian time of UTC cannot represent
+     * a leap second, a timestamp with the second 60 is mapped to the beginning of 
+     * the next day.
+     * 
+     * @param {string} str 
+     *      The timestamp.
+     * @returns {number} Julian time.
+     */
+    static timeJulianIso(str : string) : number
+    {
+        const gregorian : GregorianTime = this.timeGregorianIso(str);
+
+        return this.timeJulianYmdhms(gregorian.year, gregorian.month, gregorian.mday, 
+            gregorian.hour, gregorian.minute, gregorian.second);
+    }
+
+    /**
+     * Parse Gregorian time from an ISO 8601 timestamp of the form 
+     * "2023-05-30T14:16:31.144224". The second is not limited so that the timestamp 
+     * can contain a leap second. Years before 1 AD are given with a minus sign, for
+     * example "-0584-05-28T15:07:12.000000".
+     * 
+     * @param {string} str 
+     *      The timestamp.
+     * @returns {GregorianTime} Gregorian time object.
+     */
+    static timeGregorianIso(str : string) : GregorianTime
+    {
+        const sign = str.startsWith("-") ? -1 : 1;
+        str = str.replace(/^[+-]/, "");
+
+        return {
+            year   : sign * parseInt(str.substring(0, 4)),
+            month  : parseInt(str.substring(5, 7)),
+            mday   : parseInt(str.substring(8, 10)),
+            hour   : parseInt(str.substring(11, 13)),
+            minute : parseInt(str.substring(14, 16)),
+            second : parseFloat(str.substring(17))
+        };
+    }
+
+    /**
+     * Compute ISO 8601 timestamp of the form "2023-05-30T14:16:31.144224" from 
+     * Julian time.
+     * 
+     * @param {number} JT 
+     *      Julian time.
+     * @returns {string} The timestamp.
+     */
+    static timeIso(JT : number) : string
+    {
+        return this.timeIsoGregorian(this.timeGregorian(JT));
+    }
+
+    /**
+     * Compute ISO 8601 timestamp of the form "2023-05-30T14:16:31.144224" from 
+     * Gregorian time. The second 60 of a leap second is written as is and the years
+     * before 1 AD are written with a minus sign.
+     * 
+     * @param {GregorianTime} gregorian 
+     *      Gregorian time object.
+     * @returns {string} The timestamp.
+     */
+    static timeIsoGregorian(gregorian : GregorianTime) : string
+    {
+        function toFixed(num : number)
+        {
+            if (num < 10)
+            {
+                return "0" + num.toString();
+            }
+            else 
+            {
+                return num.toString();
+            }
+        }
+
+        const yearAbs = Math.abs(gregorian.year);
+        const year = (yearAbs < 1000) ? ("000" + yearAbs).slice(-4) : yearAbs.toString();
+
+        return (gregorian.year < 0 ? "-" : "") + year
+            + "-" + toFixed(gregorian.month)
+            + "-" + toFixed(gregorian.mday)
+            + "T" + toFixed(gregorian.hour)
+            + ":" + toFixed(gregorian.minute)
+            + ":" + toFixed(Math.floor(gregorian.second))
+            + "." + (gregorian.second % 1.0).toFixed(6).substring(2);
+    }
+
     /**
      * Compute Julian time from Javascript timestamp.
      * 
@@ -112,7 +208,8 @@ export class JulianTime
     }
 
     /**
-     * Compute Gregorian date and time from Julian time.
+     * Compute Gregorian date and time from Julian time. The dates before 1582-10-15
+     * are in the Julian calendar.
      * 
      * @param {number} JT 
      *      Julian time or date.
@@ -120,9 +217,15 @@ export class JulianTime
      */
     static timeGregorian(JT : number) : GregorianTime
     {
-        // Meeus - Astronomical Algorithms - Chapter 7.
-        const Z = Math.floor(JT + 0.5);
-        const F = JT + 0.5 - Z;
+        // Meeus - Astronomical Algorithms - Chapter 7. The time of the day is rounded
+        // to microseconds so that the seconds never reach 60.
+        let Z = Math.floor(JT + 0.5);
+        let microseconds = Math.round((JT + 0.5 - Z) * 86400.0e6);
+        if (microseconds >= 86400.0e6)
+        {
+            Z++;
+            microseconds -= 86400.0e6;
+        }
         let A = Z;
         if (Z >= 2299161) 
         {
@@ -134,7 +237,7 @@ export class JulianTime
         const D = Math.floor(365.25 * C);
         const E = Math.floor((B - D)/30.6001);
 
-        const mday = Math.floor(B - D - Math.floor(30.6001 * E) + F);
+        const mday = B - D - Math.floor(30.6001 * E);
         let month = E - 1;
         if (E >= 14)
         {
@@ -146,16 +249,11 @@ export class JulianTime
             year = C - 4715;
         }
 
-        let JTfrac = F;
-        if (JTfrac < 0)
-        {
-            JTfrac += 1;
-        }
-        const hour = Math.floor(JTfrac * 24.0);
-        JTfrac -= hour / 24.0;
-        const minute = Math.floor(JTfrac * (24.0 * 60.0));
-        JTfrac -= minute / (24.0 * 60.0);
-        const second = JTfrac * (24.0 * 60.0 * 60.0);
+        const hour = Math.floor(microseconds / 3600.0e6);
+        microseconds -= hour * 3600.0e6;
+        const minute = Math.floor(microseconds / 60.0e6);
+        microseconds -= minute * 60.0e6;
+        const second = microseconds / 1.0e6;
 
         return {year : year, month : month, mday : mday, 
             hour : hour, minute : minute, second : second};
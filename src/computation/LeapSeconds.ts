@@ -0,0 +1,392 @@
+import leapData from '../../data/leap_seconds.json';
+import { GregorianTime, JulianTime } from "./JulianTime";
+
+// Julian date of the epoch 1900-01-01 of the Network Time Protocol.
+const JDntpEpoch : number = 2415020.5;
+// Abbreviated month names in the expiration dates.
+const monthNames : string[] = ["Jan", "Feb", "Mar", "Apr", "May", "Jun",
+    "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Table of the differences TAI - UTC.
+ */
+export interface LeapSecondData
+{
+    // Rows [JD, offset, MJD, rate] sorted by the Julian date (UTC), from which the row
+    // applies. TAI - UTC = offset + (MJD(UTC) - MJD) * rate (seconds), where the rate is
+    // nonzero only for the drifting UTC before 1972.
+    data : number[][];
+    // Julian date (UTC), after which the table is not valid, or null if unknown.
+    expiresJD : number | null;
+}
+
+/**
+ * Find the row of the table valid at a Julian time.
+ *
+ * @param {number[][]} data
+ *      The rows of the table.
+ * @param {number} JTutc
+ *      Julian time (UTC).
+ * @returns {number} Index of the row or zero before the first row.
+ */
+function findRow(data : number[][], JTutc : number) : number
+{
+    let indRow = data.length - 1;
+    while (indRow > 0 && data[indRow][0] > JTutc)
+    {
+        indRow--;
+    }
+
+    return indRow;
+}
+
+/**
+ * Evaluate TAI - UTC from a row of the table.
+ *
+ * @param {number[]} row
+ *      The row.
+ * @param {number} JTutc
+ *      Julian time (UTC).
+ * @returns {number} TAI - UTC (seconds).
+ */
+function evaluateRow(row : number[], JTutc : number) : number
+{
+    const [, offset, MJDref, rate] = row;
+
+    return offset + (JTutc - 2400000.5 - MJDref) * rate;
+}
+
+/**
+ * Class implementing the table of leap seconds and the exact conversions between UTC
+ * and TAI. The internal table starts from 1960 and can be replaced by the IERS
+ * Leap_Second.dat or the NIST leap-seconds.list files.
+ */
+export class LeapSeconds
+{
+    // The table.
+    private leapSecondData : LeapSecondData;
+
+    /**
+     * Public constructor.
+     */
+    constructor()
+    {
+        // The table can be modified without influencing the internal data.
+        this.leapSecondData = JSON.parse(JSON.stringify(leapData));
+    }
+
+    /**
+     * Get the table.
+     *
+     * @returns {LeapSecondData} The table.
+     */
+    getData() : LeapSecondData
+    {
+        return this.leapSecondData;
+    }
+
+    /**
+     * Load a table. The rows of the current table starting from the first loaded row
+     * are replaced so that the drift rates before 1972 are kept when loading the leap
+     * seconds.
+     *
+     * @param {LeapSecondData} leapSecondData
+     *      The table.
+     */
+    load(leapSecondData : LeapSecondData) : void
+    {
+        if (leapSecondData.data.length == 0)
+        {
+            throw Error("No leap seconds");
+        }
+
+        const JDfirst : number = leapSecondData.data[0][0];
+
+        this.leapSecondData = {
+            data : this.leapSecondData.data.filter((row) => row[0] < JDfirst)
+                .concat(leapSecondData.data),
+            expiresJD : leapSecondData.expiresJD
+        };
+    }
+
+    /**
+     * Parse the IERS Leap_Second.dat file with the columns MJD, day, month, year and
+     * TAI - UTC.
+     *
+     * @param {string} text
+     *      Contents of the file.
+     * @returns {LeapSecondData} The table.
+     */
+    static parseLeapSecondDat(text : string) : LeapSecondData
+    {
+        const data : number[][] = [];
+        let expiresJD : number | null = null;
+        const lines : string[] = text.split(/\r?\n/);
+
+        for (let indLine = 0; indLine < lines.length; indLine++)
+        {
+            const line : string = lines[indLine].trim();
+
+            if (line.startsWith("#"))
+            {
+                // "#  File expires on 28 June 2026"
+                const match = line.match(/expires on\s+(\d+)\s+(\w+)\s+(\d{4})/);
+                if (match !== null)
+                {
+                    const month : number = monthNames.indexOf(match[2].substring(0, 3)) + 1;
+                    expiresJD = JulianTime.dateJulianYmd(parseInt(match[3]), month, parseInt(match[1]));
+                }
+                continue;
+            }
+
+            const fields : number[] = line.split(/\s+/).map(Number);
+            if (fields.length < 5 || fields.some(isNaN))
+            {
+                continue;
+            }
+            data.push([fields[0] + 2400000.5, fields[4], 0, 0.0]);
+        }
+
+        return {data : data, expiresJD : expiresJD};
+    }
+
+    /**
+     * Parse the NIST leap-seconds.list file with the columns NTP timestamp and
+     * TAI - UTC.
+     *
+     * @param {string} text
+     *      Contents of the file.
+     * @returns {LeapSecondData} The table.
+     */
+    static parseLeapSecondsList(text : string) : LeapSecondData
+    {
+        const data : number[][] = [];
+        let expiresJD : number | null = null;
+        const lines : string[] = text.split(/\r?\n/);
+
+        for (let indLine = 0; indLine < lines.length; indLine++)
+        {
+            const line : string = lines[indLine].trim();
+
+            if (line.startsWith("#@"))
+            {
+                expiresJD = JDntpEpoch + parseInt(line.substring(2)) / 86400.0;
+                continue;
+            }
+            if (line.startsWith("#") || line.length == 0)
+            {
+                continue;
+            }
+
+            const fields : number[] = line.split("#")[0].trim().split(/\s+/).map(Number);
+            if (fields.length < 2 || fields.some(isNaN))
+            {
+                throw Error("Invalid line " + (indLine + 1) + " \"" + line + "\"");
+            }
+            data.push([JDntpEpoch + fields[0] / 86400.0, fields[1], 0, 0.0]);
+        }
+
+        return {data : data, expiresJD : expiresJD};
+    }
+
+    /**
+     * Check whether the table has expired.
+     *
+     * @param {number} JTutc
+     *      Julian time (UTC).
+     * @returns {boolean} Whether the time is after the expiration of the table.
+     */
+    isExpired(JTutc : number) : boolean
+    {
+        return this.leapSecondData.expiresJD !== null && JTutc > this.leapSecondData.expiresJD;
+    }
+
+    /**
+     * Compute TAI - UTC. Before the first row of the table, the value at the first row
+     * is returned.
+     *
+     * @param {number} JTutc
+     *      Julian time (UTC).
+     * @returns {number} TAI - UTC (seconds).
+     */
+    taiUtc(JTutc : number) : number
+    {
+        const data : number[][] = this.leapSecondData.data;
+        const indRow : number = findRow(data, JTutc);
+
+        return evaluateRow(data[indRow], Math.max(JTutc, data[indRow][0]));
+    }
+
+    /**
+     * Compute the number of seconds in a UTC day.
+     *
+     * @param {number} JDutc
+     *      Julian date (UTC) at the start of the day.
+     * @returns {number} 86401 for a day ending with a leap second, 86399 for a day
+     *      ending with a negative leap second and 86400 otherwise.
+     */
+    daySeconds(JDutc : number) : number
+    {
+        return 86400 + Math.round(this.taiUtc(JDutc + 1.0) - this.taiUtc(JDutc + 1.0 - 1.0 / 86400.0));
+    }
+
+    /**
+     * Convert UTC to TAI time.
+     *
+     * @param {number} JTutc
+     *      UTC Julian time.
+     * @returns {number} TAI Julian time.
+     */
+    correlationUtcTai(JTutc : number) : number
+    {
+        return JTutc + this.taiUtc(JTutc) / 86400.0;
+    }
+
+    /**
+     * Find the row of the table valid at a TAI time and solve the UTC time.
+     *
+     * @param {number} JTtai
+     *      TAI Julian time.
+     * @returns {number[]} Index of the row and the UTC Julian time, which is at or after
+     *      the start of the next row inside a leap second.
+     */
+    private solveUtc(JTtai : number) : number[]
+    {
+        const data : number[][] = this.leapSecondData.data;
+
+        let indRow = data.length - 1;
+        while (indRow > 0 && data[indRow][0] + evaluateRow(data[indRow], data[indRow][0]) / 86400.0 > JTtai)
+        {
+            indRow--;
+        }
+
+        // TAI = UTC + (offset + (UTC - 2400000.5 - MJD) * rate) / 86400 is linear in UTC.
+        const [, offset, MJDref, rate] = data[indRow];
+        const JTutc = (JTtai - (offset - (2400000.5 + MJDref) * rate) / 86400.0) / (1.0 + rate / 86400.0);
+
+        return [indRow, JTutc];
+    }
+
+    /**
+     * Convert TAI to UTC time. Since the Julian time of UTC cannot represent a leap
+     * second, the times inside a leap second are mapped to the beginning of the next day.
+     *
+     * @param {number} JTtai
+     *      TAI Julian time.
+     * @returns {number} UTC Julian time.
+     */
+    correlationTaiUtc(JTtai : number) : number
+    {
+        const [indRow, JTutc] = this.solveUtc(JTtai);
+        const data : number[][] = this.leapSecondData.data;
+
+        if (indRow < data.length - 1 && JTutc >= data[indRow + 1][0])
+        {
+            return data[indRow + 1][0];
+        }
+
+        return JTutc;
+    }
+
+    /**
+     * Check whether a TAI time is inside a leap second.
+     *
+     * @param {number} JTtai
+     *      TAI Julian time.
+     * @returns {boolean} Whether the time is inside a leap second.
+     */
+    isLeapSecond(JTtai : number) : boolean
+    {
+        const [indRow, JTutc] = this.solveUtc(JTtai);
+        const data : number[][] = this.leapSecondData.data;
+
+        return indRow < data.length - 1 && JTutc >= data[indRow + 1][0];
+    }
+
+    /**
+     * Compute the Gregorian UTC time from TAI time. Inside a leap second, the second is
+     * in [60, 61).
+     *
+     * @param {number} JTtai
+     *      TAI Julian time.
+     * @returns {GregorianTime} Gregorian time object.
+     */
+    gregorianTai(JTtai : number) : GregorianTime
+    {
+        const [indRow, JTutc] = this.solveUtc(JTtai);
+        const data : number[][] = this.leapSecondData.data;
+
+        if (indRow < data.length - 1 && JTutc >= data[indRow + 1][0])
+        {
+            const JDnext : number = data[indRow + 1][0];
+            const gregorian : GregorianTime = JulianTime.timeGregorian(JDnext - 1.0 / 86400.0);
+            gregorian.second = 60.0 + (JTtai - JDnext - this.taiUtc(JDnext - 1.0 / 86400.0) / 86400.0) * 86400.0;
+
+            return gregorian;
+        }
+
+        return JulianTime.timeGregorian(JTutc);
+    }
+
+    /**
+     * Compute TAI time from Gregorian UTC time. The second 60 is accepted only during
+     * the last minute of a day ending with a leap second.
+     *
+     * @param {number} year
+     *      Year as an integer.
+     * @param {number} month
+     *      Month (1-12) integer.
+     * @param {number} mday
+     *      Day of the month (1-31) integer.
+     * @param {number} hour
+     *      Hour (0-23) integer.
+     * @param {number} minute
+     *      Minute (0-59) integer.
+     * @param {number} second
+     *      Second (0-61) floating point.
+     * @returns {number} TAI Julian time.
+     */
+    timeJulianTaiYmdhms(year : number, month : number, mday : number,
+        hour : number, minute : number, second : number) : number
+    {
+        const JDutc : number = JulianTime.dateJulianYmd(year, month, mday);
+        const JTminute : number = JDutc + hour / 24.0 + minute / 1440.0;
+        const secondsInMinute : number = (hour == 23 && minute == 59) ? this.daySeconds(JDutc) - 86340 : 60;
+
+        if (second < 0.0 || second >= secondsInMinute)
+        {
+            throw Error("Invalid second " + second + " for " + JulianTime.timeIso(JTminute));
+        }
+
+        return JTminute + (second + this.taiUtc(JTminute)) / 86400.0;
+    }
+
+    /**
+     * Compute TAI time from an ISO 8601 UTC timestamp of the form
+     * "2016-12-31T23:59:60.500000".
+     *
+     * @param {string} str
+     *      The timestamp.
+     * @returns {number} TAI Julian time.
+     */
+    timeJulianTaiIso(str : string) : number
+    {
+        const gregorian : GregorianTime = JulianTime.timeGregorianIso(str);
+
+        return this.timeJulianTaiYmdhms(gregorian.year, gregorian.month, gregorian.mday,
+            gregorian.hour, gregorian.minute, gregorian.second);
+    }
+
+    /**
+     * Compute ISO 8601 UTC timestamp of the form "2016-12-31T23:59:60.500000" from TAI
+     * time.
+     *
+     * @param {number} JTtai
+     *      TAI Julian time.
+     * @returns {string} The timestamp.
+     */
+    timeIsoTai(JTtai : number) : string
+    {
+        return JulianTime.timeIsoGregorian(this.gregorianTai(JTtai));
+    }
+}
@@ -225,4 +225,60 @@ export class MathUtils
     {
         return [u[0]*s, u[1]*s, u[2]*s];
     }
-}
\ No newline at end of file
+
+    /**
+     * Solve the linear system A x = b with Gaussian elimination and partial pivoting.
+     * 
+     * @param {number[][]} A 
+     *      The square matrix as an array of rows.
+     * @param {number[]} b 
+     *      The right-hand side.
+     * @throws {Error} If the matrix is singular.
+     * @returns {number[]} The solution x.
+     */
+    static solveLinear(A : number[][], b : number[]) : number[]
+    {
+        const dim = b.length;
+        // Augmented matrix.
+        const M : number[][] = A.map((row, indRow) => row.concat([b[indRow]]));
+
+        for (let indCol = 0; indCol < dim; indCol++)
+        {
+            let indPivot = indCol;
+            for (let indRow = indCol + 1; indRow < dim; indRow++)
+            {
+                if (Math.abs(M[indRow][indCol]) > Math.abs(M[indPivot][indCol]))
+                {
+                    indPivot = indRow;
+                }
+            }
+            if (M[indPivot][indCol] == 0.0)
+            {
+                throw Error("Singular matrix");
+            }
+            [M[indCol], M[indPivot]] = [M[indPivot], M[indCol]];
+
+            for (let indRow = indCol + 1; indRow < dim; indRow++)
+            {
+                const factor = M[indRow][indCol] / M[indCol][indCol];
+                for (let indElem = indCol; indElem <= dim; indElem++)
+                {
+                    M[indRow][indElem] -= factor * M[indCol][indElem];
+                }
+            }
+        }
+
+        const x : number[] = new Array<number>(dim).fill(0);
+        for (let indRow = dim - 1; indRow >= 0; indRow--)
+        {
+            let sum = M[indRow][dim];
+            for (let indCol = indRow + 1; indCol < dim; indCol++)
+            {
+                sum -= M[indRow][indCol] * x[indCol];
+            }
+            x[indRow] = sum / M[indRow][indRow];
+        }
+
+        return x;
+    }
+}
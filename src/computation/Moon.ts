@@ -0,0 +1,338 @@
+import { Frame, Frames, OsvFrame } from "./Frames";
+import { MathUtils } from "./MathUtils";
+import { Rotations } from "./Rotations";
+import { TimeStamp } from "./TimeCorrelation";
+import { ForceModels } from "./ForceModels";
+import { NutationData } from "./Nutation";
+
+// Table 47.A from Meeus - Astronomical Algorithms, 2nd edition.
+// Multiples of D, M, M' and F and the coefficients of the sine of the argument for
+// the longitude (1e-6 degrees) and of the cosine for the distance (1e-3 km).
+const moonLonDistData = [
+[ 0,  0,  1,  0,  6288774, -20905355],
+[ 2,  0, -1,  0,  1274027,  -3699111],
+[ 2,  0,  0,  0,   658314,  -2955968],
+[ 0,  0,  2,  0,   213618,   -569925],
+[ 0,  1,  0,  0,  -185116,     48888],
+[ 0,  0,  0,  2,  -114332,     -3149],
+[ 2,  0, -2,  0,    58793,    246158],
+[ 2, -1, -1,  0,    57066,   -152138],
+[ 2,  0,  1,  0,    53322,   -170733],
+[ 2, -1,  0,  0,    45758,   -204586],
+[ 0,  1, -1,  0,   -40923,   -129620],
+[ 1,  0,  0,  0,   -34720,    108743],
+[ 0,  1,  1,  0,   -30383,    104755],
+[ 2,  0,  0, -2,    15327,     10321],
+[ 0,  0,  1,  2,   -12528,         0],
+[ 0,  0,  1, -2,    10980,     79661],
+[ 4,  0, -1,  0,    10675,    -34782],
+[ 0,  0,  3,  0,    10034,    -23210],
+[ 4,  0, -2,  0,     8548,    -21636],
+[ 2,  1, -1,  0,    -7888,     24208],
+[ 2,  1,  0,  0,    -6766,     30824],
+[ 1,  0, -1,  0,    -5163,     -8379],
+[ 1,  1,  0,  0,     4987,    -16675],
+[ 2, -1,  1,  0,     4036,    -12831],
+[ 2,  0,  2,  0,     3994,    -10445],
+[ 4,  0,  0,  0,     3861,    -11650],
+[ 2,  0, -3,  0,     3665,     14403],
+[ 0,  1, -2,  0,    -2689,     -7003],
+[ 2,  0, -1,  2,    -2602,         0],
+[ 2, -1, -2,  0,     2390,     10056],
+[ 1,  0,  1,  0,    -2348,      6322],
+[ 2, -2,  0,  0,     2236,     -9884],
+[ 0,  1,  2,  0,    -2120,      5751],
+[ 0,  2,  0,  0,    -2069,         0],
+[ 2, -2, -1,  0,     2048,     -4950],
+[ 2,  0,  1, -2,    -1773,      4130],
+[ 2,  0,  0,  2,    -1595,         0],
+[ 4, -1, -1,  0,     1215,     -3958],
+[ 0,  0,  2,  2,    -1110,         0],
+[ 3,  0, -1,  0,     -892,      3258],
+[ 2,  1,  1,  0,     -810,      2616],
+[ 4, -1, -2,  0,      759,     -1897],
+[ 0,  2, -1,  0,     -713,     -2117],
+[ 2,  2, -1,  0,     -700,      2354],
+[ 2,  1, -2,  0,      691,         0],
+[ 2, -1,  0, -2,      596,         0],
+[ 4,  0,  1,  0,      549,     -1423],
+[ 0,  0,  4,  0,      537,     -1117],
+[ 4, -1,  0,  0,      520,     -1571],
+[ 1,  0, -2,  0,     -487,     -1739],
+[ 2,  1,  0, -2,     -399,         0],
+[ 0,  0,  2, -2,     -381,     -4421],
+[ 1,  1,  1,  0,      351,         0],
+[ 3,  0, -2,  0,     -340,         0],
+[ 4,  0, -3,  0,      330,         0],
+[ 2, -1,  2,  0,      327,         0],
+[ 0,  2,  1,  0,     -323,      1165],
+[ 1,  1, -1,  0,      299,         0],
+[ 2,  0,  3,  0,      294,         0],
+[ 2,  0, -1, -2,        0,      8752]
+];
+
+// Table 47.B from Meeus - Astronomical Algorithms, 2nd edition.
+// Multiples of D, M, M' and F and the coefficients of the sine of the argument for
+// the latitude (1e-6 degrees).
+const moonLatData = [
+[ 0,  0,  0,  1,  5128122],
+[ 0,  0,  1,  1,   280602],
+[ 0,  0,  1, -1,   277693],
+[ 2,  0,  0, -1,   173237],
+[ 2,  0, -1,  1,    55413],
+[ 2,  0, -1, -1,    46271],
+[ 2,  0,  0,  1,    32573],
+[ 0,  0,  2,  1,    17198],
+[ 2,  0,  1, -1,     9266],
+[ 0,  0,  2, -1,     8822],
+[ 2, -1,  0, -1,     8216],
+[ 2,  0, -2, -1,     4324],
+[ 2,  0,  1,  1,     4200],
+[ 2,  1,  0, -1,    -3359],
+[ 2, -1, -1,  1,     2463],
+[ 2, -1,  0,  1,     2211],
+[ 2, -1, -1, -1,     2065],
+[ 0,  1, -1, -1,    -1870],
+[ 4,  0, -1, -1,     1828],
+[ 0,  1,  0,  1,    -1794],
+[ 0,  0,  0,  3,    -1749],
+[ 0,  1, -1,  1,    -1565],
+[ 1,  0,  0,  1,    -1491],
+[ 0,  1,  1,  1,    -1475],
+[ 0,  1,  1, -1,    -1410],
+[ 0,  1,  0, -1,    -1344],
+[ 1,  0,  0, -1,    -1335],
+[ 0,  0,  3,  1,     1107],
+[ 4,  0,  0, -1,     1021],
+[ 4,  0, -1,  1,      833],
+[ 0,  0,  1, -3,      777],
+[ 4,  0, -2,  1,      671],
+[ 2,  0,  0, -3,      607],
+[ 2,  0,  2, -1,      596],
+[ 2, -1,  1, -1,      491],
+[ 2,  0, -2,  1,     -451],
+[ 0,  0,  3, -1,      439],
+[ 2,  0,  2,  1,      422],
+[ 2,  0, -3, -1,      421],
+[ 2,  1, -1,  1,     -366],
+[ 2,  1,  0,  1,     -351],
+[ 4,  0,  0,  1,      331],
+[ 2, -1,  1,  1,      315],
+[ 2, -2,  0, -1,      302],
+[ 0,  0,  1,  3,     -283],
+[ 2,  1,  1, -1,     -229],
+[ 1,  1,  0, -1,      223],
+[ 1,  1,  0,  1,      223],
+[ 0,  1, -2, -1,     -220],
+[ 2,  1, -1, -1,     -220],
+[ 1,  0,  1,  1,     -185],
+[ 2, -1, -2, -1,      181],
+[ 0,  1,  2,  1,     -177],
+[ 4,  0, -2, -1,      176],
+[ 4, -1, -1, -1,      166],
+[ 1,  0,  1, -1,     -164],
+[ 4,  0,  1, -1,      132],
+[ 1,  0, -1, -1,     -119],
+[ 4, -1,  0, -1,      115],
+[ 2, -2,  0,  1,      107]
+];
+
+/**
+ * Phase of the Moon seen from the center of the Earth.
+ */
+export interface MoonPhase
+{
+    // Angular distance of the Moon from the Sun (degrees).
+    elongation : number;
+    // Angle between the directions to the Sun and to the Earth seen from the Moon (degrees).
+    phaseAngle : number;
+    // Illuminated fraction of the disk in [0, 1].
+    illuminatedFraction : number;
+    // Whether the illuminated fraction is increasing.
+    waxing : boolean;
+}
+
+/**
+ * Class implementing static methods for the computation of the position of the Moon.
+ * The position is computed from the truncated ELP2000-82 series in Meeus - Astronomical
+ * Algorithms, 2nd edition, Chapter 47. The accuracy is about 10 arcseconds in longitude
+ * and 4 arcseconds in latitude.
+ */
+export class Moon
+{
+    /**
+     * Compute the geocentric ecliptic coordinates of the Moon referred to the mean
+     * equinox of date.
+     *
+     * @param {number} JTtdb
+     *      Julian time (TDB).
+     * @returns {number[]} The longitude (degrees), the latitude (degrees) and the
+     *      distance (meters).
+     */
+    static moonEclipticOfDate(JTtdb : number) : number[]
+    {
+        const T : number = (JTtdb - 2451545.0) / 36525.0;
+        const T2 : number = T * T;
+        const T3 : number = T2 * T;
+        const T4 : number = T3 * T;
+
+        // Mean longitude of the Moon (47.1).
+        const Lp : number = 218.3164477 + 481267.88123421 * T - 0.0015786 * T2
+                          + T3 / 538841.0 - T4 / 65194000.0;
+        // Mean elongation of the Moon (47.2).
+        const D : number = 297.8501921 + 445267.1114034 * T - 0.0018819 * T2
+                         + T3 / 545868.0 - T4 / 113065000.0;
+        // Mean anomaly of the Sun (47.3).
+        const M : number = 357.5291092 + 35999.0502909 * T - 0.0001536 * T2 + T3 / 24490000.0;
+        // Mean anomaly of the Moon (47.4).
+        const Mp : number = 134.9633964 + 477198.8675055 * T + 0.0087414 * T2
+                          + T3 / 69699.0 - T4 / 14712000.0;
+        // Argument of latitude of the Moon (47.5).
+        const F : number = 93.2720950 + 483202.0175233 * T - 0.0036539 * T2
+                         - T3 / 3526000.0 + T4 / 863310000.0;
+        // Further arguments for the action of Venus, Jupiter and the flattening of the Earth.
+        const A1 : number = 119.75 + 131.849 * T;
+        const A2 : number = 53.09 + 479264.290 * T;
+        const A3 : number = 313.45 + 481266.484 * T;
+        // Decreasing eccentricity of the orbit of the Earth (47.6).
+        const E : number = 1.0 - 0.002516 * T - 0.0000074 * T2;
+
+        let sumLon : number = 0.0;
+        let sumDist : number = 0.0;
+        for (let indTerm = 0; indTerm < moonLonDistData.length; indTerm++)
+        {
+            const [kD, kM, kMp, kF, coeffLon, coeffDist] = moonLonDistData[indTerm];
+            const arg : number = kD * D + kM * M + kMp * Mp + kF * F;
+            const factor : number = Math.pow(E, Math.abs(kM));
+
+            sumLon += factor * coeffLon * MathUtils.sind(arg);
+            sumDist += factor * coeffDist * MathUtils.cosd(arg);
+        }
+
+        let sumLat : number = 0.0;
+        for (let indTerm = 0; indTerm < moonLatData.length; indTerm++)
+        {
+            const [kD, kM, kMp, kF, coeffLat] = moonLatData[indTerm];
+            const arg : number = kD * D + kM * M + kMp * Mp + kF * F;
+
+            sumLat += Math.pow(E, Math.abs(kM)) * coeffLat * MathUtils.sind(arg);
+        }
+
+        sumLon += 3958.0 * MathUtils.sind(A1) + 1962.0 * MathUtils.sind(Lp - F) + 318.0 * MathUtils.sind(A2);
+        sumLat += -2235.0 * MathUtils.sind(Lp) + 382.0 * MathUtils.sind(A3)
+                + 175.0 * MathUtils.sind(A1 - F) + 175.0 * MathUtils.sind(A1 + F)
+                + 127.0 * MathUtils.sind(Lp - Mp) - 115.0 * MathUtils.sind(Lp + Mp);
+
+        const lon : number = ((Lp + sumLon * 1e-6) % 360.0 + 360.0) % 360.0;
+
+        return [lon, sumLat * 1e-6, 1000.0 * (385000.56 + sumDist * 1e-3)];
+    }
+
+    /**
+     * Compute the geocentric position of the Moon in the MoD frame.
+     *
+     * @param {number} JTtdb
+     *      Julian time (TDB).
+     * @returns {number[]} The position (meters).
+     */
+    private static positionMod(JTtdb : number) : number[]
+    {
+        const [lon, lat, dist] = Moon.moonEclipticOfDate(JTtdb);
+        const T : number = (JTtdb - 2451545.0) / 36525.0;
+
+        // Mean obliquity of the ecliptic of date (IAU 1980).
+        const eps : number = 23.439291 - 0.0130042 * T - 1.64e-7 * T * T + 5.04e-7 * T * T * T;
+        const rEcl : number[] = [dist * MathUtils.cosd(lon) * MathUtils.cosd(lat),
+                                 dist * MathUtils.sind(lon) * MathUtils.cosd(lat),
+                                 dist * MathUtils.sind(lat)];
+
+        return Rotations.rotateCart1d(rEcl, -eps);
+    }
+
+    /**
+     * Compute the geocentric OSV of the Moon in the MoD frame. The velocity is computed
+     * with central differences.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @returns {OsvFrame} The OSV in MoD frame.
+     */
+    static moonMod(timeStamp : TimeStamp) : OsvFrame
+    {
+        // Time step of the differences (seconds).
+        const step : number = 60.0;
+        const JTtdb : number = timeStamp.JTtdb;
+        const rPlus : number[] = Moon.positionMod(JTtdb + step / 86400.0);
+        const rMinus : number[] = Moon.positionMod(JTtdb - step / 86400.0);
+
+        return {
+            frame : Frame.FRAME_MOD,
+            timeStamp : timeStamp,
+            position : Moon.positionMod(JTtdb),
+            velocity : MathUtils.vecMul(MathUtils.vecDiff(rPlus, rMinus), 0.5 / step)
+        };
+    }
+
+    /**
+     * Compute the geocentric OSV of the Moon in the J2000 frame.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @returns {OsvFrame} The OSV in J2000 frame.
+     */
+    static moonJ2000(timeStamp : TimeStamp) : OsvFrame
+    {
+        return Frames.coordModJ2000(Moon.moonMod(timeStamp));
+    }
+
+    /**
+     * Compute the geocentric OSV of the Moon in the EFI frame.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @param {NutationData} nutData
+     *      Nutation data.
+     * @returns {OsvFrame} The OSV in EFI frame.
+     */
+    static moonEfi(timeStamp : TimeStamp, nutData : NutationData) : OsvFrame
+    {
+        const osvMoD : OsvFrame = Moon.moonMod(timeStamp);
+        const osvToD : OsvFrame = Frames.coordModTod(osvMoD, nutData);
+        const osvPef : OsvFrame = Frames.coordTodPef(osvToD, nutData);
+
+        return Frames.coordPefEfi(osvPef);
+    }
+
+    /**
+     * Compute the phase of the Moon seen from the center of the Earth (Meeus - Astronomical
+     * Algorithms, Chapter 48).
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @returns {MoonPhase} The phase.
+     */
+    static moonPhase(timeStamp : TimeStamp) : MoonPhase
+    {
+        const rMoon : number[] = Moon.moonJ2000(timeStamp).position;
+        const rSun : number[] = ForceModels.sunJ2000(timeStamp).position;
+        const distMoon : number = MathUtils.norm(rMoon);
+        const distSun : number = MathUtils.norm(rSun);
+
+        const elongation : number = MathUtils.acosd(Math.max(-1.0, Math.min(1.0,
+            MathUtils.dot(rMoon, rSun) / (distMoon * distSun))));
+        const phaseAngle : number = MathUtils.atan2d(distSun * MathUtils.sind(elongation),
+            distMoon - distSun * MathUtils.cosd(elongation));
+
+        // The Moon is east of the Sun, when the angular momentum of the Sun-Moon pair
+        // points to the north of the ecliptic.
+        const normal : number[] = MathUtils.cross(rSun, rMoon);
+        const poleEcliptic : number[] = Rotations.rotateCart1d([0, 0, 1], -23.439279444444445);
+
+        return {
+            elongation : elongation,
+            phaseAngle : phaseAngle,
+            illuminatedFraction : 0.5 * (1.0 + MathUtils.cosd(phaseAngle)),
+            waxing : MathUtils.dot(normal, poleEcliptic) > 0.0
+        };
+    }
+}
@@ -1,3 +1,4 @@
+import nutationData from '../../data/nutation_iau2000a.json';
 import { MathUtils } from '..';
 import { TimeStamp } from './TimeCorrelation';
 
@@ -123,6 +124,99 @@ const iau1980NutationData = [
 [ -1,  -1,   0,   2,   1,      35.0,       1.0,       0.0,       0.0,       0.0],
 [  0,   1,   0,   1,   0,      27.3,       1.0,       0.0,       0.0,       0.0]];
 
+// IAU 2000B luni-solar nutation series from McCarthy, D., Luzum, B. - An abridged model
+// of the precession-nutation of the celestial pole, Celestial Mechanics and Dynamical
+// Astronomy 85, 2003, p. 37-49. The coefficients are in units of 0.1 microarcseconds.
+const iau2000bNutationData = [
+//  l    l'   F    D  Omega         A_j        A'_j       A''_j         B_j        B'_j       B''_j
+[  0,   0,   0,   0,   1, -172064161.0,   -174666.0,     33386.0,  92052331.0,      9086.0,     15377.0],
+[  0,   0,   2,  -2,   2, -13170906.0,     -1675.0,    -13696.0,   5730336.0,     -3015.0,     -4587.0],
+[  0,   0,   2,   0,   2,  -2276413.0,      -234.0,      2796.0,    978459.0,      -485.0,      1374.0],
+[  0,   0,   0,   0,   2,   2074554.0,       207.0,      -698.0,   -897492.0,       470.0,      -291.0],
+[  0,   1,   0,   0,   0,   1475877.0,     -3633.0,     11817.0,     73871.0,      -184.0,     -1924.0],
+[  0,   1,   2,  -2,   2,   -516821.0,      1226.0,      -524.0,    224386.0,      -677.0,      -174.0],
+[  1,   0,   0,   0,   0,    711159.0,        73.0,      -872.0,     -6750.0,         0.0,       358.0],
+[  0,   0,   2,   0,   1,   -387298.0,      -367.0,       380.0,    200728.0,        18.0,       318.0],
+[  1,   0,   2,   0,   2,   -301461.0,       -36.0,       816.0,    129025.0,       -63.0,       367.0],
+[  0,  -1,   2,  -2,   2,    215829.0,      -494.0,       111.0,    -95929.0,       299.0,       132.0],
+[  0,   0,   2,  -2,   1,    128227.0,       137.0,       181.0,    -68982.0,        -9.0,        39.0],
+[ -1,   0,   2,   0,   2,    123457.0,        11.0,        19.0,    -53311.0,        32.0,        -4.0],
+[ -1,   0,   0,   2,   0,    156994.0,        10.0,      -168.0,     -1235.0,         0.0,        82.0],
+[  1,   0,   0,   0,   1,     63110.0,        63.0,        27.0,    -33228.0,         0.0,        -9.0],
+[ -1,   0,   0,   0,   1,    -57976.0,       -63.0,      -189.0,     31429.0,         0.0,       -75.0],
+[ -1,   0,   2,   2,   2,    -59641.0,       -11.0,       149.0,     25543.0,       -11.0,        66.0],
+[  1,   0,   2,   0,   1,    -51613.0,       -42.0,       129.0,     26366.0,         0.0,        78.0],
+[ -2,   0,   2,   0,   1,     45893.0,        50.0,        31.0,    -24236.0,       -10.0,        20.0],
+[  0,   0,   0,   2,   0,     63384.0,        11.0,      -150.0,     -1220.0,         0.0,        29.0],
+[  0,   0,   2,   2,   2,    -38571.0,        -1.0,       158.0,     16452.0,       -11.0,        68.0],
+[  0,  -2,   2,  -2,   2,     32481.0,         0.0,         0.0,    -13870.0,         0.0,         0.0],
+[ -2,   0,   0,   2,   0,    -47722.0,         0.0,       -18.0,       477.0,         0.0,       -25.0],
+[  2,   0,   2,   0,   2,    -31046.0,        -1.0,       131.0,     13238.0,       -11.0,        59.0],
+[  1,   0,   2,  -2,   2,     28593.0,         0.0,        -1.0,    -12338.0,        10.0,        -3.0],
+[ -1,   0,   2,   0,   1,     20441.0,        21.0,        10.0,    -10758.0,         0.0,        -3.0],
+[  2,   0,   0,   0,   0,     29243.0,         0.0,       -74.0,      -609.0,         0.0,        13.0],
+[  0,   0,   2,   0,   0,     25887.0,         0.0,       -66.0,      -550.0,         0.0,        11.0],
+[  0,   1,   0,   0,   1,    -14053.0,       -25.0,        79.0,      8551.0,        -2.0,       -45.0],
+[ -1,   0,   0,   2,   1,     15164.0,        10.0,        11.0,     -8001.0,         0.0,        -1.0],
+[  0,   2,   2,  -2,   2,    -15794.0,        72.0,       -16.0,      6850.0,       -42.0,        -5.0],
+[  0,   0,  -2,   2,   0,     21783.0,         0.0,        13.0,      -167.0,         0.0,        13.0],
+[  1,   0,   0,  -2,   1,    -12873.0,       -10.0,       -37.0,      6953.0,         0.0,       -14.0],
+[  0,  -1,   0,   0,   1,    -12654.0,        11.0,        63.0,      6415.0,         0.0,        26.0],
+[ -1,   0,   2,   2,   1,    -10204.0,         0.0,        25.0,      5222.0,         0.0,        15.0],
+[  0,   2,   0,   0,   0,     16707.0,       -85.0,       -10.0,       168.0,        -1.0,        10.0],
+[  1,   0,   2,   2,   2,     -7691.0,         0.0,        44.0,      3268.0,         0.0,        19.0],
+[ -2,   0,   2,   0,   0,    -11024.0,         0.0,       -14.0,       104.0,         0.0,         2.0],
+[  0,   1,   2,   0,   2,      7566.0,       -21.0,       -11.0,     -3250.0,         0.0,        -5.0],
+[  0,   0,   2,   2,   1,     -6637.0,       -11.0,        25.0,      3353.0,         0.0,        14.0],
+[  0,  -1,   2,   0,   2,     -7141.0,        21.0,         8.0,      3070.0,         0.0,         4.0],
+[  0,   0,   0,   2,   1,     -6302.0,       -11.0,         2.0,      3272.0,         0.0,         4.0],
+[  1,   0,   2,  -2,   1,      5800.0,        10.0,         2.0,     -3045.0,         0.0,        -1.0],
+[  2,   0,   2,  -2,   2,      6443.0,         0.0,        -7.0,     -2768.0,         0.0,        -4.0],
+[ -2,   0,   0,   2,   1,     -5774.0,       -11.0,       -15.0,      3041.0,         0.0,        -5.0],
+[  2,   0,   2,   0,   1,     -5350.0,         0.0,        21.0,      2695.0,         0.0,        12.0],
+[  0,  -1,   2,  -2,   1,     -4752.0,       -11.0,        -3.0,      2719.0,         0.0,        -3.0],
+[  0,   0,   0,  -2,   1,     -4940.0,       -11.0,       -21.0,      2720.0,         0.0,        -9.0],
+[ -1,  -1,   0,   2,   0,      7350.0,         0.0,        -8.0,       -51.0,         0.0,         4.0],
+[  2,   0,   0,  -2,   1,      4065.0,         0.0,         6.0,     -2206.0,         0.0,         1.0],
+[  1,   0,   0,   2,   0,      6579.0,         0.0,       -24.0,      -199.0,         0.0,         2.0],
+[  0,   1,   2,  -2,   1,      3579.0,         0.0,         5.0,     -1900.0,         0.0,         1.0],
+[  1,  -1,   0,   0,   0,      4725.0,         0.0,        -6.0,       -41.0,         0.0,         3.0],
+[ -2,   0,   2,   0,   2,     -3075.0,         0.0,        -2.0,      1313.0,         0.0,        -1.0],
+[  3,   0,   2,   0,   2,     -2904.0,         0.0,        15.0,      1233.0,         0.0,         7.0],
+[  0,  -1,   0,   2,   0,      4348.0,         0.0,       -10.0,       -81.0,         0.0,         2.0],
+[  1,  -1,   2,   0,   2,     -2878.0,         0.0,         8.0,      1232.0,         0.0,         4.0],
+[  0,   0,   0,   1,   0,     -4230.0,         0.0,         5.0,       -20.0,         0.0,        -2.0],
+[ -1,  -1,   2,   2,   2,     -2819.0,         0.0,         7.0,      1207.0,         0.0,         3.0],
+[ -1,   0,   2,   0,   0,     -4056.0,         0.0,         5.0,        40.0,         0.0,        -2.0],
+[  0,  -1,   2,   2,   2,     -2647.0,         0.0,        11.0,      1129.0,         0.0,         5.0],
+[ -2,   0,   0,   0,   1,     -2294.0,         0.0,       -10.0,      1266.0,         0.0,        -4.0],
+[  1,   1,   2,   0,   2,      2481.0,         0.0,        -7.0,     -1062.0,         0.0,        -3.0],
+[  2,   0,   0,   0,   1,      2179.0,         0.0,        -2.0,     -1129.0,         0.0,        -2.0],
+[ -1,   1,   0,   1,   0,      3276.0,         0.0,         1.0,        -9.0,         0.0,         0.0],
+[  1,   1,   0,   0,   0,     -3389.0,         0.0,         5.0,        35.0,         0.0,        -2.0],
+[  1,   0,   2,   0,   0,      3339.0,         0.0,       -13.0,      -107.0,         0.0,         1.0],
+[ -1,   0,   2,  -2,   1,     -1987.0,         0.0,        -6.0,      1073.0,         0.0,        -2.0],
+[  1,   0,   0,   0,   2,     -1981.0,         0.0,         0.0,       854.0,         0.0,         0.0],
+[ -1,   0,   0,   1,   0,      4026.0,         0.0,      -353.0,      -553.0,         0.0,      -139.0],
+[  0,   0,   2,   1,   2,      1660.0,         0.0,        -5.0,      -710.0,         0.0,        -2.0],
+[ -1,   0,   2,   4,   2,     -1521.0,         0.0,         9.0,       647.0,         0.0,         4.0],
+[ -1,   1,   0,   1,   1,      1314.0,         0.0,         0.0,      -700.0,         0.0,         0.0],
+[  0,  -2,   2,  -2,   1,     -1283.0,         0.0,         0.0,       672.0,         0.0,         0.0],
+[  1,   0,   2,   2,   1,     -1331.0,         0.0,         8.0,       663.0,         0.0,         4.0],
+[ -2,   0,   2,   2,   2,      1383.0,         0.0,        -2.0,      -594.0,         0.0,        -2.0],
+[ -1,   0,   0,   0,   2,      1405.0,         0.0,         4.0,      -610.0,         0.0,         2.0],
+[  1,   1,   2,  -2,   2,      1290.0,         0.0,         0.0,      -556.0,         0.0,         0.0]];
+
+// IAU 2000A nutation series from the IERS Conventions 2003, Tables 5.3a and 5.3b. The rows
+// of the 678 luni-solar terms contain the multipliers of l, l', F, D and Omega and the 
+// coefficients in the same order as in the IAU 2000B series. The rows of the 687 planetary
+// terms contain the multipliers of l, F, D, Omega, the mean longitudes of Mercury to 
+// Neptune and the general precession in longitude and the coefficients of the sine and the
+// cosine in longitude and the sine and the cosine in obliquity. The coefficients are in 
+// units of 0.1 microarcseconds.
+const iau2000aLunisolarData : number[][] = nutationData.lunisolar;
+const iau2000aPlanetaryData : number[][] = nutationData.planetary;
+
 export class Nutation {
     /**
      * Implementation of the IAU 1980 Nutation Model.
@@ -188,4 +282,154 @@ export class Nutation {
         }
         return {timeStamp : timeStamp, eps : eps, deps : deps % 360.0, dpsi : dpsi % 360.0};
     }
-};
\ No newline at end of file
+
+    /**
+     * Implementation of the IAU 2000B Nutation Model. The model reproduces the IAU 2000A
+     * model within 1 milliarcsecond during 1995-2050. The mean obliquity of the ecliptic
+     * is computed with the IAU 2006 precession model.
+     * 
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @returns {NutationData} The nutation parameters eps, deps and dpsi (degrees).
+     */
+    static iau2000b(timeStamp : TimeStamp) : NutationData
+    {
+        // Julian centuries after J2000.0 epoch.
+        const T = (timeStamp.JTtdb - 2451545.0) / 36525.0;
+
+        // Mean obliquity of the ecliptic from IAU 2006 (arcseconds).
+        const eps = 84381.406 + (-46.836769 + (-0.0001831 + (0.00200340 + (-0.000000576 
+                  - 0.0000000434 * T) * T) * T) * T) * T;
+
+        // Fundamental arguments from Simon et al. 1994 (arcseconds).
+        // Mean anomaly of the Moon:
+        const a_1 = (485868.249036 + 1717915923.2178 * T) % 1296000.0;
+        // Mean anomaly of the Sun:
+        const a_2 = (1287104.79305 + 129596581.0481 * T) % 1296000.0;
+        // Moon's mean argument of latitude:
+        const a_3 = (335779.526232 + 1739527262.8478 * T) % 1296000.0;
+        // Moon's mean elongation from the Sun:
+        const a_4 = (1072260.70369 + 1602961601.2090 * T) % 1296000.0;
+        // Mean longitude of the ascending lunar node:
+        const a_5 = (450160.398036 - 6962890.5431 * T) % 1296000.0;
+
+        // From 1e-7 arcseconds to degrees.
+        const factor = 1.0 / (1.0e7 * 3600.0);
+
+        let dpsi = 0.0;
+        let deps = 0.0;
+        // Summation from the smallest terms for accuracy.
+        for (let j = iau2000bNutationData.length - 1; j >= 0; j--)
+        {
+            const data = iau2000bNutationData[j];
+
+            const angle = (data[0] * a_1 + data[1] * a_2 + data[2] * a_3 + data[3] * a_4 
+                        + data[4] * a_5) / 3600.0;
+            const sinAngle = MathUtils.sind(angle);
+            const cosAngle = MathUtils.cosd(angle);
+
+            dpsi += factor * ((data[5] + data[6] * T) * sinAngle + data[7] * cosAngle);
+            deps += factor * ((data[8] + data[9] * T) * cosAngle + data[10] * sinAngle);
+        }
+
+        // Fixed offsets in lieu of the planetary terms (milliarcseconds).
+        dpsi += -0.135 / 3600.0e3;
+        deps += 0.388 / 3600.0e3;
+
+        return {timeStamp : timeStamp, eps : eps / 3600.0, deps : deps, dpsi : dpsi};
+    }
+
+    /**
+     * Implementation of the IAU 2000A Nutation Model with the luni-solar and the planetary
+     * terms. The model is accurate to a few tenths of a milliarcsecond. The mean obliquity
+     * of the ecliptic is computed with the IAU 2006 precession model.
+     * 
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @returns {NutationData} The nutation parameters eps, deps and dpsi (degrees).
+     */
+    static iau2000a(timeStamp : TimeStamp) : NutationData
+    {
+        // Julian centuries after J2000.0 epoch.
+        const T = (timeStamp.JTtdb - 2451545.0) / 36525.0;
+
+        // Mean obliquity of the ecliptic from IAU 2006 (arcseconds).
+        const eps = 84381.406 + (-46.836769 + (-0.0001831 + (0.00200340 + (-0.000000576 
+                  - 0.0000000434 * T) * T) * T) * T) * T;
+
+        // Fundamental arguments for the luni-solar terms from the IERS Conventions 2003
+        // with l' and D from MHB2000 (arcseconds).
+        // Mean anomaly of the Moon:
+        const a_1 = (485868.249036 + (1717915923.2178 + (31.8792 + (0.051635 
+                  - 0.00024470 * T) * T) * T) * T) % 1296000.0;
+        // Mean anomaly of the Sun:
+        const a_2 = (1287104.79305 + (129596581.0481 + (-0.5532 + (0.000136 
+                  - 0.00001149 * T) * T) * T) * T) % 1296000.0;
+        // Moon's mean argument of latitude:
+        const a_3 = (335779.526232 + (1739527262.8478 + (-12.7512 + (-0.001037 
+                  + 0.00000417 * T) * T) * T) * T) % 1296000.0;
+        // Moon's mean elongation from the Sun:
+        const a_4 = (1072260.70369 + (1602961601.2090 + (-6.3706 + (0.006593 
+                  - 0.00003169 * T) * T) * T) * T) % 1296000.0;
+        // Mean longitude of the ascending lunar node:
+        const a_5 = (450160.398036 + (-6962890.5431 + (7.4722 + (0.007702 
+                  - 0.00005939 * T) * T) * T) * T) % 1296000.0;
+
+        // Fundamental arguments for the planetary terms from MHB2000 and the IERS 
+        // Conventions 2003 (radians): l, F, D, Omega, the mean longitudes of Mercury, 
+        // Venus, the Earth, Mars, Jupiter, Saturn, Uranus and Neptune and the general 
+        // precession in longitude.
+        const planetaryArgs : number[] = [
+            2.35555598 + 8328.6914269554 * T,
+            1.627905234 + 8433.466158131 * T,
+            5.198466741 + 7771.3771468121 * T,
+            2.18243920 - 33.757045 * T,
+            4.402608842 + 2608.7903141574 * T,
+            3.176146697 + 1021.3285546211 * T,
+            1.753470314 + 628.3075849991 * T,
+            6.203480913 + 334.0612426700 * T,
+            0.599546497 + 52.9690962641 * T,
+            0.874016757 + 21.3299104960 * T,
+            5.481293872 + 7.4781598567 * T,
+            5.321159000 + 3.8127774000 * T
+        ].map((arg) => arg % (2.0 * Math.PI));
+        planetaryArgs.push((0.024381750 + 0.00000538691 * T) * T);
+
+        // From 1e-7 arcseconds to degrees.
+        const factor = 1.0 / (1.0e7 * 3600.0);
+
+        let dpsi = 0.0;
+        let deps = 0.0;
+        // Summation from the smallest terms for accuracy.
+        for (let j = iau2000aLunisolarData.length - 1; j >= 0; j--)
+        {
+            const data = iau2000aLunisolarData[j];
+
+            const angle = (data[0] * a_1 + data[1] * a_2 + data[2] * a_3 + data[3] * a_4 
+                        + data[4] * a_5) / 3600.0;
+            const sinAngle = MathUtils.sind(angle);
+            const cosAngle = MathUtils.cosd(angle);
+
+            dpsi += factor * ((data[5] + data[6] * T) * sinAngle + data[7] * cosAngle);
+            deps += factor * ((data[8] + data[9] * T) * cosAngle + data[10] * sinAngle);
+        }
+
+        for (let j = iau2000aPlanetaryData.length - 1; j >= 0; j--)
+        {
+            const data = iau2000aPlanetaryData[j];
+
+            let angle = 0.0;
+            for (let indArg = 0; indArg < planetaryArgs.length; indArg++)
+            {
+                angle += data[indArg] * planetaryArgs[indArg];
+            }
+            const sinAngle = Math.sin(angle);
+            const cosAngle = Math.cos(angle);
+
+            dpsi += factor * (data[13] * sinAngle + data[14] * cosAngle);
+            deps += factor * (data[15] * sinAngle + data[16] * cosAngle);
+        }
+
+        return {timeStamp : timeStamp, eps : eps / 3600.0, deps : deps, dpsi : dpsi};
+    }
+};
@@ -0,0 +1,399 @@
+import { Frame, Frames, OsvFrame } from "./Frames";
+import { TimeStamp } from "./TimeCorrelation";
+import { MathUtils } from "./MathUtils";
+import { Angles } from "./Angles";
+import { forceModelConstants } from "./ForceModels";
+
+/**
+ * Classical Keplerian elements.
+ */
+export interface KeplerianElements
+{
+    // Semi-major axis (meters).
+    semiMajorAxis : number;
+    // Eccentricity.
+    eccentricity : number;
+    // Inclination (degrees).
+    inclination : number;
+    // Right ascension of the ascending node (degrees).
+    raAscNode : number;
+    // Argument of perigee (degrees).
+    argPerigee : number;
+    // Mean anomaly (degrees).
+    meanAnomaly : number;
+}
+
+/**
+ * Equinoctial elements (Broucke and Cefola, 1972) with the direct retrograde factor.
+ * The elements are non-singular for circular and equatorial orbits but singular for
+ * the inclination of 180 degrees.
+ */
+export interface EquinoctialElements
+{
+    // Semi-major axis (meters).
+    semiMajorAxis : number;
+    // e sin(omega + Omega).
+    h : number;
+    // e cos(omega + Omega).
+    k : number;
+    // tan(i/2) sin(Omega).
+    p : number;
+    // tan(i/2) cos(Omega).
+    q : number;
+    // Mean longitude M + omega + Omega (degrees).
+    meanLongitude : number;
+}
+
+/**
+ * Modified equinoctial elements (Walker, Ireland and Owens, 1985). The elements are
+ * singular only for the inclination of 180 degrees.
+ */
+export interface ModifiedEquinoctialElements
+{
+    // Semi-latus rectum (meters).
+    p : number;
+    // e cos(omega + Omega).
+    f : number;
+    // e sin(omega + Omega).
+    g : number;
+    // tan(i/2) cos(Omega).
+    h : number;
+    // tan(i/2) sin(Omega).
+    k : number;
+    // True longitude nu + omega + Omega (degrees).
+    trueLongitude : number;
+}
+
+// Threshold for circular and equatorial orbits.
+const elementsEpsilon : number = 1e-11;
+
+/**
+ * Static methods for the conversion between OSVs and osculating orbital elements.
+ * The OSVs are in meters and meters per second in an inertial frame and the elements
+ * are defined relative to the equator of the same frame. For circular orbits, the
+ * argument of perigee is set to zero and for equatorial orbits, the right ascension
+ * of the ascending node is set to zero.
+ */
+export class OrbitalElements
+{
+    /**
+     * Solve Kepler's equation M = E - e sin(E) with Newton's method.
+     *
+     * @param {number} M
+     *      Mean anomaly (radians).
+     * @param {number} e
+     *      Eccentricity.
+     * @returns {number} Eccentric anomaly (radians).
+     */
+    static solveKepler(M : number, e : number) : number
+    {
+        let E : number = (e < 0.8) ? M : Math.PI;
+
+        for (let iter = 0; iter < 30; iter++)
+        {
+            const deltaE : number = (E - e * Math.sin(E) - M) / (1.0 - e * Math.cos(E));
+            E -= deltaE;
+
+            if (Math.abs(deltaE) < 1e-14)
+            {
+                break;
+            }
+        }
+
+        return E;
+    }
+
+    /**
+     * Convert mean anomaly to true anomaly.
+     *
+     * @param {number} meanAnomaly
+     *      Mean anomaly (degrees).
+     * @param {number} e
+     *      Eccentricity.
+     * @returns {number} True anomaly (degrees) in [0, 360).
+     */
+    static meanToTrue(meanAnomaly : number, e : number) : number
+    {
+        const E : number = OrbitalElements.solveKepler(MathUtils.deg2Rad(meanAnomaly), e);
+
+        return Angles.limitAngleDeg(MathUtils.rad2Deg(2.0 * Math.atan2(
+            Math.sqrt(1.0 + e) * Math.sin(E / 2.0), Math.sqrt(1.0 - e) * Math.cos(E / 2.0))));
+    }
+
+    /**
+     * Convert true anomaly to mean anomaly.
+     *
+     * @param {number} trueAnomaly
+     *      True anomaly (degrees).
+     * @param {number} e
+     *      Eccentricity.
+     * @returns {number} Mean anomaly (degrees) in [0, 360).
+     */
+    static trueToMean(trueAnomaly : number, e : number) : number
+    {
+        const nu : number = MathUtils.deg2Rad(trueAnomaly);
+        const E : number = 2.0 * Math.atan2(Math.sqrt(1.0 - e) * Math.sin(nu / 2.0),
+                                            Math.sqrt(1.0 + e) * Math.cos(nu / 2.0));
+
+        return Angles.limitAngleDeg(MathUtils.rad2Deg(E - e * Math.sin(E)));
+    }
+
+    /**
+     * Compute osculating Keplerian elements from an OSV.
+     *
+     * @param {OsvFrame} osv
+     *      The OSV (in meters and meters per second) in an inertial frame.
+     * @param {number} mu
+     *      Gravitational parameter (m^3/s^2).
+     * @throws {Error} If the orbit is not elliptic.
+     * @returns {KeplerianElements} The elements.
+     */
+    static osvKeplerian(osv : OsvFrame, mu : number = forceModelConstants.muEarth) : KeplerianElements
+    {
+        // Vallado - Fundamentals of Astrodynamics and Applications, Algorithm 9.
+        const r : number[] = osv.position;
+        const v : number[] = osv.velocity;
+        const rNorm : number = MathUtils.norm(r);
+        const vNorm : number = MathUtils.norm(v);
+        const h : number[] = MathUtils.cross(r, v);
+        const hNorm : number = MathUtils.norm(h);
+        const node : number[] = [-h[1], h[0], 0.0];
+        const nodeNorm : number = MathUtils.norm(node);
+        const eVec : number[] = MathUtils.vecMul(MathUtils.vecDiff(
+            MathUtils.vecMul(r, vNorm * vNorm - mu / rNorm),
+            MathUtils.vecMul(v, MathUtils.dot(r, v))), 1.0 / mu);
+        const e : number = MathUtils.norm(eVec);
+        const a : number = 1.0 / (2.0 / rNorm - vNorm * vNorm / mu);
+
+        if (!(a > 0.0 && e < 1.0))
+        {
+            throw Error("OSV does not describe an elliptic orbit!");
+        }
+
+        // Angle from u to w in the orbital plane.
+        function planeAngle(u : number[], w : number[]) : number
+        {
+            return MathUtils.atan2d(MathUtils.dot(MathUtils.cross(u, w), h) / hNorm, MathUtils.dot(u, w));
+        }
+
+        // Reference direction in the orbital plane for the argument of perigee.
+        const nodeDir : number[] = (nodeNorm > elementsEpsilon * hNorm) ? node : [1.0, 0.0, 0.0];
+
+        let argPerigee : number;
+        let trueAnomaly : number;
+        if (e > elementsEpsilon)
+        {
+            argPerigee = planeAngle(nodeDir, eVec);
+            trueAnomaly = planeAngle(eVec, r);
+        }
+        else
+        {
+            argPerigee = 0.0;
+            trueAnomaly = planeAngle(nodeDir, r);
+        }
+
+        return {
+            semiMajorAxis : a,
+            eccentricity : e,
+            inclination : MathUtils.acosd(h[2] / hNorm),
+            raAscNode : Angles.limitAngleDeg(MathUtils.atan2d(nodeDir[1], nodeDir[0])),
+            argPerigee : Angles.limitAngleDeg(argPerigee),
+            meanAnomaly : OrbitalElements.trueToMean(trueAnomaly, e)
+        };
+    }
+
+    /**
+     * Compute OSV from osculating Keplerian elements.
+     *
+     * @param {KeplerianElements} elements
+     *      The elements.
+     * @param {Frame} frame
+     *      The inertial frame of the elements.
+     * @param {TimeStamp} timeStamp
+     *      Time stamp of the OSV.
+     * @param {number} mu
+     *      Gravitational parameter (m^3/s^2).
+     * @returns {OsvFrame} The OSV (in meters and meters per second).
+     */
+    static keplerianOsv(elements : KeplerianElements, frame : Frame, timeStamp : TimeStamp,
+        mu : number = forceModelConstants.muEarth) : OsvFrame
+    {
+        const a : number = elements.semiMajorAxis;
+        const e : number = elements.eccentricity;
+        const E : number = OrbitalElements.solveKepler(MathUtils.deg2Rad(elements.meanAnomaly), e);
+        const sqrtOneMinusE2 : number = Math.sqrt(1.0 - e * e);
+        const r : number = a * (1.0 - e * Math.cos(E));
+        const vCoeff : number = Math.sqrt(mu * a) / r;
+
+        const osvPeri : OsvFrame = {
+            frame : Frame.FRAME_PERI,
+            timeStamp : timeStamp,
+            position : [a * (Math.cos(E) - e), a * sqrtOneMinusE2 * Math.sin(E), 0.0],
+            velocity : [-vCoeff * Math.sin(E), vCoeff * sqrtOneMinusE2 * Math.cos(E), 0.0]
+        };
+
+        return Frames.coordPerIne(osvPeri, elements.raAscNode, elements.inclination,
+            elements.argPerigee, frame);
+    }
+
+    /**
+     * Convert Keplerian elements to equinoctial elements.
+     *
+     * @param {KeplerianElements} elements
+     *      The Keplerian elements.
+     * @returns {EquinoctialElements} The equinoctial elements.
+     */
+    static keplerianEquinoctial(elements : KeplerianElements) : EquinoctialElements
+    {
+        const lonPerigee : number = elements.argPerigee + elements.raAscNode;
+        const tanHalfIncl : number = MathUtils.tand(elements.inclination / 2.0);
+
+        return {
+            semiMajorAxis : elements.semiMajorAxis,
+            h : elements.eccentricity * MathUtils.sind(lonPerigee),
+            k : elements.eccentricity * MathUtils.cosd(lonPerigee),
+            p : tanHalfIncl * MathUtils.sind(elements.raAscNode),
+            q : tanHalfIncl * MathUtils.cosd(elements.raAscNode),
+            meanLongitude : Angles.limitAngleDeg(elements.meanAnomaly + lonPerigee)
+        };
+    }
+
+    /**
+     * Convert equinoctial elements to Keplerian elements.
+     *
+     * @param {EquinoctialElements} elements
+     *      The equinoctial elements.
+     * @returns {KeplerianElements} The Keplerian elements.
+     */
+    static equinoctialKeplerian(elements : EquinoctialElements) : KeplerianElements
+    {
+        const raAscNode : number = MathUtils.atan2d(elements.p, elements.q);
+        const lonPerigee : number = MathUtils.atan2d(elements.h, elements.k);
+
+        return {
+            semiMajorAxis : elements.semiMajorAxis,
+            eccentricity : Math.sqrt(elements.h * elements.h + elements.k * elements.k),
+            inclination : 2.0 * MathUtils.atand(Math.sqrt(elements.p * elements.p + elements.q * elements.q)),
+            raAscNode : Angles.limitAngleDeg(raAscNode),
+            argPerigee : Angles.limitAngleDeg(lonPerigee - raAscNode),
+            meanAnomaly : Angles.limitAngleDeg(elements.meanLongitude - lonPerigee)
+        };
+    }
+
+    /**
+     * Convert Keplerian elements to modified equinoctial elements.
+     *
+     * @param {KeplerianElements} elements
+     *      The Keplerian elements.
+     * @returns {ModifiedEquinoctialElements} The modified equinoctial elements.
+     */
+    static keplerianModifiedEquinoctial(elements : KeplerianElements) : ModifiedEquinoctialElements
+    {
+        const e : number = elements.eccentricity;
+        const lonPerigee : number = elements.argPerigee + elements.raAscNode;
+        const tanHalfIncl : number = MathUtils.tand(elements.inclination / 2.0);
+        const trueAnomaly : number = OrbitalElements.meanToTrue(elements.meanAnomaly, e);
+
+        return {
+            p : elements.semiMajorAxis * (1.0 - e * e),
+            f : e * MathUtils.cosd(lonPerigee),
+            g : e * MathUtils.sind(lonPerigee),
+            h : tanHalfIncl * MathUtils.cosd(elements.raAscNode),
+            k : tanHalfIncl * MathUtils.sind(elements.raAscNode),
+            trueLongitude : Angles.limitAngleDeg(trueAnomaly + lonPerigee)
+        };
+    }
+
+    /**
+     * Convert modified equinoctial elements to Keplerian elements.
+     *
+     * @param {ModifiedEquinoctialElements} elements
+     *      The modified equinoctial elements.
+     * @returns {KeplerianElements} The Keplerian elements.
+     */
+    static modifiedEquinoctialKeplerian(elements : ModifiedEquinoctialElements) : KeplerianElements
+    {
+        const e2 : number = elements.f * elements.f + elements.g * elements.g;
+        const e : number = Math.sqrt(e2);
+        const raAscNode : number = MathUtils.atan2d(elements.k, elements.h);
+        const lonPerigee : number = MathUtils.atan2d(elements.g, elements.f);
+
+        return {
+            semiMajorAxis : elements.p / (1.0 - e2),
+            eccentricity : e,
+            inclination : 2.0 * MathUtils.atand(Math.sqrt(elements.h * elements.h + elements.k * elements.k)),
+            raAscNode : Angles.limitAngleDeg(raAscNode),
+            argPerigee : Angles.limitAngleDeg(lonPerigee - raAscNode),
+            meanAnomaly : OrbitalElements.trueToMean(elements.trueLongitude - lonPerigee, e)
+        };
+    }
+
+    /**
+     * Compute osculating equinoctial elements from an OSV.
+     *
+     * @param {OsvFrame} osv
+     *      The OSV (in meters and meters per second) in an inertial frame.
+     * @param {number} mu
+     *      Gravitational parameter (m^3/s^2).
+     * @returns {EquinoctialElements} The elements.
+     */
+    static osvEquinoctial(osv : OsvFrame, mu : number = forceModelConstants.muEarth) : EquinoctialElements
+    {
+        return OrbitalElements.keplerianEquinoctial(OrbitalElements.osvKeplerian(osv, mu));
+    }
+
+    /**
+     * Compute OSV from osculating equinoctial elements.
+     *
+     * @param {EquinoctialElements} elements
+     *      The elements.
+     * @param {Frame} frame
+     *      The inertial frame of the elements.
+     * @param {TimeStamp} timeStamp
+     *      Time stamp of the OSV.
+     * @param {number} mu
+     *      Gravitational parameter (m^3/s^2).
+     * @returns {OsvFrame} The OSV (in meters and meters per second).
+     */
+    static equinoctialOsv(elements : EquinoctialElements, frame : Frame, timeStamp : TimeStamp,
+        mu : number = forceModelConstants.muEarth) : OsvFrame
+    {
+        return OrbitalElements.keplerianOsv(OrbitalElements.equinoctialKeplerian(elements),
+            frame, timeStamp, mu);
+    }
+
+    /**
+     * Compute osculating modified equinoctial elements from an OSV.
+     *
+     * @param {OsvFrame} osv
+     *      The OSV (in meters and meters per second) in an inertial frame.
+     * @param {number} mu
+     *      Gravitational parameter (m^3/s^2).
+     * @returns {ModifiedEquinoctialElements} The elements.
+     */
+    static osvModifiedEquinoctial(osv : OsvFrame,
+        mu : number = forceModelConstants.muEarth) : ModifiedEquinoctialElements
+    {
+        return OrbitalElements.keplerianModifiedEquinoctial(OrbitalElements.osvKeplerian(osv, mu));
+    }
+
+    /**
+     * Compute OSV from osculating modified equinoctial elements.
+     *
+     * @param {ModifiedEquinoctialElements} elements
+     *      The elements.
+     * @param {Frame} frame
+     *      The inertial frame of the elements.
+     * @param {TimeStamp} timeStamp
+     *      Time stamp of the OSV.
+     * @param {number} mu
+     *      Gravitational parameter (m^3/s^2).
+     * @returns {OsvFrame} The OSV (in meters and meters per second).
+     */
+    static modifiedEquinoctialOsv(elements : ModifiedEquinoctialElements, frame : Frame,
+        timeStamp : TimeStamp, mu : number = forceModelConstants.muEarth) : OsvFrame
+    {
+        return OrbitalElements.keplerianOsv(OrbitalElements.modifiedEquinoctialKeplerian(elements),
+            frame, timeStamp, mu);
+    }
+}
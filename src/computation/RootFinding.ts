@@ -0,0 +1,117 @@
+/**
+ * Static methods for the zeros and the extrema of functions of Julian time. The
+ * searches are stopped, when the bracket is shorter than the tolerance or cannot be
+ * divided further at the resolution of the Julian time (about 50 microseconds).
+ */
+export class RootFinding
+{
+    /**
+     * Find the zero of a function with bisection.
+     *
+     * @param {Function} func
+     *      The function of Julian time.
+     * @param {number} JTa
+     *      Start of the bracket (Julian time).
+     * @param {number} JTb
+     *      End of the bracket (Julian time). The function must have different signs
+     *      at the ends of the bracket.
+     * @param {number} tolerance
+     *      Accuracy of the zero (seconds). Negative values are treated as zero.
+     * @returns {number} The Julian time of the zero.
+     */
+    static findZero(func : (JT : number) => number, JTa : number, JTb : number,
+        tolerance : number) : number
+    {
+        const signA : boolean = func(JTa) > 0.0;
+        tolerance = Math.max(tolerance, 0.0);
+
+        while ((JTb - JTa) * 86400.0 > tolerance)
+        {
+            const JTmid : number = 0.5 * (JTa + JTb);
+
+            if (JTmid <= JTa || JTmid >= JTb)
+            {
+                break;
+            }
+            if ((func(JTmid) > 0.0) == signA)
+            {
+                JTa = JTmid;
+            }
+            else
+            {
+                JTb = JTmid;
+            }
+        }
+
+        return 0.5 * (JTa + JTb);
+    }
+
+    /**
+     * Find the maximum of a unimodal function with golden-section search.
+     *
+     * @param {Function} func
+     *      The function of Julian time.
+     * @param {number} JTa
+     *      Start of the bracket (Julian time).
+     * @param {number} JTb
+     *      End of the bracket (Julian time).
+     * @param {number} tolerance
+     *      Accuracy of the maximum (seconds). Negative values are treated as zero.
+     * @returns {number} The Julian time of the maximum.
+     */
+    static findMaximum(func : (JT : number) => number, JTa : number, JTb : number,
+        tolerance : number) : number
+    {
+        const invPhi : number = (Math.sqrt(5.0) - 1.0) / 2.0;
+        let JTc : number = JTb - invPhi * (JTb - JTa);
+        let JTd : number = JTa + invPhi * (JTb - JTa);
+        let valueC : number = func(JTc);
+        let valueD : number = func(JTd);
+        tolerance = Math.max(tolerance, 0.0);
+
+        while ((JTb - JTa) * 86400.0 > tolerance)
+        {
+            if (JTc <= JTa || JTd >= JTb || JTc >= JTd)
+            {
+                break;
+            }
+            if (valueC > valueD)
+            {
+                JTb = JTd;
+                JTd = JTc;
+                valueD = valueC;
+                JTc = JTb - invPhi * (JTb - JTa);
+                valueC = func(JTc);
+            }
+            else
+            {
+                JTa = JTc;
+                JTc = JTd;
+                valueC = valueD;
+                JTd = JTa + invPhi * (JTb - JTa);
+                valueD = func(JTd);
+            }
+        }
+
+        return 0.5 * (JTa + JTb);
+    }
+
+    /**
+     * Find the minimum of a unimodal function with golden-section search.
+     *
+     * @param {Function} func
+     *      The function of Julian time.
+     * @param {number} JTa
+     *      Start of the bracket (Julian time).
+     * @param {number} JTb
+     *      End of the bracket (Julian time).
+     * @param {number} tolerance
+     *      Accuracy of the minimum (seconds). Negative values are treated as zero.
+     * @returns {number} The Julian time of the minimum.
+     */
+    static findMinimum(func : (JT : number) => number, JTa : number, JTb : number,
+        tolerance : number) : number
+    {
+        return RootFinding.findMaximum((JT : number) : number => -func(JT), JTa, JTb, tolerance);
+    }
+}
@@ -0,0 +1,167 @@
+import starData from '../../data/stars.json';
+import { Frame, Frames, OsvFrame } from "./Frames";
+import { MathUtils } from "./MathUtils";
+import { NutationData } from "./Nutation";
+import { TimeStamp } from "./TimeCorrelation";
+
+// Nominal distance of the stars (meters). The stars are placed far enough that the
+// parallax of an observer on the Earth is negligible for the visualization.
+const starDistance : number = 1.0e20;
+
+/**
+ * Entry of the star catalog.
+ */
+export interface StarData
+{
+    // Proper name or designation of the star.
+    name : string;
+    // Hipparcos catalog number.
+    hip : number;
+    // Right ascension at the catalog epoch in the ICRS/J2000 frame (degrees).
+    ra : number;
+    // Declination at the catalog epoch in the ICRS/J2000 frame (degrees).
+    dec : number;
+    // Proper motion in right ascension multiplied by the cosine of the declination
+    // (milliarcseconds / year) or null if the proper motion is not in the catalog.
+    pmRa : number | null;
+    // Proper motion in declination (milliarcseconds / year) or null if the proper motion
+    // is not in the catalog.
+    pmDec : number | null;
+    // Visual magnitude.
+    mag : number;
+}
+
+/**
+ * Static methods for the bundled catalog of bright stars. The catalog contains the
+ * Hipparcos stars down to the visual magnitude 6.0 with the positions at the epoch 
+ * J2000.0 and is sorted by the visual magnitude. The stars are extracted from the 
+ * stars.6.json and starnames.json files of d3-celestial (BSD-3-Clause, see 
+ * data/stars.json.LICENSE), which do not contain the proper motions. The proper 
+ * motions are included only for the brightest stars with proper names and the other
+ * stars are kept at the catalog positions. Stars without a proper name are named with
+ * the Bayer or Flamsteed designation or the Hipparcos number.
+ */
+export class Stars
+{
+    /**
+     * Get the stars brighter than a limiting magnitude.
+     *
+     * @param {number} magnitudeLimit
+     *      The limiting magnitude.
+     * @returns {StarData[]} The stars sorted by the magnitude.
+     */
+    static getCatalog(magnitudeLimit : number = Infinity) : StarData[]
+    {
+        const stars : StarData[] = starData.stars;
+
+        return stars.filter((star) => star.mag <= magnitudeLimit);
+    }
+
+    /**
+     * Find a star by name.
+     *
+     * @param {string} name
+     *      Proper name or designation of the star.
+     * @returns {StarData | null} The star or null if the star is not in the catalog.
+     */
+    static findStar(name : string) : StarData | null
+    {
+        const stars : StarData[] = starData.stars;
+        const star : StarData | undefined = stars.find((star) => star.name == name);
+
+        return (star === undefined) ? null : star;
+    }
+
+    /**
+     * Compute the direction of a star in the J2000 frame. The proper motion is applied
+     * as a linear motion on the tangent plane, which ignores the radial velocity and
+     * the parallax. Stars without proper motion are kept at the catalog position.
+     *
+     * @param {StarData} star
+     *      The star.
+     * @param {number} JTtdb
+     *      Julian time (TDB).
+     * @returns {number[]} Unit vector towards the star.
+     */
+    static directionJ2000(star : StarData, JTtdb : number) : number[]
+    {
+        // Julian years from the catalog epoch.
+        const years : number = (JTtdb - starData.epoch) / 365.25;
+
+        const direction : number[] = [
+            MathUtils.cosd(star.dec) * MathUtils.cosd(star.ra),
+            MathUtils.cosd(star.dec) * MathUtils.sind(star.ra),
+            MathUtils.sind(star.dec)
+        ];
+        // Unit vectors towards increasing right ascension and declination.
+        const unitRa : number[] = [-MathUtils.sind(star.ra), MathUtils.cosd(star.ra), 0];
+        const unitDec : number[] = [
+            -MathUtils.sind(star.dec) * MathUtils.cosd(star.ra),
+            -MathUtils.sind(star.dec) * MathUtils.sind(star.ra),
+            MathUtils.cosd(star.dec)
+        ];
+
+        // Proper motion in radians.
+        const masRad : number = Math.PI / (180.0 * 3600.0e3);
+        const pmRa : number = (star.pmRa === null) ? 0.0 : star.pmRa;
+        const pmDec : number = (star.pmDec === null) ? 0.0 : star.pmDec;
+        const moved : number[] = MathUtils.linComb(
+            [1.0, years * pmRa * masRad, years * pmDec * masRad],
+            [direction, unitRa, unitDec]);
+
+        return MathUtils.vecMul(moved, 1.0 / MathUtils.norm(moved));
+    }
+
+    /**
+     * Compute the OSV of a star in the J2000 frame.
+     *
+     * @param {StarData} star
+     *      The star.
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @returns {OsvFrame} The OSV at the nominal distance.
+     */
+    static starJ2000(star : StarData, timeStamp : TimeStamp) : OsvFrame
+    {
+        return {
+            frame : Frame.FRAME_J2000,
+            timeStamp : timeStamp,
+            position : MathUtils.vecMul(Stars.directionJ2000(star, timeStamp.JTtdb), starDistance),
+            velocity : [0, 0, 0]
+        };
+    }
+
+    /**
+     * Compute the OSV of a star in the MoD frame. The position includes the proper
+     * motion and the precession but not the annual aberration.
+     *
+     * @param {StarData} star
+     *      The star.
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @returns {OsvFrame} The OSV at the nominal distance.
+     */
+    static starMod(star : StarData, timeStamp : TimeStamp) : OsvFrame
+    {
+        return Frames.coordJ2000Mod(Stars.starJ2000(star, timeStamp));
+    }
+
+    /**
+     * Compute the OSV of a star in the EFI frame.
+     *
+     * @param {StarData} star
+     *      The star.
+     * @param {TimeStamp} timeStamp
+     *      Timestamp.
+     * @param {NutationData} nutData
+     *      Nutation data.
+     * @returns {OsvFrame} The OSV at the nominal distance.
+     */
+    static starEfi(star : StarData, timeStamp : TimeStamp, nutData : NutationData) : OsvFrame
+    {
+        const osvToD : OsvFrame = Frames.coordModTod(Stars.starMod(star, timeStamp), nutData);
+        const osvPef : OsvFrame = Frames.coordTodPef(osvToD, nutData);
+
+        return Frames.coordPefEfi(osvPef);
+    }
+}
@@ -1,4 +1,7 @@
 import corrData from '../../data/time_correlation_data.json';
+import { DeltaT } from './DeltaT';
+import { EarthOrientation, EopCoverage, EopFormat, EopRecord } from './EarthOrientation';
+import { LeapSeconds } from './LeapSeconds';
 
 /**
  * Enumeration for time conventions.
@@ -7,7 +10,13 @@ export enum TimeConvention {
    TIME_TDB,
    TIME_UT1,
    TIME_UTC,
-   TIME_TAI
+   TIME_TAI,
+   TIME_TT,
+   TIME_GPS,
+   TIME_TCG,
+   TIME_TCB,
+   // Unix/POSIX time in seconds after 1970-01-01T00:00:00 UTC without leap seconds.
+   TIME_UNIX
 };
 
 /**
@@ -18,6 +27,12 @@ export interface TimeStamp {
     JTut1 : number;
     JTutc : number;
     JTtai : number;
+    JTtt : number;
+    JTgps : number;
+    JTtcg : number;
+    JTtcb : number;
+    // Unix time (seconds).
+    unix : number;
     polarDx : number;
     polarDy : number;
 };
@@ -36,6 +51,47 @@ const ut1TaiInternal : TimeCorrelationData = corrData.ut1Tai;
 const ut1UtcInternal : TimeCorrelationData = corrData.ut1Utc;
 const polarInternal : TimeCorrelationData  = corrData.polar;
 
+// TT - TAI (seconds).
+const ttTai : number = 32.184;
+// TAI - GPS (seconds).
+const taiGps : number = 19.0;
+// Julian time (GPS) of the start of GPS week 0 at 1980-01-06T00:00:00 UTC.
+const JTgpsEpoch : number = 2444244.5;
+// Julian time (UTC) of the Unix epoch 1970-01-01T00:00:00 UTC.
+const JTunixEpoch : number = 2440587.5;
+// Julian time of the epoch of TAI 1958-01-01T00:00:00.
+const JTtaiEpoch : number = 2436204.5;
+// Julian time of 1977-01-01T00:00:32.184 TAI, when TT, TCG and TCB coincide.
+const JTtcgEpoch : number = 2443144.5003725;
+// Rate difference between TCG and TT (IAU 2000 Resolution B1.9).
+const rateLg : number = 6.969290134e-10;
+// Rate difference between TCB and TDB (IAU 2006 Resolution B3).
+const rateLb : number = 1.550519768e-8;
+// Offset of TDB at the epoch (seconds).
+const tdb0 : number = -6.55e-5;
+
+/**
+ * Compute TDB - TT with the series from USNO Circular 179 (eq. 2.6), which is
+ * accurate to about 10 microseconds between 1600 and 2200.
+ * 
+ * @param {number} JTtt 
+ *      Julian time (TT).
+ * @returns {number} TDB - TT (seconds).
+ */
+function tdbTt(JTtt : number) : number
+{
+    // Julian centuries after J2000.0 epoch.
+    const T = (JTtt - 2451545.0) / 36525.0;
+
+    return 0.001657 * Math.sin(628.3076 * T + 6.2401)
+         + 0.000022 * Math.sin(575.3385 * T + 4.2970)
+         + 0.000014 * Math.sin(1256.6152 * T + 6.1969)
+         + 0.000005 * Math.sin(606.9777 * T + 4.0212)
+         + 0.000005 * Math.sin(52.9691 * T + 0.4444)
+         + 0.000002 * Math.sin(21.3299 * T + 5.5431)
+         + 0.000010 * T * Math.sin(628.3076 * T + 4.2490);
+}
+
 /**
  * Perform binary search of data.
  * 
@@ -126,6 +182,35 @@ function deepCopy(array : any)
     return JSON.parse(JSON.stringify(array));
 }
 
+/**
+ * Replace the samples of data within the range of new samples.
+ *
+ * @param {TimeCorrelationData} data
+ *      The existing data.
+ * @param {number[][]} rows
+ *      The new samples sorted by Julian time.
+ * @returns {TimeCorrelationData} The data with the new samples and the existing
+ *      samples outside their range.
+ */
+function mergeData(data : TimeCorrelationData, rows : number[][]) : TimeCorrelationData
+{
+    if (rows.length == 0)
+    {
+        return data;
+    }
+
+    const JTfirst = rows[0][0];
+    const JTlast = rows[rows.length - 1][0];
+    const merged = data.data.filter((row) => row[0] < JTfirst)
+        .concat(rows, data.data.filter((row) => row[0] > JTlast));
+
+    return {
+        data : merged,
+        minJD : merged[0][0],
+        maxJD : merged[merged.length - 1][0]
+    };
+}
+
 /**
  * Class for performing time correlation computations.
  */
@@ -134,6 +219,14 @@ export class TimeCorrelation
     dataUt1Tai : TimeCorrelationData;
     dataUt1Utc : TimeCorrelationData;
     dataPolar  : TimeCorrelationData;
+    // Excess length of day (milliseconds). Zero until EOP data is loaded.
+    dataLod : TimeCorrelationData;
+    // Celestial pole offsets dX, dY (milliarcseconds). Zero until EOP data is loaded.
+    dataPoleOffsets : TimeCorrelationData;
+    // Coverage of the last loaded EOP data or null if only the internal data is used.
+    eopCoverage : EopCoverage | null;
+    // Table of leap seconds.
+    leapSeconds : LeapSeconds;
 
     /**
      * Public constructor.
@@ -145,6 +238,12 @@ export class TimeCorrelation
         this.dataUt1Tai = deepCopy(ut1TaiInternal);
         this.dataUt1Utc = deepCopy(ut1UtcInternal);
         this.dataPolar  = deepCopy(polarInternal);
+        this.dataLod = {data : [[polarInternal.minJD, 0.0]], minJD : polarInternal.minJD,
+            maxJD : polarInternal.minJD};
+        this.dataPoleOffsets = {data : [[polarInternal.minJD, 0.0, 0.0]], minJD : polarInternal.minJD,
+            maxJD : polarInternal.minJD};
+        this.eopCoverage = null;
+        this.leapSeconds = new LeapSeconds();
     }
 
     /**
@@ -177,6 +276,143 @@ export class TimeCorrelation
         return this.dataPolar;
     }
 
+    /**
+     * Get length of day data.
+     * 
+     * @returns {TimeCorrelationData} Excess length of day data.
+     */
+    getDataLod() : TimeCorrelationData
+    {
+        return this.dataLod;
+    }
+
+    /**
+     * Get celestial pole offset data.
+     * 
+     * @returns {TimeCorrelationData} Celestial pole offset data.
+     */
+    getDataPoleOffsets() : TimeCorrelationData
+    {
+        return this.dataPoleOffsets;
+    }
+
+    /**
+     * Get the table of leap seconds.
+     * 
+     * @returns {LeapSeconds} The table of leap seconds.
+     */
+    getLeapSeconds() : LeapSeconds
+    {
+        return this.leapSeconds;
+    }
+
+    /**
+     * Get the coverage of the last loaded EOP data.
+     * 
+     * @returns {EopCoverage | null} The coverage or null if no EOP data has been loaded.
+     */
+    getEopCoverage() : EopCoverage | null
+    {
+        return this.eopCoverage;
+    }
+
+    /**
+     * Load Earth Orientation Parameters. The samples of the existing data within the
+     * range of the records are replaced so that the data can be refreshed at runtime.
+     * UT1 - TAI is computed with TAI - UTC from the table of leap seconds.
+     * 
+     * @param {EopRecord[]} records 
+     *      The records sorted by Julian time.
+     * @returns {EopCoverage} Coverage of the loaded data.
+     */
+    loadEop(records : EopRecord[]) : EopCoverage
+    {
+        const coverage = EarthOrientation.coverage(records);
+
+        const rowsUt1Utc = [];
+        const rowsUt1Tai = [];
+        const rowsPolar = [];
+        const rowsLod = [];
+        const rowsPoleOffsets = [];
+
+        for (let indRecord = 0; indRecord < records.length; indRecord++)
+        {
+            const record = records[indRecord];
+
+            rowsUt1Utc.push([record.JT, record.ut1Utc]);
+            rowsUt1Tai.push([record.JT, record.ut1Utc - this.leapSeconds.taiUtc(record.JT)]);
+            rowsPolar.push([record.JT, record.polarX, record.polarY]);
+
+            if (record.lod !== null)
+            {
+                rowsLod.push([record.JT, record.lod]);
+            }
+            if (record.dX !== null && record.dY !== null)
+            {
+                rowsPoleOffsets.push([record.JT, record.dX, record.dY]);
+            }
+        }
+
+        this.dataUt1Utc = mergeData(this.dataUt1Utc, rowsUt1Utc);
+        this.dataUt1Tai = mergeData(this.dataUt1Tai, rowsUt1Tai);
+        this.dataPolar = mergeData(this.dataPolar, rowsPolar);
+
+        // The internal data does not contain LOD or the celestial pole offsets.
+        if (this.eopCoverage === null)
+        {
+            if (rowsLod.length > 0)
+            {
+                this.dataLod.data = [];
+            }
+            if (rowsPoleOffsets.length > 0)
+            {
+                this.dataPoleOffsets.data = [];
+            }
+        }
+        this.dataLod = mergeData(this.dataLod, rowsLod);
+        this.dataPoleOffsets = mergeData(this.dataPoleOffsets, rowsPoleOffsets);
+        this.eopCoverage = coverage;
+
+        return coverage;
+    }
+
+    /**
+     * Parse and load the contents of an IERS EOP file.
+     * 
+     * @param {string} text 
+     *      Contents of the file.
+     * @param {EopFormat} format 
+     *      Format of the file.
+     * @returns {EopCoverage} Coverage of the loaded data.
+     */
+    loadEopText(text : string, format : EopFormat) : EopCoverage
+    {
+        return this.loadEop(EarthOrientation.parse(text, format));
+    }
+
+    /**
+     * Compute UT1 - TAI. Before the UT1 - TAI data or the epoch of TAI, the value is
+     * extrapolated with the Delta-T model, which is offset to be continuous with the 
+     * data. After the data, the last value is used since the expressions of the model
+     * for the current century already deviate by several seconds from the observations
+     * and the data can be refreshed with EOP files.
+     * 
+     * @param {number} JT 
+     *      UT1 or TAI Julian time.
+     * @returns {number} UT1 - TAI (seconds).
+     */
+    ut1Tai(JT : number) : number
+    {
+        const data = this.dataUt1Tai;
+        const JTstart = Math.max(data.minJD, JTtaiEpoch);
+
+        if (JT < JTstart)
+        {
+            return interpolateSearch(data, JTstart, true)[1] - DeltaT.deltaT(JT) + DeltaT.deltaT(JTstart);
+        }
+        return interpolateSearch(data, JT, true)[1];
+    }
+
     /**
      * Convert UT1 to TAI time.
      * 
@@ -186,7 +422,7 @@ export class TimeCorrelation
      */
     correlationUt1Tai(JTut1 : number) : number
     {
-        return JTut1 - interpolateSearch(this.dataUt1Tai, JTut1, true)[1] / 86400.0;
+        return JTut1 - this.ut1Tai(JTut1) / 86400.0;
     }
 
     /**
@@ -198,7 +434,9 @@ export class TimeCorrelation
      */
     correlationTaiUt1(JTtai : number) : number
     {
-        return JTtai + interpolateSearch(this.dataUt1Tai, JTtai, true)[1] / 86400.0;
+        // Delta-T changes slowly enough that it can be evaluated at the UT1 estimate.
+        const JTut1 = JTtai + this.ut1Tai(JTtai) / 86400.0;
+        return JTtai + this.ut1Tai(JTut1) / 86400.0;
     }
 
     /**
@@ -210,7 +448,7 @@ export class TimeCorrelation
      */
     correlationTdbTai(JTtdb : number) : number
     {
-        return JTtdb - 32.184 / 86400.0;
+        return this.correlationTtTai(this.correlationTdbTt(JTtdb));
     }
 
     /**
@@ -222,7 +460,7 @@ export class TimeCorrelation
      */
     correlationTaiTdb(JTtai : number) : number
     {
-        return JTtai + 32.184 / 86400.0;
+        return this.correlationTtTdb(this.correlationTaiTt(JTtai));
     }
 
     /**
@@ -234,7 +472,7 @@ export class TimeCorrelation
      */
     correlationTdbUt1(JTtdb : number) : number
     {
-        const JTtai = JTtdb - 32.184 / 86400.0;
+        const JTtai = this.correlationTdbTai(JTtdb);
         return this.correlationTaiUt1(JTtai);
     }
 
@@ -248,11 +486,179 @@ export class TimeCorrelation
     correlationUt1Tdb(JTut1 : number) : number
     {
         const JTtai = this.correlationUt1Tai(JTut1);
-        return JTtai + 32.184 / 86400.0;
+        return this.correlationTaiTdb(JTtai);
+    }
+
+    /**
+     * Convert TAI to TT time.
+     * 
+     * @param {number} JTtai
+     *      TAI Julian time.
+     * @returns {number} TT Julian time.
+     */
+    correlationTaiTt(JTtai : number) : number
+    {
+        return JTtai + ttTai / 86400.0;
+    }
+
+    /**
+     * Convert TT to TAI time.
+     * 
+     * @param {number} JTtt
+     *      TT Julian time.
+     * @returns {number} TAI Julian time.
+     */
+    correlationTtTai(JTtt : number) : number
+    {
+        return JTtt - ttTai / 86400.0;
+    }
+
+    /**
+     * Convert TT to TDB time.
+     * 
+     * @param {number} JTtt
+     *      TT Julian time.
+     * @returns {number} TDB Julian time.
+     */
+    correlationTtTdb(JTtt : number) : number
+    {
+        return JTtt + tdbTt(JTtt) / 86400.0;
+    }
+
+    /**
+     * Convert TDB to TT time. The difference TDB - TT is evaluated at TDB, which 
+     * causes an error below a nanosecond.
+     * 
+     * @param {number} JTtdb
+     *      TDB Julian time.
+     * @returns {number} TT Julian time.
+     */
+    correlationTdbTt(JTtdb : number) : number
+    {
+        return JTtdb - tdbTt(JTtdb) / 86400.0;
+    }
+
+    /**
+     * Convert TAI to GPS time.
+     * 
+     * @param {number} JTtai
+     *      TAI Julian time.
+     * @returns {number} GPS Julian time.
+     */
+    correlationTaiGps(JTtai : number) : number
+    {
+        return JTtai - taiGps / 86400.0;
+    }
+
+    /**
+     * Convert GPS to TAI time.
+     * 
+     * @param {number} JTgps
+     *      GPS Julian time.
+     * @returns {number} TAI Julian time.
+     */
+    correlationGpsTai(JTgps : number) : number
+    {
+        return JTgps + taiGps / 86400.0;
+    }
+
+    /**
+     * Convert TT to TCG time.
+     * 
+     * @param {number} JTtt
+     *      TT Julian time.
+     * @returns {number} TCG Julian time.
+     */
+    correlationTtTcg(JTtt : number) : number
+    {
+        return JTtt + rateLg * (JTtt - JTtcgEpoch) / (1.0 - rateLg);
+    }
+
+    /**
+     * Convert TCG to TT time.
+     * 
+     * @param {number} JTtcg
+     *      TCG Julian time.
+     * @returns {number} TT Julian time.
+     */
+    correlationTcgTt(JTtcg : number) : number
+    {
+        return JTtcg - rateLg * (JTtcg - JTtcgEpoch);
+    }
+
+    /**
+     * Convert TDB to TCB time.
+     * 
+     * @param {number} JTtdb
+     *      TDB Julian time.
+     * @returns {number} TCB Julian time.
+     */
+    correlationTdbTcb(JTtdb : number) : number
+    {
+        const JTtdbLinear = JTtdb - tdb0 / 86400.0;
+        return JTtdbLinear + rateLb * (JTtdbLinear - JTtcgEpoch) / (1.0 - rateLb);
+    }
+
+    /**
+     * Convert TCB to TDB time.
+     * 
+     * @param {number} JTtcb
+     *      TCB Julian time.
+     * @returns {number} TDB Julian time.
+     */
+    correlationTcbTdb(JTtcb : number) : number
+    {
+        return JTtcb - rateLb * (JTtcb - JTtcgEpoch) + tdb0 / 86400.0;
     }
 
     /**
-     * Convert UT1 to UTC time.
+     * Convert UTC to Unix time. The Unix time repeats during a leap second.
+     * 
+     * @param {number} JTutc
+     *      UTC Julian time.
+     * @returns {number} Unix time (seconds).
+     */
+    correlationUtcUnix(JTutc : number) : number
+    {
+        return (JTutc - JTunixEpoch) * 86400.0;
+    }
+
+    /**
+     * Convert Unix to UTC time.
+     * 
+     * @param {number} unix
+     *      Unix time (seconds).
+     * @returns {number} UTC Julian time.
+     */
+    correlationUnixUtc(unix : number) : number
+    {
+        return JTunixEpoch + unix / 86400.0;
+    }
+
+    /**
+     * Compute UT1 - UTC. UT1 - TAI is interpolated as in the time stamps, which avoids
+     * the jumps of UT1 - UTC at the leap seconds. Before the table of leap seconds, 
+     * UTC is identical to UT1.
+     * 
+     * @param {number} JTutc 
+     *      UTC Julian time.
+     * @returns {number} UT1 - UTC (seconds).
+     */
+    ut1Utc(JTutc : number) : number
+    {
+        if (JTutc < this.leapSeconds.getData().data[0][0])
+        {
+            return 0.0;
+        }
+
+        const JTtai = this.leapSeconds.correlationUtcTai(JTutc);
+        const JTut1 = JTtai + this.ut1Tai(JTtai) / 86400.0;
+        return this.ut1Tai(JTut1) + this.leapSeconds.taiUtc(JTutc);
+    }
+
+    /**
+     * Convert UT1 to UTC time. Since the Julian time of UTC cannot represent a leap
+     * second, the UT1 times inside a leap second are ambiguous.
      * 
      * @param {number} JT 
      *      UT1 Julian time.
@@ -260,7 +666,12 @@ export class TimeCorrelation
      */
     correlationUt1Utc(JTut1 : number) : number
     {
-        return JTut1 - interpolateSearch(this.dataUt1Utc, JTut1, false)[1] / 86400.0
+        if (JTut1 < this.leapSeconds.getData().data[0][0])
+        {
+            return JTut1;
+        }
+
+        return this.correlationTaiUtc(this.correlationUt1Tai(JTut1));
     }
 
     /**
@@ -272,26 +683,41 @@ export class TimeCorrelation
      */
     correlationUtcUt1(JTutc : number) : number
     {
-        // There is some difficulty with the first/last second of the year in case of 
-        // leap seconds.
-        let JTut1 = JTutc + interpolateSearch(this.dataUt1Utc, JTutc, false)[1] / 86400.0;
-
-        const JTsecond = 1.0/86400.0;
+        return JTutc + this.ut1Utc(JTutc) / 86400.0;
+    }
 
-        // We wish for UTC(UT1(UTC)) = UTC.
-        if (Math.abs(JTutc - this.correlationUt1Utc(JTut1)) > 0.001 * JTsecond)
+    /**
+     * Convert UTC to TAI time with the table of leap seconds. Before the table, UTC
+     * is identical to UT1.
+     * 
+     * @param {number} JTutc 
+     *      UTC Julian time.
+     * @returns {number} TAI Julian time.
+     */
+    correlationUtcTai(JTutc : number) : number
+    {
+        if (JTutc < this.leapSeconds.getData().data[0][0])
         {
-            if (JTutc - Math.floor(JTutc) > 0)
-            {
-                JTut1 = JTutc + interpolateSearch(this.dataUt1Utc, JTutc + JTsecond, false)[1] / 86400.0;
-            }
-            else 
-            {
-                JTut1 = JTutc + interpolateSearch(this.dataUt1Utc, JTutc - JTsecond, false)[1] / 86400.0;
-            }
+            return this.correlationUt1Tai(JTutc);
         }
+        return this.leapSeconds.correlationUtcTai(JTutc);
+    }
 
-        return JTut1;
+    /**
+     * Convert TAI to UTC time with the table of leap seconds. Before the table, UTC
+     * is identical to UT1.
+     * 
+     * @param {number} JTtai 
+     *      TAI Julian time.
+     * @returns {number} UTC Julian time.
+     */
+    correlationTaiUtc(JTtai : number) : number
+    {
+        if (JTtai < this.leapSeconds.correlationUtcTai(this.leapSeconds.getData().data[0][0]))
+        {
+            return this.correlationTaiUt1(JTtai);
+        }
+        return this.leapSeconds.correlationTaiUtc(JTtai);
     }
 
     /**
@@ -307,11 +733,40 @@ export class TimeCorrelation
         return [data[1] / 3600.0, data[2] / 3600.0];
     }
 
+    /**
+     * Compute the excess length of day.
+     * 
+     * @param {number} JTut1 
+     *      UT1 Julian time.
+     * @returns {number} The excess of the length of day over 86400 seconds (seconds).
+     */
+    lengthOfDay(JTut1 : number) : number
+    {
+        return interpolateSearch(this.dataLod, JTut1, true)[1] / 1000.0;
+    }
+
+    /**
+     * Compute celestial pole offsets w.r.t. the IAU 2006/2000A model.
+     * 
+     * @param {number} JTut1 
+     *      UT1 Julian time.
+     * @returns {number[]} [dX, dY] array in degrees.
+     */
+    celestialPoleOffsets(JTut1 : number) : number[]
+    {
+        const data = interpolateSearch(this.dataPoleOffsets, JTut1, true);
+        return [data[1] / 3600.0e3, data[2] / 3600.0e3];
+    }
+
     /**
      * Compute time stamp containing Julian time in all conventions and polar motion.
+     * UT1 is computed from UT1 - TAI, while UTC and Unix time are computed from TAI with 
+     * the table of leap seconds so that the conversions between all conventions are 
+     * consistent. Before the table of leap seconds, UTC is identical to UT1 and TT
+     * follows UT1 with Delta-T.
      * 
      * @param {number} JT 
-     *      Julian time in given time convention.
+     *      Julian time in given time convention or seconds for Unix time.
      * @param {TimeConvention} convention 
      *      The used time convention.
      * @param {boolean} computePolar 
@@ -327,32 +782,59 @@ export class TimeCorrelation
         let polarDx;
         let polarDy;
 
+        // The coordinate and satellite time scales are converted to TAI or TDB.
+        if (convention == TimeConvention.TIME_TT)
+        {
+            JT = this.correlationTtTai(JT);
+            convention = TimeConvention.TIME_TAI;
+        }
+        if (convention == TimeConvention.TIME_GPS)
+        {
+            JT = this.correlationGpsTai(JT);
+            convention = TimeConvention.TIME_TAI;
+        }
+        if (convention == TimeConvention.TIME_TCG)
+        {
+            JT = this.correlationTtTai(this.correlationTcgTt(JT));
+            convention = TimeConvention.TIME_TAI;
+        }
+        if (convention == TimeConvention.TIME_TCB)
+        {
+            JT = this.correlationTcbTdb(JT);
+            convention = TimeConvention.TIME_TDB;
+        }
+        if (convention == TimeConvention.TIME_UNIX)
+        {
+            JT = this.correlationUnixUtc(JT);
+            convention = TimeConvention.TIME_UTC;
+        }
+
         if (convention == TimeConvention.TIME_TDB)
         {
             JTtdb = JT;
-            JTut1 = this.correlationTdbUt1(JTtdb);
-            JTutc = this.correlationUt1Utc(JTut1);
             JTtai = this.correlationTdbTai(JTtdb);
+            JTut1 = this.correlationTaiUt1(JTtai);
+            JTutc = this.correlationTaiUtc(JTtai);
         }
         if (convention == TimeConvention.TIME_TAI)
         {
             JTtai = JT;
             JTtdb = this.correlationTaiTdb(JTtai);
             JTut1 = this.correlationTaiUt1(JTtai);
-            JTutc = this.correlationUt1Utc(JTut1);
+            JTutc = this.correlationTaiUtc(JTtai);
         }
         if (convention == TimeConvention.TIME_UTC)
         {
             JTutc = JT;
-            JTut1 = this.correlationUtcUt1(JTutc);
-            JTtai = this.correlationUt1Tai(JTut1);
+            JTtai = this.correlationUtcTai(JTutc);
+            JTut1 = this.correlationTaiUt1(JTtai);
             JTtdb = this.correlationTaiTdb(JTtai);
         }
         if (convention == TimeConvention.TIME_UT1)
         {
             JTut1 = JT;
-            JTutc = this.correlationUt1Utc(JTut1);
             JTtai = this.correlationUt1Tai(JTut1);
+            JTutc = this.correlationTaiUtc(JTtai);
             JTtdb = this.correlationTaiTdb(JTtai);
         }
 
@@ -365,16 +847,51 @@ export class TimeCorrelation
             polarDx = polarDy = 0;
         }
 
+        const JTtt = this.correlationTaiTt(JTtai);
+
         return {
             JTut1 : JTut1,
             JTutc : JTutc,
             JTtai : JTtai,
             JTtdb : JTtdb,
+            JTtt : JTtt,
+            JTgps : this.correlationTaiGps(JTtai),
+            JTtcg : this.correlationTtTcg(JTtt),
+            JTtcb : this.correlationTdbTcb(JTtdb),
+            unix : this.correlationUtcUnix(JTutc),
             polarDx : polarDx,
             polarDy : polarDy
         };
     }
 
+    /**
+     * Compute GPS week and seconds of the week.
+     * 
+     * @param {number} JTgps 
+     *      GPS Julian time.
+     * @returns {number[]} The week number without rollover and the seconds of 
+     *      the week.
+     */
+    static gpsWeekSeconds(JTgps : number) : number[]
+    {
+        const week = Math.floor((JTgps - JTgpsEpoch) / 7.0);
+        return [week, (JTgps - JTgpsEpoch - 7.0 * week) * 86400.0];
+    }
+
+    /**
+     * Compute GPS time from GPS week and seconds of the week.
+     * 
+     * @param {number} week 
+     *      The week number without rollover.
+     * @param {number} seconds 
+     *      Seconds of the week.
+     * @returns {number} GPS Julian time.
+     */
+    static timeJulianGps(week : number, seconds : number) : number
+    {
+        return JTgpsEpoch + 7.0 * week + seconds / 86400.0;
+    }
+
     /**
      * Add small delta time to a timestamp.
      * 
@@ -392,6 +909,11 @@ export class TimeCorrelation
             JTutc : timeStampIn.JTutc + deltaJT,
             JTtai : timeStampIn.JTtai + deltaJT,
             JTtdb : timeStampIn.JTtdb + deltaJT,
+            JTtt : timeStampIn.JTtt + deltaJT,
+            JTgps : timeStampIn.JTgps + deltaJT,
+            JTtcg : timeStampIn.JTtcg + deltaJT,
+            JTtcb : timeStampIn.JTtcb + deltaJT,
+            unix : timeStampIn.unix + deltaJT * 86400.0,
             polarDx : timeStampIn.polarDx,
             polarDy : timeStampIn.polarDy
         };
@@ -9,6 +9,16 @@ import {TimeStamp} from './TimeCorrelation';
  */
 export class Vsop87A 
 {
+    /**
+     * Get the names of the planets, for which the VSOP87A series are available.
+     * 
+     * @returns {string[]} The names of the planets.
+     */
+    static planetNames() : string[]
+    {
+        return Object.keys(vsop87AData);
+    }
+
     /**
      * Compute position and velocity of a planet with VSOP87A in the J2000 frame.
      * Important: The frame is heliocentric centered in the barycenter of the Sun.
@@ -16,7 +26,7 @@ export class Vsop87A
      * 
      * @param {string} targetName
      *      Name of the target planet (mercury, venus, earth, mars, jupiter, saturn,
-     *      neptune).
+     *      uranus, neptune).
      * @param {TimeStamp} timeStamp 
      *      Timestamp.
      * @returns {OsvFrame} OSV in the heliocentric ecliptic frame.
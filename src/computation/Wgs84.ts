@@ -86,6 +86,53 @@ export class Wgs84
         return {lat : lat, lon : lon, h : h};
     }
 
+    /**
+     * Convert EFI position stored into a typed array to the latitude, longitude and 
+     * height in the WGS84 system without allocations. This uses the same iteration as 
+     * coordEfiWgs84 with the convergence checked from the change of the latitude.
+     * 
+     * @param {Float64Array} position
+     *      Positions in EFI frame (meters).
+     * @param {Float64Array} geodetic
+     *      Output latitude (degrees), longitude (degrees) and height (meters).
+     * @param {number} offset
+     *      Index of the first coordinate in both arrays.
+     * @param {number} maxIter
+     *      Maximum number of iterations.
+     */
+    static coordEfiWgs84Buffer(position : Float64Array, geodetic : Float64Array, 
+        offset : number, maxIter : number) : void
+    {
+        const a = 6378137;
+        const ecc2 = 0.081819190842966 * 0.081819190842966;
+        const x = position[offset];
+        const y = position[offset + 1];
+        const z = position[offset + 2];
+
+        const p = Math.sqrt(x*x + y*y);
+        let lat = Math.atan((z / p) / (1.0 - ecc2));
+        let h = 0;
+
+        for (let iter = 0; iter < maxIter; iter++)
+        {
+            const sinLat = Math.sin(lat);
+            const N = a/Math.sqrt(1 - ecc2 * sinLat * sinLat);
+            h = p/Math.cos(lat) - N;
+            const latNew = Math.atan((z/p)/(1 - ecc2*(N/(N + h))));
+            const delta = Math.abs(latNew - lat);
+            lat = latNew;
+
+            if (delta < 1e-14)
+            {
+                break;
+            }
+        }
+
+        geodetic[offset]     = MathUtils.rad2Deg(lat);
+        geodetic[offset + 1] = MathUtils.atan2d(y, x);
+        geodetic[offset + 2] = h;
+    }
+
     /**
      * Convert the latitude, longitude and height in the WGS84 system to the EFI
      * position.
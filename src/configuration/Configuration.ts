@@ -168,6 +168,11 @@ defaultConfiguration.addString('dummyParameter', 'dummyCaption', 'value');
 defaultConfiguration.addRangeFloat('gridLongitudeStep', 'Grid Longitude Step', 15.0, 1.0, 90.0, 1.0);
 defaultConfiguration.addRangeFloat('gridLatitudeStep', 'Grid Latitude Step', 15.0, 1.0, 45.0, 1.0);
 
+defaultConfiguration.addRangeFloat('observerLatitude', 'Observer Latitude', 51.48, -90.0, 90.0, 0.01);
+defaultConfiguration.addRangeFloat('observerLongitude', 'Observer Longitude', 0.0, -180.0, 180.0, 0.01);
+defaultConfiguration.addRangeFloat('observerAltitude', 'Observer Altitude', 0.0, 0.0, 5000.0, 10.0);
+defaultConfiguration.addRangeFloat('skyMagnitudeLimit', 'Star Magnitude Limit', 6.0, -1.0, 6.0, 0.1);
+
 defaultConfiguration.addOption('projection2d', 'Projection', 
     ['Rectangular', 'Azi-Equidistant'], 'Rectangular');
 
@@ -200,6 +205,15 @@ export const defaultLayout : OptionLayout[] = [
             "projection2d"
         ]
     },
+    {
+        title: "Sky View",
+        options : [
+            "observerLatitude",
+            "observerLongitude",
+            "observerAltitude",
+            "skyMagnitudeLimit"
+        ]
+    },
     {
         title: "Orbits",
         options : [
@@ -1,7 +1,16 @@
 import {TargetInfoField, TargetInfo, TargetInfoCollection, TargetCollection} from "./viewTargets/Target";
 import {TargetView} from "./viewTargets/TargetView";
 import {Tle} from "./Tle";
-import {Sgp4Propagation} from "./TlePropagators";
+import {Sgp4Propagation, TlePropagator} from "./TlePropagators";
+import {TleFitting} from "./TleFitting";
+import {NumericalPropagation} from "./NumericalPropagators";
+import {Kepler} from "./Kepler";
+import {KeplerPropagation} from "./KeplerPropagators";
+import {Osv} from "./Osv";
+import {Ephemeris} from "./Ephemeris";
+import {EphemerisPropagation} from "./EphemerisPropagators";
+import {Propagator, PropagationError} from "./Propagator";
+import {PropagatorRegistry, PropagatorEntry} from "./PropagatorRegistry";
 import {JulianTime, GregorianTime} from "./computation/JulianTime";
 import {MathUtils} from "./computation/MathUtils";
 import { Dataset } from "./viewTargets/Dataset";
@@ -11,9 +20,13 @@ import { Panel } from "./Panel";
 import { PanelView } from "./PanelView";
 import { HelpView } from "./viewHelp/HelpView";
 import { View2d } from "./view2d/View2d";
+import { SkyView } from "./viewSky/SkyView";
 import { Angles } from "./computation/Angles";
-import { Frames } from "./computation/Frames";
+import { Cio } from "./computation/Cio";
+import { CollisionProbability } from "./computation/CollisionProbability";
+import { FrameModel, Frames } from "./computation/Frames";
 import { Nutation } from "./computation/Nutation";
+import { OrbitalElements } from "./computation/OrbitalElements";
 import { Rotations } from "./computation/Rotations";
 import { SiderealTime } from "./computation/SiderealTime";
 import { TimeCorrelation } from "./computation/TimeCorrelation";
@@ -22,6 +35,19 @@ import { Wgs84 } from "./computation/Wgs84";
 import { Time } from "./Time";
 import { TimeView } from "./TimeView";
 import { Propagation } from "./Propagation";
+import { PassPredictor } from "./Passes";
+import { VisiblePassPredictor } from "./VisiblePasses";
+import { Tracking } from "./Tracking";
+import { Eclipses } from "./Eclipses";
+import { SunEvents } from "./SunEvents";
+import { MoonEvents } from "./MoonEvents";
+import { Moon } from "./computation/Moon";
+import { Stars } from "./computation/Stars";
+import { EarthOrientation } from "./computation/EarthOrientation";
+import { LeapSeconds } from "./computation/LeapSeconds";
+import { DeltaT } from "./computation/DeltaT";
+import { RootFinding } from "./computation/RootFinding";
+import { ConjunctionScreening } from "./Conjunctions";
 import { PlanetShader2d } from "./view2d/PlanetShader2d";
 import { MapShader2d } from "./view2d/MapShader2d";
 import { WebGLUtils } from "./view2d/WebGLUtils";
@@ -34,7 +60,15 @@ import { SelectionView } from "./SelectionView";
 export {TargetCollection};
 export {TargetView};
 export {Tle};
-export {Sgp4Propagation}
+export {Sgp4Propagation, TlePropagator}
+export {TleFitting};
+export {NumericalPropagation}
+export {Kepler};
+export {KeplerPropagation};
+export {Osv};
+export {Ephemeris};
+export {EphemerisPropagation};
+export {Propagator, PropagationError, PropagatorRegistry, PropagatorEntry};
 export {JulianTime, GregorianTime};
 export {MathUtils};
 export {Dataset};
@@ -44,9 +78,13 @@ export {Panel};
 export {PanelView}
 export {HelpView};
 export {View2d};
+export {SkyView};
 export {Angles};
-export {Frames};
+export {Cio};
+export {CollisionProbability};
+export {FrameModel, Frames};
 export {Nutation};
+export {OrbitalElements};
 export {Rotations};
 export {SiderealTime};
 export {TimeCorrelation};
@@ -55,6 +93,19 @@ export {Wgs84};
 export {Time};
 export {TimeView};
 export {Propagation};
+export {PassPredictor};
+export {VisiblePassPredictor};
+export {Tracking};
+export {Eclipses};
+export {SunEvents};
+export {MoonEvents};
+export {Moon};
+export {Stars};
+export {EarthOrientation};
+export {LeapSeconds};
+export {DeltaT};
+export {RootFinding};
+export {ConjunctionScreening};
 export {WebGLUtils};
 export {PlanetShader2d};
 export {MapShader2d};
@@ -2,7 +2,6 @@ import { IVisibility } from "../IVisibility";
 import { MathUtils } from "../computation/MathUtils";
 import { JulianTime } from "../computation/JulianTime";
 import { TimeCorrelation, TimeStamp, TimeConvention } from "../computation/TimeCorrelation";
-import { Vsop87A } from "../computation/Vsop87A";
 import { Frame, Frames, OsvFrame} from "../computation/Frames";
 import { Nutation, NutationData } from "../computation/Nutation";
 import { TimeView } from "../TimeView";
@@ -15,6 +14,8 @@ import { TargetInfo } from "../viewTargets/Target";
 import { Projection, ProjectionType } from "./Projections";
 import { Configuration } from "../configuration/Configuration";
 import { Selection } from "../Selection";
+import { Eclipses, IlluminationState } from "../Eclipses";
+import { Moon } from "../computation/Moon";
 
 /**
  * Class implementing the 2d view.
@@ -187,7 +188,12 @@ export class View2d implements IVisibility
         let osvEfiSat : OsvFrame | null = null;
         
         if (this.selection.getSelection().length > 0 && this.configuration.getBoolean("showVisibility")) {
-            osvEfiSat = propData[this.selection.getSelection()[0]];
+            const targetName : string = this.selection.getSelection()[0];
+
+            // Propagation of the selected target may have failed.
+            if (targetName in propData) {
+                osvEfiSat = propData[targetName];
+            }
         }
         
         this.planetShader.draw(osvEfiSun, osvEfiSat, this.projection.projectionType);
@@ -217,16 +223,26 @@ export class View2d implements IVisibility
             this.drawSun(osvEfiSun);
         }
 
-        this.drawTargets(propData);
+        if (this.configuration.getBoolean("showMoon")) {
+            this.drawMoon(Moon.moonEfi(timeStamp, nutData));
+        }
+
+        this.drawTargets(propData, osvEfiSun);
     }
 
     /**
-     * Draw targets.
+     * Draw targets. Targets, for which the propagation has failed, are not included in 
+     * the propagated data and are not drawn. If eclipses are shown, the targets in 
+     * penumbra and umbra are drawn with darker colors.
      * 
      * @param {PropagatedOsvData} propData 
      *      Propagated OSV data for targets.
+     * @param {OsvFrame} osvEfiSun
+     *      OSV of the Sun in EFI frame.
      */
-    drawTargets(propData : PropagatedOsvData) : void {
+    drawTargets(propData : PropagatedOsvData, osvEfiSun : OsvFrame) : void {
+        const showEclipses : boolean = this.configuration.getBoolean("showEclipses");
+
         const targetNames : string[] = Object.keys(propData);
         for (let indTarget = 0; indTarget < targetNames.length; indTarget++)
         {
@@ -248,8 +264,18 @@ export class View2d implements IVisibility
             this.context2d.beginPath();
             this.context2d.arc(rCanvas[0], rCanvas[1], 2, 0, Math.PI * 2);
 
+            let illumination : IlluminationState = IlluminationState.SUNLIT;
+            if (showEclipses) {
+                illumination = Eclipses.illuminationState(
+                    Eclipses.shadowGeometry(osvEfi.position, osvEfiSun.position, true));
+            }
+
             if (selected) {
                 this.context2d.fillStyle = "#ffff00";
+            } else if (illumination == IlluminationState.UMBRA) {
+                this.context2d.fillStyle = "#555555";
+            } else if (illumination == IlluminationState.PENUMBRA) {
+                this.context2d.fillStyle = "#aaaaaa";
             } else {
                 this.context2d.fillStyle = "#ffffff";
             }
@@ -439,6 +465,22 @@ export class View2d implements IVisibility
         this.context2d.fill();        
     }
 
+    /**
+     * Draw the sub-lunar point.
+     * 
+     * @param {OsvFrame} osvEfiMoon 
+     *      Position of the Moon in the EFI frame.
+     */
+    drawMoon(osvEfiMoon : OsvFrame) : void {
+        const earthPos : EarthPosition = Wgs84.coordEfiWgs84(osvEfiMoon.position, 5, 1e-10, false);
+        const rCanvas = this.projection.coordEquirectangularCanvas([earthPos.lon, earthPos.lat]);
+        // Draw Moon location.
+        this.context2d.beginPath();
+        this.context2d.arc(rCanvas[0], rCanvas[1], 8, 0, Math.PI * 2);
+        this.context2d.fillStyle = "#cccccc";
+        this.context2d.fill();
+    }
+
     /**
      * Compute OSV for the Sun in the EFI frame.
      * 
@@ -450,17 +492,7 @@ export class View2d implements IVisibility
      */
     computeSunEfi(timeStamp : TimeStamp, nutData : NutationData) : OsvFrame
     {
-        const osvHelEarth : OsvFrame = Vsop87A.planetHeliocentric("earth", timeStamp);
-        const osvEclHel : OsvFrame = {frame : Frame.FRAME_ECLHEL, timeStamp : timeStamp, 
-        position : [0, 0, 0], velocity : [0, 0, 0]};
-        const osvEclGeo = Frames.coordHelEcl(osvEclHel, osvHelEarth);
-        const osvJ2000 = Frames.coordEclEq(osvEclGeo);
-        const osvMoD = Frames.coordJ2000Mod(osvJ2000);
-        const osvToD = Frames.coordModTod(osvMoD, nutData);
-        const osvPef = Frames.coordTodPef(osvToD, nutData);
-        const osvEfi = Frames.coordPefEfi(osvPef);
-
-        return osvEfi;
+        return Eclipses.computeSunEfi(timeStamp, nutData);
     } 
 
     /**
@@ -0,0 +1,452 @@
+import { IVisibility } from "../IVisibility";
+import { MathUtils } from "../computation/MathUtils";
+import { TimeCorrelation, TimeStamp, TimeConvention } from "../computation/TimeCorrelation";
+import { EnuAngles, Frame, Frames, OsvFrame } from "../computation/Frames";
+import { Nutation, NutationData } from "../computation/Nutation";
+import { TimeView } from "../TimeView";
+import { PropagatedOsvData, Propagation } from "../Propagation";
+import { EarthPosition } from "../computation/Wgs84";
+import { Configuration } from "../configuration/Configuration";
+import { Selection } from "../Selection";
+import { Eclipses } from "../Eclipses";
+import { Moon } from "../computation/Moon";
+import { StarData, Stars } from "../computation/Stars";
+import { Vsop87A } from "../computation/Vsop87A";
+import { TargetInfo } from "../viewTargets/Target";
+
+/**
+ * Class implementing the sky view of an observer. The sky is drawn in a polar
+ * projection with the zenith at the center, the horizon on the outer circle, north
+ * up and east to the left as seen by an observer looking up.
+ */
+export class SkyView implements IVisibility
+{
+    // Time view providing current time.
+    private timeView : TimeView;
+
+    // Propagation tools.
+    private propagation : Propagation;
+
+    // HTML element for 2d canvas.
+    private canvas2d : HTMLCanvasElement;
+    // HTML element for the container.
+    private container : HTMLElement;
+
+    // Time correlation data object for conversions between time conventions.
+    private timeCorr : TimeCorrelation;
+
+    // HTML 2d canvas rendering context.
+    context2d : CanvasRenderingContext2D;
+
+    // Configuration.
+    configuration : Configuration;
+
+    // Selection.
+    selection : Selection;
+
+    /**
+     * Public constructor.
+     *
+     * @param {Propagation} propagation
+     *      Propagation.
+     * @param {TimeView} timeView
+     *      Time view.
+     * @param {Configuration} configuration
+     *      Configuration
+     * @param {Selection} selection
+     *      The selection.
+     */
+    constructor(propagation : Propagation,
+        timeView : TimeView,
+        configuration : Configuration,
+        selection : Selection)
+    {
+        this.timeCorr = new TimeCorrelation();
+        this.timeView = timeView;
+        this.propagation = propagation;
+        this.configuration = configuration;
+        this.selection = selection;
+    }
+
+    /**
+     * Set view DOM elements.
+     *
+     * @param {HTMLElement} container
+     *      HTML element for the contained element.
+     * @param {string} canvas2d
+     *      HTML element for the 2d canvas.
+     */
+    setElements(container : string, canvas2d : string)
+    {
+        function getElement(id : string) : HTMLElement
+        {
+            const elem : HTMLElement | null = document.getElementById(id);
+            if (elem === null)
+            {
+                throw Error("Element \"" + id + "\" not found!");
+            }
+
+            return elem;
+        }
+
+        this.container = <HTMLElement> getElement(container);
+        this.canvas2d = <HTMLCanvasElement> getElement(canvas2d);
+        this.context2d = <CanvasRenderingContext2D> this.canvas2d.getContext("2d");
+    }
+
+    /**
+     * Get the position of the observer from the configuration.
+     *
+     * @returns {EarthPosition} The position of the observer.
+     */
+    getObserver() : EarthPosition
+    {
+        return {
+            lat : this.configuration.getNumber("observerLatitude"),
+            lon : this.configuration.getNumber("observerLongitude"),
+            h : this.configuration.getNumber("observerAltitude")
+        };
+    }
+
+    /**
+     * Draw the visualization.
+     */
+    draw()
+    {
+        const JT = this.timeView.update();
+
+        if (this.isVisible())
+        {
+            requestAnimationFrame(this.draw.bind(this));
+        }
+
+        const timeStamp : TimeStamp = this.timeCorr.computeTimeStamp(JT, TimeConvention.TIME_UTC, true);
+        const nutData : NutationData = Nutation.iau1980(timeStamp);
+        const earthPos : EarthPosition = this.getObserver();
+
+        // Maximize the canvas.
+        this.canvas2d.width = window.innerWidth;
+        this.canvas2d.height = window.innerHeight;
+
+        this.context2d.fillStyle = "#000000";
+        this.context2d.fillRect(0, 0, this.canvas2d.width, this.canvas2d.height);
+
+        this.drawGrid();
+
+        if (this.configuration.getBoolean("showStars")) {
+            this.drawStars(timeStamp, nutData, earthPos);
+        }
+
+        this.drawPlanets(timeStamp, nutData, earthPos);
+
+        if (this.configuration.getBoolean("showSun")) {
+            this.drawBody(Eclipses.computeSunEfi(timeStamp, nutData), earthPos, 8, "#ffff00", "Sun");
+        }
+
+        if (this.configuration.getBoolean("showMoon")) {
+            this.drawBody(Moon.moonEfi(timeStamp, nutData), earthPos, 7, "#cccccc", "Moon");
+        }
+
+        if (this.configuration.getBoolean("showOrbits")) {
+            this.drawTracks(timeStamp, nutData, earthPos);
+        }
+
+        this.drawTargets(this.propagation.propagateAll(timeStamp.JTut1, nutData), earthPos);
+    }
+
+    /**
+     * Compute canvas coordinates of a direction in the polar projection.
+     *
+     * @param {number} az
+     *      Azimuth (degrees).
+     * @param {number} el
+     *      Elevation (degrees).
+     * @returns {number[]} The canvas coordinates.
+     */
+    coordAzElCanvas(az : number, el : number) : number[]
+    {
+        const radius : number = this.getRadius() * (90.0 - el) / 90.0;
+
+        return [0.5 * this.canvas2d.width - radius * MathUtils.sind(az),
+                0.5 * this.canvas2d.height - radius * MathUtils.cosd(az)];
+    }
+
+    /**
+     * Get the radius of the horizon on the canvas.
+     *
+     * @returns {number} The radius (pixels).
+     */
+    getRadius() : number
+    {
+        return 0.45 * Math.min(this.canvas2d.width, this.canvas2d.height);
+    }
+
+    /**
+     * Compute azimuth and elevation of an object seen from the observer.
+     *
+     * @param {OsvFrame} osvEfi
+     *      OSV of the object in EFI frame.
+     * @param {EarthPosition} earthPos
+     *      Position of the observer.
+     * @returns {EnuAngles} The angles.
+     */
+    computeAzEl(osvEfi : OsvFrame, earthPos : EarthPosition) : EnuAngles
+    {
+        return Frames.coordEnuAzEl(Frames.coordEfiEnu(osvEfi, earthPos));
+    }
+
+    /**
+     * Draw the horizon, the elevation circles and the cardinal directions.
+     */
+    drawGrid() : void
+    {
+        const center : number[] = this.coordAzElCanvas(0.0, 90.0);
+
+        this.context2d.strokeStyle = "#444444";
+        for (let el = 0; el < 90; el += 30)
+        {
+            this.context2d.beginPath();
+            this.context2d.arc(center[0], center[1], this.getRadius() * (90.0 - el) / 90.0, 0, Math.PI * 2);
+            this.context2d.stroke();
+        }
+        for (let az = 0; az < 360; az += 45)
+        {
+            const rCanvas : number[] = this.coordAzElCanvas(az, 0.0);
+            this.context2d.beginPath();
+            this.context2d.moveTo(center[0], center[1]);
+            this.context2d.lineTo(rCanvas[0], rCanvas[1]);
+            this.context2d.stroke();
+        }
+
+        this.context2d.fillStyle = "#999999";
+        this.context2d.textAlign = "center";
+        this.context2d.textBaseline = "middle";
+        const captions : string[] = ["N", "E", "S", "W"];
+        for (let indCaption = 0; indCaption < captions.length; indCaption++)
+        {
+            const rCanvas : number[] = this.coordAzElCanvas(indCaption * 90.0, -5.0);
+            this.context2d.fillText(captions[indCaption], rCanvas[0], rCanvas[1]);
+        }
+    }
+
+    /**
+     * Draw the stars above the horizon. The size of the star is proportional to the
+     * brightness.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp used for the computation.
+     * @param {NutationData} nutData
+     *      Nutation data.
+     * @param {EarthPosition} earthPos
+     *      Position of the observer.
+     */
+    drawStars(timeStamp : TimeStamp, nutData : NutationData, earthPos : EarthPosition) : void
+    {
+        const stars : StarData[] = Stars.getCatalog(this.configuration.getNumber("skyMagnitudeLimit"));
+
+        this.context2d.fillStyle = "#ffffff";
+        for (let indStar = 0; indStar < stars.length; indStar++)
+        {
+            const star : StarData = stars[indStar];
+            const angles : EnuAngles = this.computeAzEl(Stars.starEfi(star, timeStamp, nutData), earthPos);
+
+            if (angles.el < 0.0)
+            {
+                continue;
+            }
+
+            const rCanvas : number[] = this.coordAzElCanvas(angles.az, angles.el);
+            this.context2d.beginPath();
+            this.context2d.arc(rCanvas[0], rCanvas[1], Math.max(0.5, 3.0 - 0.5 * star.mag), 0, Math.PI * 2);
+            this.context2d.fill();
+        }
+    }
+
+    /**
+     * Draw the planets available in the VSOP87A data. The light-time is not taken
+     * into account.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp used for the computation.
+     * @param {NutationData} nutData
+     *      Nutation data.
+     * @param {EarthPosition} earthPos
+     *      Position of the observer.
+     */
+    drawPlanets(timeStamp : TimeStamp, nutData : NutationData, earthPos : EarthPosition) : void
+    {
+        const osvHelEarth : OsvFrame = Vsop87A.planetHeliocentric("earth", timeStamp);
+        const planetNames : string[] = Vsop87A.planetNames().filter((name) => name != "earth");
+
+        for (let indPlanet = 0; indPlanet < planetNames.length; indPlanet++)
+        {
+            const planetName : string = planetNames[indPlanet];
+            const osvHelPlanet : OsvFrame = Vsop87A.planetHeliocentric(planetName, timeStamp);
+            const osvJ2000 : OsvFrame = Frames.coordEclEq(Frames.coordHelEcl(osvHelPlanet, osvHelEarth));
+            const osvToD : OsvFrame = Frames.coordModTod(Frames.coordJ2000Mod(osvJ2000), nutData);
+            const osvEfi : OsvFrame = Frames.coordPefEfi(Frames.coordTodPef(osvToD, nutData));
+
+            const caption : string = planetName.charAt(0).toUpperCase() + planetName.slice(1);
+            this.drawBody(osvEfi, earthPos, 4, "#ff9966", caption);
+        }
+    }
+
+    /**
+     * Draw a solar system body, if it is above the horizon.
+     *
+     * @param {OsvFrame} osvEfi
+     *      OSV of the body in EFI frame.
+     * @param {EarthPosition} earthPos
+     *      Position of the observer.
+     * @param {number} radius
+     *      Radius of the drawn circle (pixels).
+     * @param {string} color
+     *      Fill style.
+     * @param {string} caption
+     *      Caption.
+     */
+    drawBody(osvEfi : OsvFrame, earthPos : EarthPosition, radius : number, color : string, caption : string) : void
+    {
+        const angles : EnuAngles = this.computeAzEl(osvEfi, earthPos);
+
+        if (angles.el < 0.0)
+        {
+            return;
+        }
+
+        const rCanvas : number[] = this.coordAzElCanvas(angles.az, angles.el);
+        this.context2d.beginPath();
+        this.context2d.arc(rCanvas[0], rCanvas[1], radius, 0, Math.PI * 2);
+        this.context2d.fillStyle = color;
+        this.context2d.fill();
+
+        this.context2d.textAlign = "left";
+        this.context2d.textBaseline = "bottom";
+        this.context2d.fillText(" " + caption, rCanvas[0] + radius, rCanvas[1]);
+    }
+
+    /**
+     * Draw the tracks of the selected targets above the horizon.
+     *
+     * @param {TimeStamp} timeStamp
+     *      Timestamp used for the computation.
+     * @param {NutationData} nutData
+     *      Nutation data.
+     * @param {EarthPosition} earthPos
+     *      Position of the observer.
+     */
+    drawTracks(timeStamp : TimeStamp, nutData : NutationData, earthPos : EarthPosition) : void
+    {
+        const targetList : string[] = this.selection.getSelection();
+
+        for (let indSelection = 0; indSelection < targetList.length; indSelection++)
+        {
+            const targetName : string = targetList[indSelection];
+            const period : number = this.propagation.getOrbitalPeriod(targetName);
+            const JTstart : number = timeStamp.JTut1 - period * this.configuration.getNumber("orbitsBackward");
+            const JTend : number = timeStamp.JTut1 + period * this.configuration.getNumber("orbitsForward");
+
+            this.context2d.beginPath();
+            let abovePrev : boolean = false;
+            for (let JT = JTstart; JT <= JTend; JT += 0.1 / 1440.0)
+            {
+                const osvEfi : OsvFrame | null = this.propagation.propagateOneEfi(targetName, JT, nutData);
+
+                if (osvEfi === null)
+                {
+                    abovePrev = false;
+                    continue;
+                }
+
+                const angles : EnuAngles = this.computeAzEl(osvEfi, earthPos);
+                const rCanvas : number[] = this.coordAzElCanvas(angles.az, angles.el);
+                const above : boolean = angles.el >= 0.0;
+
+                if (above && abovePrev)
+                {
+                    this.context2d.lineTo(rCanvas[0], rCanvas[1]);
+                }
+                else if (above)
+                {
+                    this.context2d.moveTo(rCanvas[0], rCanvas[1]);
+                }
+                abovePrev = above;
+            }
+            this.context2d.strokeStyle = "#999999";
+            this.context2d.stroke();
+        }
+    }
+
+    /**
+     * Draw the targets above the horizon.
+     *
+     * @param {PropagatedOsvData} propData
+     *      Propagated OSV data for targets.
+     * @param {EarthPosition} earthPos
+     *      Position of the observer.
+     */
+    drawTargets(propData : PropagatedOsvData, earthPos : EarthPosition) : void
+    {
+        const selectionList : string[] = this.selection.getSelection();
+        const targetNames : string[] = Object.keys(propData);
+
+        for (let indTarget = 0; indTarget < targetNames.length; indTarget++)
+        {
+            const targetName : string = targetNames[indTarget];
+            const osvEfi : OsvFrame = propData[targetName];
+
+            if (osvEfi.frame != Frame.FRAME_EFI)
+            {
+                continue;
+            }
+
+            const angles : EnuAngles = this.computeAzEl(osvEfi, earthPos);
+            if (angles.el < 0.0)
+            {
+                continue;
+            }
+
+            const selected : boolean = selectionList.indexOf(targetName) !== -1;
+            const rCanvas : number[] = this.coordAzElCanvas(angles.az, angles.el);
+            this.context2d.beginPath();
+            this.context2d.arc(rCanvas[0], rCanvas[1], 2, 0, Math.PI * 2);
+            this.context2d.fillStyle = selected ? "#ffff00" : "#00ff00";
+            this.context2d.fill();
+
+            if (this.configuration.getBoolean("showLabels") || selected) {
+                this.context2d.textAlign = "right";
+                this.context2d.textBaseline = "bottom";
+                const targetInfo : TargetInfo | null = this.propagation.getTargetInfo(targetName);
+                const caption : string = (targetInfo === null) ? targetName : <string> targetInfo.OBJECT_NAME;
+                this.context2d.fillText(caption.trim() + " ", rCanvas[0], rCanvas[1]);
+            }
+        }
+    }
+
+    /**
+     * Show the view.
+     */
+    show() : void
+    {
+        this.container.style.visibility = "visible";
+        requestAnimationFrame(this.draw.bind(this));
+    }
+
+    /**
+     * Hide the view.
+     */
+    hide() : void
+    {
+        this.container.style.visibility = "hidden";
+    }
+
+    /**
+     * Whether the view is visible.
+     *
+     * @returns {boolean} Visibility.
+     */
+    isVisible(): boolean
+    {
+        return (this.container.style.visibility === "visible");
+    }
+}
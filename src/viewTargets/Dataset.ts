@@ -1,5 +1,7 @@
 import { TargetCollection, TargetInfoField, TargetInfo } from "./Target";
 import { Tle } from "../Tle";
+import { Kepler } from "../Kepler";
+import { Osv } from "../Osv";
 
 export type FleetCollection = {
     [key : string] : TargetCollection
@@ -39,16 +41,33 @@ export class Dataset
     /**
      * Add Orbit State Vector to the dataset.
      * 
-     * @param {string} fleet 
+     * @param {Osv} osv 
+     *      The OSV as an Osv object.
+     * @param {string} fleetName 
+     *      Name of the fleet.
      */
-    addOsv(fleet : string)
+    addOsv(osv : Osv, fleetName : string)
     {
-        // TODO
+        if (fleetName in this.fleetCollection)
+        {
+            this.fleetCollection[fleetName].addTarget(osv.toJson());
+        }
     }
 
-    addKepler(fleet : string)
+    /**
+     * Add Keplerian elements to the dataset.
+     * 
+     * @param {Kepler} kepler 
+     *      The elements as a Kepler object.
+     * @param {string} fleetName 
+     *      Name of the fleet.
+     */
+    addKepler(kepler : Kepler, fleetName : string)
     {
-        // TODO
+        if (fleetName in this.fleetCollection)
+        {
+            this.fleetCollection[fleetName].addTarget(kepler.toJson());
+        }
     }
 
     /**
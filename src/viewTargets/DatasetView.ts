@@ -1,6 +1,8 @@
 import { TargetCollection, TargetInfo, TargetInfoCollection, TargetInfoField } from "./Target";
 import { Dataset } from "./Dataset";
 import { Tle } from "../Tle";
+import { Kepler } from "../Kepler";
+import { Osv } from "../Osv";
 import { IVisibility } from "../IVisibility";
 import { TimeView } from "../TimeView";
 /**
@@ -45,6 +47,18 @@ export class DatasetView implements IVisibility
     private elementTleEnterButton  : HTMLElement;
     private elementTleCancelButton : HTMLElement;
 
+    // Keplerian elements dialog elements.
+    private elementKeplerContainer    : HTMLElement;
+    private elementKeplerListInput    : HTMLTextAreaElement;
+    private elementKeplerEnterButton  : HTMLElement;
+    private elementKeplerCancelButton : HTMLElement;
+
+    // OSV dialog elements.
+    private elementOsvContainer    : HTMLElement;
+    private elementOsvListInput    : HTMLTextAreaElement;
+    private elementOsvEnterButton  : HTMLElement;
+    private elementOsvCancelButton : HTMLElement;
+
     // The current fleet.
     private currentFleet : string;
 
@@ -149,6 +163,169 @@ export class DatasetView implements IVisibility
         this.elementTleListInput.value = "";
     }
 
+    setKeplerElements(elementKeplerContainer : string, 
+        elementKeplerListInput : string,
+        elementKeplerEnterButton : string,
+        elementKeplerCancelButton : string)
+    {
+        function getElement(id : string) : HTMLElement
+        {
+            const elem : HTMLElement | null = document.getElementById(id);
+            if (elem === null)
+            {
+                throw Error("Element \"" + id + "\" not found!");
+            }
+            return elem;
+        }
+        this.elementKeplerContainer = getElement(elementKeplerContainer);
+        this.elementKeplerListInput = <HTMLTextAreaElement>getElement(elementKeplerListInput);
+        this.elementKeplerEnterButton = getElement(elementKeplerEnterButton);
+        this.elementKeplerCancelButton = getElement(elementKeplerCancelButton);
+
+        this.elementKeplerEnterButton.addEventListener("click", this.keplerDialogEnter.bind(this));
+        this.elementKeplerCancelButton.addEventListener("click", this.keplerDialogCancel.bind(this));
+    }
+
+    /**
+     * Handle Enter button click in the Keplerian elements dialog. Each non-empty line
+     * contains the comma-separated elements of one target.
+     */
+    keplerDialogEnter()
+    {
+        console.log("keplerDialogEnter");
+        this.elementKeplerContainer.style.visibility = "hidden";
+
+        const lines : string[] = this.elementKeplerListInput.value.split('\n');
+
+        for (let indLine = 0; indLine < lines.length; indLine++)
+        {
+            const line : string = lines[indLine];
+
+            if (line.trim().length == 0)
+            {
+                continue;
+            }
+
+            let kepler : Kepler;
+            try 
+            {
+                kepler = Kepler.fromLine(line);
+            }
+            catch (e : any)
+            {
+                console.log("Invalid Keplerian elements: " + e.message);
+                continue;
+            }
+            const json : TargetInfo = kepler.toJson();
+
+            const fleetData : TargetCollection = this.dataset.getFleet(this.currentFleet);
+            if (fleetData.containsTarget(json))
+            {
+                console.log("Target " + json.OBJECT_ID + " already contained in the dataset.");
+            }
+            else 
+            {
+                this.dataset.addKepler(kepler, this.currentFleet);
+            }
+        }
+
+        this.elementKeplerListInput.value = "";
+        this.update();
+    }
+
+    /**
+     * Handle Cancel button click in the Keplerian elements dialog.
+     */
+    keplerDialogCancel()
+    {
+        console.log("keplerDialogCancel");
+        this.elementKeplerContainer.style.visibility = "hidden";
+        this.elementKeplerListInput.value = "";
+    }
+
+    setOsvElements(elementOsvContainer : string, 
+        elementOsvListInput : string,
+        elementOsvEnterButton : string,
+        elementOsvCancelButton : string)
+    {
+        function getElement(id : string) : HTMLElement
+        {
+            const elem : HTMLElement | null = document.getElementById(id);
+            if (elem === null)
+            {
+                throw Error("Element \"" + id + "\" not found!");
+            }
+            return elem;
+        }
+        this.elementOsvContainer = getElement(elementOsvContainer);
+        this.elementOsvListInput = <HTMLTextAreaElement>getElement(elementOsvListInput);
+        this.elementOsvEnterButton = getElement(elementOsvEnterButton);
+        this.elementOsvCancelButton = getElement(elementOsvCancelButton);
+
+        this.elementOsvEnterButton.addEventListener("click", this.osvDialogEnter.bind(this));
+        this.elementOsvCancelButton.addEventListener("click", this.osvDialogCancel.bind(this));
+    }
+
+    /**
+     * Handle Enter button click in the OSV dialog. Each non-empty line contains the
+     * comma-separated OSV of one target. Existing OSV targets with the same key are 
+     * replaced so that the dialog can be used to edit them.
+     */
+    osvDialogEnter()
+    {
+        console.log("osvDialogEnter");
+        this.elementOsvContainer.style.visibility = "hidden";
+
+        const lines : string[] = this.elementOsvListInput.value.split('\n');
+
+        for (let indLine = 0; indLine < lines.length; indLine++)
+        {
+            const line : string = lines[indLine];
+
+            if (line.trim().length == 0)
+            {
+                continue;
+            }
+
+            let osv : Osv;
+            try 
+            {
+                osv = Osv.fromLine(line);
+            }
+            catch (e : any)
+            {
+                console.log("Invalid OSV: " + e.message);
+                continue;
+            }
+            const json : TargetInfo = osv.toJson();
+
+            const fleetData : TargetCollection = this.dataset.getFleet(this.currentFleet);
+            if (fleetData.containsTarget(json))
+            {
+                if (fleetData.getTarget(fleetData.getKey(json))["TYPE"] != "OSV")
+                {
+                    console.log("Target " + json.OBJECT_ID + " already contained in the dataset.");
+                    continue;
+                }
+                fleetData.removeTarget(fleetData.getKey(json));
+            }
+            this.dataset.addOsv(osv, this.currentFleet);
+        }
+
+        this.elementOsvListInput.value = "";
+        this.update();
+    }
+
+    /**
+     * Handle Cancel button click in the OSV dialog.
+     */
+    osvDialogCancel()
+    {
+        console.log("osvDialogCancel");
+        this.elementOsvContainer.style.visibility = "hidden";
+        this.elementOsvListInput.value = "";
+    }
+
     /**
      * Set HTML element ids for all dialog elements.
      * @param {string} elementDialog
@@ -296,6 +473,7 @@ export class DatasetView implements IVisibility
     selectTarget(fleet : string, target : string)
     {
         console.log("selectTarget " + fleet + " " + target);
+        this.currentTarget = target;
 
         const targetStr : string = JSON.stringify(this.dataset.getFleet(fleet).getTarget(target)).replace(/\,/gi, ",&#10;");
         this.elementDatasetText.innerHTML = targetStr;
@@ -574,10 +752,24 @@ export class DatasetView implements IVisibility
     addDataOsv()
     {
         console.log("addDateOsv");
+
+        // Fill the dialog with the selected OSV target for editing.
+        const fleetData : TargetCollection = this.dataset.getFleet(this.currentFleet);
+        if (this.currentTarget !== undefined && fleetData.containsKey(this.currentTarget))
+        {
+            const targetInfo : TargetInfo = fleetData.getTarget(this.currentTarget);
+
+            if (targetInfo["TYPE"] == "OSV")
+            {
+                this.elementOsvListInput.value = Osv.fromJson(targetInfo).toLine();
+            }
+        }
+        this.elementOsvContainer.style.visibility = "visible";
     }
 
     addDataKepler()
     {
         console.log("addDateKepler");
+        this.elementKeplerContainer.style.visibility = "visible";
     }
 }
\ No newline at end of file
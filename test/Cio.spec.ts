@@ -0,0 +1,97 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Cio, CipData} from '../src/computation/Cio';
+import {Frame, Frames, OsvFrame} from '../src/computation/Frames';
+import {MathUtils} from '../src/computation/MathUtils';
+import {Nutation, NutationData} from '../src/computation/Nutation';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+
+// The reference values are from the test program of the IAU SOFA library.
+describe('Cio', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+
+    it('IAU 2000B nutation', function() {
+        const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(2453736.5, TimeConvention.TIME_TDB, false);
+        const nutData : NutationData = Nutation.iau2000b(timeStamp);
+
+        assert.ok(Math.abs(MathUtils.deg2Rad(nutData.dpsi) + 0.9632552291148362783e-5) < 1e-13);
+        assert.ok(Math.abs(MathUtils.deg2Rad(nutData.deps) - 0.4063197106621159367e-4) < 1e-13);
+    });
+
+    it('IAU 2000A nutation', function() {
+        const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(2453736.5, TimeConvention.TIME_TDB, false);
+        const nutData : NutationData = Nutation.iau2000a(timeStamp);
+
+        assert.ok(Math.abs(MathUtils.deg2Rad(nutData.dpsi) + 0.9630909107115518431e-5) < 1e-15);
+        assert.ok(Math.abs(MathUtils.deg2Rad(nutData.deps) - 0.4063239174001678710e-4) < 1e-15);
+    });
+
+    it('Precession angles', function() {
+        const [gamma, phi, psi, eps] = Cio.precessionAngles(2450124.4999);
+
+        assert.ok(Math.abs(MathUtils.deg2Rad(gamma) + 0.2243387670997995690e-5) < 1e-14);
+        assert.ok(Math.abs(MathUtils.deg2Rad(phi) - 0.4091014602391312808) < 1e-12);
+        assert.ok(Math.abs(MathUtils.deg2Rad(psi) + 0.9501954178013031895e-3) < 1e-14);
+        assert.ok(Math.abs(MathUtils.deg2Rad(eps) - 0.4091014316587367491) < 1e-12);
+    });
+
+    it('CIP coordinates and CIO locator', function() {
+        const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(2453736.5, TimeConvention.TIME_TDB, false);
+        const cipData : CipData = Cio.cipCoordinates(timeStamp, Nutation.iau2000b(timeStamp));
+
+        // IAU 2000B agrees with the IAU 2006/2000A values within a milliarcsecond.
+        assert.ok(Math.abs(MathUtils.deg2Rad(cipData.X) - 0.5791308486706010975e-3) < 5e-9);
+        assert.ok(Math.abs(MathUtils.deg2Rad(cipData.Y) - 0.4020579816732958141e-4) < 5e-9);
+        const cipData2000A : CipData = Cio.cipCoordinates(timeStamp, Nutation.iau2000a(timeStamp));
+        assert.ok(Math.abs(MathUtils.deg2Rad(cipData2000A.X) - 0.5791308486706010975e-3) < 5e-11);
+        assert.ok(Math.abs(MathUtils.deg2Rad(cipData2000A.Y) - 0.4020579816732958141e-4) < 5e-11);
+
+        // The truncated series is accurate to a few microarcseconds.
+        const s : number = Cio.cioLocator(2453736.5, MathUtils.rad2Deg(0.5791308486706011000e-3),
+            MathUtils.rad2Deg(0.4020579816732961219e-4));
+        assert.ok(Math.abs(MathUtils.deg2Rad(s) + 0.1220032213076463117e-7) < 1e-11);
+
+        // Celestial pole offsets are added to the coordinates.
+        const cipOffset : CipData = Cio.cipCoordinates(timeStamp, Nutation.iau2000b(timeStamp), 1e-7, -2e-7);
+        assert.ok(Math.abs(cipOffset.X - cipData.X - 1e-7) < 1e-15);
+        assert.ok(Math.abs(cipOffset.Y - cipData.Y + 2e-7) < 1e-15);
+    });
+
+    it('Earth Rotation Angle', function() {
+        assert.ok(Math.abs(MathUtils.deg2Rad(Cio.earthRotationAngle(2454388.5)) - 0.4022837240028158102) < 1e-12);
+    });
+
+    it('Transformations', function() {
+        const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(2459000.5, TimeConvention.TIME_UTC, true);
+        const cipData : CipData = Cio.cipCoordinates(timeStamp, Nutation.iau2000b(timeStamp));
+        const osvJ2000 : OsvFrame = {
+            frame : Frame.FRAME_J2000,
+            timeStamp : timeStamp,
+            position : [7000e3, 1000e3, 2000e3],
+            velocity : [1000.0, 7000.0, 500.0]
+        };
+
+        const osvCirs : OsvFrame = Frames.coordJ2000Cirs(osvJ2000, cipData);
+        const osvTirs : OsvFrame = Frames.coordCirsTirs(osvCirs);
+        const osvEfi : OsvFrame = Frames.coordTirsEfi(osvTirs);
+        assert.equal(osvCirs.frame, Frame.FRAME_CIRS);
+        assert.equal(osvTirs.frame, Frame.FRAME_TIRS);
+        assert.equal(osvEfi.frame, Frame.FRAME_EFI);
+        assert.deepEqual(Frames.coordJ2000EfiCio(osvJ2000, cipData), osvEfi);
+
+        // Inverse transformations.
+        const osvInverse : OsvFrame = Frames.coordEfiJ2000Cio(osvEfi, cipData);
+        assert.equal(osvInverse.frame, Frame.FRAME_J2000);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvInverse.position, osvJ2000.position)) < 1e-6);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvInverse.velocity, osvJ2000.velocity)) < 1e-9);
+
+        // The equinox-based IAU 1976/1980 chain agrees within 0.1 arcseconds.
+        const nutData : NutationData = Nutation.iau1980(timeStamp);
+        const osvEfiEquinox : OsvFrame = Frames.coordPefEfi(Frames.coordTodPef(
+            Frames.coordModTod(Frames.coordJ2000Mod(osvJ2000), nutData), nutData));
+        const angle : number = MathUtils.acosd(MathUtils.dot(osvEfi.position, osvEfiEquinox.position)
+            / (MathUtils.norm(osvEfi.position) * MathUtils.norm(osvEfiEquinox.position)));
+        assert.ok(angle * 3600.0 < 0.1);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvEfi.velocity, osvEfiEquinox.velocity)) < 0.01);
+    });
+});
@@ -0,0 +1,99 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {CollisionProbability, EncounterPlane} from '../src/computation/CollisionProbability';
+import {Frame, OsvFrame} from '../src/computation/Frames';
+import {TimeCorrelation, TimeConvention} from '../src/computation/TimeCorrelation';
+import {MathUtils} from '../src/computation/MathUtils';
+
+describe('CollisionProbability', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const timeStamp = timeCorrelation.computeTimeStamp(2460095.0, TimeConvention.TIME_UT1, false);
+    const osvPrimary : OsvFrame = {frame : Frame.FRAME_J2000, timeStamp : timeStamp,
+        position : [7000e3, 0.0, 0.0], velocity : [0.0, 7500.0, 0.0]};
+    const osvSecondary : OsvFrame = {frame : Frame.FRAME_J2000, timeStamp : timeStamp,
+        position : [7000e3, 0.0, 300.0], velocity : [0.0, 0.0, 7500.0]};
+    const diagonal = (a : number, b : number, c : number) : number[][] => [[a, 0, 0], [0, b, 0], [0, 0, c]];
+
+    it('Error function', function() {
+        assert.ok(Math.abs(CollisionProbability.erfc(0.0) - 1.0) < 1e-7);
+        assert.ok(Math.abs(CollisionProbability.erfc(1.0) - 0.157299207050285) < 1e-7);
+        assert.ok(Math.abs(CollisionProbability.erfc(-1.0) - 1.842700792949715) < 1e-7);
+        assert.ok(Math.abs(CollisionProbability.erfc(5.0) / 1.537459794428035e-12 - 1.0) < 1e-6);
+    });
+
+    it('Encounter plane', function() {
+        const encounter : EncounterPlane = CollisionProbability.encounterPlane(
+            osvPrimary, diagonal(100.0, 200.0, 300.0), osvSecondary, diagonal(10.0, 20.0, 30.0));
+
+        // The relative velocity is along [0, -1, 1] so that the miss vector is along
+        // [0, 1, 1], the y-axis along [-1, 0, 0] and the covariance along the relative
+        // velocity is dropped.
+        assert.ok(Math.abs(encounter.relativeVelocity - 7500.0 * Math.SQRT2) < 1e-6);
+        assert.ok(Math.abs(encounter.missDistance - 300.0 / Math.SQRT2) < 1e-6);
+        assert.ok(Math.abs(encounter.xAxis[1] - encounter.xAxis[2]) < 1e-12);
+        assert.ok(Math.abs(MathUtils.dot(encounter.xAxis, encounter.yAxis)) < 1e-12);
+        assert.ok(Math.abs(encounter.covariance[0][0] - 275.0) < 1e-9);
+        assert.ok(Math.abs(encounter.covariance[0][1]) < 1e-9);
+        assert.ok(Math.abs(encounter.covariance[1][1] - 110.0) < 1e-9);
+
+        assert.throws(() => CollisionProbability.encounterPlane(osvPrimary, diagonal(1, 1, 1),
+            {...osvSecondary, frame : Frame.FRAME_TEME}, diagonal(1, 1, 1)));
+        assert.throws(() => CollisionProbability.encounterPlane(osvPrimary, diagonal(1, 1, 1),
+            {...osvSecondary, velocity : osvPrimary.velocity}, diagonal(1, 1, 1)));
+    });
+
+    it('Foster', function() {
+        const sigma : number = 100.0;
+        const radius : number = 20.0;
+
+        // Zero miss distance with isotropic covariance.
+        const head : EncounterPlane = {xAxis : [1, 0, 0], yAxis : [0, 1, 0], missDistance : 0.0,
+            relativeVelocity : 1.0, covariance : [[sigma * sigma, 0.0], [0.0, sigma * sigma]]};
+        const expHead : number = 1.0 - Math.exp(-0.5 * radius * radius / (sigma * sigma));
+        assert.ok(Math.abs(CollisionProbability.computeFoster(head, radius) / expHead - 1.0) < 1e-6);
+
+        // Small hard-body radius compared to the correlated covariance.
+        const covariance : number[][] = [[200.0 * 200.0, 3000.0], [3000.0, 50.0 * 50.0]];
+        const encounter : EncounterPlane = {xAxis : [1, 0, 0], yAxis : [0, 1, 0], missDistance : 300.0,
+            relativeVelocity : 1.0, covariance : covariance};
+        const det : number = covariance[0][0] * covariance[1][1] - covariance[0][1] * covariance[0][1];
+        const radiusSmall : number = 0.1;
+        const expSmall : number = radiusSmall * radiusSmall / (2.0 * Math.sqrt(det))
+            * Math.exp(-0.5 * 300.0 * 300.0 * covariance[1][1] / det);
+        assert.ok(Math.abs(CollisionProbability.computeFoster(encounter, radiusSmall) / expSmall - 1.0) < 1e-4);
+
+        assert.throws(() => CollisionProbability.computeFoster({...encounter,
+            covariance : [[1.0, 2.0], [2.0, 1.0]]}, radius));
+    });
+
+    it('Maximum', function() {
+        const miss : number = 500.0;
+        const radius : number = 5.0;
+        const pcMax : number = CollisionProbability.computeMaximum(miss, radius);
+        assert.equal(CollisionProbability.computeMaximum(4.0, radius), 1.0);
+
+        // Isotropic covariance with the worst-case standard deviation.
+        const pc = (sigma : number) : number => CollisionProbability.computeFoster({xAxis : [1, 0, 0],
+            yAxis : [0, 1, 0], missDistance : miss, relativeVelocity : 1.0,
+            covariance : [[sigma * sigma, 0.0], [0.0, sigma * sigma]]}, radius);
+        assert.ok(Math.abs(pc(miss / Math.SQRT2) / pcMax - 1.0) < 1e-3);
+        assert.ok(pc(0.5 * miss) < pcMax);
+        assert.ok(pc(miss) < pcMax);
+    });
+
+    it('RTN covariance', function() {
+        const cov : number[][] = CollisionProbability.covarianceRtn(osvPrimary, diagonal(1.0, 4.0, 9.0));
+        const expected : number[][] = diagonal(1.0, 4.0, 9.0);
+        for (let indRow = 0; indRow < 3; indRow++)
+        {
+            for (let indCol = 0; indCol < 3; indCol++)
+            {
+                assert.ok(Math.abs(cov[indRow][indCol] - expected[indRow][indCol]) < 1e-12);
+            }
+        }
+
+        const covSecondary : number[][] = CollisionProbability.covarianceRtn(osvSecondary, diagonal(1.0, 4.0, 9.0));
+        assert.ok(Math.abs(covSecondary[2][2] - 4.0) < 1e-6);
+        assert.ok(Math.abs(covSecondary[1][1] - 9.0) < 1e-6);
+    });
+});
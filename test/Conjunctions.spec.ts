@@ -0,0 +1,91 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Tle} from '../src/Tle';
+import {Kepler} from '../src/Kepler';
+import {Propagation} from '../src/Propagation';
+import {Conjunction, ConjunctionScreening, defaultConjunctionConfig} from '../src/Conjunctions';
+import {Dataset} from '../src/viewTargets/Dataset';
+import {TimeCorrelation} from '../src/computation/TimeCorrelation';
+import {OsvFrame} from '../src/computation/Frames';
+import {MathUtils} from '../src/computation/MathUtils';
+
+describe('Conjunctions', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const tle : Tle = Tle.fromLines([
+        "ISS (ZARYA)",
+        "1 25544U 98067A   23150.59480556  .00010989  00000-0  20253-3 0  9995",
+        "2 25544  51.6407  81.1133 0005418  37.4583 105.5339 15.49869634399266"
+    ]);
+    const JTtca : number = tle.jtUt1Epoch + 0.1;
+
+    // Orbit well above the ISS.
+    const keplerFar : Kepler = Kepler.fromJson({
+        "TYPE" : "KEPLER", "OBJECT_NAME" : "KEPLER", "OBJECT_ID" : "2023-900A",
+        "EPOCH" : "2023-05-30T12:00:00.000000", "FRAME" : "J2000", "SEMI_MAJOR_AXIS" : 8000.0,
+        "ECCENTRICITY" : 0.1, "INCLINATION" : 45.0, "RA_OF_ASC_NODE" : 30.0,
+        "ARG_OF_PERICENTER" : 60.0, "MEAN_ANOMALY" : 90.0});
+
+    const dataset : Dataset = new Dataset("OBJECT_ID");
+    dataset.addFleet("default");
+    dataset.addTle(tle, "default");
+    dataset.addKepler(keplerFar, "default");
+    const propagationIss : Propagation = new Propagation(dataset, timeCorrelation);
+    propagationIss.init();
+    const issName : string = Object.keys(propagationIss.getPropagationData())[0];
+
+    // Orbit crossing the orbit of the ISS at the position of the ISS at JTtca. The
+    // velocity is rotated by 10 degrees around the radial direction.
+    const osvIss : OsvFrame = propagationIss.getPropagationData()[issName].compute(JTtca);
+    const uRadial : number[] = MathUtils.vecMul(osvIss.position, 1.0 / MathUtils.norm(osvIss.position));
+    const velocity : number[] = MathUtils.vecSum(MathUtils.vecMul(osvIss.velocity, MathUtils.cosd(10.0)),
+        MathUtils.vecMul(MathUtils.cross(uRadial, osvIss.velocity), MathUtils.sind(10.0)));
+    const keplerCrossing : Kepler = Kepler.fromOsv({...osvIss, velocity : velocity});
+    keplerCrossing.title = "CROSSING";
+    keplerCrossing.objectId = "2023-901A";
+    dataset.addKepler(keplerCrossing, "default");
+
+    const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+    propagation.init();
+
+    it('Target', function() {
+        const screening : ConjunctionScreening = new ConjunctionScreening(propagation);
+        const conjunctions : Conjunction[] = screening.screenTarget(issName, JTtca - 0.01, JTtca + 0.01);
+
+        assert.equal(conjunctions.length, 1);
+        const conjunction : Conjunction = conjunctions[0];
+        assert.equal(conjunction.primaryName, issName);
+        assert.equal(conjunction.secondaryName, "2023-901A");
+        assert.ok(Math.abs(conjunction.JTtca - JTtca) * 86400.0 < 0.1);
+        assert.ok(conjunction.missDistance < 10.0);
+
+        const speed : number = MathUtils.norm(osvIss.velocity);
+        assert.ok(Math.abs(conjunction.relativeVelocity - 2.0 * speed * MathUtils.sind(5.0)) < 1.0);
+
+        assert.throws(() => screening.screenTarget("UNKNOWN", JTtca - 0.01, JTtca + 0.01));
+    });
+
+    it('All', function() {
+        const screening : ConjunctionScreening = new ConjunctionScreening(propagation,
+            {...defaultConjunctionConfig, threshold : 200e3});
+        const conjunctions : Conjunction[] = screening.screenAll(JTtca - 0.01, JTtca + 0.01);
+
+        assert.equal(conjunctions.length, 1);
+        const conjunction : Conjunction = conjunctions[0];
+        assert.ok(Math.abs(conjunction.JTtca - JTtca) * 86400.0 < 0.1);
+        assert.ok(Math.abs(conjunction.radial) < 10.0);
+        assert.ok(Math.abs(conjunction.inTrack) < 10.0);
+        assert.ok(Math.abs(conjunction.crossTrack) < 10.0);
+    });
+
+    it('Components', function() {
+        const osvPrimary : OsvFrame = {...osvIss, position : [7000e3, 0, 0], velocity : [0, 7500.0, 0]};
+        const osvSecondary : OsvFrame = {...osvIss, position : [7001e3, 2e3, 3e3], velocity : [0, 0, 7500.0]};
+        const conjunction : Conjunction = ConjunctionScreening.createConjunction("A", "B", osvPrimary, osvSecondary);
+
+        assert.ok(Math.abs(conjunction.radial - 1e3) < 1e-6);
+        assert.ok(Math.abs(conjunction.inTrack - 2e3) < 1e-6);
+        assert.ok(Math.abs(conjunction.crossTrack - 3e3) < 1e-6);
+        assert.ok(Math.abs(conjunction.missDistance - Math.sqrt(14e6)) < 1e-6);
+        assert.ok(Math.abs(conjunction.relativeVelocity - 7500.0 * Math.SQRT2) < 1e-6);
+    });
+});
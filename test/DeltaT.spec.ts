@@ -0,0 +1,70 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {DeltaT} from '../src/computation/DeltaT';
+import {GregorianTime, JulianTime} from '../src/computation/JulianTime';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+
+describe('DeltaT', function() {
+    it('Espenak-Meeus polynomials', function() {
+        // Values from the Five Millennium Canon of Solar Eclipses.
+        const expected : number[][] = [
+            [-1000, 25400], [-500, 17190], [0, 10580], [500, 5710], [1000, 1570],
+            [1500, 200], [1600, 120], [1700, 9], [1800, 14], [1900, -3], [1950, 29],
+            [2000, 64]];
+
+        for (let [year, deltaT] of expected)
+        {
+            assert.ok(Math.abs(DeltaT.espenakMeeus(year) - deltaT) < 0.01 * Math.abs(deltaT) + 1.0);
+        }
+
+        // The expressions are continuous at the boundaries of the intervals.
+        for (let year of [-500, 500, 1600, 1700, 1800, 1860, 1900, 1920, 1941, 1961, 1986, 2005, 2050, 2150])
+        {
+            assert.ok(Math.abs(DeltaT.espenakMeeus(year - 1e-6) - DeltaT.espenakMeeus(year + 1e-6)) < 1.0);
+        }
+    });
+
+    it('Historical time correlation', function() {
+        const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+        const JTut1 : number = JulianTime.timeJulianYmdhms(1000, 1, 1, 12, 0, 0);
+        const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(JTut1, TimeConvention.TIME_UT1, false);
+
+        // Delta-T is continuous with the data at the epoch of TAI.
+        const deltaT : number = (timeStamp.JTtt - timeStamp.JTut1) * 86400.0;
+        assert.ok(Math.abs(deltaT - DeltaT.deltaT(JTut1)) < 2.0);
+
+        const timeStampTt : TimeStamp = timeCorrelation.computeTimeStamp(timeStamp.JTtt, TimeConvention.TIME_TT, false);
+        assert.ok(Math.abs(timeStampTt.JTut1 - JTut1) * 86400.0 < 1e-3);
+
+        // UTC is identical to UT1 before the table of leap seconds.
+        assert.ok(Math.abs(timeStamp.JTutc - JTut1) * 86400.0 < 1e-3);
+        const timeStampUtc : TimeStamp = timeCorrelation.computeTimeStamp(JTut1, TimeConvention.TIME_UTC, false);
+        assert.ok(Math.abs(timeStampUtc.JTut1 - timeStampUtc.JTutc) * 86400.0 < 1.0);
+        assert.ok(Math.abs((timeStampUtc.JTtt - timeStampUtc.JTut1) * 86400.0 - DeltaT.deltaT(JTut1)) < 2.0);
+        assert.ok(Math.abs(timeCorrelation.ut1Utc(JTut1)) < 1e-3);
+        assert.ok(Math.abs(timeCorrelation.correlationUt1Utc(JTut1) - JTut1) * 86400.0 < 1e-3);
+
+        const JTdata : number = JulianTime.dateJulianYmd(1958, 1, 1);
+        assert.ok(Math.abs(timeCorrelation.ut1Tai(JTdata - 1e-6) - timeCorrelation.ut1Tai(JTdata + 1e-6)) < 1e-3);
+    });
+
+    it('Julian calendar', function() {
+        // Meeus - Astronomical Algorithms - Chapter 7.
+        assert.equal(JulianTime.dateJulianYmd(1582, 10, 4), 2299159.5);
+        assert.equal(JulianTime.dateJulianYmd(1582, 10, 15), 2299160.5);
+        assert.equal(JulianTime.timeJulianYmdhms(333, 1, 27, 12, 0, 0), 1842713.0);
+        assert.equal(JulianTime.timeJulianYmdhms(-1000, 7, 12, 12, 0, 0), 1356001.0);
+        assert.equal(JulianTime.dateJulianYmd(-4712, 1, 1), -0.5);
+
+        const gregorian : GregorianTime = JulianTime.timeGregorian(1507900.13);
+        assert.equal(gregorian.year, -584);
+        assert.equal(gregorian.month, 5);
+        assert.equal(gregorian.mday, 28);
+
+        assert.equal(JulianTime.timeIso(1842713.0), "0333-01-27T12:00:00.000000");
+        assert.equal(JulianTime.timeIso(1356001.0), "-1000-07-12T12:00:00.000000");
+        assert.equal(JulianTime.timeJulianIso("-1000-07-12T12:00:00.000000"), 1356001.0);
+        assert.equal(JulianTime.timeJulianIso("1582-10-04T00:00:00") + 1.0,
+            JulianTime.timeJulianIso("1582-10-15T00:00:00"));
+    });
+});
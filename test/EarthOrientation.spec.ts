@@ -0,0 +1,114 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {EarthOrientation, EopCoverage, EopFormat, EopRecord} from '../src/computation/EarthOrientation';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+
+// Excerpt in the finals2000A layout around the leap second at the end of 2016.
+const finals2000A : string = [
+'161230 57752.00 I  0.046900 0.000090  0.285900 0.000090  I-0.4075000 0.0000100  1.0600 0.0100  I     0.123    0.100    -0.110    0.100',
+'161231 57753.00 I  0.048200 0.000090  0.285600 0.000090  I-0.4086000 0.0000100  1.1200 0.0100  I     0.125    0.100    -0.108    0.100',
+'17 1 1 57754.00 I  0.049600 0.000090  0.285400 0.000090  I 0.5921000 0.0000100  1.1800 0.0100  I     0.127    0.100    -0.106    0.100',
+'17 1 2 57755.00 P  0.051000 0.000090  0.285100 0.000090  P 0.5909000 0.0000100                 P     0.129    0.100    -0.104    0.100',
+'17 1 3 57756.00 P  0.052400 0.000090  0.284900 0.000090  P 0.5897000 0.0000100',
+'17 1 4 57757.00'
+].join('\n');
+
+const c04Layout14 : string = [
+'      FORMAT(3(I4),I7,2(F11.6),2(F12.7),2(F11.6),2(F11.6),2(F11.7),2(F12.6))',
+'##################################################################################',
+'',
+'Date      MJD      x          y        UT1-UTC       LOD         dX        dY',
+'2017   1   1  57754   0.049590   0.285394   0.5920870   0.0011800   0.000127  -0.000106',
+'2017   1   2  57755   0.050961   0.285095   0.5908830   0.0012020   0.000129  -0.000104'
+].join('\n');
+
+const c04Layout20 : string = [
+'# YR  MM  DD  HH       MJD        x(")        y(")  UT1-UTC(s)       dX(")      dY(")       xrt(")      yrt(")      LOD(s)',
+'2017  01  01  00  57754.00    0.049590    0.285394   0.5920870    0.000127   -0.000106    0.001401   -0.000298   0.0011800'
+].join('\n');
+
+describe('EarthOrientation', function() {
+    it('Finals 2000A', function() {
+        const records : EopRecord[] = EarthOrientation.parse(finals2000A, EopFormat.FINALS_2000A);
+
+        assert.equal(records.length, 5);
+        assert.equal(records[0].JT, 2457752.5);
+        assert.equal(records[2].polarX, 0.0496);
+        assert.equal(records[2].polarY, 0.2854);
+        assert.equal(records[2].ut1Utc, 0.5921);
+        assert.equal(records[2].lod, 1.18);
+        assert.equal(records[2].dX, 0.127);
+        assert.equal(records[2].dY, -0.106);
+        assert.equal(records[2].predicted, false);
+        assert.equal(records[3].lod, null);
+        assert.equal(records[3].predicted, true);
+        assert.equal(records[4].dX, null);
+
+        const recordsFinals : EopRecord[] = EarthOrientation.parse(finals2000A, EopFormat.FINALS_1980);
+        assert.equal(recordsFinals[2].dX, null);
+        assert.equal(recordsFinals[2].dY, null);
+
+        const coverage : EopCoverage = EarthOrientation.coverage(records);
+        assert.equal(coverage.minJD, 2457752.5);
+        assert.equal(coverage.maxJD, 2457756.5);
+        assert.equal(coverage.maxObservedJD, 2457754.5);
+        assert.equal(coverage.numRecords, 5);
+        assert.equal(coverage.numPredicted, 2);
+    });
+
+    it('C04', function() {
+        const records14 : EopRecord[] = EarthOrientation.parse(c04Layout14, EopFormat.C04);
+        const records20 : EopRecord[] = EarthOrientation.parse(c04Layout20, EopFormat.C04);
+
+        assert.equal(records14.length, 2);
+        assert.equal(records20.length, 1);
+
+        for (let record of [records14[0], records20[0]])
+        {
+            assert.equal(record.JT, 2457754.5);
+            assert.equal(record.polarX, 0.04959);
+            assert.equal(record.polarY, 0.285394);
+            assert.equal(record.ut1Utc, 0.592087);
+            assert.ok(Math.abs(<number> record.lod - 1.18) < 1e-9);
+            assert.ok(Math.abs(<number> record.dX - 0.127) < 1e-9);
+            assert.ok(Math.abs(<number> record.dY + 0.106) < 1e-9);
+            assert.equal(record.predicted, false);
+        }
+    });
+
+    it('Loading to time correlation', function() {
+        const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+        assert.equal(timeCorrelation.getEopCoverage(), null);
+        assert.equal(timeCorrelation.lengthOfDay(2457754.5), 0.0);
+
+        const coverage : EopCoverage = timeCorrelation.loadEopText(finals2000A, EopFormat.FINALS_2000A);
+        assert.deepEqual(timeCorrelation.getEopCoverage(), coverage);
+
+        // The leap second increases TAI - UTC from 36 to 37 seconds.
+        const before : TimeStamp = timeCorrelation.computeTimeStamp(2457753.75, TimeConvention.TIME_UTC, true);
+        const after : TimeStamp = timeCorrelation.computeTimeStamp(2457754.75, TimeConvention.TIME_UTC, true);
+        assert.ok(Math.abs((before.JTtai - before.JTutc) * 86400.0 - 36.0) < 1e-3);
+        assert.ok(Math.abs((after.JTtai - after.JTutc) * 86400.0 - 37.0) < 1e-3);
+        assert.ok(Math.abs((after.JTut1 - after.JTutc) * 86400.0 - 0.5918) < 1e-4);
+
+        // UT1 - UTC agrees with the time stamps also at the leap second to the resolution
+        // of the Julian time.
+        const leap : TimeStamp = timeCorrelation.computeTimeStamp(2457754.5, TimeConvention.TIME_UTC, false);
+        assert.ok(Math.abs(timeCorrelation.ut1Utc(2457754.5) - 0.5921) < 1e-4);
+        assert.ok(Math.abs((leap.JTut1 - leap.JTutc) * 86400.0 - timeCorrelation.ut1Utc(2457754.5)) < 1e-4);
+        assert.ok(Math.abs(timeCorrelation.correlationUtcUt1(2457754.5) - leap.JTut1) < 1e-10);
+        assert.ok(Math.abs(timeCorrelation.correlationUt1Utc(leap.JTut1) - leap.JTutc) < 1e-10);
+
+        assert.ok(Math.abs(after.polarDx * 3600.0 - 0.04995) < 1e-6);
+        assert.ok(Math.abs(after.polarDy * 3600.0 - 0.285325) < 1e-6);
+        assert.ok(Math.abs(timeCorrelation.lengthOfDay(2457753.0) - 1.09e-3) < 1e-9);
+
+        const [dX, dY] = timeCorrelation.celestialPoleOffsets(2457754.5);
+        assert.ok(Math.abs(dX * 3600.0e3 - 0.127) < 1e-9);
+        assert.ok(Math.abs(dY * 3600.0e3 + 0.106) < 1e-9);
+
+        // The internal data is kept outside the loaded range.
+        assert.equal(timeCorrelation.getDataUt1Utc().minJD, 2437665.5);
+        assert.equal(timeCorrelation.getDataUt1Utc().maxJD, 2459966.5);
+    });
+});
@@ -0,0 +1,83 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Tle} from '../src/Tle';
+import {Propagation} from '../src/Propagation';
+import {Eclipses, EclipseInterval, IlluminationState, ShadowGeometry} from '../src/Eclipses';
+import {Dataset} from '../src/viewTargets/Dataset';
+import {TimeCorrelation} from '../src/computation/TimeCorrelation';
+
+describe('Eclipses', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const tle : Tle = Tle.fromLines([
+        "ISS (ZARYA)",
+        "1 25544U 98067A   23150.59480556  .00010989  00000-0  20253-3 0  9995",
+        "2 25544  51.6407  81.1133 0005418  37.4583 105.5339 15.49869634399266"
+    ]);
+    const dataset : Dataset = new Dataset("OBJECT_ID");
+    dataset.addFleet("default");
+    dataset.addTle(tle, "default");
+    const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+    propagation.init();
+    const targetName : string = Object.keys(propagation.getPropagationData())[0];
+
+    it('Shadow geometry', function() {
+        const rSun : number[] = [1.496e11, 0.0, 0.0];
+
+        const umbra : ShadowGeometry = Eclipses.shadowGeometry([-7000e3, 0.0, 0.0], rSun, false);
+        assert.equal(umbra.fraction, 1.0);
+        assert.equal(Eclipses.illuminationState(umbra), IlluminationState.UMBRA);
+
+        const sunlit : ShadowGeometry = Eclipses.shadowGeometry([7000e3, 0.0, 0.0], rSun, false);
+        assert.equal(sunlit.fraction, 0.0);
+        assert.equal(Eclipses.illuminationState(sunlit), IlluminationState.SUNLIT);
+
+        // At the distance of the Earth radius from the shadow axis, the center of the 
+        // solar disk is at the limb of the Earth.
+        const limb : ShadowGeometry = Eclipses.shadowGeometry([-7000e3, 6378137.0, 0.0], rSun, false);
+        assert.equal(Eclipses.illuminationState(limb), IlluminationState.PENUMBRA);
+        assert.ok(Math.abs(limb.fraction - 0.5) < 0.02);
+
+        // The polar radius is smaller than the equatorial radius.
+        const limbPolar : ShadowGeometry = Eclipses.shadowGeometry([-7000e3, 0.0, 6370e3], rSun, true);
+        const limbSphere : ShadowGeometry = Eclipses.shadowGeometry([-7000e3, 0.0, 6370e3], rSun, false);
+        assert.ok(limbPolar.fraction < 0.5);
+        assert.ok(limbSphere.fraction > 0.5);
+    });
+
+    it('Intervals', function() {
+        const eclipses : Eclipses = new Eclipses(propagation);
+        const JTstart : number = tle.jtUt1Epoch;
+        const JTend : number = tle.jtUt1Epoch + 0.5;
+        const intervals : EclipseInterval[] = eclipses.compute(targetName, JTstart, JTend);
+        const penumbra : EclipseInterval[] = intervals.filter((interval) => interval.state == IlluminationState.PENUMBRA);
+        const umbra : EclipseInterval[] = intervals.filter((interval) => interval.state == IlluminationState.UMBRA);
+        const oneSecond : number = 1.0 / 86400.0;
+
+        assert.ok(umbra.length >= 6);
+        assert.equal(penumbra.length, umbra.length);
+
+        for (let indInterval = 0; indInterval < umbra.length; indInterval++)
+        {
+            const intervalUmbra : EclipseInterval = umbra[indInterval];
+            const intervalPenumbra : EclipseInterval = penumbra[indInterval];
+
+            if (intervalUmbra.partial)
+            {
+                continue;
+            }
+
+            // The penumbra lasts for several seconds before and after the umbra.
+            assert.ok(intervalPenumbra.JTentry < intervalUmbra.JTentry);
+            assert.ok(intervalPenumbra.JTexit > intervalUmbra.JTexit);
+            assert.ok((intervalUmbra.JTentry - intervalPenumbra.JTentry) / oneSecond < 30.0);
+            assert.ok((intervalUmbra.JTexit - intervalUmbra.JTentry) * 1440.0 > 20.0);
+            assert.ok((intervalUmbra.JTexit - intervalUmbra.JTentry) * 1440.0 < 40.0);
+
+            const shadow = (JT : number) : ShadowGeometry => <ShadowGeometry> eclipses.computeShadow(targetName, JT);
+            assert.equal(shadow(intervalUmbra.JTentry + oneSecond).fraction, 1.0);
+            assert.ok(shadow(intervalUmbra.JTentry - oneSecond).fraction < 1.0);
+            assert.ok(shadow(intervalPenumbra.JTentry + oneSecond).fraction > 0.0);
+            assert.equal(shadow(intervalPenumbra.JTentry - oneSecond).fraction, 0.0);
+        }
+    });
+});
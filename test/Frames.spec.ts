@@ -0,0 +1,101 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {EnuAngles, Frame, Frames, OsvFrame} from '../src/computation/Frames';
+import {JulianTime} from '../src/computation/JulianTime';
+import {TimeStamp} from '../src/computation/TimeCorrelation';
+import {Nutation, NutationData} from '../src/computation/Nutation';
+
+describe('Frames', function() {
+    // Example from Vallado, Crawford, Hujsak, Kelso - Revisiting Spacetrack Report #3, 2006.
+    const JTutc : number = JulianTime.timeJulianYmdhms(2004, 4, 6, 7, 51, 28.386009);
+    const timeStamp : TimeStamp = {
+        JTutc : JTutc,
+        JTut1 : JTutc - 0.4399619 / 86400.0,
+        JTtai : JTutc + 32.0 / 86400.0,
+        JTtdb : JTutc + 64.184 / 86400.0,
+        JTtt : JTutc + 64.184 / 86400.0,
+        JTgps : JTutc + 13.0 / 86400.0,
+        JTtcg : JTutc + 64.184 / 86400.0,
+        JTtcb : JTutc + 64.184 / 86400.0,
+        unix : (JTutc - 2440587.5) * 86400.0,
+        polarDx : 0.0,
+        polarDy : 0.0
+    };
+    const osvTeme : OsvFrame = {
+        frame : Frame.FRAME_TEME,
+        timeStamp : timeStamp,
+        position : [5094.18016210, 6127.64465950, 6380.34453270],
+        velocity : [-4.746131487, 0.785818041, 5.531931288]
+    };
+
+    it('coordTemePef', function() {
+        const osvPef : OsvFrame = Frames.coordTemePef(osvTeme);
+        const rExp = [-1033.4750313, 7901.3055856, 6380.3445328];
+        const vExp = [-3.225636520, -2.872451450, 5.531924446];
+
+        assert.equal(osvPef.frame, Frame.FRAME_PEF);
+        for (let ind = 0; ind < 3; ind++)
+        {
+            assert.ok(Math.abs(osvPef.position[ind] - rExp[ind]) < 1e-3);
+            assert.ok(Math.abs(osvPef.velocity[ind] - vExp[ind]) < 1e-4);
+        }
+    });
+
+    it('coordPefTeme', function() {
+        const osvOut : OsvFrame = Frames.coordPefTeme(Frames.coordTemePef(osvTeme));
+
+        assert.equal(osvOut.frame, Frame.FRAME_TEME);
+        for (let ind = 0; ind < 3; ind++)
+        {
+            assert.ok(Math.abs(osvOut.position[ind] - osvTeme.position[ind]) < 1e-6);
+            assert.ok(Math.abs(osvOut.velocity[ind] - osvTeme.velocity[ind]) < 1e-9);
+        }
+    });
+
+    it('coordTodPef', function() {
+        const nutData : NutationData = Nutation.iau1980(timeStamp);
+        const osvTod : OsvFrame = Frames.coordTemeTod(osvTeme, nutData);
+        const osvPef : OsvFrame = Frames.coordTodPef(osvTod, nutData);
+        const osvExp : OsvFrame = Frames.coordTemePef(osvTeme);
+        const osvOut : OsvFrame = Frames.coordPefTod(osvPef, nutData);
+
+        for (let ind = 0; ind < 3; ind++)
+        {
+            assert.ok(Math.abs(osvPef.position[ind] - osvExp.position[ind]) < 1e-6);
+            assert.ok(Math.abs(osvPef.velocity[ind] - osvExp.velocity[ind]) < 1e-6);
+            assert.ok(Math.abs(osvOut.position[ind] - osvTod.position[ind]) < 1e-9);
+            assert.ok(Math.abs(osvOut.velocity[ind] - osvTod.velocity[ind]) < 1e-12);
+        }
+    });
+
+    it('coordEnuAzEl', function() {
+        const osvEnu : OsvFrame = {
+            frame : Frame.FRAME_ENU,
+            timeStamp : timeStamp,
+            position : [-400e3, 300e3, 500e3],
+            velocity : [5000.0, 2000.0, -1000.0]
+        };
+        const angles : EnuAngles = Frames.coordEnuAzEl(osvEnu);
+
+        // Compare the rates to central differences along the linear motion.
+        const dt : number = 1e-3;
+        const anglesMinus : EnuAngles = Frames.coordEnuAzEl({...osvEnu, 
+            position : osvEnu.position.map((x, ind) => x - dt * osvEnu.velocity[ind])});
+        const anglesPlus : EnuAngles = Frames.coordEnuAzEl({...osvEnu, 
+            position : osvEnu.position.map((x, ind) => x + dt * osvEnu.velocity[ind])});
+
+        assert.ok(Math.abs(angles.az - Math.atan2(-4, 3) * 180.0 / Math.PI) < 1e-10);
+        assert.ok(Math.abs(angles.el - 45.0) < 1e-10);
+        assert.ok(Math.abs(angles.dazdt - (anglesPlus.az - anglesMinus.az) / (2 * dt)) < 1e-8);
+        assert.ok(Math.abs(angles.deldt - (anglesPlus.el - anglesMinus.el) / (2 * dt)) < 1e-8);
+        assert.ok(Math.abs(angles.ddistdt - (anglesPlus.dist - anglesMinus.dist) / (2 * dt)) < 1e-6);
+
+        const osvOut : OsvFrame = Frames.coordAzElEnu(angles, timeStamp);
+        assert.equal(osvOut.frame, Frame.FRAME_ENU);
+        for (let ind = 0; ind < 3; ind++)
+        {
+            assert.ok(Math.abs(osvOut.position[ind] - osvEnu.position[ind]) < 1e-6);
+            assert.ok(Math.abs(osvOut.velocity[ind] - osvEnu.velocity[ind]) < 1e-9);
+        }
+    });
+});
@@ -0,0 +1,96 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Kepler, KeplerPerturbations} from '../src/Kepler';
+import {KeplerPropagation} from '../src/KeplerPropagators';
+import {NumericalPropagation} from '../src/NumericalPropagators';
+import {defaultForceModelConfig, ForceModelConfig} from '../src/computation/ForceModels';
+import {TimeConvention, TimeCorrelation} from '../src/computation/TimeCorrelation';
+import {Frame, OsvFrame} from '../src/computation/Frames';
+import {MathUtils} from '../src/computation/MathUtils';
+import {TargetInfo} from '../src/viewTargets/Target';
+import {Dataset} from '../src/viewTargets/Dataset';
+import {Propagation, PropagatedOsvData} from '../src/Propagation';
+
+describe('KeplerPropagation', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const json : TargetInfo = {
+        "TYPE"              : "KEPLER",
+        "OBJECT_NAME"       : "MOLNIYA",
+        "OBJECT_ID"         : "2023-900A",
+        "EPOCH"             : "2023-05-30T12:00:00.000000",
+        "FRAME"             : "J2000",
+        "SEMI_MAJOR_AXIS"   : 26600.0,
+        "ECCENTRICITY"      : 0.74,
+        "INCLINATION"       : 63.4,
+        "RA_OF_ASC_NODE"    : 270.0,
+        "ARG_OF_PERICENTER" : 270.0,
+        "MEAN_ANOMALY"      : 10.0,
+        "PERTURBATIONS"     : "NONE"
+    };
+
+    it('Json', function() {
+        const kepler : Kepler = Kepler.fromJson(json);
+        assert.equal(kepler.frame, Frame.FRAME_J2000);
+        assert.equal(kepler.perturbations, KeplerPerturbations.NONE);
+        assert.deepEqual(kepler.toJson(), json);
+
+        const keplerLine : Kepler = Kepler.fromLine(
+            "MOLNIYA, 2023-900A, 2023-05-30T12:00:00.000000, J2000, 26600, 0.74, 63.4, 270, 270, 10, NONE");
+        assert.deepEqual(keplerLine.toJson(), json);
+
+        assert.throws(() => Kepler.fromJson({...json, "FRAME" : "EFI"}));
+        assert.throws(() => Kepler.fromJson({...json, "ECCENTRICITY" : 1.2}));
+    });
+
+    it('Two-body', function() {
+        const kepler : Kepler = Kepler.fromJson(json);
+        const propagation : KeplerPropagation = new KeplerPropagation(kepler, timeCorrelation);
+        const osvEpoch : OsvFrame = propagation.compute(kepler.jtUt1Epoch);
+
+        // Compare to numerical integration without perturbations.
+        const config : ForceModelConfig = {...defaultForceModelConfig,
+            zonalDegree : 0, enableDrag : false, enableSrp : false, enableSun : false, enableMoon : false};
+        const numerical : NumericalPropagation = new NumericalPropagation(osvEpoch, timeCorrelation, config);
+        assert.ok(Math.abs(numerical.getOrbitalPeriod() - propagation.getOrbitalPeriod()) < 1e-9);
+
+        const JT : number = kepler.jtUt1Epoch + 0.3;
+        const osvOut : OsvFrame = propagation.compute(JT);
+        const osvExp : OsvFrame = numerical.compute(JT);
+        assert.equal(osvOut.frame, Frame.FRAME_J2000);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvOut.position, osvExp.position)) < 1.0);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvOut.velocity, osvExp.velocity)) < 1e-3);
+    });
+
+    it('J2', function() {
+        // The node of a sun-synchronous orbit precesses 360 degrees per year.
+        const kepler : Kepler = Kepler.fromJson({...json, "SEMI_MAJOR_AXIS" : 7078.137,
+            "ECCENTRICITY" : 0.0, "INCLINATION" : 98.19, "PERTURBATIONS" : "J2"});
+        const propagation : KeplerPropagation = new KeplerPropagation(kepler, timeCorrelation);
+
+        function raAscNode(osv : OsvFrame) : number
+        {
+            const h = MathUtils.cross(osv.position, osv.velocity);
+            return MathUtils.atan2d(h[0], -h[1]);
+        }
+        const deltaNode : number = raAscNode(propagation.compute(kepler.jtUt1Epoch + 10.0))
+                                 - raAscNode(propagation.compute(kepler.jtUt1Epoch));
+
+        assert.ok(Math.abs(deltaNode - 3600.0 / 365.2422) < 0.01);
+    });
+
+    it('Propagation', function() {
+        const kepler : Kepler = Kepler.fromJson(json);
+        const dataset : Dataset = new Dataset("OBJECT_ID");
+        dataset.addFleet("default");
+        dataset.addKepler(kepler, "default");
+
+        const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+        propagation.init();
+        const JT : number = kepler.jtUt1Epoch + 0.3;
+        const propData : PropagatedOsvData = propagation.propagateAll(JT, undefined);
+        const osvExp : OsvFrame = new KeplerPropagation(kepler, timeCorrelation).compute(JT);
+
+        assert.equal(propData["2023-900A"].frame, Frame.FRAME_EFI);
+        assert.ok(Math.abs(MathUtils.norm(propData["2023-900A"].position) - MathUtils.norm(osvExp.position)) < 1e-3);
+    });
+});
@@ -0,0 +1,121 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {JulianTime} from '../src/computation/JulianTime';
+import {LeapSecondData, LeapSeconds} from '../src/computation/LeapSeconds';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+import {TimeView} from '../src/TimeView';
+
+const leapSecondDat : string = [
+'#  Value of TAI-UTC in second valid beetween the initial value until',
+'#  the epoch given on the next line. The last line reads that NO',
+'#  leap second was introduced since the corresponding date',
+'#  Updated through IERS Bulletin 70 issued in July 2025',
+'#',
+'#',
+'#  File expires on 28 June 2026',
+'#',
+'#',
+'#    MJD        Date        TAI-UTC (s)',
+'#           day month year',
+'#    ---    --------------   ------',
+'#',
+'    41317.0    1  1 1972       10',
+'    41499.0    1  7 1972       11',
+'    57204.0    1  7 2015       36',
+'    57754.0    1  1 2017       37'
+].join('\n');
+
+const leapSecondsList : string = [
+'#	Updated through IERS Bulletin C69',
+'#$	 3676924800',
+'#@	3960057600',
+'#',
+'2272060800	10	# 1 Jan 1972',
+'2287785600	11	# 1 Jul 1972',
+'3644697600	36	# 1 Jul 2015',
+'3692217600	37	# 1 Jan 2017',
+'#h	16edd0f0 3666784f 37db6bdd e74ced87 59af48f1'
+].join('\n');
+
+describe('LeapSeconds', function() {
+    const leapSeconds : LeapSeconds = new LeapSeconds();
+    // 2017-01-01T00:00:00 UTC.
+    const JDleap : number = 2457754.5;
+
+    it('TAI - UTC', function() {
+        assert.equal(leapSeconds.taiUtc(JDleap), 37.0);
+        assert.equal(leapSeconds.taiUtc(JDleap - 1.0 / 86400.0), 36.0);
+        assert.equal(leapSeconds.taiUtc(2441317.5), 10.0);
+        assert.ok(Math.abs(leapSeconds.taiUtc(2441317.5 - 1e-6) - 9.892242) < 1e-6);
+        // 1962-01-01.
+        assert.ok(Math.abs(leapSeconds.taiUtc(2437665.5) - 1.845858) < 1e-9);
+
+        assert.equal(leapSeconds.daySeconds(JDleap - 1.0), 86401);
+        assert.equal(leapSeconds.daySeconds(JDleap), 86400);
+        assert.equal(leapSeconds.isExpired(JDleap), false);
+    });
+
+    it('Conversions between UTC and TAI', function() {
+        for (let JTutc of [2437665.75, 2441317.25, 2457754.0, 2460000.3])
+        {
+            const JTtai : number = leapSeconds.correlationUtcTai(JTutc);
+            assert.ok(Math.abs(leapSeconds.correlationTaiUtc(JTtai) - JTutc) * 86400.0 < 1e-4);
+            assert.equal(leapSeconds.isLeapSecond(JTtai), false);
+        }
+
+        const JTtai : number = leapSeconds.timeJulianTaiIso("2016-12-31T23:59:60.500000");
+        assert.ok(Math.abs(JTtai - JDleap - 36.5 / 86400.0) * 86400.0 < 1e-4);
+        assert.equal(leapSeconds.isLeapSecond(JTtai), true);
+        assert.equal(leapSeconds.correlationTaiUtc(JTtai), JDleap);
+        assert.ok(Math.abs(leapSeconds.gregorianTai(JTtai).second - 60.5) < 1e-4);
+        assert.ok(leapSeconds.timeIsoTai(JTtai).startsWith("2016-12-31T23:59:60."));
+        assert.ok(leapSeconds.timeIsoTai(JTtai + 1.0 / 86400.0).startsWith("2017-01-01T00:00:00."));
+
+        assert.throws(() => leapSeconds.timeJulianTaiYmdhms(2016, 12, 30, 23, 59, 60.0));
+        assert.throws(() => leapSeconds.timeJulianTaiYmdhms(2016, 12, 31, 23, 58, 60.0));
+        assert.throws(() => leapSeconds.timeJulianTaiYmdhms(2016, 12, 31, 23, 59, 61.0));
+    });
+
+    it('Parsing', function() {
+        const dataDat : LeapSecondData = LeapSeconds.parseLeapSecondDat(leapSecondDat);
+        const dataList : LeapSecondData = LeapSeconds.parseLeapSecondsList(leapSecondsList);
+
+        assert.equal(dataDat.expiresJD, JulianTime.dateJulianYmd(2026, 6, 28));
+        assert.equal(dataList.expiresJD, JulianTime.dateJulianYmd(2025, 6, 28));
+        assert.deepEqual(dataDat.data, dataList.data);
+        assert.deepEqual(dataDat.data[3], [JDleap, 37, 0, 0.0]);
+
+        const leapSecondsLoaded : LeapSeconds = new LeapSeconds();
+        leapSecondsLoaded.load(dataList);
+        assert.equal(leapSecondsLoaded.isExpired(JulianTime.dateJulianYmd(2025, 7, 1)), true);
+        assert.ok(Math.abs(leapSecondsLoaded.taiUtc(2437665.5) - 1.845858) < 1e-9);
+        assert.equal(leapSecondsLoaded.taiUtc(JDleap), 37.0);
+    });
+
+    it('Timestamps', function() {
+        assert.equal(JulianTime.timeIso(JDleap - 1e-11), "2017-01-01T00:00:00.000000");
+        assert.equal(JulianTime.timeJulianIso("2016-12-31T23:59:60"), JDleap);
+        assert.equal(TimeView.createTimeStamp(JDleap), "2017-01-01T00:00:00");
+
+        const leapSeconds : LeapSeconds = new LeapSeconds();
+        const JTtaiLeap : number = leapSeconds.timeJulianTaiIso("2016-12-31T23:59:60.5");
+        assert.equal(TimeView.createTimeStampTai(JTtaiLeap - 1.0 / 86400.0, leapSeconds), "2016-12-31T23:59:59");
+        assert.equal(TimeView.createTimeStampTai(JTtaiLeap, leapSeconds), "2016-12-31T23:59:60");
+        assert.equal(TimeView.createTimeStampTai(JTtaiLeap + 1.0 / 86400.0, leapSeconds), "2017-01-01T00:00:00");
+    });
+
+    it('Time correlation', function() {
+        const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+
+        for (let JTutc of [JDleap - 0.5 / 86400.0, JDleap])
+        {
+            const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(JTutc, TimeConvention.TIME_UTC, false);
+            const taiUtc : number = (JTutc < JDleap) ? 36.0 : 37.0;
+
+            assert.ok(Math.abs((timeStamp.JTtai - timeStamp.JTutc) * 86400.0 - taiUtc) < 1e-4);
+            assert.ok(Math.abs((timeStamp.JTut1 - timeStamp.JTtai) * 86400.0 + 36.4) < 0.01);
+            const timeStampUt1 : TimeStamp = timeCorrelation.computeTimeStamp(timeStamp.JTut1, TimeConvention.TIME_UT1, false);
+            assert.ok(Math.abs(timeStampUt1.JTutc - JTutc) * 86400.0 < 1e-4);
+        }
+    });
+});
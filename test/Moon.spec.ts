@@ -0,0 +1,87 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Moon, MoonPhase} from '../src/computation/Moon';
+import {MoonEvents, MoonEventTimes, defaultMoonEventConfig} from '../src/MoonEvents';
+import {HorizonState} from '../src/SunEvents';
+import {Frame, OsvFrame} from '../src/computation/Frames';
+import {MathUtils} from '../src/computation/MathUtils';
+import {Nutation} from '../src/computation/Nutation';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+import {JulianTime} from '../src/computation/JulianTime';
+import {EarthPosition} from '../src/computation/Wgs84';
+
+describe('Moon', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+
+    it('Ecliptic coordinates', function() {
+        // Example 47.a from Meeus - Astronomical Algorithms.
+        const [lon, lat, dist] = Moon.moonEclipticOfDate(2448724.5);
+
+        assert.ok(Math.abs(lon - 133.162655) < 1e-5);
+        assert.ok(Math.abs(lat + 3.229126) < 1e-5);
+        assert.ok(Math.abs(dist - 368409.7e3) < 100.0);
+    });
+
+    it('OSV', function() {
+        const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(2448724.5, TimeConvention.TIME_TDB, false);
+        const osvMod : OsvFrame = Moon.moonMod(timeStamp);
+        const osvEfi : OsvFrame = Moon.moonEfi(timeStamp, Nutation.iau1980(timeStamp));
+
+        assert.equal(osvMod.frame, Frame.FRAME_MOD);
+        assert.equal(osvEfi.frame, Frame.FRAME_EFI);
+        assert.ok(Math.abs(MathUtils.norm(osvMod.position) - 368409.7e3) < 100.0);
+        assert.ok(Math.abs(MathUtils.norm(osvEfi.position) - 368409.7e3) < 100.0);
+        // Orbital velocity is about 1 km/s.
+        assert.ok(Math.abs(MathUtils.norm(osvMod.velocity) - 1.0e3) < 150.0);
+        // The velocity is perpendicular to the position within the eccentricity.
+        assert.ok(Math.abs(MathUtils.dot(osvMod.position, osvMod.velocity))
+            < 0.1 * MathUtils.norm(osvMod.position) * MathUtils.norm(osvMod.velocity));
+    });
+
+    it('Phase', function() {
+        // Example 48.a from Meeus - Astronomical Algorithms.
+        const timeStampMeeus : TimeStamp = timeCorrelation.computeTimeStamp(2448724.5, TimeConvention.TIME_TDB, false);
+        const phaseMeeus : MoonPhase = Moon.moonPhase(timeStampMeeus);
+        assert.ok(Math.abs(phaseMeeus.illuminatedFraction - 0.6786) < 1e-3);
+        assert.ok(Math.abs(phaseMeeus.phaseAngle - 69.0756) < 0.05);
+        assert.equal(phaseMeeus.waxing, true);
+
+        // First quarter at 2023-09-22T19:32 UTC.
+        const timeStampQuarter : TimeStamp = timeCorrelation.computeTimeStamp(
+            JulianTime.timeJulianYmdhms(2023, 9, 22, 19, 32, 0), TimeConvention.TIME_UTC, false);
+        const phaseQuarter : MoonPhase = Moon.moonPhase(timeStampQuarter);
+        assert.ok(Math.abs(phaseQuarter.elongation - 90.0) < 0.1);
+        assert.ok(Math.abs(phaseQuarter.illuminatedFraction - 0.5) < 0.01);
+        assert.equal(phaseQuarter.waxing, true);
+
+        // Last quarter at 2023-10-06T13:48 UTC.
+        const timeStampLast : TimeStamp = timeCorrelation.computeTimeStamp(
+            JulianTime.timeJulianYmdhms(2023, 10, 6, 13, 48, 0), TimeConvention.TIME_UTC, false);
+        const phaseLast : MoonPhase = Moon.moonPhase(timeStampLast);
+        assert.ok(Math.abs(phaseLast.elongation - 90.0) < 0.1);
+        assert.equal(phaseLast.waxing, false);
+    });
+
+    it('Rise and set', function() {
+        const moonEvents : MoonEvents = new MoonEvents(timeCorrelation);
+        const greenwich : EarthPosition = {lat : 51.4779, lon : 0.0, h : 0.0};
+        const events : MoonEventTimes = moonEvents.compute(greenwich, JulianTime.timeJulianYmdhms(2023, 8, 31, 0, 0, 0));
+
+        // Close to the full Moon, the Moon sets in the morning and rises in the evening.
+        assert.equal(events.moonriseMoonset.state, HorizonState.CROSSING);
+        assert.ok(<number> events.transit < <number> events.moonriseMoonset.setting);
+        assert.ok(<number> events.moonriseMoonset.setting < <number> events.moonriseMoonset.rising);
+        assert.ok(events.phase.illuminatedFraction > 0.98);
+
+        // The upper limb is at the apparent horizon at moonrise and the topocentric
+        // semi-diameter is about 15 arcminutes.
+        const [el, semiDiameter] = moonEvents.computeMoon(greenwich, <number> events.moonriseMoonset.rising, undefined);
+        assert.ok(Math.abs(el + semiDiameter + defaultMoonEventConfig.refraction) < 1e-3);
+        assert.ok(Math.abs(semiDiameter - 15.5 / 60.0) < 0.05);
+
+        // The Moon is on the meridian at the transit.
+        const [elTransit, , east] = moonEvents.computeMoon(greenwich, <number> events.transit, undefined);
+        assert.ok(Math.abs(east) < 1000.0);
+        assert.ok(Math.abs(elTransit - <number> events.transitElevation) < 1e-4);
+    });
+});
@@ -0,0 +1,167 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {NumericalPropagation} from '../src/NumericalPropagators';
+import {ForceModels, ForceModelConfig, defaultForceModelConfig, forceModelConstants} from '../src/computation/ForceModels';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+import {Frame, OsvFrame} from '../src/computation/Frames';
+import {MathUtils} from '../src/computation/MathUtils';
+import {Rotations} from '../src/computation/Rotations';
+
+describe('NumericalPropagation', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const JTepoch : number = 2460000.5;
+    const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(JTepoch, TimeConvention.TIME_UT1, false);
+
+    it('accelerationZonal', function() {
+        // Closed-form expression for the J2 acceleration.
+        const r = [4000e3, 3000e3, 5000e3];
+        const rNorm = MathUtils.norm(r);
+        const coeff = -1.5 * forceModelConstants.zonals[2] * forceModelConstants.muEarth
+                    * Math.pow(forceModelConstants.radiusEarth, 2) / Math.pow(rNorm, 5);
+        const z2 = r[2] * r[2] / (rNorm * rNorm);
+        const accExp = [coeff * r[0] * (1 - 5 * z2), coeff * r[1] * (1 - 5 * z2), coeff * r[2] * (3 - 5 * z2)];
+        const acc = ForceModels.accelerationZonal(r, 2);
+
+        for (let ind = 0; ind < 3; ind++)
+        {
+            assert.ok(Math.abs(acc[ind] - accExp[ind]) < 1e-12);
+        }
+    });
+
+    it('accelerationZonal J3-J6', function() {
+        // Each term against the central-difference gradient of its potential
+        // mu / r * J_n * (R / r)^n * P_n(z / r).
+        const legendre : ((u : number) => number)[] = [
+            (u) => 0.5 * (5 * u * u * u - 3 * u),
+            (u) => 0.125 * (35 * Math.pow(u, 4) - 30 * u * u + 3),
+            (u) => 0.125 * (63 * Math.pow(u, 5) - 70 * u * u * u + 15 * u),
+            (u) => 0.0625 * (231 * Math.pow(u, 6) - 315 * Math.pow(u, 4) + 105 * u * u - 5)];
+        const r = [4000e3, 3000e3, 5000e3];
+        const step = 10.0;
+
+        for (let degree = 3; degree <= 6; degree++)
+        {
+            const potential = (rp : number[]) : number => {
+                const rNorm = MathUtils.norm(rp);
+                return forceModelConstants.muEarth / rNorm * forceModelConstants.zonals[degree]
+                     * Math.pow(forceModelConstants.radiusEarth / rNorm, degree)
+                     * legendre[degree - 3](rp[2] / rNorm);
+            };
+            const acc = MathUtils.vecDiff(ForceModels.accelerationZonal(r, degree),
+                ForceModels.accelerationZonal(r, degree - 1));
+
+            for (let ind = 0; ind < 3; ind++)
+            {
+                const rPlus = [...r];
+                const rMinus = [...r];
+                rPlus[ind] += step;
+                rMinus[ind] -= step;
+                const accExp = -(potential(rPlus) - potential(rMinus)) / (2.0 * step);
+                assert.ok(Math.abs(acc[ind] - accExp) < 1e-12);
+            }
+        }
+    });
+
+    it('accelerationDrag', function() {
+        // Equatorial orbit at 400 km, where the density is the nominal value of the table.
+        const config : ForceModelConfig = {...defaultForceModelConfig,
+            mass : 500.0, dragArea : 4.0, dragCoeff : 2.2};
+        const r = [forceModelConstants.radiusEarth + 400e3, 0, 0];
+        const v = [0, 7670.0, 0];
+        assert.ok(Math.abs(ForceModels.atmosphereDensity(400e3) - 3.725e-12) < 1e-24);
+        assert.ok(Math.abs(ForceModels.atmosphereDensity(425e3) - 3.725e-12 * Math.exp(-25.0 / 58.515)) < 1e-24);
+
+        // The atmosphere rotating with the Earth reduces the relative velocity.
+        const vRel = 7670.0 - forceModelConstants.omegaEarth * r[0];
+        const accExp = -0.5 * 2.2 * 4.0 / 500.0 * 3.725e-12 * vRel * vRel;
+        const acc = ForceModels.accelerationDrag(r, v, config);
+
+        assert.ok(Math.abs(acc[0]) < 1e-20);
+        assert.ok(Math.abs(acc[1] - accExp) < 1e-18);
+        assert.ok(Math.abs(acc[2]) < 1e-20);
+    });
+
+    it('accelerationSrp', function() {
+        const config : ForceModelConfig = {...defaultForceModelConfig,
+            mass : 1000.0, srpArea : 20.0, reflectivityCoeff : 1.5};
+        const au = forceModelConstants.au;
+        const rSun = [au, 0, 0];
+
+        // Target at 1 au from the Sun is pushed away from the Sun.
+        const r = [0, 7000e3, 0];
+        const dist = Math.sqrt(au * au + 7000e3 * 7000e3);
+        const accNorm = 4.56e-6 * Math.pow(au / dist, 2.0) * 1.5 * 20.0 / 1000.0;
+        const acc = ForceModels.accelerationSrp(r, rSun, config);
+        const accExp = [-accNorm * au / dist, accNorm * 7000e3 / dist, 0];
+
+        for (let ind = 0; ind < 3; ind++)
+        {
+            assert.ok(Math.abs(acc[ind] - accExp[ind]) < 1e-20);
+        }
+
+        // No acceleration in the shadow of the Earth.
+        assert.deepEqual(ForceModels.accelerationSrp([-7000e3, 1000e3, 0], rSun, config), [0, 0, 0]);
+        assert.notDeepEqual(ForceModels.accelerationSrp([-7000e3, 7000e3, 0], rSun, config), [0, 0, 0]);
+    });
+
+    it('accelerationThirdBody', function() {
+        // Meeus - Astronomical Algorithms - Example 47.a, 1992 April 12 0h TD. The
+        // ecliptic longitude is referred to the equinox of J2000.
+        const JTtdb = 2448724.5;
+        const rMoon = ForceModels.moonJ2000(JTtdb);
+        const rMoonEcl = Rotations.rotateCart1d(rMoon, 23.439279444444445);
+        const T = (JTtdb - 2451545.0) / 36525.0;
+        const rMoonNorm = MathUtils.norm(rMoon);
+        assert.ok(Math.abs(MathUtils.atan2d(rMoonEcl[1], rMoonEcl[0]) - 133.162655 + 1.3972 * T) < 0.05);
+        assert.ok(Math.abs(MathUtils.asind(rMoonEcl[2] / rMoonNorm) + 3.229126) < 0.05);
+        assert.ok(Math.abs(rMoonNorm - 368409.7e3) < 200e3);
+
+        // Meeus - Astronomical Algorithms - Example 25.a, 1992 October 13 0h TD.
+        const timeStampSun : TimeStamp = timeCorrelation.computeTimeStamp(2448908.5, TimeConvention.TIME_TDB, false);
+        const rSun = ForceModels.sunJ2000(timeStampSun).position;
+        assert.ok(Math.abs(MathUtils.norm(rSun) - 0.99766 * forceModelConstants.au) < 1e-4 * forceModelConstants.au);
+
+        // Along the line to the body the acceleration is the difference of the
+        // attractions at the target and at the center of the Earth.
+        for (let [dist, mu] of [[rMoonNorm, forceModelConstants.muMoon],
+                                [forceModelConstants.au, forceModelConstants.muSun]])
+        {
+            const rTarget = 42164e3;
+            const accExp = mu / Math.pow(dist - rTarget, 2.0) - mu / (dist * dist);
+            const acc = ForceModels.accelerationThirdBody([rTarget, 0, 0], [dist, 0, 0], mu);
+
+            assert.ok(Math.abs(acc[0] - accExp) < 1e-15);
+            assert.equal(acc[1], 0);
+            assert.equal(acc[2], 0);
+
+            // Perpendicular to the line the acceleration is compressive.
+            const accPerp = ForceModels.accelerationThirdBody([0, rTarget, 0], [dist, 0, 0], mu);
+            const distPerp = Math.sqrt(dist * dist + rTarget * rTarget);
+            assert.ok(Math.abs(accPerp[0] - mu * dist / Math.pow(distPerp, 3.0) + mu / (dist * dist)) < 1e-15);
+            assert.ok(Math.abs(accPerp[1] + mu * rTarget / Math.pow(distPerp, 3.0)) < 1e-15);
+        }
+    });
+
+    it('Two-body', function() {
+        const config : ForceModelConfig = {...defaultForceModelConfig,
+            zonalDegree : 0, enableDrag : false, enableSrp : false, enableSun : false, enableMoon : false};
+        const osv : OsvFrame = {
+            frame : Frame.FRAME_J2000,
+            timeStamp : timeStamp,
+            position : [7000e3, 0, 0],
+            velocity : [0, 6000.0, 4000.0]
+        };
+        const propagation : NumericalPropagation = new NumericalPropagation(osv, timeCorrelation, config);
+        const period : number = propagation.getOrbitalPeriod();
+
+        // After two periods the target returns to the initial position.
+        const osvOut : OsvFrame = propagation.compute(JTepoch + 2.0 * period);
+        assert.equal(osvOut.frame, Frame.FRAME_J2000);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvOut.position, osv.position)) < 1.0);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvOut.velocity, osv.velocity)) < 1e-3);
+
+        // Backwards propagation from the cached state.
+        const osvBack : OsvFrame = propagation.compute(JTepoch + period);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvBack.position, osv.position)) < 1.0);
+    });
+});
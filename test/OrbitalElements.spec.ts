@@ -0,0 +1,121 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {OrbitalElements, KeplerianElements, EquinoctialElements,
+    ModifiedEquinoctialElements} from '../src/computation/OrbitalElements';
+import {Frame, OsvFrame} from '../src/computation/Frames';
+import {MathUtils} from '../src/computation/MathUtils';
+import {Angles} from '../src/computation/Angles';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+import {Tle} from '../src/Tle';
+import {Sgp4Propagation} from '../src/TlePropagators';
+
+/**
+ * Check that two OSVs agree.
+ *
+ * @param {OsvFrame} osv
+ *      The OSV.
+ * @param {OsvFrame} osvExp
+ *      The expected OSV.
+ */
+function checkOsv(osv : OsvFrame, osvExp : OsvFrame)
+{
+    assert.equal(osv.frame, osvExp.frame);
+    assert.ok(MathUtils.norm(MathUtils.vecDiff(osv.position, osvExp.position)) < 1e-4);
+    assert.ok(MathUtils.norm(MathUtils.vecDiff(osv.velocity, osvExp.velocity)) < 1e-7);
+}
+
+describe('OrbitalElements', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(2460095.0, TimeConvention.TIME_UT1, false);
+    const elements : KeplerianElements = {
+        semiMajorAxis : 26600000.0,
+        eccentricity : 0.74,
+        inclination : 63.4,
+        raAscNode : 120.0,
+        argPerigee : 270.0,
+        meanAnomaly : 30.0
+    };
+
+    it('Anomalies', function() {
+        assert.ok(Math.abs(OrbitalElements.meanToTrue(0.0, 0.5)) < 1e-12);
+        assert.ok(Math.abs(OrbitalElements.meanToTrue(180.0, 0.5) - 180.0) < 1e-10);
+        for (let meanAnomaly = 0; meanAnomaly < 360; meanAnomaly += 15)
+        {
+            const trueAnomaly : number = OrbitalElements.meanToTrue(meanAnomaly, 0.74);
+            assert.ok(Math.abs(Angles.angleDiff(OrbitalElements.trueToMean(trueAnomaly, 0.74), meanAnomaly)) < 1e-9);
+        }
+    });
+
+    it('Keplerian', function() {
+        const osv : OsvFrame = OrbitalElements.keplerianOsv(elements, Frame.FRAME_J2000, timeStamp);
+        const elementsOut : KeplerianElements = OrbitalElements.osvKeplerian(osv);
+
+        assert.ok(Math.abs(elementsOut.semiMajorAxis - elements.semiMajorAxis) < 1e-4);
+        assert.ok(Math.abs(elementsOut.eccentricity - elements.eccentricity) < 1e-12);
+        assert.ok(Math.abs(elementsOut.inclination - elements.inclination) < 1e-10);
+        assert.ok(Math.abs(elementsOut.raAscNode - elements.raAscNode) < 1e-10);
+        assert.ok(Math.abs(elementsOut.argPerigee - elements.argPerigee) < 1e-10);
+        assert.ok(Math.abs(elementsOut.meanAnomaly - elements.meanAnomaly) < 1e-10);
+        checkOsv(OrbitalElements.keplerianOsv(elementsOut, Frame.FRAME_J2000, timeStamp), osv);
+    });
+
+    it('Equinoctial', function() {
+        const osv : OsvFrame = OrbitalElements.keplerianOsv(elements, Frame.FRAME_J2000, timeStamp);
+        const equinoctial : EquinoctialElements = OrbitalElements.osvEquinoctial(osv);
+        const modified : ModifiedEquinoctialElements = OrbitalElements.osvModifiedEquinoctial(osv);
+
+        assert.ok(Math.abs(equinoctial.k - 0.74 * MathUtils.cosd(30.0)) < 1e-12);
+        assert.ok(Math.abs(equinoctial.meanLongitude - 60.0) < 1e-10);
+        assert.ok(Math.abs(modified.p - 26600000.0 * (1.0 - 0.74 * 0.74)) < 1e-4);
+        checkOsv(OrbitalElements.equinoctialOsv(equinoctial, Frame.FRAME_J2000, timeStamp), osv);
+        checkOsv(OrbitalElements.modifiedEquinoctialOsv(modified, Frame.FRAME_J2000, timeStamp), osv);
+    });
+
+    it('Circular and equatorial', function() {
+        // Circular equatorial orbit at the longitude of 40 degrees.
+        const r : number = 42164000.0;
+        const v : number = Math.sqrt(3.986004418e14 / r);
+        const osv : OsvFrame = {
+            frame : Frame.FRAME_J2000,
+            timeStamp : timeStamp,
+            position : [r * MathUtils.cosd(40.0), r * MathUtils.sind(40.0), 0.0],
+            velocity : [-v * MathUtils.sind(40.0), v * MathUtils.cosd(40.0), 0.0]
+        };
+        const kepler : KeplerianElements = OrbitalElements.osvKeplerian(osv);
+        const equinoctial : EquinoctialElements = OrbitalElements.osvEquinoctial(osv);
+        const modified : ModifiedEquinoctialElements = OrbitalElements.osvModifiedEquinoctial(osv);
+
+        assert.equal(kepler.raAscNode, 0.0);
+        assert.equal(kepler.argPerigee, 0.0);
+        assert.ok(Math.abs(kepler.meanAnomaly - 40.0) < 1e-8);
+        assert.ok(Math.abs(equinoctial.meanLongitude - 40.0) < 1e-8);
+        assert.ok(Math.abs(modified.trueLongitude - 40.0) < 1e-8);
+        checkOsv(OrbitalElements.keplerianOsv(kepler, Frame.FRAME_J2000, timeStamp), osv);
+        checkOsv(OrbitalElements.equinoctialOsv(equinoctial, Frame.FRAME_J2000, timeStamp), osv);
+        checkOsv(OrbitalElements.modifiedEquinoctialOsv(modified, Frame.FRAME_J2000, timeStamp), osv);
+    });
+
+    it('SGP4 mean elements', function() {
+        const tle : Tle = Tle.fromLines([
+            "ISS (ZARYA)",
+            "1 25544U 98067A   23150.59480490  .00014103  00000+0  25483-3 0  9996",
+            "2 25544  51.6409 102.9576 0005346  16.9389 113.8447 15.50067237399461"
+        ]);
+        const sgp4 : Sgp4Propagation = new Sgp4Propagation(tle, timeCorrelation);
+        sgp4.initialize();
+
+        const kozai : KeplerianElements = sgp4.getKozaiElements();
+        const brouwer : KeplerianElements = sgp4.getBrouwerElements();
+        const mean : KeplerianElements = sgp4.getMeanElements(0.0);
+        const osculating : KeplerianElements = OrbitalElements.osvKeplerian(sgp4.compute(0.0));
+
+        assert.ok(Math.abs(kozai.semiMajorAxis - 6794.7e3) < 1e3);
+        assert.ok(Math.abs(brouwer.semiMajorAxis - kozai.semiMajorAxis) > 1.0);
+        assert.ok(Math.abs(brouwer.semiMajorAxis - kozai.semiMajorAxis) < 20e3);
+        assert.ok(Math.abs(mean.semiMajorAxis - brouwer.semiMajorAxis) < 1.0);
+        assert.ok(Math.abs(mean.meanAnomaly - tle.meanAnomaly) < 1e-9);
+        // The short-period terms of J2 are of the order of 10 km for the semi-major axis.
+        assert.ok(Math.abs(osculating.semiMajorAxis - brouwer.semiMajorAxis) < 20e3);
+        assert.ok(Math.abs(osculating.inclination - tle.inclination) < 0.1);
+    });
+});
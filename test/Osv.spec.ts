@@ -0,0 +1,83 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Osv, OsvPropagator} from '../src/Osv';
+import {Kepler} from '../src/Kepler';
+import {KeplerPropagation} from '../src/KeplerPropagators';
+import {Propagation, PropagatedOsvData} from '../src/Propagation';
+import {Dataset} from '../src/viewTargets/Dataset';
+import {TargetInfo} from '../src/viewTargets/Target';
+import {TimeCorrelation} from '../src/computation/TimeCorrelation';
+import {Frame, OsvFrame} from '../src/computation/Frames';
+import {MathUtils} from '../src/computation/MathUtils';
+
+describe('Osv', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const json : TargetInfo = {
+        "TYPE"            : "OSV",
+        "OBJECT_NAME"     : "TRANSFER",
+        "OBJECT_ID"       : "2023-901A",
+        "EPOCH"           : "2023-05-30T12:00:00.000000",
+        "FRAME"           : "J2000",
+        "X"               : 7000.0,
+        "Y"               : 0.0,
+        "Z"               : 0.0,
+        "X_DOT"           : 0.0,
+        "Y_DOT"           : 6.0,
+        "Z_DOT"           : 4.0,
+        "PROPAGATOR"      : "NUMERICAL",
+        "MASS"            : 500.0,
+        "DRAG_AREA"       : 4.0,
+        "DRAG_COEFF"      : 2.1,
+        "SOLAR_RAD_AREA"  : 5.0,
+        "SOLAR_RAD_COEFF" : 1.2
+    };
+
+    it('Json', function() {
+        const osv : Osv = Osv.fromJson(json);
+        assert.equal(osv.frame, Frame.FRAME_J2000);
+        assert.equal(osv.propagator, OsvPropagator.NUMERICAL);
+        assert.deepEqual(osv.toJson(), json);
+        assert.deepEqual(Osv.fromLine(osv.toLine()).toJson(), json);
+
+        const config = osv.forceModelConfig();
+        assert.equal(config.mass, 500.0);
+        assert.equal(config.reflectivityCoeff, 1.2);
+        assert.ok(config.enableDrag);
+
+        const osvShort : Osv = Osv.fromLine("TRANSFER, 2023-901A, 2023-05-30T12:00:00.000000, ECLGEO, 7000, 0, 0, 0, 6, 4");
+        assert.equal(osvShort.frame, Frame.FRAME_ECLGEO);
+        assert.equal(osvShort.mass, undefined);
+        assert.equal(osvShort.toJson()["PROPAGATOR"], "NUMERICAL");
+
+        assert.throws(() => Osv.fromJson({...json, "FRAME" : "ENU"}));
+        assert.throws(() => Osv.fromJson({...json, "X" : "foo"}));
+    });
+
+    it('Propagation', function() {
+        const kepler : Kepler = Kepler.fromJson({
+            "TYPE" : "KEPLER", "OBJECT_NAME" : "KEPLER", "OBJECT_ID" : "2023-900A",
+            "EPOCH" : "2023-05-30T12:00:00.000000", "FRAME" : "J2000", "SEMI_MAJOR_AXIS" : 8000.0,
+            "ECCENTRICITY" : 0.1, "INCLINATION" : 45.0, "RA_OF_ASC_NODE" : 30.0,
+            "ARG_OF_PERICENTER" : 60.0, "MEAN_ANOMALY" : 90.0});
+        const keplerPropagation : KeplerPropagation = new KeplerPropagation(kepler, timeCorrelation);
+        const osvEpoch : OsvFrame = keplerPropagation.compute(kepler.jtUt1Epoch);
+
+        const osv : Osv = Osv.fromJson({...json, "PROPAGATOR" : "TWO_BODY",
+            "X" : osvEpoch.position[0] / 1000.0, "Y" : osvEpoch.position[1] / 1000.0, "Z" : osvEpoch.position[2] / 1000.0,
+            "X_DOT" : osvEpoch.velocity[0] / 1000.0, "Y_DOT" : osvEpoch.velocity[1] / 1000.0, 
+            "Z_DOT" : osvEpoch.velocity[2] / 1000.0});
+
+        const dataset : Dataset = new Dataset("OBJECT_ID");
+        dataset.addFleet("default");
+        dataset.addOsv(osv, "default");
+        dataset.addKepler(kepler, "default");
+
+        const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+        propagation.init();
+        const propData : PropagatedOsvData = propagation.propagateAll(kepler.jtUt1Epoch + 0.3, undefined);
+
+        assert.equal(propData["2023-901A"].frame, Frame.FRAME_EFI);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(propData["2023-901A"].position, 
+            propData["2023-900A"].position)) < 1.0);
+    });
+});
@@ -0,0 +1,107 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Tle} from '../src/Tle';
+import {Propagation} from '../src/Propagation';
+import {PassPredictor, Pass, defaultPassConfig} from '../src/Passes';
+import {Dataset} from '../src/viewTargets/Dataset';
+import {TimeCorrelation} from '../src/computation/TimeCorrelation';
+import {EnuAngles, Frames, OsvFrame} from '../src/computation/Frames';
+import {EarthPosition} from '../src/computation/Wgs84';
+
+describe('PassPredictor', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const tle : Tle = Tle.fromLines([
+        "ISS (ZARYA)",
+        "1 25544U 98067A   23150.59480556  .00010989  00000-0  20253-3 0  9995",
+        "2 25544  51.6407  81.1133 0005418  37.4583 105.5339 15.49869634399266"
+    ]);
+    const dataset : Dataset = new Dataset("OBJECT_ID");
+    dataset.addFleet("default");
+    dataset.addTle(tle, "default");
+    const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+    propagation.init();
+    const targetName : string = Object.keys(propagation.getPropagationData())[0];
+    const earthPos : EarthPosition = {lat : 60.1699, lon : 24.9384, h : 0.0};
+
+    /**
+     * Compute the elevation of the ISS.
+     *
+     * @param {number} JT
+     *      Julian time (UT1).
+     * @returns {number} The elevation (degrees).
+     */
+    function elevation(JT : number) : number
+    {
+        const osvEfi : OsvFrame = <OsvFrame> propagation.propagateOneEfi(targetName, JT, undefined);
+        const angles : EnuAngles = Frames.coordEnuAzEl(Frames.coordEfiEnu(osvEfi, earthPos));
+
+        return angles.el;
+    }
+
+    it('Events', function() {
+        const mask : number = 10.0;
+        const predictor : PassPredictor = new PassPredictor(propagation,
+            {...defaultPassConfig, elevationMask : mask});
+        const JTstart : number = tle.jtUt1Epoch;
+        const JTend : number = tle.jtUt1Epoch + 1.0;
+        const passes : Pass[] = predictor.predict(targetName, earthPos, JTstart, JTend);
+        const oneSecond : number = 1.0 / 86400.0;
+
+        assert.ok(passes.length >= 2);
+        for (let indPass = 0; indPass < passes.length; indPass++)
+        {
+            const pass : Pass = passes[indPass];
+
+            assert.ok(pass.aos.JT < pass.tca.JT && pass.tca.JT < pass.los.JT);
+            assert.ok(pass.maxElevation > mask && pass.maxElevation <= 90.0);
+            assert.ok(pass.aos.az >= 0.0 && pass.aos.az < 360.0);
+            assert.ok(pass.tca.dist < pass.aos.dist && pass.tca.dist < pass.los.dist);
+            if (indPass > 0)
+            {
+                assert.ok(passes[indPass - 1].los.JT < pass.aos.JT);
+            }
+            if (pass.partial)
+            {
+                continue;
+            }
+
+            // The events are accurate to the second.
+            assert.ok(Math.abs(pass.aos.el - mask) < 1e-2);
+            assert.ok(Math.abs(pass.los.el - mask) < 1e-2);
+            assert.ok(elevation(pass.aos.JT - oneSecond) < mask && elevation(pass.aos.JT + oneSecond) > mask);
+            assert.ok(elevation(pass.los.JT - oneSecond) > mask && elevation(pass.los.JT + oneSecond) < mask);
+            assert.ok(elevation(pass.tca.JT - oneSecond) < pass.maxElevation);
+            assert.ok(elevation(pass.tca.JT + oneSecond) < pass.maxElevation);
+        }
+
+        // Compare the number of passes to sampling with a step of 10 seconds.
+        let numPasses : number = 0;
+        let above : boolean = elevation(JTstart) > mask;
+        numPasses += above ? 1 : 0;
+        for (let JT = JTstart; JT <= JTend; JT += 10.0 * oneSecond)
+        {
+            const aboveNew : boolean = elevation(JT) > mask;
+            numPasses += (aboveNew && !above) ? 1 : 0;
+            above = aboveNew;
+        }
+        assert.equal(passes.length, numPasses);
+    });
+
+    it('Partial passes', function() {
+        const predictor : PassPredictor = new PassPredictor(propagation);
+        const passes : Pass[] = predictor.predict(targetName, earthPos, tle.jtUt1Epoch, tle.jtUt1Epoch + 1.0);
+        const pass : Pass = passes[0];
+        const JTmid : number = 0.5 * (pass.aos.JT + pass.los.JT);
+
+        // Windows starting and ending within the pass.
+        const passesStart : Pass[] = predictor.predict(targetName, earthPos, JTmid, pass.los.JT + 0.01);
+        assert.ok(passesStart[0].partial);
+        assert.equal(passesStart[0].aos.JT, JTmid);
+        assert.ok(Math.abs(passesStart[0].los.JT - pass.los.JT) < 1e-6);
+
+        const passesEnd : Pass[] = predictor.predict(targetName, earthPos, pass.aos.JT - 0.01, JTmid);
+        assert.equal(passesEnd.length, 1);
+        assert.ok(passesEnd[0].partial);
+        assert.equal(passesEnd[0].los.JT, JTmid);
+    });
+});
@@ -0,0 +1,202 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Tle} from '../src/Tle';
+import {Kepler, KeplerPerturbations} from '../src/Kepler';
+import {KeplerPropagation} from '../src/KeplerPropagators';
+import {NumericalPropagation} from '../src/NumericalPropagators';
+import {Ephemeris} from '../src/Ephemeris';
+import {EphemerisPropagation} from '../src/EphemerisPropagators';
+import {Propagator, PropagationError} from '../src/Propagator';
+import {PropagatorRegistry} from '../src/PropagatorRegistry';
+import {Propagation, PropagatedOsvData, PropagationBatch} from '../src/Propagation';
+import {Dataset} from '../src/viewTargets/Dataset';
+import {TargetInfo} from '../src/viewTargets/Target';
+import {TimeCorrelation} from '../src/computation/TimeCorrelation';
+import {Frame, FrameModel, Frames, OsvFrame} from '../src/computation/Frames';
+import {Cio} from '../src/computation/Cio';
+import {Nutation} from '../src/computation/Nutation';
+import {JulianTime} from '../src/computation/JulianTime';
+import {MathUtils} from '../src/computation/MathUtils';
+import {EarthPosition, Wgs84} from '../src/computation/Wgs84';
+
+describe('Propagation', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const tle : Tle = Tle.fromLines([
+        "ISS (ZARYA)",
+        "1 25544U 98067A   23150.59480556  .00010989  00000-0  20253-3 0  9995",
+        "2 25544  51.6407  81.1133 0005418  37.4583 105.5339 15.49869634399266"
+    ]);
+    const kepler : Kepler = Kepler.fromJson({
+        "TYPE" : "KEPLER", "OBJECT_NAME" : "KEPLER", "OBJECT_ID" : "2023-900A",
+        "EPOCH" : "2023-05-30T12:00:00.000000", "FRAME" : "J2000", "SEMI_MAJOR_AXIS" : 8000.0,
+        "ECCENTRICITY" : 0.1, "INCLINATION" : 45.0, "RA_OF_ASC_NODE" : 30.0,
+        "ARG_OF_PERICENTER" : 60.0, "MEAN_ANOMALY" : 90.0});
+    const keplerPropagation : KeplerPropagation = new KeplerPropagation(kepler, timeCorrelation);
+
+    // Ephemeris sampled from the Keplerian orbit every minute over one hour.
+    const lines : string[] = [];
+    for (let indState = 0; indState <= 60; indState++)
+    {
+        const osv : OsvFrame = keplerPropagation.compute(kepler.jtUt1Epoch + indState / 1440.0);
+        lines.push([JulianTime.timeIso(kepler.jtUt1Epoch + indState / 1440.0)]
+            .concat(osv.position.map((x) => (x / 1000.0).toString()), 
+                    osv.velocity.map((x) => (x / 1000.0).toString())).join(" "));
+    }
+    const ephemerisJson : TargetInfo = {
+        "TYPE" : "EPHEMERIS", "OBJECT_NAME" : "EPHEMERIS", "OBJECT_ID" : "2023-902A",
+        "FRAME" : "J2000", "EPHEMERIS" : lines.join("\n")
+    };
+
+    it('EphemerisPropagation', function() {
+        const propagation : EphemerisPropagation = new EphemerisPropagation(
+            Ephemeris.fromJson(ephemerisJson), timeCorrelation);
+        const JT : number = kepler.jtUt1Epoch + 10.5 / 1440.0;
+        const osvOut : OsvFrame = propagation.compute(JT);
+        const osvExp : OsvFrame = keplerPropagation.compute(JT);
+
+        assert.equal(osvOut.frame, Frame.FRAME_J2000);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvOut.position, osvExp.position)) < 1.0);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(osvOut.velocity, osvExp.velocity)) < 1e-2);
+        assert.throws(() => propagation.compute(kepler.jtUt1Epoch - 1.0), PropagationError);
+        assert.throws(() => Ephemeris.fromJson({...ephemerisJson, "EPHEMERIS" : lines[0]}));
+    });
+
+    it('Registry', function() {
+        const dataset : Dataset = new Dataset("OBJECT_ID");
+        dataset.addFleet("default");
+        // Targets without TYPE are handled as TLEs.
+        const tleJson : TargetInfo = tle.toJson();
+        delete tleJson["TYPE"];
+        dataset.getFleet("default").addTarget(tleJson);
+        dataset.addKepler(kepler, "default");
+        dataset.getFleet("default").addTarget(ephemerisJson);
+
+        const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+        propagation.init();
+
+        const JT : number = kepler.jtUt1Epoch + 0.5 / 24.0;
+        const propData : PropagatedOsvData = propagation.propagateAll(JT, undefined);
+        const tleKey : string = <string> tleJson["OBJECT_ID"];
+        assert.deepEqual(Object.keys(propData).sort(), [tleKey, "2023-900A", "2023-902A"]);
+
+        // All propagators output meters.
+        const altitudeIss : number = MathUtils.norm(propData[tleKey].position) - 6378137.0;
+        assert.ok(altitudeIss > 300e3 && altitudeIss < 500e3);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(propData["2023-900A"].position, 
+            propData["2023-902A"].position)) < 1.0);
+
+        // The ephemeris is skipped outside the table.
+        const propDataLater : PropagatedOsvData = propagation.propagateAll(JT + 1.0, undefined);
+        assert.deepEqual(Object.keys(propDataLater).sort(), [tleKey, "2023-900A"]);
+        assert.ok(propagation.propagateOneRange("2023-902A", JT - 1.0, JT + 1.0, 1.0 / 1440.0, 
+            undefined).length >= 60);
+
+        // Later registrations override the defaults.
+        const registry : PropagatorRegistry = PropagatorRegistry.createDefault();
+        registry.register({
+            name : "KEPLER_J2",
+            accepts : (targetInfo) => targetInfo["TYPE"] == "KEPLER",
+            create : (targetInfo, timeCorrelation) : Propagator => 
+                new KeplerPropagation(Kepler.fromJson({...targetInfo, "PERTURBATIONS" : "J2"}), timeCorrelation)
+        });
+        const propagationJ2 : Propagation = new Propagation(dataset, timeCorrelation, registry);
+        propagationJ2.init();
+        const keplerJ2 = <KeplerPropagation> propagationJ2.getPropagationData()["2023-900A"];
+        assert.equal(keplerJ2.kepler.perturbations, KeplerPerturbations.J2);
+    });
+
+    it('Errors', function() {
+        const dataset : Dataset = new Dataset("OBJECT_ID");
+        dataset.addFleet("default");
+        dataset.addTle(tle, "default");
+        dataset.addKepler(kepler, "default");
+
+        const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+        propagation.init();
+
+        // OSV at the center of the Earth, where the integrator step size underflows.
+        const osvCenter : OsvFrame = {...keplerPropagation.compute(kepler.jtUt1Epoch), 
+            position : [1.0, 0.0, 0.0], velocity : [0.0, 0.0, 0.0]};
+        propagation.setPropagation("2023-900A", new NumericalPropagation(osvCenter, timeCorrelation));
+
+        const propData : PropagatedOsvData = propagation.propagateAll(kepler.jtUt1Epoch + 0.1, undefined);
+        assert.deepEqual(Object.keys(propData), [<string> tle.toJson()["OBJECT_ID"]]);
+        assert.ok(propagation.getErrors()["2023-900A"] instanceof PropagationError);
+    });
+
+    it('Frame models', function() {
+        // Celestial pole offsets (milliarcseconds).
+        const timeCorrelationOffsets : TimeCorrelation = new TimeCorrelation();
+        timeCorrelationOffsets.dataPoleOffsets = {data : [[kepler.jtUt1Epoch, 0.3, -0.2]], 
+            minJD : kepler.jtUt1Epoch, maxJD : kepler.jtUt1Epoch};
+        const dataset : Dataset = new Dataset("OBJECT_ID");
+        dataset.addFleet("default");
+        dataset.addKepler(kepler, "default");
+
+        const propagation : Propagation = new Propagation(dataset, timeCorrelationOffsets);
+        propagation.init();
+        assert.equal(propagation.getFrameModel(), FrameModel.FRAME_MODEL_EQUINOX);
+        const JT : number = kepler.jtUt1Epoch + 0.5 / 24.0;
+        const osvEquinox : OsvFrame = <OsvFrame> propagation.propagateOneEfi("2023-900A", JT, undefined);
+
+        propagation.setFrameModel(FrameModel.FRAME_MODEL_CIO);
+        const osvCio : OsvFrame = <OsvFrame> propagation.propagateOneEfi("2023-900A", JT, undefined);
+        const osvJ2000 : OsvFrame = propagation.getPropagationData()["2023-900A"].compute(JT);
+        const osvExp : OsvFrame = Frames.coordJ2000EfiCio(osvJ2000, Cio.cipCoordinates(osvJ2000.timeStamp, 
+            Nutation.iau2000a(osvJ2000.timeStamp), 0.3 / 3600.0e3, -0.2 / 3600.0e3));
+        assert.deepEqual(osvCio, osvExp);
+
+        // The models agree within 0.1 arcseconds.
+        const angle : number = MathUtils.acosd(MathUtils.dot(osvCio.position, osvEquinox.position)
+            / (MathUtils.norm(osvCio.position) * MathUtils.norm(osvEquinox.position)));
+        assert.ok(angle * 3600.0 < 0.1);
+
+        // The batch propagation uses the same model.
+        const batch : PropagationBatch = propagation.createBatch();
+        propagation.propagateBatch(JT, batch, undefined);
+        assert.ok(MathUtils.norm(MathUtils.vecDiff(Array.from(batch.position), osvCio.position)) < 1e-6);
+    });
+
+    it('Batch', function() {
+        const dataset : Dataset = new Dataset("OBJECT_ID");
+        dataset.addFleet("default");
+        dataset.addTle(tle, "default");
+        dataset.addKepler(kepler, "default");
+        dataset.getFleet("default").addTarget(ephemerisJson);
+
+        const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+        propagation.init();
+        const batch : PropagationBatch = propagation.createBatch();
+        assert.equal(batch.position.length, 9);
+
+        for (const JT of [kepler.jtUt1Epoch + 0.5 / 24.0, kepler.jtUt1Epoch + 1.0])
+        {
+            const propData : PropagatedOsvData = propagation.propagateAll(JT, undefined);
+            propagation.propagateBatch(JT, batch, undefined);
+
+            for (let indTarget = 0; indTarget < batch.targetNames.length; indTarget++)
+            {
+                const osvEfi : OsvFrame = propData[batch.targetNames[indTarget]];
+                const offset : number = 3 * indTarget;
+
+                if (osvEfi === undefined)
+                {
+                    assert.equal(batch.valid[indTarget], 0);
+                    assert.ok(isNaN(batch.position[offset]));
+                    continue;
+                }
+                assert.equal(batch.valid[indTarget], 1);
+
+                const position : number[] = Array.from(batch.position.subarray(offset, offset + 3));
+                const velocity : number[] = Array.from(batch.velocity.subarray(offset, offset + 3));
+                assert.ok(MathUtils.norm(MathUtils.vecDiff(position, osvEfi.position)) < 1e-6);
+                assert.ok(MathUtils.norm(MathUtils.vecDiff(velocity, osvEfi.velocity)) < 1e-9);
+
+                const pos : EarthPosition = Wgs84.coordEfiWgs84(osvEfi.position, 10, 1e-10, false);
+                assert.ok(Math.abs(batch.geodetic[offset] - pos.lat) < 1e-9);
+                assert.ok(Math.abs(batch.geodetic[offset + 1] - pos.lon) < 1e-9);
+                assert.ok(Math.abs(batch.geodetic[offset + 2] - pos.h) < 1e-3);
+            }
+        }
+    });
+});
@@ -0,0 +1,52 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {RootFinding} from '../src/computation/RootFinding';
+
+describe('RootFinding', function() {
+    const JT0 : number = 2460000.5;
+    const oneSecond : number = 1.0 / 86400.0;
+
+    it('Zero', function() {
+        const JTzero : number = JT0 + 0.123456;
+        const func = (JT : number) : number => Math.sin((JT - JTzero) * 2.0 * Math.PI);
+
+        assert.ok(Math.abs(RootFinding.findZero(func, JT0, JT0 + 0.2, 0.01) - JTzero) < 0.01 * oneSecond);
+        assert.ok(Math.abs(RootFinding.findZero((JT) => -func(JT), JT0, JT0 + 0.2, 1.0) - JTzero) < oneSecond);
+    });
+
+    it('Extrema', function() {
+        const JText : number = JT0 + 0.0321;
+        const func = (JT : number) : number => Math.cos((JT - JText) * 2.0 * Math.PI);
+
+        assert.ok(Math.abs(RootFinding.findMaximum(func, JT0, JT0 + 0.1, 0.01) - JText) < 0.01 * oneSecond);
+        assert.ok(Math.abs(RootFinding.findMinimum((JT) => -func(JT), JT0, JT0 + 0.1, 0.01) - JText) < 0.01 * oneSecond);
+        // The maximum at the end of the bracket.
+        assert.ok(Math.abs(RootFinding.findMaximum(func, JT0 - 0.1, JText, 0.01) - JText) < 0.01 * oneSecond);
+    });
+
+    it('Tolerance below the resolution', function() {
+        // The searches end at the resolution of the Julian time.
+        const JTzero : number = JT0 + 0.123456;
+        const func = (JT : number) : number => Math.sin((JT - JTzero) * 2.0 * Math.PI);
+        let numEvaluations : number = 0;
+        const funcCount = (JT : number) : number => {
+            numEvaluations++;
+            return func(JT);
+        };
+
+        for (let tolerance of [0.0, 1e-5, -1.0])
+        {
+            numEvaluations = 0;
+            assert.ok(Math.abs(RootFinding.findZero(funcCount, JT0, JT0 + 1.0, tolerance) - JTzero) < 1e-3 * oneSecond);
+            assert.ok(numEvaluations < 100);
+
+            numEvaluations = 0;
+            const JTmax : number = RootFinding.findMaximum(funcCount, JT0, JT0 + 0.5, tolerance);
+            assert.ok(Math.abs(JTmax - JTzero - 0.25) < 0.01 * oneSecond);
+            assert.ok(numEvaluations < 200);
+
+            const JTmin : number = RootFinding.findMinimum(func, JT0 + 0.5, JT0 + 1.0, tolerance);
+            assert.ok(Math.abs(JTmin - JTzero - 0.75) < 0.01 * oneSecond);
+        }
+    });
+});
@@ -0,0 +1,80 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Stars, StarData} from '../src/computation/Stars';
+import {EnuAngles, Frame, Frames, OsvFrame} from '../src/computation/Frames';
+import {MathUtils} from '../src/computation/MathUtils';
+import {Nutation} from '../src/computation/Nutation';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+import {JulianTime} from '../src/computation/JulianTime';
+import {EarthPosition} from '../src/computation/Wgs84';
+
+describe('Stars', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+
+    it('Catalog', function() {
+        const stars : StarData[] = Stars.getCatalog();
+        const brightStars : StarData[] = Stars.getCatalog(1.0);
+
+        assert.ok(brightStars.length > 10 && brightStars.length < stars.length);
+        // The catalog is complete down to the magnitude 6 of the naked eye.
+        assert.ok(Stars.getCatalog(6.0).length > 5000);
+        assert.equal(stars[stars.length - 1].mag, 6.0);
+        assert.equal(stars[0].name, "Sirius");
+        for (let indStar = 1; indStar < stars.length; indStar++)
+        {
+            assert.ok(stars[indStar].mag >= stars[indStar - 1].mag);
+        }
+        assert.equal((<StarData> Stars.findStar("Vega")).hip, 91262);
+        assert.equal((<StarData> Stars.findStar("18 Peg")).hip, 108612);
+        assert.equal(Stars.findStar("Nonexistent"), null);
+
+        // Missing proper motions are not replaced with zeros.
+        for (let star of stars)
+        {
+            assert.ok((star.pmRa === null) == (star.pmDec === null));
+        }
+        assert.notEqual((<StarData> Stars.findStar("Rigil Kentaurus")).pmRa, null);
+        assert.equal((<StarData> Stars.findStar("Toliman")).pmRa, null);
+
+        const star18Peg : StarData = <StarData> Stars.findStar("18 Peg");
+        assert.deepEqual(Stars.directionJ2000(star18Peg, 2460000.5), Stars.directionJ2000(star18Peg, 2451545.0));
+    });
+
+    it('Precession and proper motion', function() {
+        // Example 21.b from Meeus - Astronomical Algorithms.
+        const dec : number = 49.0 + 13.0 / 60.0 + 42.48 / 3600.0;
+        const star : StarData = {
+            name : "Theta Persei",
+            hip : 12777,
+            ra : 15.0 * (2.0 + 44.0 / 60.0 + 11.986 / 3600.0),
+            dec : dec,
+            pmRa : 0.03425 * 15000.0 * MathUtils.cosd(dec),
+            pmDec : -89.5,
+            mag : 4.12
+        };
+        const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(2462088.69, TimeConvention.TIME_TDB, false);
+        const osvMod : OsvFrame = Stars.starMod(star, timeStamp);
+        const r : number[] = osvMod.position;
+
+        assert.equal(osvMod.frame, Frame.FRAME_MOD);
+        assert.ok(Math.abs(MathUtils.atan2d(r[1], r[0]) - 41.547214) < 1e-5);
+        assert.ok(Math.abs(MathUtils.asind(r[2] / MathUtils.norm(r)) - 49.348483) < 1e-5);
+    });
+
+    it('Polaris', function() {
+        // The elevation of Polaris is within a degree from the latitude of the observer.
+        const helsinki : EarthPosition = {lat : 60.1699, lon : 24.9384, h : 0.0};
+        const polaris : StarData = <StarData> Stars.findStar("Polaris");
+
+        for (let hour = 0; hour < 24; hour += 6)
+        {
+            const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(
+                JulianTime.timeJulianYmdhms(2023, 6, 1, hour, 0, 0), TimeConvention.TIME_UTC, false);
+            const osvEfi : OsvFrame = Stars.starEfi(polaris, timeStamp, Nutation.iau1980(timeStamp));
+            const angles : EnuAngles = Frames.coordEnuAzEl(Frames.coordEfiEnu(osvEfi, helsinki));
+
+            assert.ok(Math.abs(angles.el - helsinki.lat) < 1.0);
+            assert.ok(angles.az < 2.0 || angles.az > 358.0);
+        }
+    });
+});
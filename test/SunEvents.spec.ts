@@ -0,0 +1,78 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {SunEvents, SunEventTimes, HorizonState, defaultSunEventConfig} from '../src/SunEvents';
+import {TimeCorrelation} from '../src/computation/TimeCorrelation';
+import {JulianTime} from '../src/computation/JulianTime';
+import {EarthPosition} from '../src/computation/Wgs84';
+
+describe('SunEvents', function() {
+    const sunEvents : SunEvents = new SunEvents(new TimeCorrelation());
+    const oneMinute : number = 1.0 / 1440.0;
+
+    /**
+     * Check that an event time agrees with the expected time.
+     *
+     * @param {number | null} JT
+     *      The event time (Julian time).
+     * @param {string} expected
+     *      The expected time in ISO 8601 format.
+     */
+    function assertTime(JT : number | null, expected : string) : void
+    {
+        assert.notEqual(JT, null);
+        assert.ok(Math.abs(<number> JT - JulianTime.timeJulianIso(expected)) < oneMinute);
+    }
+
+    it('Equinox', function() {
+        const greenwich : EarthPosition = {lat : 51.4779, lon : 0.0, h : 0.0};
+        const events : SunEventTimes = sunEvents.compute(greenwich, JulianTime.timeJulianYmdhms(2023, 3, 20, 0, 0, 0));
+
+        // The equation of time is about -7.5 minutes.
+        assertTime(events.transit, "2023-03-20T12:07:30");
+        assert.ok(Math.abs(<number> events.transitElevation - (90.0 - 51.4779)) < 0.5);
+        assert.equal(events.sunriseSunset.state, HorizonState.CROSSING);
+        assertTime(events.sunriseSunset.rising, "2023-03-20T06:03:00");
+        assertTime(events.sunriseSunset.setting, "2023-03-20T18:12:00");
+
+        // The upper limb is at the apparent horizon at sunrise.
+        const [el, semiDiameter] = sunEvents.computeSun(greenwich, <number> events.sunriseSunset.rising, undefined);
+        assert.ok(Math.abs(el + semiDiameter + defaultSunEventConfig.refraction) < 1e-3);
+        assert.ok(Math.abs(semiDiameter - 16.06 / 60.0) < 0.01);
+
+        // The twilights are nested.
+        assert.ok(<number> events.astronomical.rising < <number> events.nautical.rising);
+        assert.ok(<number> events.nautical.rising < <number> events.civil.rising);
+        assert.ok(<number> events.civil.rising < <number> events.sunriseSunset.rising);
+        assert.ok(<number> events.civil.setting > <number> events.sunriseSunset.setting);
+        assert.ok(<number> events.astronomical.setting > <number> events.nautical.setting);
+    });
+
+    it('Midsummer', function() {
+        const helsinki : EarthPosition = {lat : 60.1699, lon : 24.9384, h : 0.0};
+        const events : SunEventTimes = sunEvents.compute(helsinki, JulianTime.timeJulianYmdhms(2023, 6, 21, 0, 0, 0));
+
+        assertTime(events.sunriseSunset.rising, "2023-06-21T00:54:00");
+        assertTime(events.sunriseSunset.setting, "2023-06-21T19:50:00");
+        // The Sun is only slightly below -6 degrees around midnight.
+        assert.equal(events.civil.state, HorizonState.CROSSING);
+        assert.equal(events.nautical.state, HorizonState.ALWAYS_ABOVE);
+        assert.equal(events.nautical.rising, null);
+        assert.equal(events.astronomical.state, HorizonState.ALWAYS_ABOVE);
+    });
+
+    it('Polar day and night', function() {
+        const tromso : EarthPosition = {lat : 69.65, lon : 18.96, h : 0.0};
+
+        const summer : SunEventTimes = sunEvents.compute(tromso, JulianTime.timeJulianYmdhms(2023, 6, 21, 0, 0, 0));
+        assert.equal(summer.sunriseSunset.state, HorizonState.ALWAYS_ABOVE);
+        assert.equal(summer.sunriseSunset.rising, null);
+        assert.equal(summer.sunriseSunset.setting, null);
+
+        const winter : SunEventTimes = sunEvents.compute(tromso, JulianTime.timeJulianYmdhms(2023, 12, 21, 0, 0, 0));
+        assert.equal(winter.sunriseSunset.state, HorizonState.ALWAYS_BELOW);
+        assert.ok(<number> winter.transitElevation < 0.0);
+        assert.equal(winter.civil.state, HorizonState.CROSSING);
+        assert.ok(<number> winter.civil.rising < <number> winter.transit);
+        assert.ok(<number> winter.civil.setting > <number> winter.transit);
+    });
+});
@@ -0,0 +1,67 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {JulianTime} from '../src/computation/JulianTime';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+
+describe('TimeCorrelation', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const JTutc : number = JulianTime.timeJulianYmdhms(2006, 1, 15, 21, 24, 37.5);
+    const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(JTutc, TimeConvention.TIME_UTC, false);
+
+    it('Time scales', function() {
+        assert.ok(Math.abs((timeStamp.JTtai - JTutc) * 86400.0 - 33.0) < 1e-4);
+        assert.ok(Math.abs((timeStamp.JTtt - JTutc) * 86400.0 - 65.184) < 1e-4);
+        assert.ok(Math.abs((timeStamp.JTgps - JTutc) * 86400.0 - 14.0) < 1e-4);
+        assert.ok(Math.abs(timeStamp.JTtdb - timeStamp.JTtt) * 86400.0 < 1.7e-3);
+        assert.ok(Math.abs(timeStamp.unix - 1137360277.5) < 1e-4);
+
+        // IAU SOFA iauTttcg example.
+        const JTtcg : number = timeCorrelation.correlationTtTcg(2453750.5 + 0.892482639);
+        assert.ok(Math.abs(JTtcg - 2453750.5 - 0.8924900312508587113) < 1e-9);
+        assert.ok(Math.abs((timeStamp.JTtcb - timeStamp.JTtdb) * 86400.0 - 14.2089) < 1e-3);
+    });
+
+    it('GPS week', function() {
+        const [week, seconds] = TimeCorrelation.gpsWeekSeconds(timeStamp.JTgps);
+
+        assert.equal(week, 1358);
+        assert.ok(Math.abs(seconds - 77091.5) < 1e-4);
+        assert.ok(Math.abs(TimeCorrelation.timeJulianGps(week, seconds) - timeStamp.JTgps) * 86400.0 < 1e-4);
+    });
+
+    it('Round trips', function() {
+        const conventions : [TimeConvention, (timeStamp : TimeStamp) => number, number][] = [
+            [TimeConvention.TIME_TDB, (timeStamp) => timeStamp.JTtdb, 86400.0],
+            [TimeConvention.TIME_UT1, (timeStamp) => timeStamp.JTut1, 86400.0],
+            [TimeConvention.TIME_UTC, (timeStamp) => timeStamp.JTutc, 86400.0],
+            [TimeConvention.TIME_TAI, (timeStamp) => timeStamp.JTtai, 86400.0],
+            [TimeConvention.TIME_TT,  (timeStamp) => timeStamp.JTtt,  86400.0],
+            [TimeConvention.TIME_GPS, (timeStamp) => timeStamp.JTgps, 86400.0],
+            [TimeConvention.TIME_TCG, (timeStamp) => timeStamp.JTtcg, 86400.0],
+            [TimeConvention.TIME_TCB, (timeStamp) => timeStamp.JTtcb, 86400.0],
+            [TimeConvention.TIME_UNIX, (timeStamp) => timeStamp.unix, 1.0]
+        ];
+
+        for (let JTstart of [2444244.5, JTutc, 2460000.25])
+        {
+            const timeStampStart : TimeStamp = timeCorrelation.computeTimeStamp(JTstart, TimeConvention.TIME_UTC, false);
+
+            for (let [conventionFrom, getFrom, scaleFrom] of conventions)
+            {
+                const timeStampFrom : TimeStamp = timeCorrelation.computeTimeStamp(
+                    getFrom(timeStampStart), conventionFrom, false);
+
+                for (let [conventionTo, getTo, scaleTo] of conventions)
+                {
+                    const timeStampTo : TimeStamp = timeCorrelation.computeTimeStamp(
+                        getTo(timeStampFrom), conventionTo, false);
+
+                    // Seconds.
+                    const diff : number = (getFrom(timeStampTo) - getFrom(timeStampStart)) * scaleFrom;
+                    assert.ok(Math.abs(diff) < 1e-4, conventionFrom + " " + conventionTo + " " + diff);
+                    assert.ok(Math.abs(getTo(timeStampTo) - getTo(timeStampStart)) * scaleTo < 1e-4);
+                }
+            }
+        }
+    });
+});
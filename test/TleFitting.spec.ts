@@ -0,0 +1,97 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Tle} from '../src/Tle';
+import {Sgp4Propagation} from '../src/TlePropagators';
+import {TleFitting, TleFitResult, defaultTleFitConfig} from '../src/TleFitting';
+import {TimeCorrelation} from '../src/computation/TimeCorrelation';
+import {Frames, OsvFrame} from '../src/computation/Frames';
+import {Nutation} from '../src/computation/Nutation';
+
+describe('TleFitting', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const tleLines : string[] = [
+        "ISS (ZARYA)",
+        "1 25544U 98067A   23150.59480490  .00014103  00000+0  25483-3 0  9996",
+        "2 25544  51.6409 102.9576 0005346  16.9389 113.8447 15.50067237399461"
+    ];
+    const tle : Tle = Tle.fromLines(tleLines);
+    const sgp4 : Sgp4Propagation = new Sgp4Propagation(tle, timeCorrelation);
+    sgp4.initialize();
+
+    // Observations over one orbit with a step of 5 minutes.
+    const observations : OsvFrame[] = [];
+    for (let tSince = 0; tSince <= 95; tSince += 5)
+    {
+        observations.push(sgp4.compute(tSince));
+    }
+
+    it('Perturbed initial TLE', function() {
+        const tleInitial : Tle = Tle.fromLines(tleLines);
+        tleInitial.meanMotion += 0.001;
+        tleInitial.inclination += 0.05;
+        tleInitial.raAscNode -= 0.05;
+        tleInitial.meanAnomaly += 0.5;
+
+        const result : TleFitResult = TleFitting.fit(observations, timeCorrelation,
+            defaultTleFitConfig, tleInitial);
+
+        assert.ok(result.converged);
+        assert.ok(!result.stalled);
+        assert.equal(result.residuals.length, observations.length);
+        assert.ok(result.rmsPosition < 1.0);
+        assert.ok(result.maxPosition < 2.0);
+        assert.ok(Math.abs(result.tle.meanMotion - tle.meanMotion) < 1e-6);
+        assert.ok(Math.abs(result.tle.inclination - tle.inclination) < 1e-4);
+
+        const lines : string[] = result.tle.toLines();
+        assert.equal(lines[1].substring(0, 24), tleLines[1].substring(0, 24));
+        assert.ok(Tle.fromLines(lines).checkSumValid);
+    });
+
+    it('J2000 observations without initial TLE', function() {
+        const observationsJ2000 : OsvFrame[] = observations.map((osv) =>
+            Frames.coordTemeJ2000(osv, Nutation.iau1980(osv.timeStamp)));
+
+        const result : TleFitResult = TleFitting.fit(observationsJ2000, timeCorrelation,
+            {...defaultTleFitConfig, velocityWeight : 100.0});
+
+        assert.ok(result.converged);
+        assert.ok(result.rmsPosition < 10.0);
+        assert.ok(result.rmsVelocity < 0.01);
+        assert.equal(result.tle.jtUt1Epoch, observations[0].timeStamp.JTut1);
+        assert.ok(Math.abs(result.tle.eccentricity - tle.eccentricity) < 1e-5);
+    });
+
+    it('Stalled iteration', function() {
+        // Without a tolerance, the iteration continues until the steps no longer 
+        // decrease the residuals.
+        const result : TleFitResult = TleFitting.fit(observations, timeCorrelation,
+            {...defaultTleFitConfig, tolerance : 0.0, maxIterations : 100}, Tle.fromLines(tleLines));
+
+        assert.ok(!result.converged);
+        assert.ok(result.stalled);
+        assert.ok(result.iterations < 100);
+        assert.ok(result.rmsPosition < 1.0);
+    });
+
+    it('Decaying orbit', function() {
+        // With the large drag term, SGP4 fails after 52059.5 minutes and already after
+        // 52058.8 minutes with the increased drag term of the Jacobian.
+        const tleDecay : Tle = Tle.fromLines(tleLines);
+        tleDecay.dragTerm = 0.01;
+        const sgp4Decay : Sgp4Propagation = new Sgp4Propagation(tleDecay, timeCorrelation);
+        sgp4Decay.initialize();
+
+        const observationsDecay : OsvFrame[] = [];
+        for (let tSince = 51964.0; tSince <= 52059.0; tSince += 5)
+        {
+            observationsDecay.push(sgp4Decay.compute(tSince));
+        }
+
+        const result : TleFitResult = TleFitting.fit(observationsDecay, timeCorrelation,
+            {...defaultTleFitConfig, fitBstar : true}, tleDecay);
+
+        assert.ok(result.rmsPosition < 1.0);
+        assert.ok(Math.abs(result.tle.dragTerm - tleDecay.dragTerm) < 1e-6);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,122 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Tle} from '../src/Tle';
+import {Sgp4Propagation, Sgp4Error, Sgp4ErrorCode} from '../src/TlePropagators';
+import {TimeCorrelation} from '../src/computation/TimeCorrelation';
+import {OsvFrame} from '../src/computation/Frames';
+
+/**
+ * Check the position (km) and velocity (km/s) of an OSV against reference values.
+ *
+ * @param {OsvFrame} osv
+ *      The OSV with position and velocity in meters and meters per second.
+ * @param {number[]} rExp
+ *      The expected position in kilometers.
+ * @param {number[]} vExp
+ *      The expected velocity in kilometers per second.
+ */
+function checkOsv(osv : OsvFrame, rExp : number[], vExp : number[])
+{
+    for (let ind = 0; ind < 3; ind++)
+    {
+        assert.ok(Math.abs(osv.position[ind] / 1000.0 - rExp[ind]) < 1e-3);
+        assert.ok(Math.abs(osv.velocity[ind] / 1000.0 - vExp[ind]) < 1e-6);
+    }
+}
+
+describe('Sgp4Propagation', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+
+    it('Near-Earth', function() {
+        const tle : Tle = Tle.fromLines([
+            "00005",
+            "1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753",
+            "2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667"
+        ]);
+        const sgp4 : Sgp4Propagation = new Sgp4Propagation(tle, timeCorrelation);
+        sgp4.initialize();
+
+        assert.equal(sgp4.isDeepSpace, false);
+        checkOsv(sgp4.compute(0.0),
+            [7022.46529266, -1400.08296755, 0.03995155],
+            [1.893841015, 6.405893759, 4.534807250]);
+        checkOsv(sgp4.compute(1440.0),
+            [-938.55923943, -6268.18748831, -4294.02924751],
+            [7.536105209, -0.427127707, 0.989878080]);
+    });
+
+    it('Deep space', function() {
+        const tle : Tle = Tle.fromLines([
+            "11801",
+            "1 11801U          80230.29629788  .01431103  00000-0  14311-1 0    13",
+            "2 11801  46.7916 230.4354 7318036  47.4722  10.4117  2.28537848    13"
+        ]);
+        const sgp4 : Sgp4Propagation = new Sgp4Propagation(tle, timeCorrelation);
+        sgp4.initialize();
+
+        assert.equal(sgp4.isDeepSpace, true);
+        assert.equal(sgp4.resonanceTerms.irez, 0);
+        checkOsv(sgp4.compute(0.0),
+            [7473.37102491, 428.94748312, 5828.74846783],
+            [5.107155391, 6.444680305, -0.186133297]);
+        checkOsv(sgp4.compute(1440.0),
+            [9787.87836256, 33753.32249667, -15030.79874625],
+            [-1.094251553, 0.923589906, -1.522311008]);
+    });
+
+    it('12h resonance', function() {
+        const tle : Tle = Tle.fromLines([
+            "08195",
+            "1 08195U 75081A   06176.33215444  .00000099  00000-0  11873-3 0   813",
+            "2 08195  64.1586 279.0717 6877146 264.7651  20.2257  2.00491383225656"
+        ]);
+        const sgp4 : Sgp4Propagation = new Sgp4Propagation(tle, timeCorrelation);
+        sgp4.initialize();
+
+        assert.equal(sgp4.resonanceTerms.irez, 2);
+        checkOsv(sgp4.compute(0.0),
+            [2349.89483350, -14785.93811562, 0.02119378],
+            [2.721488096, -3.256811655, 4.498416672]);
+        checkOsv(sgp4.compute(4320.0),
+            [3928.67447396, -16569.56876077, 2834.70724886],
+            [2.516241619, -2.315000880, 4.414500571]);
+        // Integrate backwards from the stored resonance state.
+        checkOsv(sgp4.compute(1440.0),
+            [2890.80638268, -15446.43952300, 948.77010176],
+            [2.654407490, -2.909344895, 4.486437362]);
+    });
+
+    it('24h resonance', function() {
+        const tle : Tle = Tle.fromLines([
+            "28626",
+            "1 28626U 05008A   06176.46683397 -.00000205  00000-0  10000-3 0  2190",
+            "2 28626   0.0019 286.9433 0000335  13.7918  55.6504  1.00270176  4862"
+        ]);
+        const sgp4 : Sgp4Propagation = new Sgp4Propagation(tle, timeCorrelation);
+        sgp4.initialize();
+
+        assert.equal(sgp4.resonanceTerms.irez, 1);
+        checkOsv(sgp4.compute(0.0),
+            [42080.71852213, -2646.86387436, 0.81851294],
+            [0.193105177, 3.068688251, 0.000438449]);
+        checkOsv(sgp4.compute(1440.0),
+            [42119.96263499, -1925.77567263, -0.19827433],
+            [0.140521206, 3.071541613, 0.000179561]);
+    });
+
+    it('Errors', function() {
+        // Low orbit with a very large drag term.
+        const tle : Tle = Tle.fromLines([
+            "33333",
+            "1 33333U 05037B   05333.02012661  .25992681  00000-0  50000-0 0  1534",
+            "2 33333  96.4736 157.9986 0102984  70.6339 290.8027 15.99998823    16"
+        ]);
+        const sgp4 : Sgp4Propagation = new Sgp4Propagation(tle, timeCorrelation);
+        sgp4.initialize();
+
+        sgp4.compute(0.0);
+        assert.throws(() => sgp4.compute(1000.0), (err : Error) => {
+            return err instanceof Sgp4Error && err.code == Sgp4ErrorCode.ECCENTRICITY_RANGE;
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Tle} from '../src/Tle';
+import {Propagation} from '../src/Propagation';
+import {PassPredictor, Pass} from '../src/Passes';
+import {Tracking, TrackingPoint, defaultTrackingConfig} from '../src/Tracking';
+import {Dataset} from '../src/viewTargets/Dataset';
+import {TimeCorrelation} from '../src/computation/TimeCorrelation';
+import {EarthPosition} from '../src/computation/Wgs84';
+
+describe('Tracking', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const tle : Tle = Tle.fromLines([
+        "ISS (ZARYA)",
+        "1 25544U 98067A   23150.59480556  .00010989  00000-0  20253-3 0  9995",
+        "2 25544  51.6407  81.1133 0005418  37.4583 105.5339 15.49869634399266"
+    ]);
+    const dataset : Dataset = new Dataset("OBJECT_ID");
+    dataset.addFleet("default");
+    dataset.addTle(tle, "default");
+    const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+    propagation.init();
+    const targetName : string = Object.keys(propagation.getPropagationData())[0];
+    const earthPos : EarthPosition = {lat : 60.1699, lon : 24.9384, h : 0.0};
+
+    it('Doppler', function() {
+        // Approaching target increases the received frequency.
+        assert.ok(Tracking.dopplerDownlink(437e6, -7000.0) > 437e6);
+        assert.ok(Tracking.dopplerUplink(145e6, -7000.0) < 145e6);
+        assert.ok(Math.abs(Tracking.dopplerDownlink(437e6, 7000.0) - 437e6 * (1 - 7000.0 / 299792458.0)) < 1.0);
+    });
+
+    it('Pass', function() {
+        const predictor : PassPredictor = new PassPredictor(propagation);
+        const pass : Pass = predictor.predict(targetName, earthPos, tle.jtUt1Epoch, tle.jtUt1Epoch + 1.0)
+            .filter((pass) => !pass.partial)[0];
+        const tracking : Tracking = new Tracking(propagation, {...defaultTrackingConfig, elevationMask : 0.0});
+        const points : TrackingPoint[] = tracking.compute(targetName, earthPos, pass.aos.JT, pass.los.JT);
+
+        assert.ok(points.length > 60);
+        assert.ok(points.every((point) => point.el >= 0.0));
+        assert.ok(points[0].rangeRate < 0.0 && points[points.length - 1].rangeRate > 0.0);
+        assert.ok(points[0].downlinkFrequency > defaultTrackingConfig.downlinkFrequency);
+        assert.ok(points[points.length - 1].downlinkFrequency < defaultTrackingConfig.downlinkFrequency);
+
+        // The range-rate agrees with the differences of the range with the step of one second.
+        for (let indPoint = 1; indPoint < points.length - 1; indPoint++)
+        {
+            const rangeRate : number = 0.5 * (points[indPoint + 1].range - points[indPoint - 1].range);
+            assert.ok(Math.abs(points[indPoint].rangeRate - rangeRate) < 1.0);
+        }
+
+        const lines : string[] = Tracking.toCsv(points).trim().split("\n");
+        assert.equal(lines.length, points.length + 1);
+        assert.equal(lines[0], "TIME_UTC,AZ,EL,AZ_RATE,EL_RATE,RANGE,RANGE_RATE,DOWNLINK,UPLINK");
+        assert.equal(lines[1].split(",").length, 9);
+    });
+});
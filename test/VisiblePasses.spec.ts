@@ -0,0 +1,103 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Tle} from '../src/Tle';
+import {Propagation} from '../src/Propagation';
+import {VisiblePassPredictor, VisiblePass, Twilight, defaultVisiblePassConfig} from '../src/VisiblePasses';
+import {Eclipses, IlluminationState} from '../src/Eclipses';
+import {Dataset} from '../src/viewTargets/Dataset';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+import {Frames, OsvFrame} from '../src/computation/Frames';
+import {Nutation, NutationData} from '../src/computation/Nutation';
+import {EarthPosition} from '../src/computation/Wgs84';
+
+describe('VisiblePassPredictor', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+    const tle : Tle = Tle.fromLines([
+        "ISS (ZARYA)",
+        "1 25544U 98067A   23150.59480556  .00010989  00000-0  20253-3 0  9995",
+        "2 25544  51.6407  81.1133 0005418  37.4583 105.5339 15.49869634399266"
+    ]);
+    const dataset : Dataset = new Dataset("OBJECT_ID");
+    dataset.addFleet("default");
+    dataset.getFleet("default").addTarget({...tle.toJson(), "STD_MAG" : -1.3});
+    const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+    propagation.init();
+    const targetName : string = Object.keys(propagation.getPropagationData())[0];
+    const earthPos : EarthPosition = {lat : 40.4, lon : -3.7, h : 0.0};
+
+    it('Magnitude', function() {
+        assert.ok(Math.abs(VisiblePassPredictor.phaseFunction(0.0) - 1.0) < 1e-12);
+        assert.ok(Math.abs(VisiblePassPredictor.phaseFunction(180.0)) < 1e-12);
+        assert.ok(Math.abs(VisiblePassPredictor.visualMagnitude(-1.3, 90.0, 1.0e6, 90.0) + 1.3) < 1e-12);
+        assert.ok(Math.abs(VisiblePassPredictor.visualMagnitude(-1.3, 90.0, 2.0e6, 90.0)
+            - (-1.3 + 5.0 * Math.log10(2.0))) < 1e-12);
+        // Smaller phase angle means that a larger part of the illuminated side is visible.
+        assert.ok(VisiblePassPredictor.visualMagnitude(-1.3, 90.0, 1.0e6, 30.0) < -1.3);
+        assert.equal(VisiblePassPredictor.sunElevationLimit(Twilight.NAUTICAL), -12.0);
+    });
+
+    it('Visible passes', function() {
+        const predictor : VisiblePassPredictor = new VisiblePassPredictor(propagation);
+        const visiblePasses : VisiblePass[] = predictor.predict(targetName, earthPos,
+            tle.jtUt1Epoch, tle.jtUt1Epoch + 2.0);
+        const oneSecond : number = 1.0 / 86400.0;
+
+        assert.equal(visiblePasses.length, 4);
+
+        for (let indPass = 0; indPass < visiblePasses.length; indPass++)
+        {
+            const visiblePass : VisiblePass = visiblePasses[indPass];
+            assert.ok(visiblePass.start.JT >= visiblePass.pass.aos.JT);
+            assert.ok(visiblePass.end.JT <= visiblePass.pass.los.JT);
+            assert.ok(visiblePass.max.el >= defaultVisiblePassConfig.elevationMask);
+            assert.ok(visiblePass.brightestMagnitude <= visiblePass.max.magnitude);
+            assert.ok(visiblePass.brightestMagnitude > -4.0 && visiblePass.brightestMagnitude < 1.0);
+
+            // Check the conditions independently in the middle of the visible pass.
+            const JT : number = 0.5 * (visiblePass.start.JT + visiblePass.end.JT);
+            const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(JT, TimeConvention.TIME_UT1, false);
+            const nutation : NutationData = Nutation.iau1980(timeStamp);
+            const osvEfiSun : OsvFrame = Eclipses.computeSunEfi(timeStamp, nutation);
+            const osvEfi : OsvFrame = <OsvFrame> propagation.propagateOneEfi(targetName, JT, nutation);
+            assert.ok(Frames.coordEnuAzEl(Frames.coordEfiEnu(osvEfiSun, earthPos)).el < -6.0);
+            assert.notEqual(Eclipses.illuminationState(
+                Eclipses.shadowGeometry(osvEfi.position, osvEfiSun.position, true)), IlluminationState.UMBRA);
+
+            // The end of a visible pass before LOS is caused by the Earth shadow.
+            if (visiblePass.end.JT < visiblePass.pass.los.JT - oneSecond)
+            {
+                const JTafter : number = visiblePass.end.JT + oneSecond;
+                const timeStampAfter : TimeStamp = timeCorrelation.computeTimeStamp(JTafter,
+                    TimeConvention.TIME_UT1, false);
+                const osvEfiAfter : OsvFrame = <OsvFrame> propagation.propagateOneEfi(targetName,
+                    JTafter, nutation);
+                const osvEfiSunAfter : OsvFrame = Eclipses.computeSunEfi(timeStampAfter, nutation);
+                assert.equal(Eclipses.illuminationState(Eclipses.shadowGeometry(osvEfiAfter.position,
+                    osvEfiSunAfter.position, true)), IlluminationState.UMBRA);
+            }
+        }
+
+        // Only the brightest pass exceeds magnitude -3.
+        const predictorBright : VisiblePassPredictor = new VisiblePassPredictor(propagation,
+            {...defaultVisiblePassConfig, magnitudeLimit : -3.0});
+        assert.equal(predictorBright.predict(targetName, earthPos, tle.jtUt1Epoch, tle.jtUt1Epoch + 2.0).length, 1);
+    });
+
+    it('Visibility starting shortly before LOS', function() {
+        // The sky gets dark enough at the observer only near the end of the pass.
+        const earthPosWest : EarthPosition = {lat : 40.4, lon : -5.95, h : 0.0};
+        const JTstart : number = tle.jtUt1Epoch + 0.2;
+        const JTend : number = tle.jtUt1Epoch + 0.3;
+        const visiblePasses : VisiblePass[] = new VisiblePassPredictor(propagation).predict(
+            targetName, earthPosWest, JTstart, JTend);
+        assert.equal(visiblePasses.length, 1);
+        assert.ok(visiblePasses[0].start.JT > visiblePasses[0].pass.tca.JT);
+
+        // With the long time step, the start of the visibility is between the last two samples.
+        const visiblePassesCoarse : VisiblePass[] = new VisiblePassPredictor(propagation,
+            {...defaultVisiblePassConfig, timeStep : 120.0}).predict(targetName, earthPosWest, JTstart, JTend);
+        assert.equal(visiblePassesCoarse.length, 1);
+        assert.ok(Math.abs(visiblePassesCoarse[0].start.JT - visiblePasses[0].start.JT) * 86400.0 < 0.1);
+        assert.equal(visiblePassesCoarse[0].end.JT, visiblePassesCoarse[0].pass.los.JT);
+    });
+});
@@ -0,0 +1,34 @@
+import 'mocha';
+import {strict as assert} from 'assert';
+import {Vsop87A} from '../src/computation/Vsop87A';
+import {Frames, OsvFrame} from '../src/computation/Frames';
+import {MathUtils} from '../src/computation/MathUtils';
+import {Nutation} from '../src/computation/Nutation';
+import {TimeConvention, TimeCorrelation, TimeStamp} from '../src/computation/TimeCorrelation';
+
+describe('Vsop87A', function() {
+    const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+
+    it('Planets', function() {
+        assert.deepEqual(Vsop87A.planetNames(), 
+            ["mercury", "venus", "earth", "mars", "jupiter", "saturn", "uranus", "neptune"]);
+    });
+
+    it('Geocentric position of Venus', function() {
+        // Example 33.a from Meeus - Astronomical Algorithms. The expected values are
+        // apparent, which differ from the geometric position by the light-time and the
+        // aberration.
+        const timeStamp : TimeStamp = timeCorrelation.computeTimeStamp(2448976.5, TimeConvention.TIME_TDB, false);
+        const osvHelEarth : OsvFrame = Vsop87A.planetHeliocentric("earth", timeStamp);
+        const osvHelVenus : OsvFrame = Vsop87A.planetHeliocentric("venus", timeStamp);
+        const osvJ2000 : OsvFrame = Frames.coordEclEq(Frames.coordHelEcl(osvHelVenus, osvHelEarth));
+        const osvToD : OsvFrame = Frames.coordModTod(Frames.coordJ2000Mod(osvJ2000), Nutation.iau1980(timeStamp));
+        const r : number[] = osvToD.position;
+
+        const ra : number = MathUtils.atan2d(r[1], r[0]) + 360.0;
+        const dec : number = MathUtils.asind(r[2] / MathUtils.norm(r));
+        assert.ok(Math.abs(ra - 15.0 * (21.0 + 4.0 / 60.0 + 41.454 / 3600.0)) < 0.01);
+        assert.ok(Math.abs(dec + 18.0 + 53.0 / 60.0 + 16.84 / 3600.0) < 0.01);
+        assert.ok(Math.abs(MathUtils.norm(r) / 149597870700.0 - 0.910845) < 1e-5);
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * Benchmark of propagateAll against propagateBatch for a synthetic catalog of TLEs.
+ * Both include the conversion to WGS84 coordinates.
+ * Run with "npm run benchmark [-- numTargets]".
+ */
+import {Tle} from '../../src/Tle';
+import {Propagation, PropagationBatch} from '../../src/Propagation';
+import {Dataset} from '../../src/viewTargets/Dataset';
+import {TargetInfo} from '../../src/viewTargets/Target';
+import {TimeCorrelation} from '../../src/computation/TimeCorrelation';
+import {Wgs84} from '../../src/computation/Wgs84';
+
+const numTargets : number = Number(process.argv[2] || 25000);
+const numEpochs : number = 5;
+
+const timeCorrelation : TimeCorrelation = new TimeCorrelation();
+const tle : Tle = Tle.fromLines([
+    "ISS (ZARYA)",
+    "1 25544U 98067A   23150.59480556  .00010989  00000-0  20253-3 0  9995",
+    "2 25544  51.6407  81.1133 0005418  37.4583 105.5339 15.49869634399266"
+]);
+
+// Spread the targets over the node and the mean anomaly.
+const dataset : Dataset = new Dataset("OBJECT_ID");
+dataset.addFleet("default");
+for (let indTarget = 0; indTarget < numTargets; indTarget++)
+{
+    const json : TargetInfo = tle.toJson();
+    json["OBJECT_ID"] = "BENCH-" + indTarget;
+    json["RA_OF_ASC_NODE"] = (indTarget * 7.3) % 360.0;
+    json["MEAN_ANOMALY"] = (indTarget * 13.7) % 360.0;
+    dataset.getFleet("default").addTarget(json);
+}
+
+const propagation : Propagation = new Propagation(dataset, timeCorrelation);
+propagation.init();
+const batch : PropagationBatch = propagation.createBatch();
+
+/**
+ * Measure the average duration of a function over the epochs.
+ *
+ * @param {Function} func
+ *      Function of the Julian time.
+ * @returns {number} The average duration (milliseconds).
+ */
+function measure(func : (JT : number) => void) : number
+{
+    const timeStart : number = Date.now();
+
+    for (let indEpoch = 0; indEpoch < numEpochs; indEpoch++)
+    {
+        func(tle.jtUt1Epoch + indEpoch / 1440.0);
+    }
+
+    return (Date.now() - timeStart) / numEpochs;
+}
+
+// Warm up both code paths before the measurement.
+propagation.propagateAll(tle.jtUt1Epoch, undefined);
+propagation.propagateBatch(tle.jtUt1Epoch, batch, undefined);
+
+// The map view converts each OSV from propagateAll to WGS84 coordinates.
+const durationAll : number = measure((JT) => {
+    const propData = propagation.propagateAll(JT, undefined);
+    for (const targetName in propData)
+    {
+        Wgs84.coordEfiWgs84(propData[targetName].position, 10, 1e-10, false);
+    }
+});
+const durationBatch : number = measure((JT) => propagation.propagateBatch(JT, batch, undefined));
+
+console.log("Targets:        " + numTargets);
+console.log("propagateAll:   " + durationAll.toFixed(1) + " ms");
+console.log("propagateBatch: " + durationBatch.toFixed(1) + " ms");
+console.log("Speedup:        " + (durationAll / durationBatch).toFixed(2));